@@ -7,6 +7,19 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Stable per-browser ID. The server queues model calls fairly per client when a
+// provider is saturated, so every model request should send it (X-Client-Id).
+const CLIENT_ID_KEY = "ephor-client-id";
+
+export function getClientId(): string {
+  let clientId = localStorage.getItem(CLIENT_ID_KEY);
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, clientId);
+  }
+  return clientId;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -15,7 +28,10 @@ export async function apiRequest(
   try {
     const res = await fetch(url, {
       method,
-      headers: data ? { "Content-Type": "application/json" } : {},
+      headers: {
+        ...(data ? { "Content-Type": "application/json" } : {}),
+        "X-Client-Id": getClientId(),
+      },
       body: data ? JSON.stringify(data) : undefined,
       credentials: "include",
     });
@@ -1,6 +1,7 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { Progress } from "@/components/ui/progress";
@@ -29,8 +30,11 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { Play, Loader2, Lock, Zap, Clock, DollarSign, Brain, Info, CheckCircle2, XCircle, Target, TrendingUp, AlertTriangle, Users, Trophy, MessageSquare, Bookmark, Library, Trash2, RefreshCw, Flag, ShieldAlert, FileText, Image, BarChart3, Code2, ChevronDown, ChevronUp, Cpu, Database, Settings, Shield, Layers, Plus, Paperclip, X, File, Search } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { Play, Loader2, Lock, Zap, Clock, DollarSign, Brain, Info, CheckCircle2, XCircle, Target, TrendingUp, AlertTriangle, Users, Trophy, MessageSquare, Bookmark, Library, Trash2, RefreshCw, Flag, ShieldAlert, FileText, Image, BarChart3, Code2, ChevronDown, ChevronUp, Cpu, Database, Settings, Shield, Layers, Plus, Paperclip, X, File, Search, Square, Braces, Wrench, Scissors, History, ClipboardCheck, ListChecks, Upload, Download } from "lucide-react";
+import { apiRequest, getClientId } from "@/lib/queryClient";
+import { countGaugeTokens, DEFAULT_TOKENIZER_FAMILY, TOKENIZER_LABELS, type UsageSource } from "@shared/tokenizer";
+import { getCatalogEntry, supportsImageInput } from "@shared/models";
+import type { BenchmarkSettings, CodeLanguage, ContextTruncation, GradeResult, GraderConfig, GraderType, JsonSchema, LeaderboardResult, MockTool, ModelCallAttempt, ModelResponseData, ProviderStatusResponse, SamplingParams, SchemaCompliance, StructuredOutputCheck, SuiteCase, SuiteScorecard, ToolRunResult, TrialDistribution, TrialStats } from "@shared/schema";
 
 interface TechnicalProfile {
   architecture: {
@@ -78,8 +82,95 @@ interface ModelResponse {
   latency: number | null;
   cost: number | null;
   progress: number;
+  usageSource?: UsageSource; // "estimated" when the provider didn't report token usage
+  outputTokens?: number;     // Answer + reasoning tokens
+  reasoningTokens?: number;  // Part of outputTokens the model spent thinking
+  reasoningCost?: number;    // Part of cost spent thinking
+  reasoningCount?: number;   // Live count of reasoning deltas while the model thinks
+  servedBy?: string;         // Catalog ID that answered - differs from the column's model after a fallback
+  attempts?: ModelCallAttempt[];
+  retryNotice?: string;      // Shown while a retry / host fallback is in progress
+  queuePosition?: number;    // Place in the provider's queue while waiting for a slot
+  cancelled?: boolean;       // Stopped by the user - content, latency and cost are partial
+  structured?: StructuredOutputCheck; // Schema compliance, for structured-output runs
+  toolRun?: ToolRunResult;   // Tool calls and score, for tool-calling runs
+  priceVersion?: string;     // Price version the server computed `cost` with
+  truncation?: ContextTruncation; // Input the server cut to fit the selected context window
+  ttft?: number;             // Milliseconds to the first answer token
+  trialNotice?: string;      // Shown while repeated trials are in progress
+  trials?: TrialStats;       // Spread over repeated trials; the other fields are the last trial's
+  grade?: GradeResult;       // Checked against the reference answer
+  gradeError?: string;       // The grader (rubric judge) failed
 }
 
+const TRIAL_OPTIONS = [1, 3, 5, 10];
+
+// Starting point for the tool-calling test: mock tools with canned results
+const DEFAULT_MOCK_TOOLS = JSON.stringify([
+  {
+    name: "get_weather",
+    description: "Get the current weather for a city",
+    parameters: {
+      type: "object",
+      properties: {
+        city: { type: "string" },
+        unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+      },
+      required: ["city"],
+    },
+    returns: { city: "Paris", temperature: 18, unit: "celsius", conditions: "light rain" },
+  },
+  {
+    name: "convert_currency",
+    description: "Convert an amount of money between currencies",
+    parameters: {
+      type: "object",
+      properties: {
+        amount: { type: "number" },
+        from: { type: "string" },
+        to: { type: "string" },
+      },
+      required: ["amount", "from", "to"],
+    },
+    returns: { amount: 108.4, currency: "USD" },
+  },
+], null, 2);
+
+// Starting point for the structured-output test; students can edit it
+const DEFAULT_RESPONSE_SCHEMA = JSON.stringify({
+  type: "object",
+  properties: {
+    answer: { type: "string" },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    keyPoints: { type: "array", items: { type: "string" }, minItems: 1, maxItems: 3 },
+  },
+  required: ["answer", "confidence", "keyPoints"],
+  additionalProperties: false,
+}, null, 2);
+
+const COMPLIANCE_LABELS: Record<SchemaCompliance, { label: string; color: string }> = {
+  valid: { label: "Valid", color: "text-emerald-600" },
+  repaired: { label: "Repaired", color: "text-amber-600" },
+  invalid: { label: "Invalid", color: "text-red-600" },
+  unparseable: { label: "No JSON", color: "text-red-600" },
+};
+
+const STRUCTURED_MODE_LABELS: Record<StructuredOutputCheck["mode"], string> = {
+  json_schema: "enforced by the provider (constrained decoding)",
+  json_object: "provider JSON mode - valid JSON, schema not enforced",
+  tool: "forced tool call",
+  prompt: "instructions only",
+};
+
+const GRADER_LABELS: Record<GraderType, { label: string; placeholder: string }> = {
+  exact: { label: "Exact match", placeholder: "e.g. Paris" },
+  regex: { label: "Regex", placeholder: "e.g. \\b(5 cents|\\$0\\.05)\\b" },
+  numeric: { label: "Number", placeholder: "e.g. 0.05" },
+  keywords: { label: "All keywords", placeholder: "comma-separated, e.g. tortoise, hare, O(1)" },
+  rubric: { label: "LLM judge rubric", placeholder: "What a correct answer must get right" },
+  code: { label: "Unit tests", placeholder: "Tests that call the answer's code, e.g.\nassert longest_palindrome(\"cbbd\") == \"bb\"" },
+};
+
 const COLUMNS = ["8B", "14B", "32B", "72B", "685B", "Frontier"] as const;
 
 const NON_REASONING_MODELS: Record<string, Model> = {
@@ -521,6 +612,37 @@ const MODEL_ALTERNATIVES: Record<string, Model[]> = {
   ],
 };
 
+// How often the grid re-checks provider health (GET /api/providers/status)
+const PROVIDER_STATUS_REFRESH_MS = 30000;
+
+// Models discovered on the self-hosted OpenAI-compatible server (GET /api/local-models)
+interface LocalModelInfo {
+  id: string;
+  upstreamId: string;
+  displayName: string;
+  band: string;
+  contextLength: number;
+}
+
+// Local models run on a CPU box: free, slow, and without published benchmarks
+const buildLocalModel = (info: LocalModelInfo): Model => ({
+  id: info.id,
+  name: info.displayName,
+  costPer1k: 0,
+  expectedLatency: "slow",
+  reasoningDepth: "none",
+  expectedAccuracy: "basic",
+  benchmarks: {},
+  modality: "text",
+  technical: {
+    architecture: { type: "Dense Transformer", attention: "Unknown", parameters: info.band },
+    training: { dataDate: "Unknown", dataSources: ["Unknown"] },
+    finetuning: { method: "Instruct" },
+    inference: { precision: "INT4", optimizations: ["Self-hosted", `${info.contextLength.toLocaleString()} token context`] },
+    safety: { aligned: true, methods: ["Unknown"] }
+  }
+});
+
 // Baseline for relative delta display (4B band / DeepSeek-R1-8B MMLU)
 const BASELINE_MMLU = 72.5;
 
@@ -557,15 +679,72 @@ const CONTEXT_SIZES = [
   { value: "1m", tokens: 1000000, label: "1M" },
 ] as const;
 
-const CHALLENGE_PROMPTS = [
-  "Explain why 0.999... (repeating) equals exactly 1. Provide a rigorous mathematical proof.",
-  "Write a Python function to find the longest palindromic substring in a given string. Explain your approach and time complexity.",
-  "A bat and ball cost $1.10 total. The bat costs $1 more than the ball. How much does the ball cost? Show your reasoning step by step.",
-  "Explain the Monty Hall problem and why switching doors gives you a 2/3 chance of winning. Most people get this wrong!",
-  "Write a recursive function to generate all valid combinations of n pairs of parentheses. Explain the logic.",
-  "A farmer has 17 sheep. All but 9 run away. How many sheep does the farmer have left? Explain your reasoning.",
-  "Explain why the sum of all positive integers (1+2+3+4+...) is sometimes said to equal -1/12. Is this real math?",
-  "Write a function to detect if a linked list has a cycle, using O(1) space. Explain the algorithm.",
+// Each challenge carries a reference answer, so the recommendation is the cheapest correct model
+const CHALLENGE_PROMPTS: { prompt: string; grader: GraderConfig }[] = [
+  {
+    prompt: "Explain why 0.999... (repeating) equals exactly 1. Provide a rigorous mathematical proof.",
+    grader: { type: "rubric", expected: "Concludes that 0.999... equals 1 with a valid argument (e.g. 1/3 = 0.333..., a geometric series limit, or no real number lies between them). Wrong if it says they differ or that 0.999... only approaches 1." },
+  },
+  {
+    prompt: "Write a Python function `longest_palindrome(s)` that returns the longest palindromic substring of a given string. Explain your approach and time complexity.",
+    grader: {
+      type: "code",
+      language: "python",
+      expected: [
+        'assert longest_palindrome("babad") in ("bab", "aba")',
+        'assert longest_palindrome("cbbd") == "bb"',
+        'assert longest_palindrome("a") == "a"',
+        'assert longest_palindrome("forgeeksskeegfor") == "geeksskeeg"',
+      ].join("\n"),
+    },
+  },
+  {
+    prompt: "A bat and ball cost $1.10 total. The bat costs $1 more than the ball. How much does the ball cost? Show your reasoning step by step.",
+    grader: { type: "numeric", expected: "0.05", tolerance: 0.001 },
+  },
+  {
+    prompt: "Explain the Monty Hall problem and why switching doors gives you a 2/3 chance of winning. Most people get this wrong!",
+    grader: { type: "rubric", expected: "Explains that the first pick is right only 1/3 of the time and the host, who knows where the car is, always opens a goat door - so switching wins 2/3 of the time." },
+  },
+  {
+    prompt: "Write a recursive Python function `generate_parentheses(n)` that returns all valid combinations of n pairs of parentheses. Explain the logic.",
+    grader: {
+      type: "code",
+      language: "python",
+      expected: [
+        'assert generate_parentheses(1) == ["()"]',
+        'assert sorted(generate_parentheses(3)) == sorted(["((()))", "(()())", "(())()", "()(())", "()()()"])',
+        'assert len(generate_parentheses(5)) == 42',
+      ].join("\n"),
+    },
+  },
+  {
+    prompt: "A farmer has 17 sheep. All but 9 run away. How many sheep does the farmer have left? Explain your reasoning.",
+    grader: { type: "numeric", expected: "9" },
+  },
+  {
+    prompt: "Explain why the sum of all positive integers (1+2+3+4+...) is sometimes said to equal -1/12. Is this real math?",
+    grader: { type: "rubric", expected: "Says the series diverges as an ordinary sum, and that -1/12 comes from a regularization method (zeta function regularization or Ramanujan summation), not ordinary addition." },
+  },
+  {
+    prompt: "Write a Python function `has_cycle(head)` that detects if a linked list (nodes with a `next` attribute) has a cycle, using O(1) space. Explain the algorithm.",
+    grader: {
+      type: "code",
+      language: "python",
+      expected: [
+        "class _Node:",
+        "    def __init__(self):",
+        "        self.next = None",
+        "nodes = [_Node() for _ in range(5)]",
+        "for a, b in zip(nodes, nodes[1:]):",
+        "    a.next = b",
+        "assert has_cycle(nodes[0]) is False",
+        "nodes[-1].next = nodes[2]",
+        "assert has_cycle(nodes[0]) is True",
+        "assert has_cycle(None) is False",
+      ].join("\n"),
+    },
+  },
 ];
 
 const COLUMN_VISUALS: Record<string, {
@@ -766,6 +945,14 @@ const getCheapestEligibleBand = (
 };
 
 // Uploaded file with token estimation
+// Which dataset field (or {{field}} template) fills each part of a suite case
+interface DatasetMapping {
+  prompt: string;
+  expected: string;
+  grader: string;
+  tags: string;
+}
+
 interface UploadedFile {
   id: string;
   serverId?: string; // Server-side file ID for large files uploaded via multipart
@@ -814,12 +1001,12 @@ const estimateFileTokens = (file: File): Promise<{ tokens: number; preview?: str
       return;
     }
     
-    // Text files (.txt, .md): count characters and estimate tokens
+    // Text files (.txt, .md): run the text through the shared tokenizer
     if (fileType === 'text/plain' || fileType === 'text/markdown' || file.name.endsWith('.md') || file.name.endsWith('.txt')) {
       const reader = new FileReader();
       reader.onload = (e) => {
         const text = e.target?.result as string;
-        const tokens = Math.ceil(text.length / 4); // ~4 chars per token
+        const tokens = countGaugeTokens(text);
         const preview = text.substring(0, 100) + (text.length > 100 ? '...' : '');
         resolve({ tokens, preview, textContent: text });
       };
@@ -845,6 +1032,170 @@ const estimateFileTokens = (file: File): Promise<{ tokens: number; preview?: str
   });
 };
 
+const getHostName = (modelId: string) => getCatalogEntry(modelId)?.displayName || modelId;
+
+// Cost of a stopped run: the provider still bills the prompt plus whatever it generated.
+// The server never gets to send usage, so both sides are our own token counts
+// (cl100k counts, like the gauge; reasoning deltas are roughly one token each).
+const estimatePartialCost = (modelId: string, promptText: string, content: string, reasoningTokens = 0) => {
+  const pricing = getCatalogEntry(modelId.replace(/:online$/, ''))?.pricing;
+  if (!pricing) return 0;
+  const inputTokens = countGaugeTokens(promptText);
+  const outputTokens = countGaugeTokens(content) + reasoningTokens;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+};
+
+// Every try the server made for a column: retries, host fallbacks, and what each cost
+const renderAttemptList = (attempts: ModelCallAttempt[]) => (
+  <ol className="space-y-1 text-[11px]">
+    {attempts.map((attempt, i) => (
+      <li key={i} className="flex items-start gap-1.5">
+        {attempt.ok
+          ? <CheckCircle2 className="w-3 h-3 mt-0.5 text-emerald-500 shrink-0" />
+          : <XCircle className="w-3 h-3 mt-0.5 text-red-500 shrink-0" />}
+        <span>
+          <span className="font-medium">{getHostName(attempt.modelId)}</span>
+          {attempt.attempt > 1 && <span className="text-gray-400"> (try {attempt.attempt})</span>}
+          {" - "}
+          {attempt.ok ? "answered" : attempt.status ? `failed ${attempt.status}` : "failed"}
+          {attempt.waitedMs > 0 && <span className="text-gray-400">, waited {(attempt.waitedMs / 1000).toFixed(1)}s</span>}
+          <span className="font-mono text-gray-500">, ${attempt.cost.toFixed(4)}</span>
+        </span>
+      </li>
+    ))}
+  </ol>
+);
+
+// Latency over repeated trials: the bar reaches the median, the whisker spans fastest to p95.
+// `scale` is the slowest trial of any column, so bars compare across cards.
+const renderLatencyWhisker = (latency: TrialDistribution, scale: number, color: string) => {
+  const percent = (ms: number) => `${scale > 0 ? Math.min((ms / scale) * 100, 100) : 0}%`;
+  return (
+    <div className="relative h-1.5 bg-gray-100 rounded-full">
+      <div className={`absolute inset-y-0 left-0 ${color} rounded-full`} style={{ width: percent(latency.p50) }} />
+      <div className="absolute top-1/2 h-px bg-gray-700" style={{ left: percent(latency.min), width: `calc(${percent(latency.p95)} - ${percent(latency.min)})` }} />
+      <div className="absolute -top-0.5 -bottom-0.5 w-px bg-gray-700" style={{ left: percent(latency.min) }} />
+      <div className="absolute -top-0.5 -bottom-0.5 w-px bg-gray-700" style={{ left: percent(latency.p95) }} />
+    </div>
+  );
+};
+
+const formatSpread = (distribution: TrialDistribution, format: (value: number) => string) =>
+  `${format(distribution.p50)} (p95 ${format(distribution.p95)})`;
+
+// Read a server-sent event stream to the end, handing each `data:` payload to `onEvent`
+const readEventStream = async (response: Response, onEvent: (data: any) => void) => {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("No reader available");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  const handleChunk = (part: string) => {
+    const line = part.trim();
+    if (!line.startsWith("data: ")) return;
+    try {
+      onEvent(JSON.parse(line.slice(6)));
+    } catch (parseErr) {
+      console.warn("[Race] Parse error for SSE chunk:", line.slice(0, 100));
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const parts = buffer.split("\n\n");
+    buffer = parts.pop() || "";
+    parts.forEach(handleChunk);
+  }
+  handleChunk(buffer);
+};
+
+// Per-model totals of a suite or batch run, best first
+const renderScorecardTable = (scorecards: Record<string, SuiteScorecard>) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+          <th className="py-1.5 pr-3 font-medium">Model</th>
+          <th className="py-1.5 pr-3 font-medium text-right">Accuracy</th>
+          <th className="py-1.5 pr-3 font-medium text-right">Total cost</th>
+          <th className="py-1.5 pr-3 font-medium text-right">Mean latency</th>
+          <th className="py-1.5 pr-3 font-medium text-right">Cost / correct</th>
+          <th className="py-1.5 font-medium text-right">Errors</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rankScorecards(scorecards).map(([col, scorecard], index) => (
+          <tr key={col} className="border-b border-gray-100 last:border-0">
+            <td className="py-1.5 pr-3">
+              <span className="font-medium flex items-center gap-1">
+                {index === 0 && <Trophy className="w-3 h-3 text-[#f5a623]" />}
+                {scorecard.modelName}
+              </span>
+              <span className="text-[11px] text-gray-400">{col}</span>
+            </td>
+            <td className="py-1.5 pr-3 text-right font-bold">
+              {scorecard.accuracy !== undefined
+                ? <>{(scorecard.accuracy * 100).toFixed(0)}% <span className="text-[11px] font-normal text-gray-400">({scorecard.correct}/{scorecard.graded})</span></>
+                : <span className="text-gray-400 font-normal">-</span>}
+            </td>
+            <td className="py-1.5 pr-3 text-right font-mono">${scorecard.totalCost.toFixed(4)}</td>
+            <td className="py-1.5 pr-3 text-right">
+              {scorecard.meanLatency !== undefined ? `${(scorecard.meanLatency / 1000).toFixed(2)}s` : "-"}
+            </td>
+            <td className="py-1.5 pr-3 text-right font-mono">
+              {scorecard.costPerCorrect !== undefined ? `$${scorecard.costPerCorrect.toFixed(4)}` : "-"}
+            </td>
+            <td className={`py-1.5 text-right ${scorecard.errors > 0 ? "text-red-600" : "text-gray-400"}`}>{scorecard.errors}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    <p className="text-[11px] text-gray-400 mt-2">
+      Accuracy counts cases with a reference answer; a failed run counts as wrong. Cost per correct answer is the total cost divided by the correct answers.
+    </p>
+  </div>
+);
+
+// {{variables}} in a prompt template (the pattern the server fills in)
+const TEMPLATE_VARIABLE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+const getTemplateVariables = (text: string) =>
+  Array.from(new Set(Array.from(text.matchAll(TEMPLATE_VARIABLE), (match) => match[1])));
+
+// A saved variables table back as CSV text, for the variables box
+const toVariablesCsv = (rows: Record<string, string>[]) => {
+  const columns = Object.keys(rows[0] ?? {});
+  const quote = (text: string) => /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  return [columns.map(quote).join(","), ...rows.map((row) => columns.map((column) => quote(row[column] ?? "")).join(","))].join("\n");
+};
+
+// Column mappings for public dataset files (local copies, one JSON object per line)
+const DATASET_PRESETS: Record<string, { format: "jsonl" | "csv"; mapping: DatasetMapping; defaultGrader: GraderType | ""; answerDelimiter: string }> = {
+  GSM8K: {
+    format: "jsonl",
+    mapping: { prompt: "question", expected: "answer", grader: "", tags: "" },
+    defaultGrader: "numeric",
+    answerDelimiter: "####",
+  },
+  HumanEval: {
+    format: "jsonl",
+    mapping: { prompt: "Complete this Python function:\n{{prompt}}", expected: "{{test}}\ncheck({{entry_point}})", grader: "", tags: "task_id" },
+    defaultGrader: "code",
+    answerDelimiter: "",
+  },
+};
+
+// Best first: most accurate, then cheapest per correct answer (or overall, if none were graded)
+const rankScorecards = (scorecards: Record<string, SuiteScorecard>) =>
+  Object.entries(scorecards).sort(([, a], [, b]) =>
+    (b.accuracy ?? -1) - (a.accuracy ?? -1)
+    || (a.costPerCorrect ?? Infinity) - (b.costPerCorrect ?? Infinity)
+    || a.totalCost - b.totalCost
+  );
+
 export default function ChatPage() {
   const { toast } = useToast();
   const [prompt, setPrompt] = useState("");
@@ -852,6 +1203,8 @@ export default function ChatPage() {
   const [uploadMenuOpen, setUploadMenuOpen] = useState(false);
   const [responses, setResponses] = useState<Record<string, ModelResponse>>({});
   const [isRunning, setIsRunning] = useState(false);
+  // The running race: its stream (Stop All aborts it) and ID (Stop on one column goes through the server)
+  const raceRef = useRef<{ controller: AbortController; raceId?: string } | null>(null);
   const [showResults, setShowResults] = useState(false);
   const [selectedModel, setSelectedModel] = useState<{ col: string; model: Model; response: ModelResponse } | null>(null);
   const [showWhyModal, setShowWhyModal] = useState(false);
@@ -868,9 +1221,91 @@ export default function ChatPage() {
     name: string;
     description: string | null;
     prompt: string;
+    grader: GraderConfig | null;
+    variables: Record<string, string>[] | null;
     createdAt: string;
   }>>([]);
   const [libraryLoading, setLibraryLoading] = useState(false);
+
+  // Run history: every race this browser ran, saved by the server
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [historyRuns, setHistoryRuns] = useState<Array<{
+    id: string;
+    prompt: string;
+    runAt: string;
+    settings: BenchmarkSettings | null;
+    responses: Record<string, ModelResponseData> | null;
+  }>>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [pendingRerun, setPendingRerun] = useState(false);
+
+  // Benchmark suites: named sets of test cases, run together for a scorecard per model
+  const [showSuitesModal, setShowSuitesModal] = useState(false);
+  const [suites, setSuites] = useState<Array<{
+    id: string;
+    name: string;
+    description: string | null;
+    cases: SuiteCase[];
+    createdAt: string;
+  }>>([]);
+  const [suitesLoading, setSuitesLoading] = useState(false);
+  const [suiteName, setSuiteName] = useState("");
+  const [suiteDescription, setSuiteDescription] = useState("");
+  // Cases of the suite being built, each taken from the prompt box with its files and reference answer
+  const [suiteDraftCases, setSuiteDraftCases] = useState<Array<{
+    prompt: string;
+    grader?: GraderConfig;
+    fileIds?: string[];
+    files?: { type: string; mimeType: string; name: string; textContent?: string }[];
+    fileNames: string[];
+  }>>([]);
+  // The scorecard on show: a suite run in progress, or a past one
+  const [suiteRun, setSuiteRun] = useState<{
+    suiteName: string;
+    running: boolean;
+    caseIndex: number;
+    cases: number;
+    runAt?: string;
+    scorecards?: Record<string, SuiteScorecard>;
+  } | null>(null);
+  const [suitePastRuns, setSuitePastRuns] = useState<{
+    suiteId: string;
+    runs: Array<{ id: string; runAt: string; scorecards: Record<string, SuiteScorecard> | null }>;
+  } | null>(null);
+  const suiteRaceRef = useRef<AbortController | null>(null);
+  // Dataset import: a JSONL or CSV file, how its fields map onto cases, and the server's preview
+  const [datasetImport, setDatasetImport] = useState<{
+    fileName: string;
+    text: string;
+    name: string;
+    format: "jsonl" | "csv";
+    mapping: DatasetMapping;
+    defaultGrader: GraderType | "";
+    language: CodeLanguage;
+    answerDelimiter: string;
+    limit: string;
+    skipInvalid: boolean;
+  } | null>(null);
+  const [datasetPreview, setDatasetPreview] = useState<{
+    fields: string[];
+    total: number;
+    valid: number;
+    rows: Array<{ line: number; case?: SuiteCase; error?: string }>;
+    errors: Array<{ line: number; case?: SuiteCase; error?: string }>;  // The first invalid rows, wherever they are
+  } | null>(null);
+  const [datasetBusy, setDatasetBusy] = useState(false);
+
+  // Prompt templates: with {{variables}} in the prompt, a run becomes a batch - one prompt
+  // per row of the variables table (CSV text), each across every column
+  const [variablesText, setVariablesText] = useState("");
+  const [batchRun, setBatchRun] = useState<{
+    running: boolean;
+    caseIndex: number;
+    rows: Record<string, string>[];
+    columns: { col: string; modelName: string }[];
+    results: Record<string, ModelResponseData>[];
+    scorecards?: Record<string, SuiteScorecard>;
+  } | null>(null);
   
   const [showShareModal, setShowShareModal] = useState(false);
   const [shareNickname, setShareNickname] = useState("");
@@ -881,7 +1316,7 @@ export default function ChatPage() {
     displayName: string | null;
     prompt: string;
     recommendedModel: string | null;
-    settings: { contextSize: string; costCap: number } | null;
+    settings: BenchmarkSettings | null;
     results: Record<string, { latency: number; cost: number; modelName: string; modelId: string }> | null;
     createdAt: string;
   }>>([]);
@@ -910,10 +1345,133 @@ export default function ChatPage() {
     "8B": 0, "14B": 0, "32B": 0, "72B": 0, "Frontier": 0
   });
   
+  // Self-hosted models, offered as extra alternatives in the band that matches their size
+  const [localModels, setLocalModels] = useState<Model[]>([]);
+  const [localModelBands, setLocalModelBands] = useState<Record<string, string>>({});
+  
+  useEffect(() => {
+    apiRequest("GET", "/api/local-models")
+      .then((response) => response.json())
+      .then((models: LocalModelInfo[]) => {
+        setLocalModels(models.map(buildLocalModel));
+        setLocalModelBands(Object.fromEntries(models.map((m) => [m.id, m.band])));
+      })
+      .catch((error) => console.warn("Local model discovery failed:", error));
+  }, []);
+  
+  // Provider health from the server's circuit breakers, refreshed while the page is open
+  const [providerStatus, setProviderStatus] = useState<ProviderStatusResponse | null>(null);
+  
+  useEffect(() => {
+    const refresh = () => apiRequest("GET", "/api/providers/status")
+      .then((response) => response.json())
+      .then(setProviderStatus)
+      .catch((error) => console.warn("Provider status check failed:", error));
+    refresh();
+    const intervalId = setInterval(refresh, PROVIDER_STATUS_REFRESH_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+  
   // Global mode toggles
   const [reasoningMode, setReasoningMode] = useState(false);
   const [searchMode, setSearchMode] = useState(false);
 
+  // System prompt and sampling, sent with every run; anything left blank uses the provider's default
+  const [showPromptSettings, setShowPromptSettings] = useState(false);
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [temperature, setTemperature] = useState<number | null>(null);
+  const [topP, setTopP] = useState<number | null>(null);
+  const [seedInput, setSeedInput] = useState("");
+  const [stopInput, setStopInput] = useState("");
+  const [maxTokensInput, setMaxTokensInput] = useState("");
+
+  const sampling = useMemo((): SamplingParams | undefined => {
+    const seed = Number(seedInput);
+    // Comma-separated; "\n" stands for a newline
+    const stop = stopInput
+      .split(",")
+      .map((sequence) => sequence.replace(/\\n/g, "\n"))
+      .filter((sequence) => sequence.trim())
+      .slice(0, 4);
+    const params: SamplingParams = {
+      temperature: temperature ?? undefined,
+      topP: topP ?? undefined,
+      seed: seedInput.trim() && Number.isInteger(seed) && seed >= 0 ? seed : undefined,
+      stop: stop.length > 0 ? stop : undefined,
+    };
+    return Object.values(params).some((value) => value !== undefined) ? params : undefined;
+  }, [temperature, topP, seedInput, stopInput]);
+
+  // Structured-output test: every column must answer with JSON matching the schema
+  const [structuredMode, setStructuredMode] = useState(false);
+  const [responseSchemaText, setResponseSchemaText] = useState(DEFAULT_RESPONSE_SCHEMA);
+  const responseSchema = useMemo((): { schema?: JsonSchema; error?: string } => {
+    try {
+      const schema = JSON.parse(responseSchemaText);
+      if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+        return { error: "The schema must be a JSON object" };
+      }
+      return { schema };
+    } catch (error: any) {
+      return { error: error.message };
+    }
+  }, [responseSchemaText]);
+
+  // Tool-calling test: every column runs the tool loop against these mock tools
+  const [toolMode, setToolMode] = useState(false);
+  const [mockToolsText, setMockToolsText] = useState(DEFAULT_MOCK_TOOLS);
+  const [expectedToolsInput, setExpectedToolsInput] = useState("get_weather");
+  const [expectedAnswerInput, setExpectedAnswerInput] = useState("18");
+
+  // Repeated trials: every column runs this many times, one after another
+  const [trialCount, setTrialCount] = useState(1);
+
+  // Reference answer: the server grades every column against it
+  const [showGraderSettings, setShowGraderSettings] = useState(false);
+  const [graderType, setGraderType] = useState<GraderType | "none">("none");
+  const [graderExpected, setGraderExpected] = useState("");
+  const [graderTolerance, setGraderTolerance] = useState("");
+  const [graderCaseSensitive, setGraderCaseSensitive] = useState(false);
+  const [graderLanguage, setGraderLanguage] = useState<CodeLanguage>("python");
+  const grader = useMemo((): GraderConfig | undefined => {
+    if (graderType === "none" || !graderExpected.trim()) return undefined;
+    const tolerance = Number(graderTolerance);
+    return {
+      type: graderType,
+      expected: graderExpected,
+      tolerance: graderType === "numeric" && graderTolerance.trim() && tolerance >= 0 ? tolerance : undefined,
+      caseSensitive: ["exact", "regex", "keywords"].includes(graderType) && graderCaseSensitive ? true : undefined,
+      language: graderType === "code" ? graderLanguage : undefined,
+    };
+  }, [graderType, graderExpected, graderTolerance, graderCaseSensitive, graderLanguage]);
+
+  const templateVariables = useMemo(() => getTemplateVariables(prompt), [prompt]);
+  const variableRowCount = Math.max(variablesText.split(/\r?\n/).filter((line) => line.trim()).length - 1, 0);
+
+  const applyGrader = (config?: GraderConfig | null) => {
+    setGraderType(config?.type ?? "none");
+    setGraderExpected(config?.expected ?? "");
+    setGraderTolerance(config?.tolerance !== undefined ? String(config.tolerance) : "");
+    setGraderCaseSensitive(config?.caseSensitive ?? false);
+    setGraderLanguage(config?.language ?? "python");
+  };
+  const mockTools = useMemo((): { tools?: MockTool[]; error?: string } => {
+    try {
+      const tools = JSON.parse(mockToolsText);
+      if (!Array.isArray(tools) || tools.length === 0) {
+        return { error: "Define the tools as a non-empty JSON array" };
+      }
+      return { tools };
+    } catch (error: any) {
+      return { error: error.message };
+    }
+  }, [mockToolsText]);
+
+  const maxTokens = useMemo(() => {
+    const value = Number(maxTokensInput);
+    return maxTokensInput.trim() && Number.isInteger(value) && value > 0 ? Math.min(value, 32768) : undefined;
+  }, [maxTokensInput]);
+
   // Track previous cost cap for budget change toasts (prevents spam on slider drag)
   const [lastBudgetToastTime, setLastBudgetToastTime] = useState<number>(0);
   const [prevOverBudgetBands, setPrevOverBudgetBands] = useState<Set<string>>(new Set());
@@ -925,7 +1483,7 @@ export default function ChatPage() {
 
   // Separate token calculations for visual breakdown
   const promptTokens = useMemo(() => {
-    return Math.ceil(prompt.length / 4);
+    return countGaugeTokens(prompt);
   }, [prompt]);
 
   // Image tokens (subset of file tokens)
@@ -1129,6 +1687,17 @@ export default function ChatPage() {
   };
 
   const selectedContextTokens = CONTEXT_SIZES.find(c => c.value === contextSize)?.tokens || 128000;
+
+  // Room the input gets once the buffer is set aside - where the server cuts it
+  const usableContextTokens = Math.floor(selectedContextTokens / bufferMultiplier);
+
+  // The window as the gauge sees it, sent with every run so the server refuses or cuts at the same point
+  const runContext = {
+    windowTokens: selectedContextTokens,
+    allowTruncation: expertMode || truncationAccepted,
+    bufferPercent: Math.round((bufferMultiplier - 1) * 100),
+    imageTokens,
+  };
   
   // Calculate percentages for each token source (for stacked bar)
   const promptPercentage = Math.min((promptTokens / selectedContextTokens) * 100, 100);
@@ -1145,6 +1714,12 @@ export default function ChatPage() {
   const totalPercentage = Math.min((totalWithSearchEstimate / selectedContextTokens) * 100, 100);
   const inputPercentage = Math.min((inputTokenEstimate / selectedContextTokens) * 100, 100);
 
+  // Built-in alternatives for a band followed by any local models that fit it
+  const getAlternativesForBand = (col: string): Model[] => {
+    const local = localModels.filter((m) => localModelBands[m.id] === col);
+    return [...(MODEL_ALTERNATIVES[col] || []), ...local];
+  };
+
   const getModelForColumn = (col: string): Model | null => {
     // Both Search AND Reasoning mode - use combined models
     if (searchMode && reasoningMode) {
@@ -1168,9 +1743,9 @@ export default function ChatPage() {
     }
     
     // Expert Mode model swap (for columns that have alternatives)
-    if (expertMode && MODEL_ALTERNATIVES[col]) {
+    if (expertMode) {
       const selectedIndex = selectedModelPerBand[col] || 0;
-      const alternatives = MODEL_ALTERNATIVES[col];
+      const alternatives = getAlternativesForBand(col);
       if (selectedIndex < alternatives.length) {
         return alternatives[selectedIndex];
       }
@@ -1200,9 +1775,9 @@ export default function ChatPage() {
     }
     
     // Expert Mode model swap (for columns that have alternatives)
-    if (expertMode && MODEL_ALTERNATIVES[col]) {
+    if (expertMode) {
       const selectedIndex = selectedModelPerBand[col] || 0;
-      const alternatives = MODEL_ALTERNATIVES[col];
+      const alternatives = getAlternativesForBand(col);
       if (selectedIndex < alternatives.length) {
         return alternatives[selectedIndex];
       }
@@ -1247,6 +1822,14 @@ export default function ChatPage() {
       return { disabled: true, reason: "Model not available" };
     }
     
+    // Provider outage: the model's circuit is open and no fallback host can take the call
+    const modelHealth = providerStatus?.models.find((m) => m.modelId === model.id);
+    const providerHealth = providerStatus?.providers.find((p) => p.provider === getCatalogEntry(model.id)?.provider);
+    if (modelHealth && modelHealth.circuit !== "closed" && !modelHealth.fallbackAvailable) {
+      const reason = `${providerHealth?.name ?? modelHealth.provider} is down`;
+      return expertMode ? { disabled: false, reason: "", warning: reason } : { disabled: true, reason };
+    }
+    
     // Check if input exceeds selected context window
     if (inputTokenEstimate > selectedContextTokens) {
       // Allow running if user accepted truncation or expert mode is on
@@ -1265,6 +1848,11 @@ export default function ChatPage() {
       return { disabled: true, reason: `Exceeds $${costCap.toFixed(2)} cap` };
     }
     
+    // Still runs (retries and fallbacks cover it), but the student should know
+    if (providerHealth?.state === "degraded" || providerHealth?.state === "down") {
+      return { disabled: false, reason: "", warning: `${providerHealth.name} is ${providerHealth.state}` };
+    }
+    
     return { disabled: false, reason: "" };
   };
 
@@ -1298,6 +1886,7 @@ export default function ChatPage() {
     const constraintParts: string[] = [];
     constraintParts.push(`under your $${costCap.toFixed(2)} budget`);
     constraintParts.push(`with ${contextSize.toUpperCase()} context`);
+    if (resp?.grade) constraintParts.push("answered correctly");
     const constraintSummary = constraintParts.join(", ");
     
     const headline = wasTieBreaker
@@ -1312,11 +1901,15 @@ export default function ChatPage() {
           <li>Speed: {actualLatency}ms{wasTieBreaker ? " (fastest at this price)" : ""}</li>
           <li>Capability: {capability}</li>
           <li>Context: {contextSize.toUpperCase()} window selected</li>
+          {resp?.grade && <li>Correct: {resp.grade.reason}</li>}
         </ul>
       </div>
     );
   };
 
+  // Shared scale for the trial whiskers: the slowest trial of any column
+  const trialLatencyScale = Math.max(0, ...Object.values(responses).map((r) => r.trials?.latency.max ?? 0));
+
   // Check if all models have completed running
   const allModelsComplete = useMemo(() => {
     if (!showResults) return false;
@@ -1326,7 +1919,7 @@ export default function ChatPage() {
     // All models must have finished loading (not loading and either have content or error)
     return responseCols.every(col => {
       const resp = responses[col];
-      return resp && !resp.loading && (resp.content || resp.error);
+      return resp && !resp.loading && (resp.content || resp.error || resp.cancelled);
     });
   }, [showResults, responses]);
 
@@ -1504,7 +2097,8 @@ export default function ChatPage() {
   };
 
   const loadChallengePrompt = () => {
-    setPrompt(CHALLENGE_PROMPTS[challengePromptIndex]);
+    setPrompt(CHALLENGE_PROMPTS[challengePromptIndex].prompt);
+    applyGrader(CHALLENGE_PROMPTS[challengePromptIndex].grader);
     setChallengePromptIndex((prev) => (prev + 1) % CHALLENGE_PROMPTS.length);
     setShowResults(false);
     setResponses({});
@@ -1512,16 +2106,18 @@ export default function ChatPage() {
   };
 
   // Recommendation logic: PICK THE SMALLEST/CHEAPEST MODEL that completed successfully
-  // SPECIAL CASE: If images are uploaded, ONLY Frontier (Claude) can see them!
+  // If images are uploaded, only models that can actually see them are candidates
   // Philosophy: For simple queries, all models work - so prefer cheap & fast
   // For hard queries, smaller models may fail - pick smallest that succeeded
   // ONLY shows after all models have completed
+  // With a reference answer, only columns the server graded correct are candidates
   const recommendedModel = useMemo(() => {
-    // Don't show recommendation until all models have completed
+    // Don't show recommendation until all models have completed (and been graded)
     if (!allModelsComplete) return null;
+    if (isRunning && grader) return null;
+    const graded = COLUMNS.some(col => responses[col]?.grade);
     
-    // CRITICAL: Check if there are any image files uploaded
-    // Only Claude (Frontier) can actually see and analyze images!
+    // Models without vision only got a note that images were left out
     const hasImages = uploadedFiles.some(f => f.type === 'image');
     
     // Get all columns that have successful responses (with quality filters)
@@ -1529,11 +2125,17 @@ export default function ChatPage() {
       const resp = responses[col];
       const { disabled } = isModelDisabled(col);
       // Must not be disabled, must have a response, must not have error
-      if (disabled || !resp || resp.loading || !resp.content || resp.error) return false;
+      if (disabled || !resp || resp.loading || !resp.content || resp.error || resp.cancelled) return false;
       
       // TEMP FIX: Exclude models marked as search unavailable
       if (resp.content === "__SEARCH_UNAVAILABLE__") return false;
       
+      const model = getModelForColumn(col);
+      if (hasImages && !(model && supportsImageInput(model.id))) return false;
+
+      // A reference answer settles it - no need for the refusal heuristics
+      if (graded) return resp.grade?.correct === true;
+      
       // Quality checks: filter out failures
       const content = resp.content.trim().toLowerCase();
       
@@ -1563,19 +2165,6 @@ export default function ChatPage() {
       return !isVisionRefusal && !isExplicitRefusal && !isEmpty;
     });
     
-    // If images are uploaded and Frontier passed quality checks, always recommend Frontier
-    // because it's the ONLY model that can actually see images
-    if (hasImages) {
-      const frontierResp = responses["Frontier"];
-      const { disabled: frontierDisabled } = isModelDisabled("Frontier");
-      if (!frontierDisabled && frontierResp && !frontierResp.loading && frontierResp.content && !frontierResp.error) {
-        // Frontier successfully responded - recommend it for image queries
-        return "Frontier";
-      }
-      // If Frontier failed but we have images, still try to recommend it or null
-      return completedModels.includes("Frontier") ? "Frontier" : null;
-    }
-    
     if (completedModels.length === 0) return null;
     
     // Score each model: prefer cheapest, use latency as tiebreaker
@@ -1623,7 +2212,7 @@ export default function ChatPage() {
     
     // Pick the cheapest model that passed quality checks
     return modelScores[0]?.col || null;
-  }, [allModelsComplete, responses, costCap, contextSize, inputTokenEstimate, uploadedFiles]);
+  }, [allModelsComplete, responses, costCap, contextSize, inputTokenEstimate, uploadedFiles, isRunning, grader]);
 
   // File upload handler - uses server endpoint for reliable large file handling
   const MAX_FILE_SIZE_MB = 10; // Max 10MB per file (server limit)
@@ -1776,8 +2365,53 @@ export default function ChatPage() {
     setUploadedFiles(prev => prev.filter(f => f.id !== fileId));
   };
 
+  // The prompt box's files as a run sends them
+  const getRaceFiles = () => {
+    // Use server-side file IDs for files uploaded to the server
+    // This avoids sending large base64 data in JSON and prevents network failures
+    const fileIds = uploadedFiles
+      .filter(f => f.serverId) // Only include files with server IDs
+      .map(f => f.serverId as string);
+    
+    // For backward compatibility: include text content for text files (small)
+    // Text files still need to be sent directly as they're not handled by the server upload
+    const textFiles = uploadedFiles
+      .filter(f => f.type === 'text' && f.textContent && !f.serverId)
+      .map(f => ({
+        type: f.type,
+        mimeType: f.mimeType,
+        name: f.name,
+        textContent: f.textContent
+      }));
+    return {
+      fileIds: fileIds.length > 0 ? fileIds : undefined,
+      files: textFiles.length > 0 ? textFiles : undefined,
+    };
+  };
+
   const handleRunAll = async () => {
-    if (!prompt.trim() || isRunning) return;
+    if (!prompt.trim() || isRunning || suiteRun?.running) return;
+    if (templateVariables.length > 0) {
+      await handleRunBatch();
+      return;
+    }
+    setBatchRun(null);
+    if (toolMode && mockTools.error) {
+      toast({
+        title: "Fix the tool definitions first",
+        description: mockTools.error,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (structuredMode && responseSchema.error) {
+      toast({
+        title: "Fix the response schema first",
+        description: responseSchema.error,
+        variant: "destructive",
+      });
+      return;
+    }
 
     setIsRunning(true);
     setShowResults(true);
@@ -1792,193 +2426,366 @@ export default function ChatPage() {
 
     const initialResponses: Record<string, ModelResponse> = {};
     modelsToRun.forEach(({ col }) => {
-      initialResponses[col] = { content: "", loading: true, error: null, latency: null, cost: null, progress: 0 };
+      initialResponses[col] = {
+        content: "",
+        loading: true,
+        error: null,
+        latency: null,
+        cost: null,
+        progress: 0,
+        trialNotice: trialCount > 1 ? `Trial 1 of ${trialCount}...` : undefined,
+      };
     });
     setResponses(initialResponses);
+    if (modelsToRun.length === 0) {
+      setIsRunning(false);
+      return;
+    }
 
-    const runModel = async (col: string, model: Model) => {
-      try {
-        // Use server-side file IDs for files uploaded to the server
-        // This avoids sending large base64 data in JSON and prevents network failures
-        const fileIds = uploadedFiles
-          .filter(f => f.serverId) // Only include files with server IDs
-          .map(f => f.serverId as string);
-        
-        // For backward compatibility: include text content for text files (small)
-        // Text files still need to be sent directly as they're not handled by the server upload
-        const textFiles = uploadedFiles
-          .filter(f => f.type === 'text' && f.textContent && !f.serverId)
-          .map(f => ({
-            type: f.type,
-            mimeType: f.mimeType,
-            name: f.name,
-            textContent: f.textContent
-          }));
-        
-        const response = await fetch("/api/wind-tunnel/stream", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ 
-            modelId: model.id, 
-            prompt: prompt,
-            fileIds: fileIds.length > 0 ? fileIds : undefined,
-            files: textFiles.length > 0 ? textFiles : undefined
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error("Request failed");
-        }
-
-        const reader = response.body?.getReader();
-        if (!reader) throw new Error("No reader available");
-
-        const decoder = new TextDecoder();
-        let accumulatedContent = "";
-        let tokenCount = 0;
-        let buffer = "";
-        let receivedComplete = false;
-        let finalLatency: number | null = null;
-        let finalCost: number | null = null;
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const parts = buffer.split("\n\n");
-          buffer = parts.pop() || "";
+    // One race for every column: the server runs them all and sends their events, tagged
+    // with the column, over a single stream (so browsers' per-host connection caps don't
+    // hold columns back)
+    const race: { controller: AbortController; raceId?: string } = { controller: new AbortController() };
+    raceRef.current = race;
+    const startTime = Date.now();
+    const streamedContent: Record<string, string> = {};
+    const promptText = [systemPrompt, ...uploadedFiles.map(f => f.textContent || ""), prompt].join("\n");
+    const modelsByCol = new Map(modelsToRun.map(({ col, model }) => [col, model]));
+
+    const updateColumn = (col: string, update: Partial<ModelResponse>) => {
+      setResponses((prev) => ({ ...prev, [col]: { ...prev[col], ...update } }));
+    };
 
-          for (const part of parts) {
-            const line = part.trim();
-            if (!line.startsWith("data: ")) continue;
-            
-            let data;
-            try {
-              data = JSON.parse(line.slice(6));
-            } catch (parseErr) {
-              console.warn(`[${col}] Parse error for SSE chunk:`, line.slice(0, 100));
-              continue;
-            }
-            
-            if (data.type === "token") {
-              accumulatedContent += data.content;
-              tokenCount = data.tokenCount;
-              
-              const estimatedProgress = Math.min((tokenCount / 100) * 100, 95);
-              
-              setResponses((prev) => ({
-                ...prev,
-                [col]: {
-                  ...prev[col],
-                  content: accumulatedContent,
-                  progress: estimatedProgress,
-                },
-              }));
-            } else if (data.type === "complete") {
-              receivedComplete = true;
-              finalLatency = data.latency;
-              finalCost = data.cost;
-              setResponses((prev) => ({
-                ...prev,
-                [col]: {
-                  content: data.content || accumulatedContent,
-                  loading: false,
-                  error: null,
-                  latency: data.latency,
-                  cost: data.cost,
-                  progress: 100,
-                },
-              }));
-            } else if (data.type === "error") {
-              throw new Error(data.error);
-            }
-          }
-        }
-        
-        // Process any remaining buffer
-        if (buffer.trim()) {
-          const line = buffer.trim();
-          if (line.startsWith("data: ")) {
-            let data;
-            try {
-              data = JSON.parse(line.slice(6));
-            } catch (parseErr) {
-              console.warn(`[${col}] Parse error for final buffer:`, line.slice(0, 100));
-            }
-            
-            if (data) {
-              if (data.type === "complete") {
-                receivedComplete = true;
-                finalLatency = data.latency;
-                finalCost = data.cost;
-                setResponses((prev) => ({
-                  ...prev,
-                  [col]: {
-                    content: data.content || accumulatedContent,
-                    loading: false,
-                    error: null,
-                    latency: data.latency,
-                    cost: data.cost,
-                    progress: 100,
-                  },
-                }));
-              } else if (data.type === "error") {
-                throw new Error(data.error);
-              }
-            }
-          }
-        }
-        
-        // Fallback: ensure model is marked complete when stream ends
-        setResponses((prev) => {
-          const current = prev[col];
-          if (current && current.loading) {
-            return {
-              ...prev,
-              [col]: {
-                ...current,
-                content: accumulatedContent || current.content,
-                loading: false,
-                progress: 100,
-                latency: finalLatency,
-                cost: finalCost,
-                error: (accumulatedContent || current.content) ? null : "No response received",
-              },
-            };
-          }
-          return prev;
+    const handleRaceEvent = (data: any) => {
+      const col: string = data.col;
+      if (data.type === "started") {
+        race.raceId = data.raceId;
+      } else if (data.type === "token") {
+        streamedContent[col] = (streamedContent[col] ?? "") + data.content;
+        updateColumn(col, {
+          content: streamedContent[col],
+          progress: Math.min((data.tokenCount / 100) * 100, 95),
         });
-      } catch (err: any) {
-        console.error(`[${col}] Stream error:`, err);
-        // Better error message extraction
-        let errorMessage = "Failed";
-        if (err instanceof TypeError && err.message === "Failed to fetch") {
-          errorMessage = "Network error - request failed";
-        } else if (err instanceof Error) {
-          errorMessage = err.message;
-        } else if (typeof err === 'string') {
-          errorMessage = err;
-        }
+      } else if (data.type === "ttft") {
+        updateColumn(col, { ttft: data.ttft });
+      } else if (data.type === "reasoning") {
+        // Raw thoughts aren't streamed by default - just show that the model is thinking
+        updateColumn(col, { reasoningCount: data.reasoningCount });
+      } else if (data.type === "queued") {
+        // The provider is at capacity - the call waits its turn on the server
+        updateColumn(col, { queuePosition: data.position || undefined });
+      } else if (data.type === "truncated") {
+        updateColumn(col, { truncation: data.truncation });
+      } else if (data.type === "retry") {
+        const failedStatus = data.failed.status ? ` (${data.failed.status})` : "";
+        const retryNotice = data.nextModelId === data.failed.modelId
+          ? `Retrying${failedStatus} in ${(data.delayMs / 1000).toFixed(1)}s...`
+          : `Failed${failedStatus} - trying ${data.nextModelName}...`;
+        updateColumn(col, { retryNotice });
+      } else if (data.type === "complete" && data.trial < data.trials) {
+        // Another trial follows: keep the column running and stream the next one afresh
+        streamedContent[col] = "";
+        updateColumn(col, {
+          content: data.content ?? data.toolRun?.finalAnswer ?? "",
+          progress: 0,
+          retryNotice: undefined,
+          trialNotice: `Trial ${data.trial + 1} of ${data.trials}...`,
+        });
+      } else if (data.type === "trials") {
+        updateColumn(col, { trials: data.stats });
+      } else if (data.type === "graded") {
+        updateColumn(col, data.grade ? { grade: data.grade } : { gradeError: data.error });
+      } else if (data.type === "complete" && data.toolRun) {
+        // Tool-calling test: the server ran the whole tool loop, so it all arrives at once
+        const result = data.toolRun as ToolRunResult;
+        setResponses((prev) => ({
+          ...prev,
+          [col]: {
+            content: result.finalAnswer || result.stoppedEarly || "",
+            loading: false,
+            error: null,
+            latency: result.latency,
+            cost: result.cost,
+            progress: 100,
+            outputTokens: result.outputTokens,
+            servedBy: result.servedBy,
+            attempts: result.attempts,
+            priceVersion: result.priceVersion,
+            toolRun: result,
+          },
+        }));
+      } else if (data.type === "complete") {
+        setResponses((prev) => ({
+          ...prev,
+          [col]: {
+            content: data.content || streamedContent[col] || "",
+            loading: false,
+            error: null,
+            latency: data.latency,
+            ttft: prev[col]?.ttft,
+            cost: data.cost,
+            progress: 100,
+            usageSource: data.usageSource,
+            outputTokens: data.outputTokens,
+            reasoningTokens: data.reasoningTokens,
+            reasoningCost: data.reasoningCost,
+            servedBy: data.servedBy,
+            attempts: data.attempts,
+            structured: data.structured,
+            priceVersion: data.priceVersion,
+            truncation: data.truncation,
+          },
+        }));
+      } else if (data.type === "cancelled") {
+        // Stopped by the user: the server reports what streamed so far and what it cost
+        setResponses((prev) => ({
+          ...prev,
+          [col]: {
+            content: data.content ?? streamedContent[col] ?? "",
+            loading: false,
+            error: null,
+            latency: data.latency ?? Date.now() - startTime,
+            ttft: prev[col]?.ttft,
+            cost: data.cost ?? 0,
+            progress: prev[col]?.progress ?? 0,
+            usageSource: data.usageSource,
+            outputTokens: data.outputTokens,
+            reasoningTokens: data.reasoningTokens,
+            reasoningCost: data.reasoningCost,
+            servedBy: data.servedBy,
+            attempts: data.attempts ?? prev[col]?.attempts,
+            priceVersion: data.priceVersion,
+            truncation: data.truncation ?? prev[col]?.truncation,
+            cancelled: true,
+          },
+        }));
+      } else if (data.type === "error") {
         setResponses((prev) => ({
           ...prev,
           [col]: {
             content: "",
             loading: false,
-            error: errorMessage,
+            error: data.error || "Failed",
             latency: null,
             cost: null,
             progress: 0,
+            attempts: data.attempts,
           },
         }));
       }
     };
 
-    await Promise.all(modelsToRun.map(({ col, model }) => runModel(col, model)));
+    try {
+      const { fileIds, files: textFiles } = getRaceFiles();
+      const response = await fetch("/api/wind-tunnel/race", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Client-Id": getClientId() },
+        body: JSON.stringify({ 
+          columns: modelsToRun.map(({ col, model }) => ({ col, modelId: model.id })),
+          prompt: prompt,
+          fileIds,
+          files: textFiles,
+          // The Reasoning toggle switches thinking on or off natively (Claude extended thinking, Qwen3 hybrid mode, ...)
+          reasoning: { enabled: reasoningMode },
+          system: systemPrompt.trim() ? systemPrompt : undefined,
+          sampling,
+          maxTokens,
+          responseFormat: structuredMode ? { name: "response", schema: responseSchema.schema } : undefined,
+          // The server enforces the selected window: over it, the input is cut (if accepted) or refused
+          context: runContext,
+          // Saved with the run so the history can restore what the student saw
+          settings: { contextSize, costCap, searchMode },
+          trials: trialCount > 1 ? trialCount : undefined,
+          // With a reference answer the server grades each column's answer
+          grader,
+          // Tool-calling test: the server runs the tool loop against the mock tools and scores it
+          ...(toolMode && {
+            tools: mockTools.tools,
+            expectedTools: expectedToolsInput.split(",").map((name) => name.trim()).filter(Boolean),
+            expectedAnswer: expectedAnswerInput.trim() || undefined,
+          }),
+        }),
+        signal: race.controller.signal,
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Request failed");
+      }
+      await readEventStream(response, handleRaceEvent);
+    } catch (err: any) {
+      if (race.controller.signal.aborted) {
+        // Stop All closed the stream: keep what each column streamed and estimate what it cost
+        setResponses((prev) => {
+          const next = { ...prev };
+          modelsByCol.forEach((model, col) => {
+            if (!next[col]?.loading) return;
+            const content = streamedContent[col] ?? "";
+            next[col] = {
+              ...next[col],
+              content,
+              loading: false,
+              error: null,
+              latency: Date.now() - startTime,
+              cost: estimatePartialCost(model.id, promptText, content, next[col].reasoningCount),
+              reasoningTokens: next[col].reasoningCount,
+              usageSource: "estimated",
+              cancelled: true,
+            };
+          });
+          return next;
+        });
+      } else {
+        console.error("[Race] Stream error:", err);
+        const errorMessage = err instanceof TypeError && err.message === "Failed to fetch"
+          ? "Network error - request failed"
+          : err?.message || "Failed";
+        setResponses((prev) => {
+          const next = { ...prev };
+          modelsByCol.forEach((_model, col) => {
+            if (next[col]?.loading) {
+              next[col] = { content: "", loading: false, error: errorMessage, latency: null, cost: null, progress: 0 };
+            }
+          });
+          return next;
+        });
+      }
+    } finally {
+      if (raceRef.current === race) {
+        raceRef.current = null;
+      }
+    }
+
+    // Fallback: ensure every column is marked complete when the stream ends
+    setResponses((prev) => {
+      const next = { ...prev };
+      modelsByCol.forEach((_model, col) => {
+        const current = next[col];
+        if (current?.loading) {
+          next[col] = {
+            ...current,
+            loading: false,
+            progress: 100,
+            latency: current.latency ?? Date.now() - startTime,
+            error: current.content ? null : "No response received",
+          };
+        }
+      });
+      return next;
+    });
+    setIsRunning(false);
+    setTestRunCount(prev => prev + 1);
+  };
+
+  // Templated prompt: the server fills it in for every row of the variables table and runs
+  // the rows one after another, each across every column
+  const handleRunBatch = async () => {
+    if (variableRowCount === 0) {
+      toast({
+        title: "Add the variables table",
+        description: `Give a value for ${templateVariables.map((name) => `{{${name}}}`).join(", ")} on each row, under a header row.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const columns = COLUMNS
+      .filter((col) => getModelForColumn(col) && !isModelDisabled(col).disabled)
+      .map((col) => ({ col, model: getModelForColumn(col)! }));
+    if (columns.length === 0) return;
+
+    setIsRunning(true);
+    setShowResults(false);
+    setResponses({});
+    const race: { controller: AbortController; raceId?: string } = { controller: new AbortController() };
+    raceRef.current = race;
+    setBatchRun({
+      running: true,
+      caseIndex: 0,
+      rows: [],
+      columns: columns.map(({ col, model }) => ({ col, modelName: model.name })),
+      results: [],
+    });
+
+    try {
+      const response = await fetch("/api/wind-tunnel/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Client-Id": getClientId() },
+        body: JSON.stringify({
+          columns: columns.map(({ col, model }) => ({ col, modelId: model.id })),
+          prompt,
+          variables: variablesText,
+          ...getRaceFiles(),
+          reasoning: { enabled: reasoningMode },
+          system: systemPrompt.trim() ? systemPrompt : undefined,
+          sampling,
+          maxTokens,
+          context: runContext,
+          // The expected answer can use the same {{variables}}
+          grader,
+        }),
+        signal: race.controller.signal,
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Request failed");
+      }
+      await readEventStream(response, (data) => {
+        if (data.type === "started") {
+          race.raceId = data.raceId;
+          setBatchRun((prev) => prev && { ...prev, rows: data.rows });
+        } else if (data.type === "case") {
+          setBatchRun((prev) => prev && { ...prev, caseIndex: data.case });
+        } else if (data.type === "result" && data.result) {
+          setBatchRun((prev) => {
+            if (!prev) return prev;
+            const results = [...prev.results];
+            results[data.case] = { ...results[data.case], [data.col]: data.result };
+            return { ...prev, results };
+          });
+        } else if (data.type === "scorecard") {
+          setBatchRun((prev) => prev && { ...prev, scorecards: data.scorecards });
+        }
+      });
+    } catch (err: any) {
+      if (!race.controller.signal.aborted) {
+        console.error("[Batch] Stream error:", err);
+        toast({ title: "Batch failed", description: err?.message || "Failed", variant: "destructive" });
+        setBatchRun(null);
+      }
+    } finally {
+      if (raceRef.current === race) {
+        raceRef.current = null;
+      }
+    }
+    setBatchRun((prev) => prev && { ...prev, running: false });
     setIsRunning(false);
     setTestRunCount(prev => prev + 1);
   };
 
+  // Variables from a CSV file (or tab-separated, as exported from a spreadsheet)
+  const handleVariablesFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) setVariablesText(await file.text());
+  };
+
+  // Stop one column: the server cancels its upstream call and reports the partial cost
+  const handleStopModel = (col: string) => {
+    const raceId = raceRef.current?.raceId;
+    if (!raceId) return;
+    apiRequest("POST", `/api/wind-tunnel/race/${raceId}/stop`, { col }).catch((error) => {
+      console.warn(`[${col}] Could not stop:`, error);
+    });
+  };
+
+  // Aborting the fetch closes the SSE connection, which makes the server cancel every upstream call
+  const handleStopAll = () => {
+    raceRef.current?.controller.abort();
+  };
+
+  // Don't leave streams running if the page goes away mid-run
+  useEffect(() => handleStopAll, []);
+
   const openModal = (col: string, model: Model, response: ModelResponse) => {
     if (response.content || response.error) {
       setSelectedModel({ col, model, response });
@@ -2000,6 +2807,8 @@ export default function ChatPage() {
         name: benchmarkName,
         description: benchmarkDescription || null,
         prompt,
+        grader,
+        variables: templateVariables.length > 0 && variableRowCount > 0 ? variablesText : undefined,
       });
       
       setShowSaveBenchmarkModal(false);
@@ -2037,45 +2846,362 @@ export default function ChatPage() {
     await loadBenchmarks();
   };
 
-  const handleLoadBenchmark = (benchmarkPrompt: string) => {
-    setPrompt(benchmarkPrompt);
+  const handleLoadBenchmark = (benchmark: (typeof benchmarks)[number]) => {
+    setPrompt(benchmark.prompt);
+    applyGrader(benchmark.grader);
+    setVariablesText(benchmark.variables ? toVariablesCsv(benchmark.variables) : "");
+    setBatchRun(null);
     setShowLibraryModal(false);
     setShowResults(false);
     setResponses({});
     setContextAutoSelected(true);
   };
 
-  const handleDeleteBenchmark = async (id: string) => {
-    if (!confirm("Delete this benchmark?")) return;
-    
+  const loadRunHistory = async () => {
+    setHistoryLoading(true);
     try {
-      await apiRequest("DELETE", `/api/benchmarks/${id}`);
-      await loadBenchmarks();
+      const response = await apiRequest("GET", "/api/benchmark-runs?limit=30");
+      const data = await response.json();
+      setHistoryRuns(data);
     } catch (err: any) {
-      console.error("Delete benchmark error:", err);
-      toast({
-        title: "Delete failed",
-        description: "Failed to delete benchmark: " + err.message,
-        variant: "destructive",
-      });
+      console.error("Load run history error:", err);
+    } finally {
+      setHistoryLoading(false);
     }
   };
 
-  const handleShareToLeaderboard = async () => {
-    if (!allModelsComplete || shareSubmitting) return;
-    
-    setShareSubmitting(true);
-    
-    try {
-      const resultsData: Record<string, { latency: number; cost: number; modelName: string; modelId: string }> = {};
-      
-      COLUMNS.forEach(col => {
+  const handleOpenHistory = async () => {
+    setShowHistoryModal(true);
+    await loadRunHistory();
+  };
+
+  // Put a saved run's prompt and settings back, including the model picked for each band
+  const restoreRunSettings = (run: (typeof historyRuns)[number]) => {
+    const settings = run.settings;
+    setPrompt(run.prompt);
+    setShowHistoryModal(false);
+    if (!settings) return;
+
+    if (CONTEXT_SIZES.some((size) => size.value === settings.contextSize)) {
+      setContextSize(settings.contextSize);
+      setContextAutoSelected(false);
+    }
+    if (settings.costCap > 0) setCostCap(settings.costCap);
+    setReasoningMode(settings.reasoningEnabled);
+    setSearchMode(settings.searchMode ?? false);
+    setSystemPrompt(settings.systemPrompt ?? "");
+    setTemperature(settings.sampling?.temperature ?? null);
+    setTopP(settings.sampling?.topP ?? null);
+    setSeedInput(settings.sampling?.seed !== undefined ? String(settings.sampling.seed) : "");
+    setStopInput((settings.sampling?.stop ?? []).map((sequence) => sequence.replace(/\n/g, "\\n")).join(","));
+    setMaxTokensInput(settings.maxTokens ? String(settings.maxTokens) : "");
+    setTrialCount(settings.trials ?? 1);
+    applyGrader(settings.grader);
+    setStructuredMode(!!settings.responseSchema);
+    if (settings.responseSchema) setResponseSchemaText(JSON.stringify(settings.responseSchema, null, 2));
+    setToolMode(!!settings.tools);
+    if (settings.tools) {
+      setMockToolsText(JSON.stringify(settings.tools, null, 2));
+      setExpectedToolsInput((settings.expectedTools ?? []).join(", "));
+      setExpectedAnswerInput(settings.expectedAnswer ?? "");
+    }
+
+    // Swapped-in models only exist in Expert Mode (outside Search and Reasoning)
+    const picks: Record<string, number> = {};
+    Object.entries(settings.columns ?? {}).forEach(([col, modelId]) => {
+      const index = getAlternativesForBand(col).findIndex((model) => model.id === modelId);
+      if (index >= 0) picks[col] = index;
+    });
+    setSelectedModelPerBand((prev) => ({ ...prev, ...picks }));
+    if (!settings.reasoningEnabled && !settings.searchMode && Object.values(picks).some((index) => index > 0)) {
+      setExpertMode(true);
+    }
+  };
+
+  const handleOpenRun = (run: (typeof historyRuns)[number]) => {
+    restoreRunSettings(run);
+    const restored: Record<string, ModelResponse> = {};
+    Object.entries(run.responses ?? {}).forEach(([col, data]) => {
+      restored[col] = {
+        content: data.content,
+        loading: false,
+        error: data.error ?? null,
+        latency: data.error ? null : data.latency,
+        cost: data.error ? null : data.cost,
+        progress: 100,
+        ttft: data.ttft,
+        usageSource: data.usageSource,
+        outputTokens: data.outputTokens,
+        reasoningTokens: data.reasoningTokens,
+        servedBy: data.servedBy,
+        cancelled: data.cancelled,
+        structured: data.structured,
+        toolRun: data.toolRun,
+        priceVersion: data.priceVersion,
+        trials: data.trials,
+        grade: data.grade,
+      };
+    });
+    setResponses(restored);
+    setShowResults(true);
+  };
+
+  const handleRerun = (run: (typeof historyRuns)[number]) => {
+    restoreRunSettings(run);
+    setPendingRerun(true);
+  };
+
+  // Re-run once the restored settings have rendered, so the race uses them
+  useEffect(() => {
+    if (pendingRerun && !isRunning) {
+      setPendingRerun(false);
+      handleRunAll();
+    }
+  }, [pendingRerun]);
+
+  const loadSuites = async () => {
+    setSuitesLoading(true);
+    try {
+      const response = await apiRequest("GET", "/api/suites");
+      const data = await response.json();
+      setSuites(data);
+    } catch (err: any) {
+      console.error("Load suites error:", err);
+    } finally {
+      setSuitesLoading(false);
+    }
+  };
+
+  const handleOpenSuites = async () => {
+    setShowSuitesModal(true);
+    await loadSuites();
+  };
+
+  // Add what's in the prompt box (files and reference answer included) to the suite being built
+  const handleAddSuiteCase = () => {
+    if (!prompt.trim()) return;
+    setSuiteDraftCases((prev) => [...prev, { prompt, grader, ...getRaceFiles(), fileNames: uploadedFiles.map(f => f.name) }]);
+  };
+
+  const handleSaveSuite = async () => {
+    if (!suiteName.trim() || suiteDraftCases.length === 0) return;
+    try {
+      await apiRequest("POST", "/api/suites", {
+        name: suiteName,
+        description: suiteDescription || null,
+        cases: suiteDraftCases.map(({ fileNames, ...item }) => item),
+      });
+      setSuiteName("");
+      setSuiteDescription("");
+      setSuiteDraftCases([]);
+      toast({ title: "Saved", description: "Suite saved - run it against the current models below." });
+      await loadSuites();
+    } catch (err: any) {
+      console.error("Save suite error:", err);
+      toast({
+        title: "Save failed",
+        description: "Failed to save suite: " + err.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteSuite = async (id: string) => {
+    try {
+      await apiRequest("DELETE", `/api/suites/${id}`);
+      setSuites((prev) => prev.filter((suite) => suite.id !== id));
+      if (suitePastRuns?.suiteId === id) setSuitePastRuns(null);
+    } catch (err: any) {
+      console.error("Delete suite error:", err);
+    }
+  };
+
+  const handleShowSuiteRuns = async (suite: (typeof suites)[number]) => {
+    try {
+      const response = await apiRequest("GET", `/api/suites/${suite.id}/runs`);
+      const runs = await response.json();
+      setSuitePastRuns({ suiteId: suite.id, runs });
+      if (runs.length > 0 && !suiteRun?.running) {
+        setSuiteRun({ suiteName: suite.name, running: false, caseIndex: suite.cases.length, cases: suite.cases.length, runAt: runs[0].runAt, scorecards: runs[0].scorecards ?? undefined });
+      }
+    } catch (err: any) {
+      console.error("Load suite runs error:", err);
+    }
+  };
+
+  // Run every case of a suite through the current columns, with the current run settings
+  const handleRunSuite = async (suite: (typeof suites)[number]) => {
+    if (isRunning || suiteRun?.running) return;
+    const columns = COLUMNS
+      .filter((col) => getModelForColumn(col) && !isModelDisabled(col).disabled)
+      .map((col) => ({ col, modelId: getModelForColumn(col)!.id }));
+    if (columns.length === 0) {
+      toast({ title: "No models to run", description: "Every column is disabled by the current constraints.", variant: "destructive" });
+      return;
+    }
+
+    const controller = new AbortController();
+    suiteRaceRef.current = controller;
+    setSuitePastRuns(null);
+    setSuiteRun({ suiteName: suite.name, running: true, caseIndex: 0, cases: suite.cases.length });
+    try {
+      const response = await fetch("/api/wind-tunnel/suite", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Client-Id": getClientId() },
+        body: JSON.stringify({
+          suiteId: suite.id,
+          columns,
+          reasoning: { enabled: reasoningMode },
+          system: systemPrompt.trim() ? systemPrompt : undefined,
+          sampling,
+          maxTokens,
+          context: runContext,
+          settings: { contextSize, costCap, searchMode },
+        }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Request failed");
+      }
+      await readEventStream(response, (data) => {
+        if (data.type === "case") {
+          setSuiteRun((prev) => prev && { ...prev, caseIndex: data.case });
+        } else if (data.type === "scorecard") {
+          setSuiteRun((prev) => prev && { ...prev, caseIndex: prev.cases, scorecards: data.scorecards, runAt: new Date().toISOString() });
+        }
+      });
+    } catch (err: any) {
+      if (!controller.signal.aborted) {
+        console.error("[Suite] Stream error:", err);
+        toast({ title: "Suite run failed", description: err?.message || "Failed", variant: "destructive" });
+      }
+    } finally {
+      if (suiteRaceRef.current === controller) suiteRaceRef.current = null;
+      setSuiteRun((prev) => prev && { ...prev, running: false });
+    }
+  };
+
+  const handleDatasetFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (file.size > 9 * 1024 * 1024) {
+      toast({ title: "File too large", description: "Datasets can be up to 9 MB - trim it or import part of it.", variant: "destructive" });
+      return;
+    }
+    const text = await file.text();
+    setDatasetPreview(null);
+    setDatasetImport((prev) => ({
+      fileName: file.name,
+      text,
+      name: file.name.replace(/\.[^.]+$/, ""),
+      format: file.name.toLowerCase().endsWith(".csv") ? "csv" : "jsonl",
+      mapping: prev?.mapping ?? { prompt: "prompt", expected: "expected", grader: "grader", tags: "tags" },
+      defaultGrader: prev?.defaultGrader ?? "",
+      language: prev?.language ?? "python",
+      answerDelimiter: prev?.answerDelimiter ?? "",
+      limit: prev?.limit ?? "",
+      skipInvalid: false,
+    }));
+  };
+
+  const updateDatasetImport = (update: Partial<NonNullable<typeof datasetImport>>) => {
+    setDatasetImport((prev) => prev && { ...prev, ...update });
+    setDatasetPreview(null);
+  };
+
+  // The import settings as the server reads them (empty mappings and options left out)
+  const getDatasetRequest = () => {
+    if (!datasetImport) return null;
+    const { mapping, defaultGrader, language, answerDelimiter, limit } = datasetImport;
+    return {
+      text: datasetImport.text,
+      format: datasetImport.format,
+      mapping: Object.fromEntries(Object.entries(mapping).filter(([, value]) => value.trim())),
+      defaultGrader: defaultGrader || undefined,
+      language,
+      answerDelimiter: answerDelimiter || undefined,
+      limit: limit.trim() ? Number(limit) : undefined,
+    };
+  };
+
+  const handlePreviewDataset = async () => {
+    const request = getDatasetRequest();
+    if (!request) return;
+    setDatasetBusy(true);
+    try {
+      const response = await apiRequest("POST", "/api/suites/import/preview", request);
+      setDatasetPreview(await response.json());
+    } catch (err: any) {
+      setDatasetPreview(null);
+      toast({ title: "Can't read the dataset", description: err.message, variant: "destructive" });
+    } finally {
+      setDatasetBusy(false);
+    }
+  };
+
+  const handleImportDataset = async () => {
+    const request = getDatasetRequest();
+    if (!request || !datasetImport?.name.trim()) return;
+    setDatasetBusy(true);
+    try {
+      const response = await apiRequest("POST", "/api/suites/import", {
+        ...request,
+        name: datasetImport.name,
+        skipInvalid: datasetImport.skipInvalid,
+      });
+      const suite = await response.json();
+      setDatasetImport(null);
+      setDatasetPreview(null);
+      toast({ title: "Imported", description: `${suite.name}: ${suite.cases.length} case${suite.cases.length === 1 ? "" : "s"}` });
+      await loadSuites();
+    } catch (err: any) {
+      toast({ title: "Import failed", description: err.message, variant: "destructive" });
+    } finally {
+      setDatasetBusy(false);
+    }
+  };
+
+  // Closing the stream makes the server cancel the case in flight and skip the rest
+  const handleStopSuite = () => {
+    suiteRaceRef.current?.abort();
+  };
+
+  useEffect(() => handleStopSuite, []);
+
+  const handleDeleteBenchmark = async (id: string) => {
+    if (!confirm("Delete this benchmark?")) return;
+    
+    try {
+      await apiRequest("DELETE", `/api/benchmarks/${id}`);
+      await loadBenchmarks();
+    } catch (err: any) {
+      console.error("Delete benchmark error:", err);
+      toast({
+        title: "Delete failed",
+        description: "Failed to delete benchmark: " + err.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleShareToLeaderboard = async () => {
+    if (!allModelsComplete || shareSubmitting) return;
+    
+    setShareSubmitting(true);
+    
+    try {
+      const resultsData: Record<string, LeaderboardResult> = {};
+      
+      COLUMNS.forEach(col => {
         const model = getModelForColumn(col);
         const resp = responses[col];
         if (model && resp?.content && !resp.error) {
           resultsData[col] = {
             latency: resp.latency || 0,
             cost: resp.cost || 0,
+            priceVersion: resp.priceVersion,
             modelName: model.name,
             modelId: model.id,
           };
@@ -2089,6 +3215,11 @@ export default function ChatPage() {
         settings: {
           contextSize,
           costCap,
+          reasoningEnabled: reasoningMode,
+          systemPrompt: systemPrompt.trim() ? systemPrompt : undefined,
+          sampling,
+          maxTokens,
+          responseSchema: structuredMode ? responseSchema.schema : undefined,
         },
         results: resultsData,
       });
@@ -2165,6 +3296,20 @@ export default function ChatPage() {
                 <Library className="w-4 h-4" />
                 Library
               </button>
+              <button
+                onClick={handleOpenHistory}
+                className="w-[122px] h-10 bg-white text-[#1a3a8f] border border-[#1a3a8f]/30 rounded-lg text-sm font-bold hover:bg-gray-50 flex items-center justify-center gap-1.5 shadow-sm"
+              >
+                <History className="w-4 h-4" />
+                History
+              </button>
+              <button
+                onClick={handleOpenSuites}
+                className="w-[122px] h-10 bg-white text-[#1a3a8f] border border-[#1a3a8f]/30 rounded-lg text-sm font-bold hover:bg-gray-50 flex items-center justify-center gap-1.5 shadow-sm"
+              >
+                <ListChecks className="w-4 h-4" />
+                Suites
+              </button>
             </div>
           </div>
 
@@ -2299,6 +3444,7 @@ export default function ChatPage() {
                       Your prompt uses <span className="font-bold text-[#1a3a8f]">{inputTokenEstimate.toLocaleString()}</span> tokens.
                     </>
                   )}
+                  <span className="text-gray-400 text-xs ml-1">({TOKENIZER_LABELS[DEFAULT_TOKENIZER_FAMILY]} tokenizer)</span>
                   {expertMode && bufferTokens > 0 && (
                     <span className="text-amber-600 ml-1">
                       (+{bufferTokens.toLocaleString()} buffer = {(totalWithSearchEstimate + bufferTokens).toLocaleString()} required)
@@ -2544,11 +3690,11 @@ export default function ChatPage() {
                   <div className="mb-3 p-2 bg-red-100 rounded border border-red-200">
                     <div className="text-xs font-mono text-red-700 mb-1">Overflow starts here...</div>
                     <div className="h-2 bg-gray-200 rounded overflow-hidden">
-                      <div className="h-full bg-emerald-500" style={{ width: `${(selectedContextTokens / inputTokenEstimate) * 100}%` }} />
+                      <div className="h-full bg-emerald-500" style={{ width: `${(usableContextTokens / inputTokenEstimate) * 100}%` }} />
                     </div>
                     <div className="flex justify-between text-xs text-red-600 mt-1">
-                      <span>Kept: {selectedContextTokens.toLocaleString()}</span>
-                      <span className="font-bold">Lost: {(inputTokenEstimate - selectedContextTokens).toLocaleString()} tokens</span>
+                      <span>Kept: {usableContextTokens.toLocaleString()}</span>
+                      <span className="font-bold">Lost: {(inputTokenEstimate - usableContextTokens).toLocaleString()} tokens</span>
                     </div>
                   </div>
                   
@@ -2759,6 +3905,50 @@ export default function ChatPage() {
                   <p className="text-xs">Add real-time web search to any model. Auto-upgrades to 128K context for safe headroom.</p>
                 </TooltipContent>
               </Tooltip>
+
+              {/* Structured Output Toggle */}
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    onClick={() => setStructuredMode(!structuredMode)}
+                    disabled={isRunning}
+                    className={`flex items-center justify-center gap-2 w-[120px] py-2 rounded-lg font-medium transition-all touch-manipulation ${
+                      structuredMode 
+                        ? 'bg-teal-600 text-white shadow-md' 
+                        : 'bg-white text-gray-600 border border-gray-300 hover:bg-teal-50 hover:border-teal-300'
+                    }`}
+                  >
+                    <Braces className="w-4 h-4" />
+                    <span className="text-sm">Structured</span>
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent className="bg-white border-gray-200 text-gray-700 max-w-xs">
+                  <p className="font-bold mb-1">Structured Output Test</p>
+                  <p className="text-xs">Every model must answer with JSON matching your schema. Each column reports whether it complied - small models often break the format.</p>
+                </TooltipContent>
+              </Tooltip>
+
+              {/* Tool Calling Toggle */}
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    onClick={() => setToolMode(!toolMode)}
+                    disabled={isRunning}
+                    className={`flex items-center justify-center gap-2 w-[120px] py-2 rounded-lg font-medium transition-all touch-manipulation ${
+                      toolMode 
+                        ? 'bg-slate-700 text-white shadow-md' 
+                        : 'bg-white text-gray-600 border border-gray-300 hover:bg-slate-50 hover:border-slate-300'
+                    }`}
+                  >
+                    <Wrench className="w-4 h-4" />
+                    <span className="text-sm">Tools</span>
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent className="bg-white border-gray-200 text-gray-700 max-w-xs">
+                  <p className="font-bold mb-1">Tool Calling Test</p>
+                  <p className="text-xs">Give every model a set of mock tools and score whether it picks the right tool, passes valid arguments and finishes with an answer. Replaces the normal streamed run (files, search and structured output are not used).</p>
+                </TooltipContent>
+              </Tooltip>
             </div>
 
             {/* Expert Mode Toggle */}
@@ -2786,6 +3976,382 @@ export default function ChatPage() {
             </Tooltip>
           </div>
 
+          {/* Response Schema - Structured Output only */}
+          {structuredMode && (() => {
+            const checks = Object.values(responses).flatMap((r) => r.structured ? [r.structured] : []);
+            const compliant = checks.filter((check) => check.compliance === "valid" || check.compliance === "repaired").length;
+            const repaired = checks.filter((check) => check.compliance === "repaired").length;
+            return (
+              <div className="mb-4 p-3 bg-teal-50 rounded-lg border border-teal-200">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-bold text-teal-800 text-sm">Response Schema (JSON Schema)</span>
+                  {checks.length > 0 && (
+                    <span className="text-xs font-medium text-teal-800">
+                      {compliant}/{checks.length} compliant{repaired > 0 && ` (${repaired} after repair)`}
+                    </span>
+                  )}
+                </div>
+                <Textarea
+                  value={responseSchemaText}
+                  onChange={(e) => setResponseSchemaText(e.target.value)}
+                  className="min-h-[140px] font-mono text-xs bg-white"
+                  disabled={isRunning}
+                />
+                {responseSchema.error ? (
+                  <p className="text-xs text-red-600 mt-1">{responseSchema.error}</p>
+                ) : (
+                  <p className="text-xs text-teal-700 mt-1">
+                    Providers that support it constrain decoding to the schema; the rest only get instructions. Either way every answer is checked the same way.
+                  </p>
+                )}
+              </div>
+            );
+          })()}
+
+          {/* Mock Tools - Tool Calling only */}
+          {toolMode && (() => {
+            const runs = Object.values(responses).flatMap((r) => r.toolRun ? [r.toolRun] : []);
+            const perfect = runs.filter((run) => run.score.score === 100).length;
+            return (
+              <div className="mb-4 p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-bold text-slate-800 text-sm">Mock Tools</span>
+                  {runs.length > 0 && (
+                    <span className="text-xs font-medium text-slate-800">
+                      {perfect}/{runs.length} perfect runs
+                    </span>
+                  )}
+                </div>
+                <Textarea
+                  value={mockToolsText}
+                  onChange={(e) => setMockToolsText(e.target.value)}
+                  className="min-h-[160px] font-mono text-xs bg-white"
+                  disabled={isRunning}
+                />
+                {mockTools.error && <p className="text-xs text-red-600 mt-1">{mockTools.error}</p>}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-2">
+                  <div>
+                    <label className="text-xs font-medium text-slate-700">Expected tools</label>
+                    <Input
+                      value={expectedToolsInput}
+                      onChange={(e) => setExpectedToolsInput(e.target.value)}
+                      placeholder="comma-separated tool names"
+                      className="mt-1 h-8 text-sm bg-white"
+                      disabled={isRunning}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-medium text-slate-700">Final answer should contain</label>
+                    <Input
+                      value={expectedAnswerInput}
+                      onChange={(e) => setExpectedAnswerInput(e.target.value)}
+                      placeholder="optional"
+                      className="mt-1 h-8 text-sm bg-white"
+                      disabled={isRunning}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-slate-600 mt-1">
+                  Each tool needs a name, a description, JSON Schema parameters and a canned "returns" value. Calls with invalid arguments get an error back instead, so models can try again.
+                </p>
+              </div>
+            );
+          })()}
+
+          {/* System Prompt & Sampling */}
+          <div className="mb-4 bg-gray-50 rounded-lg border border-gray-200">
+            <button
+              onClick={() => setShowPromptSettings(!showPromptSettings)}
+              className="w-full flex items-center justify-between p-3 text-left"
+            >
+              <div className="flex items-center gap-2">
+                <Settings className="w-4 h-4 text-gray-500" />
+                <span className="font-bold text-gray-900 text-sm">System Prompt & Sampling</span>
+                {(systemPrompt.trim() || sampling || maxTokens) && (
+                  <span className="text-xs font-medium px-2 py-0.5 rounded bg-gray-200 text-gray-700">Custom</span>
+                )}
+              </div>
+              {showPromptSettings ? <ChevronUp className="w-4 h-4 text-gray-500" /> : <ChevronDown className="w-4 h-4 text-gray-500" />}
+            </button>
+            {showPromptSettings && (
+              <div className="px-3 pb-3 space-y-3">
+                <div>
+                  <label className="text-xs font-medium text-gray-700">System prompt</label>
+                  <Textarea
+                    value={systemPrompt}
+                    onChange={(e) => setSystemPrompt(e.target.value)}
+                    placeholder="e.g. You are a concise assistant. Answer in three sentences or fewer."
+                    className="mt-1 min-h-[60px] text-sm bg-white"
+                    disabled={isRunning}
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <div className="flex items-center justify-between">
+                      <label className="text-xs font-medium text-gray-700">Temperature</label>
+                      <button
+                        onClick={() => setTemperature(null)}
+                        className="text-xs font-mono text-gray-500 hover:text-gray-900"
+                        disabled={isRunning || temperature === null}
+                      >
+                        {temperature === null ? "default" : `${temperature.toFixed(1)} (reset)`}
+                      </button>
+                    </div>
+                    <Slider
+                      value={[temperature ?? 1]}
+                      onValueChange={([val]) => setTemperature(val)}
+                      min={0}
+                      max={2}
+                      step={0.1}
+                      className="mt-2"
+                      disabled={isRunning}
+                    />
+                  </div>
+                  <div>
+                    <div className="flex items-center justify-between">
+                      <label className="text-xs font-medium text-gray-700">Top P</label>
+                      <button
+                        onClick={() => setTopP(null)}
+                        className="text-xs font-mono text-gray-500 hover:text-gray-900"
+                        disabled={isRunning || topP === null}
+                      >
+                        {topP === null ? "default" : `${topP.toFixed(2)} (reset)`}
+                      </button>
+                    </div>
+                    <Slider
+                      value={[topP ?? 1]}
+                      onValueChange={([val]) => setTopP(val)}
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      className="mt-2"
+                      disabled={isRunning}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <label className="text-xs font-medium text-gray-700">Seed</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={seedInput}
+                      onChange={(e) => setSeedInput(e.target.value)}
+                      placeholder="random"
+                      className="mt-1 h-8 text-sm bg-white"
+                      disabled={isRunning}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-medium text-gray-700">Stop sequences</label>
+                    <Input
+                      value={stopInput}
+                      onChange={(e) => setStopInput(e.target.value)}
+                      placeholder="comma-separated, up to 4"
+                      className="mt-1 h-8 text-sm bg-white"
+                      disabled={isRunning}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-medium text-gray-700">Max output tokens</label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={maxTokensInput}
+                      onChange={(e) => setMaxTokensInput(e.target.value)}
+                      placeholder="1024 (512 for Claude / search)"
+                      className="mt-1 h-8 text-sm bg-white"
+                      disabled={isRunning}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Same settings go to every column, so you can compare how model size changes the effect of temperature. Seeds are best-effort: not every provider honors them, and Claude ignores temperature / top P while extended thinking is on.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Template Variables */}
+          {templateVariables.length > 0 && (
+            <div className="mb-4 p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Braces className="w-4 h-4 text-gray-500" />
+                  <span className="font-bold text-gray-900 text-sm">Template Variables</span>
+                  {templateVariables.map((name) => (
+                    <span key={name} className="text-xs font-mono px-1.5 py-0.5 rounded bg-white border border-gray-200 text-gray-700">{`{{${name}}}`}</span>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  {!variablesText.trim() && (
+                    <button
+                      onClick={() => setVariablesText(`${templateVariables.join(",")}\n`)}
+                      disabled={isRunning}
+                      className="px-2 py-1 text-xs rounded border border-gray-200 text-gray-600 bg-white hover:bg-gray-50"
+                    >
+                      Add header row
+                    </button>
+                  )}
+                  <label className="px-2 py-1 text-xs rounded border border-[#1a3a8f]/30 text-[#1a3a8f] bg-white hover:bg-gray-50 cursor-pointer flex items-center gap-1">
+                    <Upload className="w-3 h-3" />
+                    Load CSV
+                    <input type="file" accept=".csv,.tsv,.txt" className="hidden" onChange={handleVariablesFile} disabled={isRunning} />
+                  </label>
+                </div>
+              </div>
+              <Textarea
+                value={variablesText}
+                onChange={(e) => setVariablesText(e.target.value)}
+                placeholder={`${templateVariables.join(",")}\n${templateVariables.map((name) => `${name} for row 1`).join(",")}`}
+                className="min-h-[90px] text-xs bg-white font-mono"
+                disabled={isRunning}
+              />
+              <p className="text-xs text-gray-500">
+                One row per prompt, under a header row naming the variables (CSV, or paste from a spreadsheet).
+                Running fills in the prompt for each of the {variableRowCount} row{variableRowCount === 1 ? "" : "s"} and runs every one across all columns.
+                The Reference Answer can use the same {"{{variables}}"}.
+              </p>
+            </div>
+          )}
+
+          {/* Reference Answer */}
+          <div className="mb-4 bg-gray-50 rounded-lg border border-gray-200">
+            <button
+              onClick={() => setShowGraderSettings(!showGraderSettings)}
+              className="w-full flex items-center justify-between p-3 text-left"
+            >
+              <div className="flex items-center gap-2">
+                <ClipboardCheck className="w-4 h-4 text-gray-500" />
+                <span className="font-bold text-gray-900 text-sm">Reference Answer</span>
+                {grader && (
+                  <span className="text-xs font-medium px-2 py-0.5 rounded bg-emerald-100 text-emerald-700">{GRADER_LABELS[grader.type].label}</span>
+                )}
+              </div>
+              {showGraderSettings ? <ChevronUp className="w-4 h-4 text-gray-500" /> : <ChevronDown className="w-4 h-4 text-gray-500" />}
+            </button>
+            {showGraderSettings && (
+              <div className="px-3 pb-3 space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-3">
+                  <div>
+                    <label className="text-xs font-medium text-gray-700">Grader</label>
+                    <Select value={graderType} onValueChange={(value) => setGraderType(value as GraderType | "none")} disabled={isRunning}>
+                      <SelectTrigger className="mt-1 h-8 text-sm bg-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-white border-gray-200">
+                        <SelectItem value="none">None</SelectItem>
+                        {(Object.keys(GRADER_LABELS) as GraderType[]).map((type) => (
+                          <SelectItem key={type} value={type}>{GRADER_LABELS[type].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {graderType !== "none" && (
+                    <div>
+                      <label className="text-xs font-medium text-gray-700">
+                        {graderType === "rubric" ? "Rubric" : graderType === "regex" ? "Pattern" : graderType === "code" ? "Unit tests" : "Expected answer"}
+                      </label>
+                      {graderType === "rubric" || graderType === "code" ? (
+                        <Textarea
+                          value={graderExpected}
+                          onChange={(e) => setGraderExpected(e.target.value)}
+                          placeholder={GRADER_LABELS[graderType].placeholder}
+                          className={`mt-1 min-h-[60px] text-sm bg-white ${graderType === "code" ? "font-mono" : ""}`}
+                          disabled={isRunning}
+                        />
+                      ) : (
+                        <Input
+                          value={graderExpected}
+                          onChange={(e) => setGraderExpected(e.target.value)}
+                          placeholder={GRADER_LABELS[graderType].placeholder}
+                          className="mt-1 h-8 text-sm bg-white font-mono"
+                          disabled={isRunning}
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+                {graderType === "numeric" && (
+                  <div className="max-w-[200px]">
+                    <label className="text-xs font-medium text-gray-700">Tolerance (±)</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={graderTolerance}
+                      onChange={(e) => setGraderTolerance(e.target.value)}
+                      placeholder="0 (exact)"
+                      className="mt-1 h-8 text-sm bg-white"
+                      disabled={isRunning}
+                    />
+                  </div>
+                )}
+                {graderType === "code" && (
+                  <div className="max-w-[200px]">
+                    <label className="text-xs font-medium text-gray-700">Language</label>
+                    <Select value={graderLanguage} onValueChange={(value) => setGraderLanguage(value as CodeLanguage)} disabled={isRunning}>
+                      <SelectTrigger className="mt-1 h-8 text-sm bg-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-white border-gray-200">
+                        <SelectItem value="python">Python</SelectItem>
+                        <SelectItem value="javascript">JavaScript</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {(graderType === "exact" || graderType === "regex" || graderType === "keywords") && (
+                  <label className="flex items-center gap-2 text-xs text-gray-700">
+                    <Switch checked={graderCaseSensitive} onCheckedChange={setGraderCaseSensitive} disabled={isRunning} />
+                    Case-sensitive
+                  </label>
+                )}
+                <p className="text-xs text-gray-500">
+                  Every column's answer is checked against this, and the recommendation becomes the cheapest model that got it right.
+                  {graderType === "numeric" && " The number that counts is in the last line of the answer that has one."}
+                  {graderType === "rubric" && " A judge model scores each answer; its cost is shown separately."}
+                  {graderType === "code" && " The answer's code blocks run on the server, followed by these tests (assert statements; any error fails). Name the function in the prompt so the tests can call it. (The server must have code grading switched on.)"}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Repeated Trials */}
+          <div className="mb-4 p-3 bg-gray-50 rounded-lg border border-gray-200">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <RefreshCw className="w-4 h-4 text-gray-500" />
+                <span className="font-bold text-gray-900 text-sm">Repeated Trials</span>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Info className="w-4 h-4 text-gray-400 cursor-help" />
+                  </TooltipTrigger>
+                  <TooltipContent className="bg-white border-gray-200 text-gray-700 max-w-xs">
+                    <p className="font-bold mb-1">Why run it more than once?</p>
+                    <p className="text-xs mb-2">Provider latency is noisy - one run can make a small model look slower than a big one. Several trials show the typical time (median) and the slow tail (p95).</p>
+                    <p className="text-xs italic text-gray-500">Every trial is billed, so N trials cost about N times as much.</p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+              <div className="flex rounded-lg overflow-hidden border border-gray-300">
+                {TRIAL_OPTIONS.map((count, i) => (
+                  <button
+                    key={count}
+                    onClick={() => setTrialCount(count)}
+                    disabled={isRunning}
+                    className={`px-3 py-1 text-xs font-bold transition-all ${i > 0 ? 'border-l border-gray-300' : ''} ${
+                      trialCount === count
+                        ? 'bg-[#1a3a8f] text-white'
+                        : 'bg-white text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    {count === 1 ? "Once" : `${count}×`}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
           {/* Context Safety Buffer - Expert Mode Only */}
           {expertMode && (
             <div className="mb-4 p-3 bg-amber-50 rounded-lg border border-amber-200">
@@ -2922,11 +4488,12 @@ export default function ChatPage() {
             </div>
           )}
 
+          <div className="flex gap-2 mb-6">
           <button
             onClick={handleRunAll}
-            disabled={!prompt.trim() || isRunning || inputTokenEstimate > 1000000}
-            className="w-full py-3 text-sm sm:text-base font-bold mb-6 rounded-lg flex items-center justify-center gap-2 text-white disabled:cursor-not-allowed hover:brightness-110 transition-all"
-            style={{ backgroundColor: (!prompt.trim() || isRunning || inputTokenEstimate > 1000000) ? '#2a4a9f' : '#1a3a8f' }}
+            disabled={!prompt.trim() || isRunning || suiteRun?.running || inputTokenEstimate > 1000000}
+            className="flex-1 py-3 text-sm sm:text-base font-bold rounded-lg flex items-center justify-center gap-2 text-white disabled:cursor-not-allowed hover:brightness-110 transition-all"
+            style={{ backgroundColor: (!prompt.trim() || isRunning || suiteRun?.running || inputTokenEstimate > 1000000) ? '#2a4a9f' : '#1a3a8f' }}
           >
             {isRunning ? (
               <>
@@ -2945,6 +4512,98 @@ export default function ChatPage() {
               </>
             )}
           </button>
+          {isRunning && (
+            <button
+              onClick={handleStopAll}
+              className="px-4 sm:px-6 py-3 text-sm sm:text-base font-bold rounded-lg flex items-center justify-center gap-2 text-red-600 bg-white border border-red-300 hover:bg-red-50 transition-all"
+              data-testid="button-stop-all"
+            >
+              <Square className="w-4 h-4 fill-current" />
+              Stop
+            </button>
+          )}
+          </div>
+
+          {batchRun && (
+            <div className="mb-6 p-4 bg-white rounded-lg border border-gray-200 shadow-sm space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Braces className="w-4 h-4 text-[#1a3a8f]" />
+                  <span className="font-bold text-gray-900 text-sm">Batch Results</span>
+                </div>
+                <span className="text-xs text-gray-500">
+                  {batchRun.running
+                    ? `Row ${batchRun.caseIndex + 1} of ${batchRun.rows.length || variableRowCount}...`
+                    : `${batchRun.results.length} of ${batchRun.rows.length} row${batchRun.rows.length === 1 ? "" : "s"}`}
+                </span>
+              </div>
+              {batchRun.running && batchRun.rows.length > 0 && (
+                <Progress value={(batchRun.caseIndex / batchRun.rows.length) * 100} className="h-1.5" />
+              )}
+              <div className="overflow-x-auto max-h-[60vh] overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-1.5 pr-3 font-medium">Row</th>
+                      {batchRun.columns.map(({ col, modelName }) => (
+                        <th key={col} className="py-1.5 pr-3 font-medium min-w-[160px]">
+                          {modelName} <span className="text-gray-400 font-normal">{col}</span>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {batchRun.rows.map((row, index) => (
+                      <tr key={index} className="border-b border-gray-100 align-top">
+                        <td className="py-1.5 pr-3">
+                          <div className="flex flex-wrap gap-1 max-w-[220px]">
+                            {Object.entries(row).map(([name, value]) => (
+                              <span key={name} className="px-1.5 py-0.5 rounded bg-gray-50 border border-gray-200 text-gray-700">
+                                <span className="text-gray-400">{name}:</span> {value}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        {batchRun.columns.map(({ col }) => {
+                          const result = batchRun.results[index]?.[col];
+                          return (
+                            <td key={col} className="py-1.5 pr-3">
+                              {!result ? (
+                                batchRun.running && index === batchRun.caseIndex
+                                  ? <Loader2 className="w-3 h-3 animate-spin text-gray-400" />
+                                  : <span className="text-gray-300">-</span>
+                              ) : result.error ? (
+                                <span className="text-red-600" title={result.error}>Error</span>
+                              ) : (
+                                <>
+                                  <p className="text-gray-700 line-clamp-3" title={result.content}>{result.content || (result.cancelled ? "Stopped" : "")}</p>
+                                  <p className="text-[11px] text-gray-400 mt-0.5 flex items-center gap-1.5">
+                                    {result.grade && (
+                                      result.grade.correct
+                                        ? <CheckCircle2 className="w-3 h-3 text-emerald-500" />
+                                        : <XCircle className="w-3 h-3 text-red-500" />
+                                    )}
+                                    <span className="font-mono">${result.cost.toFixed(4)}</span>
+                                    <span>{(result.latency / 1000).toFixed(2)}s</span>
+                                  </p>
+                                </>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {batchRun.scorecards && (
+                <div>
+                  <h4 className="text-sm font-bold text-gray-700 mb-1">Per-model totals</h4>
+                  {renderScorecardTable(batchRun.scorecards)}
+                </div>
+              )}
+            </div>
+          )}
 
           <p className="text-center text-xs text-gray-500 mb-3">
             For each size band, we auto-pick the best model that fits your cost + context constraints.
@@ -3005,7 +4664,7 @@ export default function ChatPage() {
                     // ALWAYS show them even if model would be "disabled" under current settings.
                     // This preserves results from Expert Mode runs when Expert Mode is later toggled off.
                     // Use displayModel (which always exists) to render results even when getModelForColumn returns null.
-                    const hasResults = hasContent || isLoading || hasError || isSearchUnavailable;
+                    const hasResults = hasContent || isLoading || hasError || isSearchUnavailable || response?.cancelled;
 
                     // Check if mode is unavailable for this column
                     const modeUnavailableReason = getModeUnavailableReason(col);
@@ -3181,6 +4840,27 @@ export default function ChatPage() {
                               return displayName;
                             })()}
                           </div>
+                          {/* Expert Mode model swap - built-in alternatives plus local models for this band */}
+                          {expertMode && !reasoningMode && !searchMode && getAlternativesForBand(col).length > 1 && (
+                            <div className="mt-1.5" onClick={(e) => e.stopPropagation()}>
+                              <Select
+                                value={String(selectedModelPerBand[col] || 0)}
+                                onValueChange={(value) => setSelectedModelPerBand(prev => ({ ...prev, [col]: parseInt(value, 10) }))}
+                                disabled={isRunning}
+                              >
+                                <SelectTrigger className="bg-white text-gray-700 border-gray-300 h-7 text-[11px] px-2">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-white border-gray-200">
+                                  {getAlternativesForBand(col).map((alt, index) => (
+                                    <SelectItem key={alt.id} value={String(index)} className="text-xs hover:bg-gray-100">
+                                      {alt.name}{alt.costPer1k === 0 ? " (free)" : ""}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
                           {/* Search-only indicator - show when reasoning is ON but not available for this tier */}
                           {reasoningMode && !REASONING_MODELS[col] && (
                             <Tooltip>
@@ -3491,10 +5171,35 @@ export default function ChatPage() {
                             </div>
                             <p className={`text-xs mt-2 font-medium ${
                               cardVisuals.prominence === 'large' ? 'text-[#1a3a8f]' : 'text-gray-500'
-                            }`}>Processing...</p>
+                            }`}>{response.retryNotice || (response.queuePosition
+                              ? `Queued (#${response.queuePosition})...`
+                              : response.reasoningCount && !response.content
+                              ? `Thinking... (${response.reasoningCount} tokens)`
+                              : response.trialNotice || "Processing...")}</p>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleStopModel(col);
+                              }}
+                              className="mt-2 inline-flex items-center gap-1 px-2 py-0.5 text-[10px] font-medium text-red-600 border border-red-200 rounded hover:bg-red-50"
+                              data-testid={`button-stop-${col}`}
+                            >
+                              <Square className="w-2.5 h-2.5 fill-current" />
+                              Stop
+                            </button>
                           </div>
                         )}
 
+                    {response?.cancelled && !hasContent && (
+                      <div className="text-center py-4">
+                        <Square className="w-8 h-8 mx-auto text-gray-400 mb-2" />
+                        <p className="text-xs text-gray-500 font-medium">Stopped before any output</p>
+                        {!!response.cost && (
+                          <p className="text-[10px] text-gray-400 font-mono mt-1">~${response.cost.toFixed(4)} (prompt only)</p>
+                        )}
+                      </div>
+                    )}
+
                     {hasError && (
                       <div className="text-center py-4">
                         <XCircle className="w-10 h-10 mx-auto text-red-500 mb-2" />
@@ -3531,7 +5236,15 @@ export default function ChatPage() {
                       const actualCostConfig = getCostVisuals(response.cost || 0);
                       return (
                         <div className="flex flex-col flex-grow">
-                          {/* Success indicator */}
+                          {/* Success indicator (or a stopped marker - the metrics below are partial) */}
+                          {response.cancelled ? (
+                            <div className="flex flex-col items-center justify-center mb-3">
+                              <div className="w-10 h-10 rounded-full flex items-center justify-center bg-gray-100">
+                                <Square className="w-5 h-5 text-gray-500" />
+                              </div>
+                              <span className="mt-1 text-[10px] font-medium text-gray-500">Stopped - partial output</span>
+                            </div>
+                          ) : (
                           <div className="flex items-center justify-center mb-3">
                             <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
                               actualLatencyCategory === 'fast' ? 'bg-emerald-100' :
@@ -3543,49 +5256,261 @@ export default function ChatPage() {
                               }`} />
                             </div>
                           </div>
+                          )}
                           
                           {/* 1. Latency & Cost metrics (always shown) */}
                           <div className="mb-3 space-y-2">
                             <TooltipProvider>
                               <Tooltip>
                                 <TooltipTrigger asChild>
-                                  <div className="cursor-help">
-                                    <div className="flex items-center justify-between text-xs mb-1">
-                                      <span className="text-gray-500 flex items-center gap-1">
-                                        Latency
-                                        <Info className="w-3 h-3 text-gray-400" />
-                                      </span>
-                                      <span className={`font-mono font-bold ${actualLatencyConfig.color.replace('bg-', 'text-')}`}>
-                                        {((response.latency || 0) / 1000).toFixed(2)}s
+                                  <div className="cursor-help">
+                                    <div className="flex items-center justify-between text-xs mb-1">
+                                      <span className="text-gray-500 flex items-center gap-1">
+                                        Latency
+                                        <Info className="w-3 h-3 text-gray-400" />
+                                      </span>
+                                      <span className={`font-mono font-bold ${actualLatencyConfig.color.replace('bg-', 'text-')}`}>
+                                        {response.trials && <span className="font-sans font-medium text-[9px] text-gray-400 mr-1">p50</span>}
+                                        {((response.trials?.latency.p50 ?? response.latency ?? 0) / 1000).toFixed(2)}s
+                                      </span>
+                                    </div>
+                                    {response.trials ? (
+                                      renderLatencyWhisker(response.trials.latency, trialLatencyScale, actualLatencyConfig.color)
+                                    ) : (
+                                      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                                        <div className={`h-full ${actualLatencyConfig.width} ${actualLatencyConfig.color} rounded-full`}></div>
+                                      </div>
+                                    )}
+                                  </div>
+                                </TooltipTrigger>
+                                <TooltipContent 
+                                  side="bottom" 
+                                  align="center" 
+                                  sideOffset={8}
+                                  className="max-w-[220px] p-3 bg-gray-900 text-white border-0 shadow-xl"
+                                >
+                                  <p className="font-semibold mb-2 text-white text-xs">Why latency varies:</p>
+                                  <ul className="space-y-1.5 text-gray-200 text-[11px]">
+                                    <li>• <span className="font-medium text-white">Cold start:</span> First query spins up model</li>
+                                    <li>• <span className="font-medium text-white">MoE:</span> Routing adds overhead</li>
+                                    <li>• <span className="font-medium text-white">Provider:</span> Infrastructure varies</li>
+                                  </ul>
+                                  {response.ttft != null && !response.trials && (
+                                    <p className="mt-2 text-[11px] text-gray-200">
+                                      First token after <span className="font-mono text-white">{(response.ttft / 1000).toFixed(2)}s</span>
+                                    </p>
+                                  )}
+                                  {response.trials && (
+                                    <div className="mt-2 pt-2 border-t border-gray-700 space-y-0.5 text-[11px] text-gray-200">
+                                      <p className="font-semibold text-white">Over {response.trials.trials} trials (median, p95):</p>
+                                      {response.trials.ttft && (
+                                        <p>First token: <span className="font-mono text-white">{formatSpread(response.trials.ttft, (ms) => `${(ms / 1000).toFixed(2)}s`)}</span></p>
+                                      )}
+                                      <p>Total: <span className="font-mono text-white">{formatSpread(response.trials.latency, (ms) => `${(ms / 1000).toFixed(2)}s`)}</span></p>
+                                      {response.trials.tokensPerSecond && (
+                                        <p>Speed: <span className="font-mono text-white">{Math.round(response.trials.tokensPerSecond.p50)} tok/s</span> (slowest {Math.round(response.trials.tokensPerSecond.min)})</p>
+                                      )}
+                                      <p className="text-gray-400">The bar shows the median; the whisker runs from the fastest trial to p95.</p>
+                                    </div>
+                                  )}
+                                </TooltipContent>
+                              </Tooltip>
+                            </TooltipProvider>
+                            
+                            <div className="flex items-center justify-between text-xs">
+                              <span className="text-gray-500">Cost</span>
+                              <span className={`font-mono ${actualCostConfig.size} ${actualCostConfig.color} ${actualCostConfig.style}`}>
+                                {response.usageSource === "estimated" && "~"}${(response.trials?.cost.p50 ?? response.cost)?.toFixed(4)}
+                                {response.usageSource === "estimated" && (
+                                  <span className="ml-1 text-[9px] font-sans font-semibold text-amber-600" title="Provider didn't report token usage - cost is based on our own token count">
+                                    EST
+                                  </span>
+                                )}
+                              </span>
+                            </div>
+
+                            {response.trials && (
+                              <div
+                                className="flex items-center justify-between text-[10px] text-gray-400"
+                                title={`Median per trial; ${response.trials.trials} trials cost $${response.trials.totalCost.toFixed(4)} in total`}
+                              >
+                                <span>Spread ({response.trials.trials} trials)</span>
+                                <span className="font-mono">${response.trials.cost.min.toFixed(4)}–${response.trials.cost.max.toFixed(4)}</span>
+                              </div>
+                            )}
+                            
+                            {!!response.reasoningTokens && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <div className="flex items-center justify-between text-xs cursor-help" onClick={(e) => e.stopPropagation()}>
+                                    <span className="text-gray-500 flex items-center gap-1">
+                                      <Brain className="w-3 h-3" />
+                                      Thinking
+                                    </span>
+                                    <span className="font-mono text-purple-600">
+                                      ${(response.reasoningCost ?? 0).toFixed(4)}
+                                    </span>
+                                  </div>
+                                </TooltipTrigger>
+                                <TooltipContent side="bottom" className="bg-white border-gray-200 text-gray-700 max-w-[240px] p-3">
+                                  <p className="font-bold text-gray-700 text-xs mb-1">Reasoning vs answer tokens</p>
+                                  <p className="text-[11px]">
+                                    {response.reasoningTokens.toLocaleString()} reasoning / {Math.max((response.outputTokens ?? 0) - response.reasoningTokens, 0).toLocaleString()} answer.
+                                    Thinking tokens bill at the output rate but never show up in the answer.
+                                  </p>
+                                </TooltipContent>
+                              </Tooltip>
+                            )}
+                            
+                            {response.attempts?.some((attempt) => !attempt.ok) && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <div className="flex items-center justify-between text-xs cursor-help" onClick={(e) => e.stopPropagation()}>
+                                    <span className="text-gray-500 flex items-center gap-1">
+                                      <RefreshCw className="w-3 h-3" />
+                                      {response.servedBy && response.servedBy !== renderModel.id ? "Fallback" : "Retried"}
+                                    </span>
+                                    <span className="text-amber-600 font-medium truncate max-w-[110px]">
+                                      {response.servedBy && response.servedBy !== renderModel.id
+                                        ? getHostName(response.servedBy)
+                                        : `${response.attempts.filter((attempt) => !attempt.ok).length}x`}
+                                    </span>
+                                  </div>
+                                </TooltipTrigger>
+                                <TooltipContent side="bottom" className="bg-white border-gray-200 text-gray-700 max-w-[260px] p-3">
+                                  <p className="font-bold text-gray-700 text-xs mb-1.5">Attempts</p>
+                                  {renderAttemptList(response.attempts)}
+                                </TooltipContent>
+                              </Tooltip>
+                            )}
+                            
+                            {response.truncation && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <div className="flex items-center justify-between text-xs cursor-help" onClick={(e) => e.stopPropagation()}>
+                                    <span className="text-gray-500 flex items-center gap-1">
+                                      <Scissors className="w-3 h-3" />
+                                      Truncated
+                                    </span>
+                                    <span className="font-mono text-red-600">
+                                      -{response.truncation.droppedTokens.toLocaleString()}
+                                    </span>
+                                  </div>
+                                </TooltipTrigger>
+                                <TooltipContent side="bottom" className="bg-white border-gray-200 text-gray-700 max-w-[240px] p-3">
+                                  <p className="font-bold text-gray-700 text-xs mb-1">Input cut to fit the window</p>
+                                  <p className="text-[11px]">
+                                    Kept the first {response.truncation.keptTokens.toLocaleString()} of {response.truncation.inputTokens.toLocaleString()} tokens
+                                    ({response.truncation.windowTokens.toLocaleString()}-token window). The model never saw the rest.
+                                  </p>
+                                </TooltipContent>
+                              </Tooltip>
+                            )}
+                            
+                            {response.structured && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <div className="flex items-center justify-between text-xs cursor-help" onClick={(e) => e.stopPropagation()}>
+                                    <span className="text-gray-500 flex items-center gap-1">
+                                      <Braces className="w-3 h-3" />
+                                      Schema
+                                    </span>
+                                    <span className={`font-medium ${COMPLIANCE_LABELS[response.structured.compliance].color}`}>
+                                      {COMPLIANCE_LABELS[response.structured.compliance].label}
+                                    </span>
+                                  </div>
+                                </TooltipTrigger>
+                                <TooltipContent side="bottom" className="bg-white border-gray-200 text-gray-700 max-w-[260px] p-3">
+                                  <p className="font-bold text-gray-700 text-xs mb-1">
+                                    Format: {STRUCTURED_MODE_LABELS[response.structured.mode]}
+                                  </p>
+                                  {response.structured.compliance === "repaired" && (
+                                    <p className="text-[11px]">The JSON only parsed after stripping prose, code fences or trailing commas.</p>
+                                  )}
+                                  {response.structured.errors.length > 0 && (
+                                    <ul className="text-[11px] font-mono space-y-0.5">
+                                      {response.structured.errors.map((error, index) => (
+                                        <li key={index}>{error}</li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                  {response.structured.compliance === "valid" && (
+                                    <p className="text-[11px]">Parsed as-is and matches the schema.</p>
+                                  )}
+                                </TooltipContent>
+                              </Tooltip>
+                            )}
+                            
+                            {(response.grade || response.gradeError) && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <div className="flex items-center justify-between text-xs cursor-help" onClick={(e) => e.stopPropagation()}>
+                                    <span className="text-gray-500 flex items-center gap-1">
+                                      {response.grade?.grader === "code" ? <Code2 className="w-3 h-3" /> : <ClipboardCheck className="w-3 h-3" />}
+                                      {response.grade?.grader === "code" ? "Tests" : "Answer"}
+                                    </span>
+                                    {response.grade ? (
+                                      <span className={`font-bold ${response.grade.correct ? 'text-emerald-600' : 'text-red-600'}`}>
+                                        {response.grade.grader === "code"
+                                          ? (response.grade.correct ? "Passed" : "Failed")
+                                          : (response.grade.correct ? "Correct" : "Wrong")}
+                                        {response.grade.grader === "rubric" && ` ${Math.round(response.grade.score * 10)}/10`}
                                       </span>
-                                    </div>
-                                    <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
-                                      <div className={`h-full ${actualLatencyConfig.width} ${actualLatencyConfig.color} rounded-full`}></div>
-                                    </div>
+                                    ) : (
+                                      <span className="text-gray-400">Not graded</span>
+                                    )}
                                   </div>
                                 </TooltipTrigger>
-                                <TooltipContent 
-                                  side="bottom" 
-                                  align="center" 
-                                  sideOffset={8}
-                                  className="max-w-[220px] p-3 bg-gray-900 text-white border-0 shadow-xl"
-                                >
-                                  <p className="font-semibold mb-2 text-white text-xs">Why latency varies:</p>
-                                  <ul className="space-y-1.5 text-gray-200 text-[11px]">
-                                    <li>• <span className="font-medium text-white">Cold start:</span> First query spins up model</li>
-                                    <li>• <span className="font-medium text-white">MoE:</span> Routing adds overhead</li>
-                                    <li>• <span className="font-medium text-white">Provider:</span> Infrastructure varies</li>
+                                <TooltipContent side="bottom" className="bg-white border-gray-200 text-gray-700 max-w-[260px] p-3">
+                                  {response.grade ? (
+                                    <>
+                                      <p className="font-bold text-gray-700 text-xs mb-1">{GRADER_LABELS[response.grade.grader].label}</p>
+                                      <p className="text-[11px]">{response.grade.reason}</p>
+                                      {response.grade.judgeCost !== undefined && (
+                                        <p className="text-[11px] text-gray-400 mt-1 font-mono">Judge: ${response.grade.judgeCost.toFixed(4)}</p>
+                                      )}
+                                      {response.grade.output && (
+                                        <pre className="mt-2 max-h-40 overflow-auto text-[10px] font-mono bg-gray-50 border border-gray-200 rounded p-1.5 whitespace-pre-wrap">{response.grade.output}</pre>
+                                      )}
+                                      {response.grade.durationMs !== undefined && (
+                                        <p className="text-[11px] text-gray-400 mt-1">Ran in {(response.grade.durationMs / 1000).toFixed(2)}s</p>
+                                      )}
+                                    </>
+                                  ) : (
+                                    <p className="text-[11px]">{response.gradeError}</p>
+                                  )}
+                                </TooltipContent>
+                              </Tooltip>
+                            )}
+
+                            {response.toolRun && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <div className="flex items-center justify-between text-xs cursor-help" onClick={(e) => e.stopPropagation()}>
+                                    <span className="text-gray-500 flex items-center gap-1">
+                                      <Wrench className="w-3 h-3" />
+                                      Tools
+                                    </span>
+                                    <span className={`font-mono font-bold ${
+                                      response.toolRun.score.score === 100 ? 'text-emerald-600' :
+                                      response.toolRun.score.score > 0 ? 'text-amber-600' : 'text-red-600'
+                                    }`}>
+                                      {response.toolRun.score.score}/100
+                                    </span>
+                                  </div>
+                                </TooltipTrigger>
+                                <TooltipContent side="bottom" className="bg-white border-gray-200 text-gray-700 max-w-[240px] p-3">
+                                  <p className="font-bold text-gray-700 text-xs mb-1">
+                                    {response.toolRun.steps.length} tool call(s) in {response.toolRun.turns} turn(s)
+                                  </p>
+                                  <ul className="text-[11px] space-y-0.5">
+                                    <li>{response.toolRun.score.rightTools ? "✓" : "✗"} Right tools</li>
+                                    <li>{response.toolRun.score.validArguments ? "✓" : "✗"} Valid arguments</li>
+                                    <li>{response.toolRun.score.finalAnswer ? "✓" : "✗"} Final answer</li>
                                   </ul>
                                 </TooltipContent>
                               </Tooltip>
-                            </TooltipProvider>
-                            
-                            <div className="flex items-center justify-between text-xs">
-                              <span className="text-gray-500">Cost</span>
-                              <span className={`font-mono ${actualCostConfig.size} ${actualCostConfig.color} ${actualCostConfig.style}`}>
-                                ${response.cost?.toFixed(4)}
-                              </span>
-                            </div>
+                            )}
                           </div>
 
                           {/* 2. Expert Mode: Full model details (BEFORE response) */}
@@ -3839,13 +5764,15 @@ export default function ChatPage() {
                   if (!model) return null;
                   const response = responses[col];
                   const hasResult = response?.content && !response?.error;
-                  const rawCost = response?.cost;
+                  // Repeated trials plot the median cost, with the spread as an error bar
+                  const spread = response?.trials?.cost;
+                  const rawCost = spread?.p50 ?? response?.cost;
                   const cost = (typeof rawCost === 'number' && rawCost > 0) ? rawCost : estimateCost(model);
                   const mmlu = model.benchmarks.mmlu || 70;
                   const { disabled } = isModelDisabled(col);
                   const isRec = showResults && col === recommendedModel;
-                  return { col, cost, mmlu, hasResult, disabled, isRec };
-                }).filter(Boolean) as { col: string; cost: number; mmlu: number; hasResult: boolean; disabled: boolean; isRec: boolean }[];
+                  return { col, cost, spread, mmlu, hasResult, disabled, isRec };
+                }).filter(Boolean) as { col: string; cost: number; spread?: TrialDistribution; mmlu: number; hasResult: boolean; disabled: boolean; isRec: boolean }[];
                 
                 const minMmlu = 60;
                 const maxMmlu = 95;
@@ -3858,8 +5785,20 @@ export default function ChatPage() {
                   "Frontier": 95
                 };
                 
-                const getX = (col: string) => {
-                  return FIXED_X_POSITIONS[col] || 50;
+                // With trial results the columns sit on a real (log) cost axis, so the error
+                // bars mean something; otherwise they keep their fixed slots
+                const costAxis = chartModels.some(m => m.spread) ? (() => {
+                  const costs = chartModels.flatMap(m => m.spread ? [m.spread.min, m.spread.max] : [m.cost]).filter(c => c > 0);
+                  return { low: Math.log(Math.min(...costs)), high: Math.log(Math.max(...costs)) };
+                })() : null;
+
+                const getCostX = (cost: number) => {
+                  if (!costAxis || costAxis.high === costAxis.low) return 50;
+                  return 5 + ((Math.log(Math.max(cost, Math.exp(costAxis.low))) - costAxis.low) / (costAxis.high - costAxis.low)) * 90;
+                };
+
+                const getX = (m: { col: string; cost: number }) => {
+                  return costAxis ? getCostX(m.cost) : FIXED_X_POSITIONS[m.col] || 50;
                 };
                 
                 const getY = (mmlu: number) => {
@@ -3876,7 +5815,7 @@ export default function ChatPage() {
                     o.mmlu >= m.mmlu && 
                     (o.cost < m.cost || o.mmlu > m.mmlu)
                   ))
-                  .sort((a, b) => getX(a.col) - getX(b.col));
+                  .sort((a, b) => getX(a) - getX(b));
                 
                 return (
                   <div className="relative h-[200px]">
@@ -3901,7 +5840,7 @@ export default function ChatPage() {
                         <svg className="absolute inset-0 w-full h-full overflow-visible pointer-events-none">
                           <polyline
                             points={paretoFrontier.map(m => {
-                              const xPct = getX(m.col);
+                              const xPct = getX(m);
                               const yPct = getY(m.mmlu);
                               return `${xPct}%,${yPct}%`;
                             }).join(' ')}
@@ -3913,8 +5852,24 @@ export default function ChatPage() {
                         </svg>
                       )}
                       
+                      {chartModels.map(m => m.spread && (
+                        <div
+                          key={`${m.col}-spread`}
+                          className="absolute h-2 border-x border-gray-500"
+                          style={{
+                            left: `${getCostX(m.spread.min)}%`,
+                            width: `${getCostX(m.spread.max) - getCostX(m.spread.min)}%`,
+                            top: `${getY(m.mmlu)}%`,
+                            transform: 'translateY(-50%)',
+                          }}
+                          title={`${m.col}: $${m.spread.min.toFixed(4)}–$${m.spread.max.toFixed(4)} over ${responses[m.col]?.trials?.trials} trials`}
+                        >
+                          <div className="absolute inset-x-0 top-1/2 border-t border-gray-500" />
+                        </div>
+                      ))}
+
                       {chartModels.map((m, i) => {
-                        const xPct = getX(m.col);
+                        const xPct = getX(m);
                         const yPct = getY(m.mmlu);
                         const isOnFrontier = paretoFrontier.some(f => f.col === m.col);
                         const labelOffsetY = i % 2 === 0 ? -20 : 16;
@@ -3957,6 +5912,9 @@ export default function ChatPage() {
                 <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-[#1a3a8f]"></span> Open Source</span>
                 <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-orange-500"></span> Frontier</span>
                 <span className="flex items-center gap-1"><span className="w-3 h-0 border-t-2 border-dashed border-[#f5a623]"></span> Pareto Frontier</span>
+                {COLUMNS.some(col => responses[col]?.trials) && (
+                  <span className="flex items-center gap-1"><span className="w-3 h-1.5 border-x border-gray-500 relative"><span className="absolute inset-x-0 top-1/2 border-t border-gray-500"></span></span> Cost spread (median dot)</span>
+                )}
               </div>
             </div>
           )}
@@ -4038,8 +5996,16 @@ export default function ChatPage() {
                   <div className="text-center">
                     <div className="text-gray-500 text-xs mb-1">Cost</div>
                     <div className="font-mono text-sm sm:text-lg font-bold text-gray-900">
-                      ${selectedModel.response.cost?.toFixed(4)}
+                      {selectedModel.response.usageSource === "estimated" && "~"}${selectedModel.response.cost?.toFixed(4)}
                     </div>
+                    {selectedModel.response.usageSource === "estimated" && (
+                      <div className="text-[10px] text-amber-600 mt-0.5">Estimated - usage not reported</div>
+                    )}
+                    {!!selectedModel.response.reasoningTokens && (
+                      <div className="text-[10px] text-purple-600 mt-0.5">
+                        ${(selectedModel.response.reasoningCost ?? 0).toFixed(4)} thinking ({selectedModel.response.reasoningTokens.toLocaleString()} reasoning / {Math.max((selectedModel.response.outputTokens ?? 0) - selectedModel.response.reasoningTokens, 0).toLocaleString()} answer tokens)
+                      </div>
+                    )}
                   </div>
                   <div className="text-center">
                     <div className="text-gray-500 text-xs mb-1">Length</div>
@@ -4049,6 +6015,42 @@ export default function ChatPage() {
                   </div>
                 </div>
               )}
+              {selectedModel?.response.attempts?.some((attempt) => !attempt.ok) && (
+                <div className="p-3 bg-amber-50 rounded-lg border border-amber-200">
+                  <div className="text-xs font-bold text-amber-700 mb-1.5">
+                    {selectedModel.response.attempts.length} attempts - failed calls aren't billed
+                  </div>
+                  {renderAttemptList(selectedModel.response.attempts)}
+                </div>
+              )}
+              {selectedModel?.response.toolRun && (
+                <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                  <div className="text-xs font-bold text-slate-700 mb-1.5">
+                    Tool calls - score {selectedModel.response.toolRun.score.score}/100 in {selectedModel.response.toolRun.turns} turn(s)
+                  </div>
+                  {selectedModel.response.toolRun.steps.length === 0 ? (
+                    <p className="text-xs text-slate-600">The model answered without calling any tool.</p>
+                  ) : (
+                    <ol className="space-y-1.5">
+                      {selectedModel.response.toolRun.steps.map((step, index) => (
+                        <li key={index} className="text-xs font-mono">
+                          <span className={step.argumentsValid ? "text-emerald-700" : "text-red-600"}>
+                            {step.argumentsValid ? "✓" : "✗"}
+                          </span>{" "}
+                          <span className="text-gray-500">[turn {step.turn}]</span> {step.tool}({step.arguments})
+                          {step.errors.length > 0 && (
+                            <div className="pl-4 text-red-600">{step.errors.join("; ")}</div>
+                          )}
+                          <div className="pl-4 text-gray-500 truncate">→ {JSON.stringify(step.result)}</div>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                  {selectedModel.response.toolRun.stoppedEarly && (
+                    <p className="text-xs text-amber-700 mt-1.5">{selectedModel.response.toolRun.stoppedEarly}</p>
+                  )}
+                </div>
+              )}
               <div>
                 <div className="text-sm font-bold text-[#1a3a8f] mb-2">Response:</div>
                 {selectedModel?.response.error ? (
@@ -4340,6 +6342,11 @@ export default function ChatPage() {
               <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
                 <div className="text-xs text-gray-500 mb-1">Prompt to save:</div>
                 <p className="text-sm text-gray-700 line-clamp-3">{prompt}</p>
+                {grader && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Reference answer ({GRADER_LABELS[grader.type].label}): <span className="font-mono text-gray-700">{grader.expected}</span>
+                  </p>
+                )}
               </div>
               <div className="flex gap-3 pt-2">
                 <Button
@@ -4412,7 +6419,7 @@ export default function ChatPage() {
                         </div>
                         <div className="flex items-center gap-2 shrink-0">
                           <button
-                            onClick={() => handleLoadBenchmark(benchmark.prompt)}
+                            onClick={() => handleLoadBenchmark(benchmark)}
                             className="px-3 py-1.5 bg-[#1a3a8f] text-white text-sm font-medium rounded hover:bg-[#2a4a9f] flex items-center gap-1"
                           >
                             <Play className="w-3 h-3" />
@@ -4437,6 +6444,442 @@ export default function ChatPage() {
           </DialogContent>
         </Dialog>
 
+        <Dialog open={showHistoryModal} onOpenChange={setShowHistoryModal}>
+          <DialogContent className="max-w-2xl max-h-[80vh] bg-white border-gray-200 text-gray-900 mx-2 sm:mx-auto w-[calc(100%-1rem)] sm:w-full">
+            <DialogHeader>
+              <DialogTitle className="text-xl flex items-center gap-2 font-black">
+                <History className="w-5 h-5 text-[#1a3a8f]" />
+                <span className="text-[#1a3a8f]">Run History</span>
+              </DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-500">
+                  Your recent runs. Open one to see its results again, or re-run it with the same settings.
+                </p>
+                <button
+                  onClick={loadRunHistory}
+                  disabled={historyLoading}
+                  className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded"
+                >
+                  <RefreshCw className={`w-4 h-4 ${historyLoading ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+
+              {historyLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-[#1a3a8f]" />
+                </div>
+              ) : historyRuns.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <History className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                  <p className="font-medium">No runs yet</p>
+                  <p className="text-sm mt-1">Every test you run is saved here.</p>
+                </div>
+              ) : (
+                <div className="space-y-3 max-h-[50vh] overflow-y-auto pr-2">
+                  {historyRuns.map((run) => {
+                    const columns = Object.values(run.responses ?? {});
+                    const totalCost = columns.reduce((sum, data) => sum + (data.cost || 0), 0);
+                    const modes = [
+                      run.settings?.contextSize?.toUpperCase(),
+                      run.settings?.reasoningEnabled && "Reasoning",
+                      run.settings?.searchMode && "Search",
+                      run.settings?.tools && "Tools",
+                      run.settings?.responseSchema && "Structured",
+                      run.settings?.trials && `${run.settings.trials} trials`,
+                    ].filter(Boolean);
+                    return (
+                      <div
+                        key={run.id}
+                        className="p-4 bg-gray-50 border border-gray-200 rounded-lg hover:border-[#1a3a8f]/30 transition-colors"
+                      >
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-bold text-gray-900">
+                              {new Date(run.runAt).toLocaleString()}
+                            </p>
+                            <p className="text-xs text-gray-500 mt-0.5">
+                              {columns.length} model{columns.length === 1 ? "" : "s"}
+                              {" · "}
+                              <span className="font-mono">${totalCost.toFixed(4)}</span>
+                              {modes.length > 0 && ` · ${modes.join(" · ")}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <button
+                              onClick={() => handleOpenRun(run)}
+                              className="px-3 py-1.5 border border-[#1a3a8f]/30 text-[#1a3a8f] text-sm font-medium rounded hover:bg-white"
+                            >
+                              Open
+                            </button>
+                            <button
+                              onClick={() => handleRerun(run)}
+                              disabled={isRunning}
+                              className="px-3 py-1.5 bg-[#1a3a8f] text-white text-sm font-medium rounded hover:bg-[#2a4a9f] flex items-center gap-1 disabled:opacity-50"
+                            >
+                              <Play className="w-3 h-3" />
+                              Re-run
+                            </button>
+                          </div>
+                        </div>
+                        <div className="mt-2 p-2 bg-white rounded border border-gray-200">
+                          <p className="text-xs text-gray-600 line-clamp-2 font-mono">{run.prompt}</p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={showSuitesModal} onOpenChange={setShowSuitesModal}>
+          <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto bg-white border-gray-200 text-gray-900 mx-2 sm:mx-auto w-[calc(100%-1rem)] sm:w-full">
+            <DialogHeader>
+              <DialogTitle className="text-xl flex items-center gap-2 font-black">
+                <ListChecks className="w-5 h-5 text-[#1a3a8f]" />
+                <span className="text-[#1a3a8f]">Benchmark Suites</span>
+              </DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <p className="text-sm text-gray-500">
+                One prompt can't tell you which model to pick. A suite runs many test cases through the current models and
+                scores each one: how often it was right, what it cost, and what each correct answer cost.
+              </p>
+
+              {suiteRun && (
+                <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between gap-3 mb-2">
+                    <div>
+                      <h4 className="font-bold text-gray-900">{suiteRun.suiteName}</h4>
+                      <p className="text-xs text-gray-500">
+                        {suiteRun.running
+                          ? `Case ${suiteRun.caseIndex + 1} of ${suiteRun.cases}...`
+                          : suiteRun.scorecards
+                            ? `${suiteRun.cases} case${suiteRun.cases === 1 ? "" : "s"}${suiteRun.runAt ? ` · ${new Date(suiteRun.runAt).toLocaleString()}` : ""}`
+                            : "Stopped before the suite finished"}
+                      </p>
+                    </div>
+                    {suiteRun.running && (
+                      <button
+                        onClick={handleStopSuite}
+                        className="px-3 py-1.5 text-sm font-bold rounded flex items-center gap-1 text-red-600 bg-white border border-red-300 hover:bg-red-50"
+                      >
+                        <Square className="w-3 h-3 fill-current" />
+                        Stop
+                      </button>
+                    )}
+                  </div>
+                  {suiteRun.running && <Progress value={(suiteRun.caseIndex / suiteRun.cases) * 100} className="h-1.5" />}
+                  {suiteRun.scorecards && renderScorecardTable(suiteRun.scorecards)}
+                  {suitePastRuns && suitePastRuns.runs.length > 1 && (
+                    <div className="flex flex-wrap gap-1 mt-3">
+                      {suitePastRuns.runs.map((run) => (
+                        <button
+                          key={run.id}
+                          onClick={() => setSuiteRun((prev) => prev && { ...prev, runAt: run.runAt, scorecards: run.scorecards ?? undefined })}
+                          className={`px-2 py-0.5 text-[11px] rounded border ${suiteRun.runAt === run.runAt ? "border-[#1a3a8f] text-[#1a3a8f] bg-white" : "border-gray-200 text-gray-500 hover:bg-white"}`}
+                        >
+                          {new Date(run.runAt).toLocaleString()}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-bold text-gray-700">Saved suites</h4>
+                <button
+                  onClick={loadSuites}
+                  disabled={suitesLoading}
+                  className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded"
+                >
+                  <RefreshCw className={`w-4 h-4 ${suitesLoading ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+              {suitesLoading ? (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="w-6 h-6 animate-spin text-[#1a3a8f]" />
+                </div>
+              ) : suites.length === 0 ? (
+                <div className="text-center py-6 text-gray-500">
+                  <ListChecks className="w-10 h-10 mx-auto mb-2 text-gray-300" />
+                  <p className="font-medium">No suites yet</p>
+                  <p className="text-sm mt-1">Build one below from prompts and reference answers.</p>
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-[30vh] overflow-y-auto pr-2">
+                  {suites.map((suite) => {
+                    const graded = suite.cases.filter((item) => item.grader).length;
+                    return (
+                      <div key={suite.id} className="p-3 bg-gray-50 border border-gray-200 rounded-lg flex items-start justify-between gap-3">
+                        <div className="flex-1 min-w-0">
+                          <h4 className="font-bold text-gray-900 truncate">{suite.name}</h4>
+                          {suite.description && <p className="text-sm text-gray-500 line-clamp-1">{suite.description}</p>}
+                          <p className="text-xs text-gray-400 mt-0.5 flex items-center gap-1 flex-wrap">
+                            {suite.cases.length} case{suite.cases.length === 1 ? "" : "s"} · {graded} with a reference answer ·
+                            <Download className="w-3 h-3" />
+                            <a href={`/api/suites/${suite.id}/export?format=jsonl`} download className="text-[#1a3a8f] hover:underline">JSONL</a>
+                            <a href={`/api/suites/${suite.id}/export?format=csv`} download className="text-[#1a3a8f] hover:underline">CSV</a>
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <button
+                            onClick={() => handleShowSuiteRuns(suite)}
+                            className="px-3 py-1.5 border border-[#1a3a8f]/30 text-[#1a3a8f] text-sm font-medium rounded hover:bg-white"
+                          >
+                            Scorecards
+                          </button>
+                          <button
+                            onClick={() => handleRunSuite(suite)}
+                            disabled={isRunning || suiteRun?.running}
+                            className="px-3 py-1.5 bg-[#1a3a8f] text-white text-sm font-medium rounded hover:bg-[#2a4a9f] flex items-center gap-1 disabled:opacity-50"
+                          >
+                            <Play className="w-3 h-3" />
+                            Run
+                          </button>
+                          <button
+                            onClick={() => handleDeleteSuite(suite.id)}
+                            disabled={suiteRun?.running}
+                            className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="p-4 border border-dashed border-gray-300 rounded-lg space-y-3">
+                <h4 className="text-sm font-bold text-gray-700">New suite</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <Input
+                    value={suiteName}
+                    onChange={(e) => setSuiteName(e.target.value)}
+                    placeholder="Name, e.g. Unit conversions"
+                    className="text-sm"
+                  />
+                  <Input
+                    value={suiteDescription}
+                    onChange={(e) => setSuiteDescription(e.target.value)}
+                    placeholder="Description (optional)"
+                    className="text-sm"
+                  />
+                </div>
+                {suiteDraftCases.length > 0 && (
+                  <ol className="space-y-1 max-h-[25vh] overflow-y-auto">
+                    {suiteDraftCases.map((item, index) => (
+                      <li key={index} className="flex items-start gap-2 p-2 bg-gray-50 rounded border border-gray-200 text-xs">
+                        <span className="text-gray-400 font-mono">{index + 1}.</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-gray-700 line-clamp-1 font-mono">{item.prompt}</p>
+                          <p className="text-gray-400">
+                            {item.grader ? `${GRADER_LABELS[item.grader.type].label}: ${item.grader.expected.split("\n")[0]}` : "No reference answer"}
+                            {item.fileNames.length > 0 && ` · ${item.fileNames.join(", ")}`}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => setSuiteDraftCases((prev) => prev.filter((_, i) => i !== index))}
+                          className="text-gray-400 hover:text-red-500"
+                          aria-label="Remove case"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                <p className="text-xs text-gray-500">
+                  Each case is taken from the prompt box as it is now: the prompt, attached files, and the Reference Answer.
+                  Close this window to set up the next case, then come back and add it.
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handleAddSuiteCase} disabled={!prompt.trim()} className="flex-1">
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add current prompt
+                  </Button>
+                  <Button
+                    onClick={handleSaveSuite}
+                    disabled={!suiteName.trim() || suiteDraftCases.length === 0}
+                    className="flex-1 bg-[#1a3a8f] hover:bg-[#2a4a9f]"
+                  >
+                    Save suite ({suiteDraftCases.length} case{suiteDraftCases.length === 1 ? "" : "s"})
+                  </Button>
+                </div>
+              </div>
+
+              <div className="p-4 border border-dashed border-gray-300 rounded-lg space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="text-sm font-bold text-gray-700">Import a dataset</h4>
+                  <label className="px-3 py-1.5 border border-[#1a3a8f]/30 text-[#1a3a8f] text-sm font-medium rounded hover:bg-gray-50 cursor-pointer flex items-center gap-1">
+                    <Upload className="w-3 h-3" />
+                    {datasetImport ? datasetImport.fileName : "Choose JSONL or CSV"}
+                    <input type="file" accept=".jsonl,.ndjson,.json,.csv" className="hidden" onChange={handleDatasetFile} />
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500">
+                  One test case per row. Map the fields that hold the prompt, the expected answer, the grader type and tags -
+                  a field name, or a template like <span className="font-mono">{"Solve: {{question}}"}</span>. Exported suites import back as they are.
+                </p>
+                {datasetImport && (
+                  <>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-xs text-gray-500">Presets:</span>
+                      {Object.entries(DATASET_PRESETS).map(([presetName, preset]) => (
+                        <button
+                          key={presetName}
+                          onClick={() => updateDatasetImport(preset)}
+                          className="px-2 py-0.5 text-xs rounded border border-gray-200 text-gray-600 hover:bg-gray-50"
+                        >
+                          {presetName}
+                        </button>
+                      ))}
+                      <Select value={datasetImport.format} onValueChange={(value) => updateDatasetImport({ format: value as "jsonl" | "csv" })}>
+                        <SelectTrigger className="h-7 w-[90px] text-xs bg-white ml-auto">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-white border-gray-200">
+                          <SelectItem value="jsonl">JSONL</SelectItem>
+                          <SelectItem value="csv">CSV</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {(["prompt", "expected", "grader", "tags"] as const).map((part) => (
+                        <div key={part}>
+                          <label className="text-xs font-medium text-gray-700 capitalize">{part === "expected" ? "Expected answer" : part === "grader" ? "Grader type" : part}</label>
+                          <Input
+                            value={datasetImport.mapping[part]}
+                            onChange={(e) => updateDatasetImport({ mapping: { ...datasetImport.mapping, [part]: e.target.value } })}
+                            placeholder={part === "prompt" ? "Required" : "Not mapped"}
+                            list="dataset-fields"
+                            className="mt-1 h-8 text-sm font-mono"
+                          />
+                        </div>
+                      ))}
+                      <datalist id="dataset-fields">
+                        {datasetPreview?.fields.map((field) => <option key={field} value={field} />)}
+                      </datalist>
+                      <div>
+                        <label className="text-xs font-medium text-gray-700">Default grader</label>
+                        <Select value={datasetImport.defaultGrader || "none"} onValueChange={(value) => updateDatasetImport({ defaultGrader: value === "none" ? "" : value as GraderType })}>
+                          <SelectTrigger className="mt-1 h-8 text-sm bg-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-white border-gray-200">
+                            <SelectItem value="none">None (from the grader field)</SelectItem>
+                            {(Object.keys(GRADER_LABELS) as GraderType[]).map((type) => (
+                              <SelectItem key={type} value={type}>{GRADER_LABELS[type].label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {datasetImport.defaultGrader === "code" ? (
+                        <div>
+                          <label className="text-xs font-medium text-gray-700">Test language</label>
+                          <Select value={datasetImport.language} onValueChange={(value) => updateDatasetImport({ language: value as CodeLanguage })}>
+                            <SelectTrigger className="mt-1 h-8 text-sm bg-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-white border-gray-200">
+                              <SelectItem value="python">Python</SelectItem>
+                              <SelectItem value="javascript">JavaScript</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ) : (
+                        <div>
+                          <label className="text-xs font-medium text-gray-700">Answer after</label>
+                          <Input
+                            value={datasetImport.answerDelimiter}
+                            onChange={(e) => updateDatasetImport({ answerDelimiter: e.target.value })}
+                            placeholder="e.g. #### (keeps the text after it)"
+                            className="mt-1 h-8 text-sm font-mono"
+                          />
+                        </div>
+                      )}
+                      <div>
+                        <label className="text-xs font-medium text-gray-700">Suite name</label>
+                        <Input
+                          value={datasetImport.name}
+                          onChange={(e) => setDatasetImport((prev) => prev && { ...prev, name: e.target.value })}
+                          className="mt-1 h-8 text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs font-medium text-gray-700">First rows only</label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={datasetImport.limit}
+                          onChange={(e) => updateDatasetImport({ limit: e.target.value })}
+                          placeholder="All rows"
+                          className="mt-1 h-8 text-sm"
+                        />
+                      </div>
+                    </div>
+
+                    {datasetPreview && (
+                      <div className="space-y-1">
+                        <p className={`text-xs font-medium ${datasetPreview.valid === datasetPreview.total ? "text-emerald-600" : "text-amber-600"}`}>
+                          {datasetPreview.valid} of {datasetPreview.total} rows are valid
+                        </p>
+                        <div className="max-h-[25vh] overflow-y-auto space-y-1">
+                          {[...datasetPreview.rows, ...datasetPreview.errors.filter((row) => !datasetPreview.rows.some((shown) => shown.line === row.line))].map((row) => (
+                            <div key={row.line} className={`p-2 rounded border text-xs ${row.error ? "border-red-200 bg-red-50" : "border-gray-200 bg-gray-50"}`}>
+                              <span className="text-gray-400 font-mono mr-1">L{row.line}</span>
+                              {row.error ? (
+                                <span className="text-red-600">{row.error}</span>
+                              ) : row.case && (
+                                <>
+                                  <span className="text-gray-700 font-mono line-clamp-1">{row.case.prompt}</span>
+                                  <span className="text-gray-400">
+                                    {row.case.grader ? `${GRADER_LABELS[row.case.grader.type].label}: ${row.case.grader.expected.split("\n")[0]}` : "No reference answer"}
+                                    {row.case.tags && ` · ${row.case.tags.join(", ")}`}
+                                  </span>
+                                </>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                        {datasetPreview.valid < datasetPreview.total && (
+                          <label className="flex items-center gap-2 text-xs text-gray-600">
+                            <Switch
+                              checked={datasetImport.skipInvalid}
+                              onCheckedChange={(checked) => setDatasetImport((prev) => prev && { ...prev, skipInvalid: checked })}
+                            />
+                            Leave out the invalid rows
+                          </label>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={handlePreviewDataset} disabled={datasetBusy || !datasetImport.mapping.prompt.trim()} className="flex-1">
+                        {datasetBusy && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                        Preview
+                      </Button>
+                      <Button
+                        onClick={handleImportDataset}
+                        disabled={datasetBusy || !datasetPreview || datasetPreview.valid === 0 || !datasetImport.name.trim()
+                          || (datasetPreview.valid < datasetPreview.total && !datasetImport.skipInvalid)}
+                        className="flex-1 bg-[#1a3a8f] hover:bg-[#2a4a9f]"
+                      >
+                        Import {datasetPreview ? `${datasetPreview.valid} case${datasetPreview.valid === 1 ? "" : "s"}` : ""}
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={showShareModal} onOpenChange={setShowShareModal}>
           <DialogContent className="max-w-md bg-white border-gray-200 text-gray-900 mx-2 sm:mx-auto w-[calc(100%-1rem)] sm:w-full">
             <DialogHeader>
@@ -4569,6 +7012,18 @@ export default function ChatPage() {
                             <span>{entry.settings.contextSize.toUpperCase()}</span>
                             <span>|</span>
                             <span>${entry.settings.costCap.toFixed(2)} cap</span>
+                            {entry.settings.sampling?.temperature !== undefined && (
+                              <>
+                                <span>|</span>
+                                <span>temp {entry.settings.sampling.temperature}</span>
+                              </>
+                            )}
+                            {entry.settings.systemPrompt && (
+                              <>
+                                <span>|</span>
+                                <span>system prompt</span>
+                              </>
+                            )}
                           </div>
                         )}
                       </div>
@@ -1,10 +1,21 @@
-import type { ChatMessage, ChatCompletionResult } from "./types";
+import type { ChatMessage, ChatCompletionResult, ReasoningOptions, ResponseFormat, ToolChatMessage, ToolChatRequest, ToolChatResult } from "./types";
+import { ProviderError, wrapProviderError, parseRetryAfter } from "./errors";
+import { resolveUsage } from "./usage";
+import { getAnthropicThinkingParams } from "./reasoning";
+import { getAnthropicSamplingParams, splitSystemMessages } from "./sampling";
+import { getAnthropicToolParams } from "./structured";
+import { getToolMessageText } from "./tools";
+import type { SamplingParams } from "@shared/schema";
 
 export interface AnthropicChatCompletionRequest {
   model: string;
   messages: ChatMessage[];
   maxTokens?: number;
   timeoutMs?: number;
+  signal?: AbortSignal;    // Caller abort (client disconnect / Stop)
+  reasoning?: ReasoningOptions;  // Maps to extended thinking
+  sampling?: SamplingParams;
+  responseFormat?: ResponseFormat;  // Sent as a forced tool call; its input JSON becomes `content`
 }
 
 export async function createAnthropicChatCompletion(
@@ -24,7 +35,9 @@ export async function createAnthropicChatCompletion(
     const timeoutMs = request.timeoutMs || 90000;
     const startTime = Date.now();
     
-    const anthropicMessages = request.messages.map(msg => ({
+    // System messages go in the top-level `system` field; the rest alternate user / assistant
+    const { system, messages } = splitSystemMessages(request.messages);
+    const anthropicMessages = messages.map(msg => ({
       role: msg.role === "assistant" ? "assistant" : "user",
       content: msg.content,
     }));
@@ -41,11 +54,14 @@ export async function createAnthropicChatCompletion(
       },
       body: JSON.stringify({
         model: request.model,
-        max_tokens: request.maxTokens || 4096,
+        ...getAnthropicThinkingParams(request.reasoning, request.maxTokens || 4096),
+        ...getAnthropicSamplingParams(request.sampling, !!request.reasoning?.enabled),
+        ...(system && { system }),
+        ...getAnthropicToolParams(request.responseFormat, request.reasoning),
         messages: anthropicMessages,
         stream: true,
       }),
-      signal: controller.signal,
+      signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
     });
 
     clearTimeout(timeoutId);
@@ -53,7 +69,10 @@ export async function createAnthropicChatCompletion(
     if (!response.ok) {
       const errorText = await response.text();
       console.error(`[Anthropic] API error: ${response.status} - ${errorText}`);
-      throw new Error(`Anthropic API error: ${response.status} - ${errorText}`);
+      throw new ProviderError(`Anthropic API error: ${response.status} - ${errorText}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      });
     }
 
     const reader = response.body?.getReader();
@@ -64,6 +83,7 @@ export async function createAnthropicChatCompletion(
     const decoder = new TextDecoder();
     let ttftMs = 0;
     let content = "";
+    let reasoning = "";
     let firstChunkReceived = false;
     let inputTokens = 0;
     let outputTokens = 0;
@@ -92,10 +112,16 @@ export async function createAnthropicChatCompletion(
               console.log(`[Anthropic] TTFT: ${ttftMs}ms`);
             }
             
-            // Collect content
+            // Collect content (extended thinking arrives as separate thinking_delta blocks)
             if (parsed.type === "content_block_delta" && parsed.delta?.text) {
               content += parsed.delta.text;
             }
+            if (parsed.type === "content_block_delta" && parsed.delta?.type === "thinking_delta") {
+              reasoning += parsed.delta.thinking || "";
+            }
+            if (parsed.type === "content_block_delta" && parsed.delta?.type === "input_json_delta") {
+              content += parsed.delta.partial_json || "";
+            }
             
             // Get usage from message_delta
             if (parsed.type === "message_delta" && parsed.usage) {
@@ -113,6 +139,13 @@ export async function createAnthropicChatCompletion(
       }
     }
     
+    // output_tokens includes thinking but isn't broken down, so the trace is counted locally
+    // (Claude 4 returns a summarized trace, so this undercounts what was billed)
+    const { reasoningTokens } = resolveUsage(
+      { prompt_tokens: inputTokens, completion_tokens: outputTokens },
+      request.messages, content, request.model, reasoning
+    );
+    
     const totalTimeMs = Date.now() - startTime;
     const tokensPerSecond = totalTimeMs > 0 ? Math.round((outputTokens / (totalTimeMs / 1000))) : 0;
     
@@ -120,21 +153,156 @@ export async function createAnthropicChatCompletion(
 
     return {
       content,
+      reasoning: reasoning || undefined,
       inputTokens,
       outputTokens,
+      reasoningTokens,
       responseTimeMs: ttftMs,
       totalTimeMs,
       tokensPerSecond,
+      usageSource: "reported",
     };
   } catch (error: any) {
     console.error("[Anthropic] API error:", error.message);
     
+    if (request.signal?.aborted) {
+      throw new ProviderError("Request cancelled", { cancelled: true });
+    }
+    
     if (error.name === "AbortError" || error.message?.includes("timed out") || error.message?.includes("timeout")) {
-      throw new Error("⏱️ Response timed out (query too complex)");
+      throw new ProviderError("⏱️ Response timed out (query too complex)", { timedOut: true });
     }
     
-    throw new Error(`Failed to get Anthropic response: ${error.message}`);
+    throw wrapProviderError(`Failed to get Anthropic response: ${error.message}`, error);
+  }
+}
+
+// Tool results go back as tool_result blocks in a user turn; consecutive same-role turns are merged
+function toAnthropicToolMessages(messages: ToolChatMessage[]): Array<{ role: "user" | "assistant"; content: any[] }> {
+  const turns: Array<{ role: "user" | "assistant"; content: any[] }> = [];
+  for (const message of messages) {
+    if (message.role === "system") continue;
+
+    let role: "user" | "assistant";
+    let blocks: any[];
+    if (message.role === "tool") {
+      role = "user";
+      blocks = [{ type: "tool_result", tool_use_id: message.toolCallId, content: message.content }];
+    } else if ("toolCalls" in message) {
+      role = "assistant";
+      blocks = [
+        ...(message.content ? [{ type: "text", text: message.content }] : []),
+        ...message.toolCalls.map((call) => {
+          let input: unknown = {};
+          try {
+            input = JSON.parse(call.arguments);
+          } catch {
+            // Malformed arguments were already reported back to the model as an error
+          }
+          return { type: "tool_use", id: call.id, name: call.name, input };
+        }),
+      ];
+    } else {
+      role = message.role === "assistant" ? "assistant" : "user";
+      blocks = [{ type: "text", text: message.content }];
+    }
+
+    const previous = turns[turns.length - 1];
+    if (previous?.role === role) {
+      previous.content.push(...blocks);
+    } else {
+      turns.push({ role, content: blocks });
+    }
   }
+  return turns;
 }
 
-export const ANTHROPIC_MODEL_ID = "claude-sonnet-4-20250514";
+export async function createAnthropicToolCompletion(request: ToolChatRequest): Promise<ToolChatResult> {
+  const anthropicApiKey = process.env.ANTHROPIC_API_KEY;
+  if (!anthropicApiKey) {
+    throw new Error("ANTHROPIC_API_KEY not configured");
+  }
+
+  try {
+    const timeoutMs = request.timeoutMs || 60000;
+    const startTime = Date.now();
+    const { system } = splitSystemMessages(
+      request.messages.filter((m): m is ChatMessage => m.role === "system")
+    );
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    const response = await fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "x-api-key": anthropicApiKey,
+        "anthropic-version": "2023-06-01",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens || 1024,
+        ...getAnthropicSamplingParams(request.sampling, false),
+        ...(system && { system }),
+        tools: request.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters,
+        })),
+        tool_choice: { type: "auto" },
+        messages: toAnthropicToolMessages(request.messages),
+      }),
+      signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderError(`Anthropic API error: ${response.status} - ${errorText}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      });
+    }
+
+    const body = await response.json();
+    const blocks: any[] = Array.isArray(body?.content) ? body.content : [];
+    const content = blocks.filter((block) => block.type === "text").map((block) => block.text).join("");
+    const toolCalls = blocks
+      .filter((block) => block.type === "tool_use")
+      .map((block) => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) }));
+
+    const { inputTokens, outputTokens, usageSource } = resolveUsage(
+      { prompt_tokens: body?.usage?.input_tokens, completion_tokens: body?.usage?.output_tokens },
+      request.messages.map((m) => ({ content: getToolMessageText(m) })),
+      content, request.model
+    );
+    const totalTimeMs = Date.now() - startTime;
+
+    console.log(`[Anthropic] Tool call: ${toolCalls.length} call(s), ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens}`);
+
+    return {
+      content,
+      toolCalls,
+      inputTokens,
+      outputTokens,
+      responseTimeMs: totalTimeMs,
+      totalTimeMs,
+      tokensPerSecond: totalTimeMs > 0 ? Math.round(outputTokens / (totalTimeMs / 1000)) : 0,
+      usageSource,
+    };
+  } catch (error: any) {
+    console.error("[Anthropic] Tool call error:", error.message);
+
+    if (request.signal?.aborted) {
+      throw new ProviderError("Request cancelled", { cancelled: true });
+    }
+
+    if (error.name === "AbortError" || error.message?.includes("timed out") || error.message?.includes("timeout")) {
+      throw new ProviderError("⏱️ Response timed out (query too complex)", { timedOut: true });
+    }
+
+    throw wrapProviderError(`Failed to get Anthropic response: ${error.message}`, error);
+  }
+}
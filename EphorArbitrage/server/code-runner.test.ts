@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { extractCode } from "./code-runner";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("extractCode", () => {
+  it("joins the blocks tagged with the language", () => {
+    const answer = "Here:\n```js\nconst a = 1;\n```\nand\n```python\nb = 2\n```\n```javascript\nconst c = 3;\n```";
+    expect(extractCode(answer, "javascript")).toBe("const a = 1;\n\n\nconst c = 3;\n");
+    expect(extractCode(answer, "python")).toBe("b = 2\n");
+  });
+
+  it("falls back to untagged blocks", () => {
+    expect(extractCode("```\nx = 1\n```", "python")).toBe("x = 1\n");
+    expect(extractCode("No code here.", "python")).toBeUndefined();
+  });
+});
+
+describe("runCodeTests", () => {
+  it("runs nothing unless the server turns code grading on", async () => {
+    const { runCodeTests } = await import("./code-runner");
+    expect(await runCodeTests("while (true) {}", "", "javascript")).toEqual({
+      passed: false,
+      output: "",
+      error: "Code grading is switched off on this server",
+      durationMs: 0,
+    });
+  });
+
+  it.each(["javascript", "python"] as const)("won't run %s outside the sandbox", async (language) => {
+    vi.stubEnv("CODE_GRADING", "on");
+    vi.stubEnv("BWRAP_BIN", "/nonexistent/bwrap");
+    vi.resetModules();
+    const { runCodeTests } = await import("./code-runner");
+    expect(await runCodeTests("x = 1", "", language)).toMatchObject({
+      passed: false,
+      error: "Code answers need bubblewrap on the server (/nonexistent/bwrap), which isn't installed",
+    });
+  });
+});
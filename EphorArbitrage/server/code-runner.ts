@@ -0,0 +1,233 @@
+import { spawn } from "child_process";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { CodeLanguage } from "@shared/schema";
+
+// Local code runner for the unit-test grader.
+//
+// The code blocks of a column's answer are joined with the benchmark's tests and run
+// once: the tests pass if nothing throws. Runs are bounded in time and memory.
+// The tests come from the request, so this runs code anyone can send: it is switched
+// off unless the server sets CODE_GRADING=on.
+// Both languages run in a separate interpreter (node or python3) inside bubblewrap: no
+// network, its own PID namespace, only the system directories and the interpreter mounted
+// read-only (not the app or its .env) and a scratch directory, with CPU, memory, file size
+// and process limits. Without bwrap, answers aren't run.
+
+const TIME_LIMIT_MS = 5000;
+const MEMORY_LIMIT_MB = 256;
+const JS_HEAP_LIMIT_MB = 64;
+// Node reserves far more address space than it uses, so its memory cap is the heap limit;
+// this looser address-space limit only stops buffers allocated outside the heap
+const JS_ADDRESS_SPACE_MB = 1024;
+const MAX_OUTPUT_CHARS = 4000;
+const CPU_LIMIT_SECONDS = 5;
+const FILE_SIZE_LIMIT_MB = 1;
+// RLIMIT_NPROC counts every process of the server's user, so this mostly stops forking
+const PROCESS_LIMIT = 16;
+const PYTHON_BIN = process.env.PYTHON_BIN || "python3";
+const NODE_BIN = process.env.NODE_BIN || process.execPath;
+const BWRAP_BIN = process.env.BWRAP_BIN || "bwrap";
+
+// Read-only system directories the sandboxed interpreter needs
+const SANDBOX_SYSTEM_DIRS = ["/usr", "/bin", "/lib", "/lib64", "/etc/alternatives", "/etc/ld.so.cache"];
+
+export function isCodeGradingEnabled(): boolean {
+  return process.env.CODE_GRADING === "on";
+}
+
+export interface CodeRunResult {
+  passed: boolean;
+  output: string;           // What the code and tests printed (truncated)
+  error?: string;           // Why it failed: the exception, time or memory limit
+  durationMs: number;
+}
+
+const LANGUAGE_TAGS: Record<CodeLanguage, string[]> = {
+  javascript: ["javascript", "js", "node", "mjs", "jsx"],
+  python: ["python", "py", "python3"],
+};
+
+const FENCE = /```([\w+-]*)[^\n]*\n([\s\S]*?)```/g;
+
+// The answer's code: every fenced block tagged with the language, or, if none are
+// tagged, every untagged block
+export function extractCode(content: string, language: CodeLanguage): string | undefined {
+  const blocks = Array.from(content.matchAll(FENCE)).map((match) => ({ tag: match[1].toLowerCase(), code: match[2] }));
+  const tagged = blocks.filter((block) => LANGUAGE_TAGS[language].includes(block.tag));
+  const chosen = tagged.length > 0 ? tagged : blocks.filter((block) => !block.tag);
+  return chosen.length > 0 ? chosen.map((block) => block.code).join("\n\n") : undefined;
+}
+
+function truncateOutput(output: string): string {
+  return output.length > MAX_OUTPUT_CHARS ? `${output.slice(0, MAX_OUTPUT_CHARS)}\n... (output truncated)` : output;
+}
+
+// ES module syntax doesn't run in a CommonJS file; plain declarations do the same job here
+function toScript(code: string): string {
+  return code
+    .replace(/^export\s+default\s+(?=(async\s+)?(function|class)\b)/gm, "")
+    .replace(/^export\s+(?=(async\s+)?(const|let|var|function|class)\b)/gm, "");
+}
+
+// Gives the tests a global (strict) assert, then loads the solution file as a module, so
+// \`require.main === module\` demos in the answer don't run. An uncaught error is reported
+// on one line, like the last line of a Python traceback.
+const NODE_RUNNER = `
+globalThis.assert = require("assert").strict;
+const report = (error) => {
+  const message = error instanceof Error ? error.name + ": " + error.message : "Uncaught " + String(error);
+  process.stderr.write(message.replace(/\\s+/g, " ").trim() + "\\n");
+  process.exit(1);
+};
+process.on("uncaughtException", report);
+process.on("unhandledRejection", report);
+require(process.argv[1]);
+`;
+
+// Sets the resource limits, then runs the solution file as a module named "solution", so
+// `if __name__ == "__main__":` demos in the answer don't run (or wait for input)
+const PYTHON_RUNNER = `
+import resource, sys
+mb = 1024 * 1024
+limits = [
+    (resource.RLIMIT_AS, ${MEMORY_LIMIT_MB} * mb),
+    (resource.RLIMIT_CPU, ${CPU_LIMIT_SECONDS}),
+    (resource.RLIMIT_FSIZE, ${FILE_SIZE_LIMIT_MB} * mb),
+    (resource.RLIMIT_NPROC, ${PROCESS_LIMIT}),
+    (resource.RLIMIT_CORE, 0),
+]
+for kind, limit in limits:
+    try:
+        resource.setrlimit(kind, (limit, limit))
+    except (ValueError, OSError):
+        pass
+with open(sys.argv[1], encoding="utf-8") as f:
+    source = f.read()
+exec(compile(source, "solution.py", "exec"), {"__name__": "solution"})
+`;
+
+const MB = 1024 * 1024;
+
+// The interpreter command for each language, and the solution file it runs from /sandbox.
+// Node can't set its own resource limits, so prlimit sets them before it starts.
+const SANDBOX_COMMANDS: Record<CodeLanguage, { file: string; binds: string[]; command: string[] }> = {
+  javascript: {
+    file: "solution.js",
+    binds: [NODE_BIN],
+    command: [
+      "prlimit",
+      `--as=${JS_ADDRESS_SPACE_MB * MB}`,
+      `--cpu=${CPU_LIMIT_SECONDS}`,
+      `--fsize=${FILE_SIZE_LIMIT_MB * MB}`,
+      `--nproc=${PROCESS_LIMIT}`,
+      "--core=0",
+      "--",
+      NODE_BIN, `--max-old-space-size=${JS_HEAP_LIMIT_MB}`, "-e", NODE_RUNNER, "/sandbox/solution.js",
+    ],
+  },
+  python: {
+    file: "solution.py",
+    binds: [],
+    command: [PYTHON_BIN, "-I", "-c", PYTHON_RUNNER, "/sandbox/solution.py"],
+  },
+};
+
+// bubblewrap: every namespace unshared (so no network), only the system directories, the
+// interpreter and the scratch directory (read-only, as /sandbox) mounted, and torn down
+// with the server
+function sandboxArgs(dir: string, language: CodeLanguage): string[] {
+  const { binds, command } = SANDBOX_COMMANDS[language];
+  return [
+    "--unshare-all",
+    "--die-with-parent",
+    "--new-session",
+    "--clearenv",
+    "--setenv", "PATH", "/usr/local/bin:/usr/bin:/bin",
+    ...SANDBOX_SYSTEM_DIRS.flatMap((systemDir) => ["--ro-bind-try", systemDir, systemDir]),
+    ...binds.flatMap((bind) => ["--ro-bind", bind, bind]),
+    "--proc", "/proc",
+    "--dev", "/dev",
+    "--tmpfs", "/tmp",
+    "--ro-bind", dir, "/sandbox",
+    "--chdir", "/sandbox",
+    "--",
+    ...command,
+  ];
+}
+
+async function runSandboxed(source: string, language: CodeLanguage, signal?: AbortSignal): Promise<CodeRunResult> {
+  const startTime = Date.now();
+  const dir = await mkdtemp(path.join(tmpdir(), "wind-tunnel-"));
+  try {
+    const file = path.join(dir, SANDBOX_COMMANDS[language].file);
+    await writeFile(file, source, "utf-8");
+
+    return await new Promise<CodeRunResult>((resolve) => {
+      // Its own process group, so a timeout kills whatever the code started too
+      const child = spawn(BWRAP_BIN, sandboxArgs(dir, language), {
+        cwd: dir,
+        env: { PATH: process.env.PATH ?? "" },
+        stdio: ["ignore", "pipe", "pipe"],
+        detached: true,
+      });
+
+      let output = "";
+      let stderr = "";
+      let limitError: string | undefined;
+      // Keep a bit more than we show, so a print loop can't fill the server's memory
+      const append = (text: string, chunk: Buffer) => (text.length > MAX_OUTPUT_CHARS * 2 ? text : text + chunk);
+      child.stdout.on("data", (chunk: Buffer) => { output = append(output, chunk); });
+      child.stderr.on("data", (chunk: Buffer) => { stderr = append(stderr, chunk); output = append(output, chunk); });
+
+      const stop = (reason: string) => {
+        limitError = reason;
+        try {
+          process.kill(-child.pid!, "SIGKILL");
+        } catch {
+          child.kill("SIGKILL");
+        }
+      };
+      const timer = setTimeout(() => stop(`Timed out after ${TIME_LIMIT_MS / 1000}s`), TIME_LIMIT_MS);
+      const onAbort = () => stop("Cancelled");
+      signal?.addEventListener("abort", onAbort);
+
+      const finish = (result: Omit<CodeRunResult, "durationMs">) => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        resolve({ ...result, output: truncateOutput(result.output), durationMs: Date.now() - startTime });
+      };
+      child.on("error", (error: any) => {
+        finish({
+          passed: false,
+          output: "",
+          error: error.code === "ENOENT" ? `Code answers need bubblewrap on the server (${BWRAP_BIN}), which isn't installed` : error.message,
+        });
+      });
+      child.on("close", (code, exitSignal) => {
+        if (code === 0 && !limitError) {
+          finish({ passed: true, output });
+          return;
+        }
+        // The last stderr line is the exception ("AssertionError: ...", "MemoryError"), except
+        // when node runs out of heap and aborts with a native stack
+        const lastLine = stderr.includes("JavaScript heap out of memory")
+          ? `Ran out of memory (${JS_HEAP_LIMIT_MB} MB heap limit)`
+          : stderr.trim().split("\n").at(-1);
+        finish({ passed: false, output, error: limitError ?? (lastLine || (exitSignal ? `Killed by ${exitSignal}` : `Exited with code ${code}`)) });
+      });
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Run the answer's code followed by the tests
+export async function runCodeTests(code: string, tests: string, language: CodeLanguage, signal?: AbortSignal): Promise<CodeRunResult> {
+  if (!isCodeGradingEnabled()) {
+    return { passed: false, output: "", error: "Code grading is switched off on this server", durationMs: 0 };
+  }
+  const source = language === "javascript" ? toScript(code) : code;
+  return runSandboxed(`${source}\n\n${tests}`, language, signal);
+}
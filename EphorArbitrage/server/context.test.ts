@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { countGaugeTokens } from "@shared/tokenizer";
+import { countTokens } from "./tokenizer";
+import { fitContextWindow, getTextBudget, parseContextWindow, type ContextWindowOptions } from "./context";
+
+const MODEL = "z-ai/glm-4-32b";         // 202,752-token context
+const SMALL_MODEL = "qwen/qwen-2.5-72b-instruct";  // 32,768-token context
+
+function window(windowTokens: number, options: Partial<ContextWindowOptions> = {}): ContextWindowOptions {
+  return { windowTokens, allowTruncation: true, bufferPercent: 0, imageTokens: 0, ...options };
+}
+
+const words = (count: number, word: string) => Array.from({ length: count }, () => word).join(" ");
+
+describe("getTextBudget", () => {
+  it("sets aside the safety buffer and the images", () => {
+    expect(getTextBudget(window(8000))).toBe(8000);
+    expect(getTextBudget(window(8000, { bufferPercent: 25, imageTokens: 1000 }))).toBe(5400);
+    expect(getTextBudget(window(1000, { imageTokens: 2000 }))).toBe(0);
+  });
+});
+
+describe("fitContextWindow", () => {
+  it("leaves input that fits alone", () => {
+    const files = [{ name: "notes.txt", textContent: "Some notes" }];
+    const fitted = fitContextWindow(MODEL, "Summarize the notes", files, { context: window(8000), outputTokens: 1000 });
+    expect(fitted).toEqual({ prompt: "Summarize the notes", files });
+  });
+
+  it("refuses input that doesn't fit unless truncation was accepted", () => {
+    expect(() => fitContextWindow(MODEL, words(200, "alpha"), [], {
+      context: window(100, { allowTruncation: false, bufferPercent: 25 }),
+      outputTokens: 100,
+    })).toThrow("Input is 200 tokens but the selected window holds 100 (80 for text after a 25% safety buffer) - choose a larger window or accept truncation");
+  });
+
+  it("keeps the prompt and the start of the files: whole files while they fit, then part of the next", () => {
+    const files = [
+      { name: "a.txt", textContent: words(60, "alpha") },
+      { name: "b.txt", textContent: words(60, "beta") },
+      { name: "c.txt", textContent: words(60, "gamma") },
+    ];
+    const fitted = fitContextWindow(MODEL, "Compare the files", files, { context: window(100), outputTokens: 100 });
+
+    expect(fitted.files.map((file) => file.name)).toEqual(["a.txt", "b.txt"]);
+    expect(fitted.files[0].textContent).toBe(files[0].textContent);
+    expect(countGaugeTokens(fitted.files[1].textContent!)).toBe(37);
+    expect(files[1].textContent!.startsWith(fitted.files[1].textContent!)).toBe(true);
+    expect(fitted.prompt).toBe("Compare the files");
+    expect(fitted.truncation).toEqual({ windowTokens: 100, inputTokens: 183, keptTokens: 100, droppedTokens: 83 });
+  });
+
+  it("refuses a prompt that can't fit the window on its own", () => {
+    const files = [{ name: "a.txt", textContent: words(60, "alpha") }];
+    expect(() => fitContextWindow(MODEL, words(120, "beta"), files, { context: window(100), outputTokens: 100 }))
+      .toThrow("The prompt alone is 120 tokens but the selected window holds 100 - shorten the prompt or choose a larger window");
+  });
+
+  it("leaves room for the images the gauge counted", () => {
+    const fitted = fitContextWindow(MODEL, "Describe", [{ name: "a.txt", textContent: words(200, "alpha") }], {
+      context: window(200, { imageTokens: 50 }),
+      outputTokens: 100,
+    });
+    expect(fitted.truncation?.keptTokens).toBe(150);
+    expect(countGaugeTokens(fitted.files[0].textContent!)).toBe(149);
+  });
+
+  it("refuses a run that overflows the model's real context", () => {
+    expect(() => fitContextWindow(SMALL_MODEL, "Hello", [], { system: "Be brief", outputTokens: 32768 }))
+      .toThrow("Qwen 2.5 72B (Alibaba) has a 32,768-token context, but this run needs 32,771 (3 input + 32,768 output budget)");
+  });
+
+  it("counts the real limit with the model's own tokenizer", () => {
+    // Qwen's tokenizer needs far fewer tokens for this text than the gauge's cl100k
+    const prompt = words(500, "數學");
+    const input = countTokens(prompt, SMALL_MODEL).tokens;
+    expect(input).toBeLessThan(countGaugeTokens(prompt));
+    expect(() => fitContextWindow(SMALL_MODEL, prompt, [], { outputTokens: 32768 - input + 1 }))
+      .toThrow(`this run needs 32,769 (${input.toLocaleString()} input`);
+    expect(fitContextWindow(SMALL_MODEL, prompt, [], { outputTokens: 32768 - input }).prompt).toBe(prompt);
+  });
+});
+
+describe("parseContextWindow", () => {
+  it("defaults the buffer and images to nothing", () => {
+    expect(parseContextWindow({ windowTokens: 8000 })).toEqual(window(8000, { allowTruncation: false }));
+  });
+
+  it.each([
+    [{ windowTokens: 0 }, "context.windowTokens must be a positive integer"],
+    [{ windowTokens: 8000, bufferPercent: 150 }, "context.bufferPercent must be between 0 and 100"],
+    [{ windowTokens: 8000, imageTokens: -1 }, "context.imageTokens must be a non-negative integer"],
+  ])("rejects %j", (body, message) => {
+    expect(() => parseContextWindow(body)).toThrow(message);
+  });
+});
@@ -0,0 +1,148 @@
+import { getCatalogEntry } from "@shared/models";
+import { countTokens, decodeGaugeTokens, encodeGaugeTokens } from "./tokenizer";
+import type { ContextTruncation } from "@shared/schema";
+
+// Context-window enforcement for wind tunnel runs.
+//
+// The student picks a context size (8K to 1M). The text input - text files, then the
+// prompt, in the order the model reads them - has to fit in it. If it doesn't and they
+// accepted truncation, the prompt is kept whole and the files are cut from the end to
+// make room, as many tokens as the gauge showed ("Kept" / "Lost"); a prompt that can't
+// fit on its own is refused. Either way the input, system prompt and output budget must
+// fit the model's real context length, or the run is refused before anything is sent
+// (and billed).
+// The window is counted with the gauge's tokenizer (cl100k), and the gauge's safety
+// buffer and image estimate come with the request, so the server cuts as much as the
+// gauge showed. The real-limit check counts with the model's own tokenizer. Images
+// aren't cut - they're sized by the provider.
+
+export interface ContextWindowOptions {
+  windowTokens: number;
+  allowTruncation: boolean;  // The student accepted the "won't fit" truncation
+  bufferPercent: number;     // Expert Mode safety buffer: the input must fit with this much headroom
+  imageTokens: number;       // The gauge's estimate for the images, which take window space too
+}
+
+const MAX_BUFFER_PERCENT = 100;
+
+export interface ContextFitOptions {
+  context?: ContextWindowOptions;
+  system?: string;
+  outputTokens: number;      // Output budget (max tokens) reserved in the model's window
+}
+
+export interface FittedInput<T> {
+  prompt: string;
+  files: T[];
+  truncation?: ContextTruncation;
+}
+
+// Validate a `context` block from a request body (throws with a user-facing message)
+export function parseContextWindow(value: unknown): ContextWindowOptions | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "object") {
+    throw new Error("context must be an object");
+  }
+  const body = value as Record<string, unknown>;
+
+  if (typeof body.windowTokens !== "number" || !Number.isInteger(body.windowTokens) || body.windowTokens < 1) {
+    throw new Error("context.windowTokens must be a positive integer");
+  }
+  if (body.allowTruncation !== undefined && typeof body.allowTruncation !== "boolean") {
+    throw new Error("context.allowTruncation must be a boolean");
+  }
+  const bufferPercent = body.bufferPercent ?? 0;
+  if (typeof bufferPercent !== "number" || !Number.isFinite(bufferPercent) || bufferPercent < 0 || bufferPercent > MAX_BUFFER_PERCENT) {
+    throw new Error(`context.bufferPercent must be between 0 and ${MAX_BUFFER_PERCENT}`);
+  }
+  const imageTokens = body.imageTokens ?? 0;
+  if (typeof imageTokens !== "number" || !Number.isInteger(imageTokens) || imageTokens < 0) {
+    throw new Error("context.imageTokens must be a non-negative integer");
+  }
+  return { windowTokens: body.windowTokens, allowTruncation: body.allowTruncation === true, bufferPercent, imageTokens };
+}
+
+// Room for text in the window once the safety buffer and the images are set aside
+export function getTextBudget(context: ContextWindowOptions): number {
+  const usable = Math.floor((context.windowTokens * 100) / (100 + context.bufferPercent));
+  return Math.max(usable - context.imageTokens, 0);
+}
+
+// Fit the input to the selected window and the model's real limit (throws with a
+// user-facing message when it can't). Text files emptied by the cut are left out.
+export function fitContextWindow<T extends { textContent?: string }>(
+  modelId: string,
+  prompt: string,
+  files: T[],
+  options: ContextFitOptions
+): FittedInput<T> {
+  // Each segment is tokenized once; a cut slices its tokens
+  const segments = [...files.map((file) => file.textContent ?? ""), prompt];
+  const tokens = segments.map((text) => (text ? encodeGaugeTokens(text) : []));
+  const inputTokens = tokens.reduce((sum, segment) => sum + segment.length, 0);
+
+  let fitted: FittedInput<T> = { prompt, files };
+  let keptTokens = inputTokens;
+  const { context } = options;
+  const budget = context && getTextBudget(context);
+
+  if (context && budget !== undefined && inputTokens > budget) {
+    const window = context.windowTokens.toLocaleString();
+    const setAside = [
+      context.bufferPercent > 0 ? `a ${context.bufferPercent}% safety buffer` : "",
+      context.imageTokens > 0 ? `${context.imageTokens.toLocaleString()} for images` : "",
+    ].filter(Boolean).join(" and ");
+    if (!context.allowTruncation) {
+      throw new Error(`Input is ${inputTokens.toLocaleString()} tokens but the selected window holds ${window}${setAside ? ` (${budget.toLocaleString()} for text after ${setAside})` : ""} - choose a larger window or accept truncation`);
+    }
+
+    // The prompt is the task - without it the files mean nothing, so it's kept whole
+    const promptTokens = tokens[tokens.length - 1].length;
+    if (promptTokens > budget) {
+      throw new Error(`The prompt alone is ${promptTokens.toLocaleString()} tokens but the selected window holds ${window}${setAside ? ` (${budget.toLocaleString()} for text after ${setAside})` : ""} - shorten the prompt or choose a larger window`);
+    }
+
+    // Keep the start of the files: whole files while they fit, then part of the one that doesn't
+    let remaining = budget - promptTokens;
+    keptTokens = promptTokens;
+    const kept = segments.slice(0, -1).map((text, index) => {
+      const count = tokens[index].length;
+      if (count <= remaining) {
+        remaining -= count;
+        keptTokens += count;
+        return text;
+      }
+      const cut = remaining > 0 ? decodeGaugeTokens(tokens[index].slice(0, remaining)) : "";
+      keptTokens += remaining;
+      remaining = 0;
+      return cut;
+    });
+
+    fitted = {
+      prompt,
+      files: files
+        .map((file, index) => (file.textContent ? { ...file, textContent: kept[index] } : file))
+        .filter((file) => file.textContent !== ""),
+      truncation: {
+        windowTokens: context.windowTokens,
+        inputTokens,
+        keptTokens,
+        droppedTokens: inputTokens - keptTokens,
+      },
+    };
+    console.log(`[Context] ${modelId}: input cut to the ${window}-token window - kept ${keptTokens}, dropped ${inputTokens - keptTokens}`);
+  }
+
+  const entry = getCatalogEntry(modelId);
+  if (entry) {
+    const text = [options.system ?? "", ...fitted.files.map((file) => file.textContent ?? ""), fitted.prompt];
+    const textTokens = text.reduce((sum, segment) => sum + (segment ? countTokens(segment, modelId).tokens : 0), 0);
+    const input = textTokens + (context?.imageTokens ?? 0);
+    const needed = input + options.outputTokens;
+    if (needed > entry.contextLength) {
+      throw new Error(`${entry.displayName} has a ${entry.contextLength.toLocaleString()}-token context, but this run needs ${needed.toLocaleString()} (${input.toLocaleString()} input + ${options.outputTokens.toLocaleString()} output budget) - shorten the input, lower max tokens or pick a smaller window`);
+    }
+  }
+
+  return fitted;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import type { SuiteCase } from "@shared/schema";
+import { DEFAULT_MAPPING, exportSuite, parseCsv, parseDataset } from "./datasets";
+
+describe("parseCsv", () => {
+  it("reads the header and one record per line", () => {
+    expect(parseCsv("prompt,expected\nWhat is 2+2?,4\nCapital of France?,Paris\n")).toEqual([
+      { line: 2, record: { prompt: "What is 2+2?", expected: "4" } },
+      { line: 3, record: { prompt: "Capital of France?", expected: "Paris" } },
+    ]);
+  });
+
+  it("keeps commas, newlines and doubled quotes inside quoted fields", () => {
+    const rows = parseCsv('prompt,expected\r\n"Say ""hi"", twice\nthen stop",hi hi\r\nnext,2\r\n');
+    expect(rows).toEqual([
+      { line: 2, record: { prompt: 'Say "hi", twice\nthen stop', expected: "hi hi" } },
+      { line: 4, record: { prompt: "next", expected: "2" } },
+    ]);
+  });
+
+  it("skips blank lines and fills missing trailing fields", () => {
+    expect(parseCsv("a,b,c\n\n1\n")).toEqual([{ line: 3, record: { a: "1", b: "", c: "" } }]);
+  });
+
+  it("reads tab-separated text", () => {
+    expect(parseCsv("sentence\tlanguage\nGood morning\tFrench", "\t")).toEqual([
+      { line: 2, record: { sentence: "Good morning", language: "French" } },
+    ]);
+  });
+
+  it("rejects an unclosed quote", () => {
+    expect(() => parseCsv('prompt\nfine\n"never closed\n')).toThrow("Unclosed quote in the record starting on line 3");
+  });
+
+  it("returns no rows for empty text", () => {
+    expect(parseCsv("")).toEqual([]);
+  });
+});
+
+describe("parseDataset", () => {
+  it("maps fields and applies the default grader to rows with an answer", () => {
+    const text = [
+      JSON.stringify({ question: "Natalia sold 48 clips...", answer: "She sold 48/2 = 24 in May.\n#### 72" }),
+      JSON.stringify({ question: "Write a haiku" }),
+    ].join("\n");
+    const { fields, rows } = parseDataset(text, {
+      format: "jsonl",
+      mapping: { prompt: "question", expected: "answer" },
+      defaultGrader: "numeric",
+      answerDelimiter: "####",
+    });
+    expect(fields).toEqual(["question", "answer"]);
+    expect(rows).toEqual([
+      { line: 1, case: { prompt: "Natalia sold 48 clips...", grader: { type: "numeric", expected: "72", tolerance: 0 }, tags: undefined } },
+      { line: 2, case: { prompt: "Write a haiku", grader: undefined, tags: undefined } },
+    ]);
+  });
+
+  it("builds text from {{field}} templates", () => {
+    const text = JSON.stringify({ task: "Add two numbers", test: "assert add(1, 2) == 3", entry_point: "add" });
+    const { rows } = parseDataset(text, {
+      format: "jsonl",
+      mapping: { prompt: "{{task}}", expected: "{{test}}\ncheck({{entry_point}})" },
+      defaultGrader: "exact",
+    });
+    expect(rows[0].case?.grader?.expected).toBe("assert add(1, 2) == 3\ncheck(add)");
+  });
+
+  it("reports bad rows one by one", () => {
+    const { rows } = parseDataset("prompt,expected,grader\n,4,exact\nWhat is 2+2?,4,\nPi?,three,numeric\n", {
+      format: "csv",
+      mapping: DEFAULT_MAPPING,
+    });
+    expect(rows.map((row) => row.error)).toEqual([
+      "prompt is missing",
+      "expected has no grader - map a grader field or pick a default grader",
+      "A numeric grader needs a number as the expected answer",
+    ]);
+  });
+
+  it("rejects a mapping to a field the file doesn't have", () => {
+    expect(() => parseDataset('{"question": "Hi"}', { format: "jsonl", mapping: { prompt: "prompt" } }))
+      .toThrow('No "prompt" field - the file has: question');
+  });
+
+  it("rejects an empty file", () => {
+    expect(() => parseDataset("\uFEFF\n", { format: "jsonl", mapping: DEFAULT_MAPPING })).toThrow("The file has no rows");
+  });
+});
+
+describe("exportSuite", () => {
+  const cases: SuiteCase[] = [
+    { prompt: "What is 2+2?", grader: { type: "numeric", expected: "4", tolerance: 0.5 }, tags: ["math", "easy"] },
+    { prompt: 'Quote "this", then\na new line', grader: { type: "exact", expected: " Yes ", caseSensitive: true } },
+    { prompt: "Name a primary colour", grader: { type: "regex", expected: "^(red|blue|yellow)$" } },
+    { prompt: "Judge me", grader: { type: "rubric", expected: "Polite and short", judgeModelId: "anthropic/claude-sonnet-4.5" } },
+    { prompt: "Open question" },
+  ];
+
+  it.each(["jsonl", "csv"] as const)("round-trips a suite through %s", (format) => {
+    const { rows } = parseDataset(exportSuite(cases, format), { format, mapping: DEFAULT_MAPPING });
+    expect(rows.map((row) => row.error)).toEqual(cases.map(() => undefined));
+    expect(rows.map((row) => row.case)).toEqual(cases);
+  });
+});
@@ -0,0 +1,275 @@
+import { z } from "zod";
+import type { SuiteCase } from "@shared/schema";
+import { CODE_LANGUAGES, GRADER_TYPES, parseGrader } from "./graders";
+import { MAX_SUITE_CASES } from "./suites";
+
+// Dataset import and export for benchmark suites.
+//
+// Test cases can come in bulk as JSONL or CSV - local copies of public sets like GSM8K
+// or HumanEval, or a suite exported from here. A mapping says which field holds the
+// prompt, the expected answer, the grader type and the tags. A mapping with {{field}}
+// placeholders builds the text from several fields instead, e.g. HumanEval's tests are
+// "{{test}}\ncheck({{entry_point}})". Every row is validated before anything is saved.
+// Grader options travel in fixed fields (language, tolerance, case_sensitive,
+// judge_model). Exports use the default field names, so they import back unchanged.
+// Case files aren't exported.
+
+export type DatasetFormat = "jsonl" | "csv";
+
+export const DEFAULT_MAPPING = { prompt: "prompt", expected: "expected", grader: "grader", tags: "tags" };
+
+const MAX_PREVIEW_ROWS = 20;
+
+const importOptionsSchema = z.object({
+  format: z.enum(["jsonl", "csv"]),
+  mapping: z.object({
+    prompt: z.string().trim().min(1, "Map a field to the prompt"),
+    expected: z.string().trim().optional(),
+    grader: z.string().trim().optional(),
+    tags: z.string().trim().optional(),
+  }).default(DEFAULT_MAPPING),
+  defaultGrader: z.enum(GRADER_TYPES).optional(),    // For rows without a grader type
+  language: z.enum(CODE_LANGUAGES).optional(),       // For code graders without a language
+  answerDelimiter: z.string().optional(),            // Keep the expected text after the last one (GSM8K: "####")
+  limit: z.number().int().min(1).max(MAX_SUITE_CASES).optional(),  // Import only the first N rows
+});
+
+export type DatasetImportOptions = z.infer<typeof importOptionsSchema>;
+
+// One row after mapping, before its grader is checked
+const rowSchema = z.object({
+  prompt: z.string({ required_error: "is missing" }).trim().min(1, "is empty"),
+  expected: z.string().optional(),
+  grader: z.enum(GRADER_TYPES).optional(),
+  tags: z.preprocess(
+    (value) => typeof value === "string" ? value.split(",") : value,
+    z.array(z.string().trim()).transform((tags) => tags.filter(Boolean)),
+  ).optional(),
+  language: z.enum(CODE_LANGUAGES).optional(),
+  tolerance: z.coerce.number().nonnegative().optional(),
+  caseSensitive: z.preprocess((value) => value === true || value === "true" || value === "1", z.boolean()).optional(),
+  judgeModelId: z.string().optional(),
+});
+
+export interface DatasetRow {
+  line: number;             // Where the row starts in the file
+  case?: SuiteCase;
+  error?: string;
+}
+
+export interface ParsedDataset {
+  fields: string[];         // Every field name seen, for the mapping UI
+  rows: DatasetRow[];
+}
+
+// Validate the import options from a request body (throws with a user-facing message)
+export function parseImportOptions(body: unknown): DatasetImportOptions {
+  const result = importOptionsSchema.safeParse(body);
+  if (!result.success) {
+    throw new Error(formatIssues(result.error));
+  }
+  return result.data;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => issue.path.length > 0 ? `${issue.path.join(".")} ${issue.message}` : issue.message).join("; ");
+}
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes. The first record
+// is the header. (Also reads tab-separated text, as pasted from a spreadsheet.)
+export function parseCsv(text: string, delimiter = ","): { line: number; record: Record<string, string> }[] {
+  const records: { line: number; values: string[] }[] = [];
+  let values: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      values.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      values.push(field);
+      if (values.some((value) => value !== "")) records.push({ line: recordLine, values });
+      values = [];
+      field = "";
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(`Unclosed quote in the record starting on line ${recordLine}`);
+  }
+  values.push(field);
+  if (values.some((value) => value !== "")) records.push({ line: recordLine, values });
+
+  const [header, ...body] = records;
+  if (!header) return [];
+  const names = header.values.map((name) => name.trim());
+  return body.map(({ line, values }) => ({
+    line,
+    record: Object.fromEntries(names.map((name, index) => [name, values[index] ?? ""])),
+  }));
+}
+
+// One JSON object per line (a JSON array of objects is accepted too)
+function parseJsonl(text: string): { line: number; record: Record<string, unknown> }[] {
+  const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+
+  if (text.trimStart().startsWith("[")) {
+    let items: unknown;
+    try {
+      items = JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`Not valid JSON: ${error.message}`);
+    }
+    return (items as unknown[]).map((item, index) => {
+      if (!isObject(item)) throw new Error(`Item ${index + 1} is not an object`);
+      return { line: index + 1, record: item };
+    });
+  }
+
+  return text.split(/\r?\n/).flatMap((text, index) => {
+    if (!text.trim()) return [];
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`Line ${index + 1} is not valid JSON: ${error.message}`);
+    }
+    if (!isObject(record)) throw new Error(`Line ${index + 1} is not a JSON object`);
+    return [{ line: index + 1, record }];
+  });
+}
+
+// Field values as text (JSONL numbers and booleans included); missing and empty are undefined
+function fieldText(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+const PLACEHOLDER = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+// The fields a mapping entry reads: a field name, or the {{fields}} of a template
+function mappedFields(spec: string): string[] {
+  return spec.includes("{{") ? Array.from(spec.matchAll(PLACEHOLDER), (match) => match[1]) : [spec];
+}
+
+function resolveMapping(record: Record<string, unknown>, spec: string | undefined): unknown {
+  if (!spec) return undefined;
+  if (!spec.includes("{{")) return record[spec];
+  return spec.replace(PLACEHOLDER, (_match, name: string) => fieldText(record[name]) ?? "");
+}
+
+// Parse and validate a dataset file (throws if the file itself can't be read or the
+// mapping names a field the file doesn't have; bad rows are reported per row)
+export function parseDataset(text: string, options: DatasetImportOptions): ParsedDataset {
+  const source = text.replace(/^\uFEFF/, "");
+  let records = options.format === "csv" ? parseCsv(source) : parseJsonl(source);
+  if (records.length === 0) {
+    throw new Error("The file has no rows");
+  }
+  if (options.limit) records = records.slice(0, options.limit);
+
+  const fields = Array.from(new Set(records.flatMap(({ record }) => Object.keys(record))));
+  const { mapping } = options;
+  // The optional parts may be missing under their default names (a suite without tags exports none)
+  for (const part of ["prompt", "expected", "grader", "tags"] as const) {
+    const spec = mapping[part];
+    if (!spec || (part !== "prompt" && spec === DEFAULT_MAPPING[part])) continue;
+    const missing = mappedFields(spec).find((name) => !fields.includes(name));
+    if (missing) {
+      throw new Error(`No "${missing}" field - the file has: ${fields.join(", ")}`);
+    }
+  }
+
+  const rows = records.map(({ line, record }): DatasetRow => {
+    const expected = fieldText(resolveMapping(record, mapping.expected));
+    const tags = resolveMapping(record, mapping.tags);
+    const parsed = rowSchema.safeParse({
+      prompt: fieldText(resolveMapping(record, mapping.prompt)),
+      expected,
+      // The default grader only applies to rows that have an answer to check
+      grader: fieldText(resolveMapping(record, mapping.grader)) ?? (expected ? options.defaultGrader : undefined),
+      tags: Array.isArray(tags) ? tags : fieldText(tags),
+      language: fieldText(record.language) ?? options.language,
+      tolerance: fieldText(record.tolerance),
+      caseSensitive: record.case_sensitive ?? undefined,
+      judgeModelId: fieldText(record.judge_model),
+    });
+    if (!parsed.success) {
+      return { line, error: formatIssues(parsed.error) };
+    }
+
+    const { prompt, grader: type, tags: caseTags, expected: rawExpected, ...graderOptions } = parsed.data;
+    const delimiter = options.answerDelimiter;
+    const answer = rawExpected && delimiter && rawExpected.includes(delimiter)
+      ? rawExpected.slice(rawExpected.lastIndexOf(delimiter) + delimiter.length).trim()
+      : rawExpected;
+    if (answer && !type) {
+      return { line, error: "expected has no grader - map a grader field or pick a default grader" };
+    }
+
+    try {
+      const grader = type ? parseGrader({ ...graderOptions, type, expected: answer }) : undefined;
+      return { line, case: { prompt, grader, tags: caseTags && caseTags.length > 0 ? caseTags : undefined } };
+    } catch (error: any) {
+      return { line, error: error.message };
+    }
+  });
+  return { fields, rows };
+}
+
+// What the import dialog shows before anything is saved
+export function previewDataset(dataset: ParsedDataset) {
+  const errors = dataset.rows.filter((row) => row.error);
+  return {
+    fields: dataset.fields,
+    total: dataset.rows.length,
+    valid: dataset.rows.length - errors.length,
+    rows: dataset.rows.slice(0, MAX_PREVIEW_ROWS),
+    errors: errors.slice(0, MAX_PREVIEW_ROWS),
+  };
+}
+
+// A suite's cases as JSONL or CSV, in the fields the default mapping reads
+export function exportSuite(cases: SuiteCase[], format: DatasetFormat): string {
+  const rows = cases.map((item) => ({
+    prompt: item.prompt,
+    expected: item.grader?.expected,
+    grader: item.grader?.type,
+    tags: item.tags,
+    language: item.grader?.language,
+    tolerance: item.grader?.tolerance,
+    case_sensitive: item.grader?.caseSensitive,
+    judge_model: item.grader?.judgeModelId,
+  }));
+
+  if (format === "jsonl") {
+    return rows.map((row) => JSON.stringify(row)).join("\n") + "\n";
+  }
+
+  const columns = ["prompt", "expected", "grader", "tags", "language", "tolerance", "case_sensitive", "judge_model"] as const;
+  const quote = (value: unknown) => {
+    const text = value === undefined ? "" : Array.isArray(value) ? value.join(",") : String(value);
+    return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns.join(","), ...rows.map((row) => columns.map((column) => quote(row[column])).join(","))].join("\r\n") + "\r\n";
+}
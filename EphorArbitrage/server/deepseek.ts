@@ -1,10 +1,19 @@
-import type { ChatMessage, ChatCompletionResult } from "./types";
+import type { ChatMessage, ChatCompletionResult, ResponseFormat } from "./types";
+import { ProviderError, wrapProviderError, parseRetryAfter } from "./errors";
+import { getChunkUsage, resolveUsage, type ReportedUsage } from "./usage";
+import { ReasoningSplitter, getDeltaReasoning } from "./reasoning";
+import { getSamplingParams } from "./sampling";
+import { getResponseFormatParams } from "./structured";
+import type { SamplingParams } from "@shared/schema";
 
 export interface DeepSeekChatCompletionRequest {
   model: string;
   messages: ChatMessage[];
   maxTokens?: number;
   timeoutMs?: number;
+  signal?: AbortSignal;    // Caller abort (client disconnect / Stop)
+  sampling?: SamplingParams;
+  responseFormat?: ResponseFormat;
 }
 
 export async function createDeepSeekChatCompletion(
@@ -38,8 +47,11 @@ export async function createDeepSeekChatCompletion(
         messages: request.messages,
         max_tokens: request.maxTokens || 4096,
         stream: true,
+        stream_options: { include_usage: true },
+        ...getSamplingParams(request.sampling),
+        ...getResponseFormatParams("deepseek", request.model, request.responseFormat),
       }),
-      signal: controller.signal,
+      signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
     });
 
     clearTimeout(timeoutId);
@@ -47,7 +59,10 @@ export async function createDeepSeekChatCompletion(
     if (!response.ok) {
       const errorText = await response.text();
       console.error(`[DeepSeek] API error: ${response.status} - ${errorText}`);
-      throw new Error(`DeepSeek API error: ${response.status} - ${errorText}`);
+      throw new ProviderError(`DeepSeek API error: ${response.status} - ${errorText}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      });
     }
 
     const reader = response.body?.getReader();
@@ -57,8 +72,9 @@ export async function createDeepSeekChatCompletion(
 
     const decoder = new TextDecoder();
     let ttftMs = 0;
-    let content = "";
+    const splitter = new ReasoningSplitter();
     let firstChunkReceived = false;
+    let reportedUsage: ReportedUsage | undefined;
     let buffer = "";
 
     while (true) {
@@ -84,9 +100,15 @@ export async function createDeepSeekChatCompletion(
               console.log(`[DeepSeek] TTFT: ${ttftMs}ms`);
             }
             
-            // Collect content
+            // Collect content (deepseek-reasoner streams its thinking as reasoning_content)
+            splitter.pushReasoning(getDeltaReasoning(parsed.choices?.[0]?.delta));
             if (parsed.choices?.[0]?.delta?.content) {
-              content += parsed.choices[0].delta.content;
+              splitter.pushContent(parsed.choices[0].delta.content);
+            }
+            
+            // Usage arrives on the final chunk
+            if (parsed.usage) {
+              reportedUsage = parsed.usage;
             }
           } catch (e) {
             // Skip invalid JSON
@@ -95,32 +117,39 @@ export async function createDeepSeekChatCompletion(
       }
     }
     
-    // Estimate tokens
-    const inputTokens = Math.ceil(request.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
-    const outputTokens = Math.ceil(content.length / 4);
+    splitter.flush();
+    const content = splitter.content;
+    const reasoning = splitter.reasoning;
+    const { inputTokens, outputTokens, reasoningTokens, cachedInputTokens, usageSource } = resolveUsage(reportedUsage, request.messages, content, request.model, reasoning);
     
     const totalTimeMs = Date.now() - startTime;
     const tokensPerSecond = totalTimeMs > 0 ? Math.round((outputTokens / (totalTimeMs / 1000))) : 0;
     
-    console.log(`[DeepSeek] TTFT: ${ttftMs}ms, Total: ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens}, throughput: ${tokensPerSecond} tok/s`);
+    console.log(`[DeepSeek] TTFT: ${ttftMs}ms, Total: ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens} (${usageSource}), throughput: ${tokensPerSecond} tok/s`);
 
     return {
       content,
+      reasoning: reasoning || undefined,
       inputTokens,
       outputTokens,
+      reasoningTokens,
+      cachedInputTokens,
       responseTimeMs: ttftMs,
       totalTimeMs,
       tokensPerSecond,
+      usageSource,
     };
   } catch (error: any) {
     console.error("[DeepSeek] API error:", error.message);
     
+    if (request.signal?.aborted) {
+      throw new ProviderError("Request cancelled", { cancelled: true });
+    }
+    
     if (error.name === "AbortError" || error.message?.includes("timed out") || error.message?.includes("timeout")) {
-      throw new Error("⏱️ Response timed out (query too complex)");
+      throw new ProviderError("⏱️ Response timed out (query too complex)", { timedOut: true });
     }
     
-    throw new Error(`Failed to get DeepSeek response: ${error.message}`);
+    throw wrapProviderError(`Failed to get DeepSeek response: ${error.message}`, error);
   }
 }
-
-export const DEEPSEEK_MODEL_ID = "deepseek-chat";
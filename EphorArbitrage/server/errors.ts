@@ -0,0 +1,72 @@
+import type { ModelCallAttempt } from "@shared/schema";
+
+// Error thrown by provider adapters. Keeps the HTTP status and Retry-After hint
+// so the retry policy (see resilience.ts) can decide whether to try again.
+export class ProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+  timedOut: boolean;
+  cancelled: boolean;  // Aborted by the caller (client disconnected or hit Stop)
+
+  constructor(
+    message: string,
+    options: { status?: number; retryAfterMs?: number; timedOut?: boolean; cancelled?: boolean } = {}
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.timedOut = options.timedOut ?? false;
+    this.cancelled = options.cancelled ?? false;
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function readHeader(headers: any, name: string): string | null | undefined {
+  if (!headers) return undefined;
+  return typeof headers.get === "function" ? headers.get(name) : headers[name];
+}
+
+// Re-throw an adapter failure with a friendlier message without losing status / Retry-After.
+// Handles our own ProviderError as well as OpenAI SDK APIError (status + headers).
+export function wrapProviderError(message: string, error: any): ProviderError {
+  return new ProviderError(message, {
+    status: typeof error?.status === "number" ? error.status : undefined,
+    retryAfterMs: error?.retryAfterMs ?? parseRetryAfter(readHeader(error?.headers, "retry-after")),
+    timedOut: error?.timedOut,
+    cancelled: error?.cancelled,
+  });
+}
+
+// Every host in a model's fallback chain failed. The message is the last failure's,
+// so callers that match on provider error text keep working.
+export class ModelCallFailedError extends Error {
+  attempts: ModelCallAttempt[];
+  status?: number;
+
+  constructor(message: string, attempts: ModelCallAttempt[]) {
+    super(message);
+    this.name = "ModelCallFailedError";
+    this.attempts = attempts;
+    this.status = attempts[attempts.length - 1]?.status;
+  }
+}
+
+// A cost was asked for a model with no price version (and no catalog entry to seed one from)
+export class UnknownModelPriceError extends Error {
+  modelId: string;
+
+  constructor(modelId: string) {
+    super(`No price for model "${modelId}" - add a price version before running it`);
+    this.name = "UnknownModelPriceError";
+    this.modelId = modelId;
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { GraderConfig } from "@shared/schema";
+import { gradeAnswer, parseGrader } from "./graders";
+
+const grade = (content: string, grader: GraderConfig) => gradeAnswer(content, grader, { prompt: "" });
+
+describe("parseGrader", () => {
+  it("rejects a pattern that repeats a group that repeats inside", () => {
+    for (const expected of ["(a+)+$", "^(\\w*)*@", "(x{2,})*y"]) {
+      expect(() => parseGrader({ type: "regex", expected })).toThrow("repeats a group that repeats inside, like (a+)+");
+    }
+    expect(parseGrader({ type: "regex", expected: "(ab)+c" })).toEqual({ type: "regex", expected: "(ab)+c", caseSensitive: undefined });
+  });
+
+  it("rejects an invalid pattern and a numeric grader without a number", () => {
+    expect(() => parseGrader({ type: "regex", expected: "(" })).toThrow("The grader pattern is not a valid regular expression");
+    expect(() => parseGrader({ type: "numeric", expected: "about ten" })).toThrow("A numeric grader needs a number as the expected answer");
+    expect(() => parseGrader({ type: "numeric", expected: "10", tolerance: -1 })).toThrow("grader.tolerance must be a non-negative number");
+  });
+
+  it("keeps code grading off unless the server turns it on", () => {
+    expect(() => parseGrader({ type: "code", expected: "assert add(1, 2) == 3", language: "python" })).toThrow("Code grading is switched off");
+  });
+});
+
+describe("gradeAnswer", () => {
+  it("stops a pattern that backtracks too long", async () => {
+    // Slips past the nested-quantifier check, but still takes exponential time
+    const grader: GraderConfig = { type: "regex", expected: "^(a|a)*b" };
+    const started = Date.now();
+    await expect(grade("a".repeat(40), grader)).rejects.toThrow("The grader pattern took over 100ms to check");
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it("matches a regex case-insensitively unless asked not to", async () => {
+    expect(await grade("The answer is PARIS.", { type: "regex", expected: "\\bparis\\b" })).toMatchObject({ correct: true, score: 1 });
+    expect(await grade("The answer is PARIS.", { type: "regex", expected: "\\bparis\\b", caseSensitive: true })).toMatchObject({ correct: false, score: 0 });
+  });
+
+  it("reads the number from the last line that has one", async () => {
+    const grader: GraderConfig = { type: "numeric", expected: "1250" };
+    expect(await grade("Step 1: 500 + 700 = 1200\nAdd the 50 in fees.\nTotal: $1,250.00", grader))
+      .toEqual({ grader: "numeric", correct: true, score: 1, reason: "Answered 1250 (expected 1250)" });
+    expect(await grade("1250 is the naive guess.\nThe real answer is 1200", grader))
+      .toMatchObject({ correct: false, reason: "Answered 1200 (expected 1250)" });
+    expect(await grade("No idea.", grader)).toMatchObject({ correct: false, reason: "No number in the answer" });
+  });
+
+  it("accepts a number within the tolerance", async () => {
+    expect(await grade("About .5 or -3", { type: "numeric", expected: "0.48", tolerance: 0.05 }))
+      .toMatchObject({ correct: true, reason: "Answered 0.5 (expected 0.48 ± 0.05)" });
+  });
+
+  it("compares exact answers ignoring case, spacing and a final period", async () => {
+    expect(await grade("  Blue   whale. ", { type: "exact", expected: "blue whale" })).toMatchObject({ correct: true });
+    expect(await grade("Blue whale", { type: "exact", expected: "blue whale", caseSensitive: true })).toMatchObject({ correct: false });
+  });
+
+  it("scores keywords by the share mentioned", async () => {
+    expect(await grade("Mitochondria make ATP.", { type: "keywords", expected: "mitochondria, ATP, glucose" })).toEqual({
+      grader: "keywords",
+      correct: false,
+      score: 2 / 3,
+      reason: "Missing: glucose",
+    });
+  });
+});
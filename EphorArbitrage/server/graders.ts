@@ -0,0 +1,258 @@
+import vm from "vm";
+import { getCatalogEntry } from "@shared/models";
+import type { CodeLanguage, GradeResult, GraderConfig, GraderType } from "@shared/schema";
+import type { ResponseFormat } from "./types";
+import type { ScheduleOptions } from "./scheduler";
+import { getModelCompletion } from "./providers";
+import { extractCode, isCodeGradingEnabled, runCodeTests } from "./code-runner";
+
+// Correctness grading for wind tunnel runs.
+//
+// The cheapest column is only worth recommending if its answer is right. A benchmark
+// (or challenge prompt) can carry a reference answer and a grader; after a column
+// finishes, the server checks its answer and reports a grade. The text graders are
+// deterministic and free; the rubric grader asks an LLM judge, whose cost is reported
+// separately from the column's; the code grader runs the answer's code against unit
+// tests on the server (code-runner.ts).
+
+export const GRADER_TYPES = ["exact", "regex", "numeric", "keywords", "rubric", "code"] as const satisfies readonly GraderType[];
+export const CODE_LANGUAGES = ["javascript", "python"] as const satisfies readonly CodeLanguage[];
+const MAX_EXPECTED_LENGTH = 2000;
+const MAX_TESTS_LENGTH = 20000;
+const MAX_PATTERN_LENGTH = 500;
+// Patterns come from requests and imported suites, and run on the server's event loop:
+// each check gets a time limit, and only the start of a long answer is searched
+const REGEX_TIME_LIMIT_MS = 100;
+const MAX_REGEX_INPUT_LENGTH = 20000;
+// A quantified group that repeats inside, like (a+)+ - the classic catastrophic pattern
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*(?:[+*]|\{\d+,\d*\})(?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,\d*\})/;
+const DEFAULT_JUDGE_MODEL = "deepseek/deepseek-chat";
+
+// Numbers as models write them: "1,250", "-3", "0.05", ".5" ("$0.05" matches as 0.05)
+const NUMBER = /-?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?|-?\.\d+/g;
+
+// Rubric verdict: a 0-10 score and a pass/fail call
+const JUDGE_RESPONSE_FORMAT: ResponseFormat = {
+  name: "grade",
+  schema: {
+    type: "object",
+    properties: {
+      score: { type: "integer", minimum: 0, maximum: 10 },
+      correct: { type: "boolean" },
+      reasoning: { type: "string" },
+    },
+    required: ["score", "correct", "reasoning"],
+    additionalProperties: false,
+  },
+};
+
+export interface GradeOptions {
+  prompt: string;          // The question, for the rubric judge
+  signal?: AbortSignal;
+  schedule?: ScheduleOptions;
+}
+
+function parseNumber(text: string): number {
+  return Number(text.replace(/[$,\s]/g, ""));
+}
+
+// Validate a `grader` block from a request body (throws with a user-facing message)
+export function parseGrader(value: unknown): GraderConfig | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "object") {
+    throw new Error("grader must be an object");
+  }
+  const body = value as Record<string, unknown>;
+
+  if (!GRADER_TYPES.includes(body.type as GraderType)) {
+    throw new Error(`grader.type must be one of: ${GRADER_TYPES.join(", ")}`);
+  }
+  const type = body.type as GraderType;
+  if (typeof body.expected !== "string" || !body.expected.trim()) {
+    throw new Error("grader.expected is required");
+  }
+  const maxLength = type === "code" ? MAX_TESTS_LENGTH : MAX_EXPECTED_LENGTH;
+  if (body.expected.length > maxLength) {
+    throw new Error(`grader.expected must be at most ${maxLength} characters`);
+  }
+  const expected = body.expected;
+  const caseSensitive = body.caseSensitive === true ? true : undefined;
+
+  switch (type) {
+    case "regex":
+      if (expected.length > MAX_PATTERN_LENGTH) {
+        throw new Error(`The grader pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+      }
+      try {
+        new RegExp(expected);
+      } catch (error: any) {
+        throw new Error(`The grader pattern is not a valid regular expression: ${error.message}`);
+      }
+      if (NESTED_QUANTIFIER.test(expected)) {
+        throw new Error("The grader pattern repeats a group that repeats inside, like (a+)+ - that can take forever to check");
+      }
+      return { type, expected, caseSensitive };
+
+    case "numeric": {
+      if (!Number.isFinite(parseNumber(expected))) {
+        throw new Error("A numeric grader needs a number as the expected answer");
+      }
+      const tolerance = body.tolerance ?? 0;
+      if (typeof tolerance !== "number" || !Number.isFinite(tolerance) || tolerance < 0) {
+        throw new Error("grader.tolerance must be a non-negative number");
+      }
+      return { type, expected, tolerance };
+    }
+
+    case "rubric": {
+      const judgeModelId = body.judgeModelId ?? DEFAULT_JUDGE_MODEL;
+      if (typeof judgeModelId !== "string" || !getCatalogEntry(judgeModelId)) {
+        throw new Error(`Unknown judge model: ${String(judgeModelId)}`);
+      }
+      return { type, expected, judgeModelId };
+    }
+
+    case "code":
+      if (!isCodeGradingEnabled()) {
+        throw new Error("Code grading is switched off on this server (set CODE_GRADING=on to run answers' code)");
+      }
+      if (!CODE_LANGUAGES.includes(body.language as CodeLanguage)) {
+        throw new Error(`grader.language must be one of: ${CODE_LANGUAGES.join(", ")}`);
+      }
+      return { type, expected, language: body.language as CodeLanguage };
+
+    default:
+      return { type, expected, caseSensitive };
+  }
+}
+
+// The regex check runs in a vm context so a pattern that backtracks too long is stopped
+// (throws if it is)
+let regexContext: vm.Context | undefined;
+function testPattern(pattern: string, flags: string, text: string): boolean {
+  regexContext ??= vm.createContext(Object.create(null));
+  Object.assign(regexContext, { pattern, flags, text: text.slice(0, MAX_REGEX_INPUT_LENGTH) });
+  try {
+    return vm.runInContext("new RegExp(pattern, flags).test(text)", regexContext, { timeout: REGEX_TIME_LIMIT_MS }) === true;
+  } catch (error: any) {
+    if (error?.code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+      throw new Error(`The grader pattern took over ${REGEX_TIME_LIMIT_MS}ms to check`);
+    }
+    throw error;
+  }
+}
+
+function normalize(text: string, caseSensitive?: boolean): string {
+  const collapsed = text.trim().replace(/\s+/g, " ").replace(/\.$/, "");
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+}
+
+function gradeText(content: string, grader: GraderConfig): GradeResult {
+  const { type, expected, caseSensitive } = grader;
+
+  if (type === "exact") {
+    const correct = normalize(content, caseSensitive) === normalize(expected, caseSensitive);
+    return { grader: type, correct, score: correct ? 1 : 0, reason: correct ? "Matches the reference answer" : `Expected exactly "${expected}"` };
+  }
+
+  if (type === "regex") {
+    const correct = testPattern(expected, caseSensitive ? "" : "i", content);
+    return { grader: type, correct, score: correct ? 1 : 0, reason: correct ? `Matches /${expected}/` : `Doesn't match /${expected}/` };
+  }
+
+  if (type === "numeric") {
+    // Models explain first and answer last, so the number that counts is in the last line that has one
+    const target = parseNumber(expected);
+    const tolerance = grader.tolerance ?? 0;
+    const lastNumbers = content.split("\n").map((text) => text.match(NUMBER)).reverse().find(Boolean);
+    if (!lastNumbers) {
+      return { grader: type, correct: false, score: 0, reason: "No number in the answer" };
+    }
+    const numbers = lastNumbers.map(parseNumber);
+    const match = numbers.find((number) => Math.abs(number - target) <= tolerance);
+    const within = tolerance > 0 ? ` ± ${tolerance}` : "";
+    return match !== undefined
+      ? { grader: type, correct: true, score: 1, reason: `Answered ${match} (expected ${target}${within})` }
+      : { grader: type, correct: false, score: 0, reason: `Answered ${numbers.join(", ")} (expected ${target}${within})` };
+  }
+
+  // keywords
+  const keywords = expected.split(",").map((keyword) => keyword.trim()).filter(Boolean);
+  const haystack = caseSensitive ? content : content.toLowerCase();
+  const missing = keywords.filter((keyword) => !haystack.includes(caseSensitive ? keyword : keyword.toLowerCase()));
+  const found = keywords.length - missing.length;
+  return {
+    grader: type,
+    correct: missing.length === 0,
+    score: keywords.length > 0 ? found / keywords.length : 0,
+    reason: missing.length === 0 ? `Mentions all ${keywords.length} keyword(s)` : `Missing: ${missing.join(", ")}`,
+  };
+}
+
+async function gradeWithRubric(content: string, grader: GraderConfig, options: GradeOptions): Promise<GradeResult> {
+  const judgingPrompt = `You are grading an answer to a question against a rubric.
+
+Question:
+${options.prompt}
+
+Rubric - what a correct answer must get right:
+${grader.expected}
+
+Answer to grade:
+${content}
+
+Score the answer from 0 (wrong) to 10 (fully meets the rubric) and decide whether it is correct. Judge only against the rubric, not style or length.
+Respond with ONLY a JSON object: {"score": 8, "correct": true, "reasoning": "one sentence"}`;
+
+  const result = await getModelCompletion({
+    model: grader.judgeModelId ?? DEFAULT_JUDGE_MODEL,
+    messages: [{ role: "user", content: judgingPrompt }],
+    maxTokens: 300,
+    signal: options.signal,
+    schedule: options.schedule,
+    reasoning: { enabled: false },
+    responseFormat: JUDGE_RESPONSE_FORMAT,
+  });
+
+  const structured = result.structured!;
+  if (structured.compliance === "invalid" || structured.compliance === "unparseable") {
+    throw new Error(`The judge's verdict was unusable (${structured.mode}): ${structured.errors.join("; ")}`);
+  }
+  const verdict = structured.value as { score: number; correct: boolean; reasoning: string };
+  return {
+    grader: "rubric",
+    correct: verdict.correct,
+    score: verdict.score / 10,
+    reason: verdict.reasoning,
+    judgeCost: result.cost,
+  };
+}
+
+async function gradeWithTests(content: string, grader: GraderConfig, options: GradeOptions): Promise<GradeResult> {
+  const language = grader.language!;
+  const code = extractCode(content, language);
+  if (!code) {
+    return { grader: "code", correct: false, score: 0, reason: `No ${language} code block in the answer` };
+  }
+
+  const run = await runCodeTests(code, grader.expected, language, options.signal);
+  return {
+    grader: "code",
+    correct: run.passed,
+    score: run.passed ? 1 : 0,
+    reason: run.passed ? "All tests passed" : run.error ?? "Tests failed",
+    output: run.output,
+    durationMs: run.durationMs,
+  };
+}
+
+// Grade one column's answer (throws if the rubric judge fails or a pattern runs too long)
+export async function gradeAnswer(content: string, grader: GraderConfig, options: GradeOptions): Promise<GradeResult> {
+  if (grader.type === "rubric") {
+    return gradeWithRubric(content, grader, options);
+  }
+  if (grader.type === "code") {
+    return gradeWithTests(content, grader, options);
+  }
+  return gradeText(content, grader);
+}
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const MODEL = "deepseek/deepseek-chat";
+const FALLBACK = "openrouter/deepseek/deepseek-v3.2";
+
+// Fresh health state for every test
+let health: typeof import("./health");
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.stubEnv("MOCK_PROVIDER_MODELS", "");
+  vi.resetModules();
+  health = await import("./health");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+function fail(times: number, modelId = MODEL, provider = "deepseek") {
+  for (let i = 0; i < times; i++) health.recordFailure(modelId, provider, 100, "503 overloaded");
+}
+
+describe("circuit breaker", () => {
+  it("opens after five failures in a row and fails fast with the reason", () => {
+    fail(4);
+    expect(health.checkCircuit(MODEL, "deepseek")).toBeUndefined();
+    fail(1);
+    expect(health.checkCircuit(MODEL, "deepseek")).toBe("DeepSeek is failing for DeepSeek-V3 (5 errors in a row) - skipped, next try in 30s");
+  });
+
+  it("starts counting again after a success", () => {
+    fail(4);
+    health.recordSuccess(MODEL, "deepseek", 200);
+    fail(4);
+    expect(health.checkCircuit(MODEL, "deepseek")).toBeUndefined();
+  });
+
+  it("lets a single trial call through once the cooldown passes", () => {
+    fail(5);
+    vi.advanceTimersByTime(30000);
+    expect(health.checkCircuit(MODEL, "deepseek")).toBeUndefined();
+    expect(health.checkCircuit(MODEL, "deepseek")).toContain("a trial call is checking whether it has recovered");
+
+    health.recordSuccess(MODEL, "deepseek", 200);
+    expect(health.checkCircuit(MODEL, "deepseek")).toBeUndefined();
+    expect(health.checkCircuit(MODEL, "deepseek")).toBeUndefined();
+  });
+
+  it("reopens for twice as long when the trial call fails", () => {
+    fail(5);
+    vi.advanceTimersByTime(30000);
+    health.checkCircuit(MODEL, "deepseek");
+    fail(1);
+    expect(health.checkCircuit(MODEL, "deepseek")).toContain("next try in 60s");
+  });
+
+  it("frees the trial for the next call when it ends without a verdict", () => {
+    fail(5);
+    vi.advanceTimersByTime(30000);
+    health.checkCircuit(MODEL, "deepseek");
+    health.releaseTrial(MODEL, "deepseek");
+    expect(health.checkCircuit(MODEL, "deepseek")).toBeUndefined();
+  });
+
+  it("stops waiting on a trial call that never reports back", () => {
+    fail(5);
+    vi.advanceTimersByTime(30000);
+    health.checkCircuit(MODEL, "deepseek");
+    vi.advanceTimersByTime(2 * 60 * 1000 + 1);
+    expect(health.checkCircuit(MODEL, "deepseek")).toBeUndefined();
+  });
+
+  it("keeps the mock's circuit apart from the real provider's", () => {
+    fail(5, MODEL, "mock");
+    expect(health.checkCircuit(MODEL, "mock")).toBeDefined();
+    expect(health.checkCircuit(MODEL, "deepseek")).toBeUndefined();
+  });
+});
+
+describe("getProviderStatus", () => {
+  it("reports unknown until a provider has been called", () => {
+    const { providers } = health.getProviderStatus();
+    expect(providers.find((provider) => provider.provider === "deepseek")?.state).toBe("unknown");
+  });
+
+  it("reports a host's circuit, error rate and latency", () => {
+    health.recordSuccess(MODEL, "deepseek", 100);
+    health.recordSuccess(MODEL, "deepseek", 300);
+    fail(2);
+    const model = health.getProviderStatus().models.find((item) => item.modelId === MODEL);
+    expect(model).toMatchObject({
+      provider: "deepseek",
+      circuit: "closed",
+      samples: 4,
+      errorRate: 0.5,
+      avgLatencyMs: 200,
+      consecutiveFailures: 2,
+      lastError: "503 overloaded",
+      fallbackAvailable: true,
+    });
+  });
+
+  it("marks a provider degraded by its error rate and down when every host is failing", () => {
+    health.recordSuccess(MODEL, "deepseek", 100);
+    fail(2);
+    expect(health.getProviderStatus().providers.find((item) => item.provider === "deepseek")).toMatchObject({
+      state: "degraded",
+      reason: "DeepSeek is degraded - 67% of recent calls failed",
+    });
+
+    fail(3);
+    expect(health.getProviderStatus().providers.find((item) => item.provider === "deepseek")).toMatchObject({
+      state: "down",
+      reason: "DeepSeek is down - every recent call failed",
+    });
+  });
+
+  it("says whether a failing host has a fallback that is up", () => {
+    fail(5);
+    fail(5, FALLBACK, "openrouter");
+    const model = health.getProviderStatus().models.find((item) => item.modelId === MODEL);
+    expect(model).toMatchObject({ circuit: "open", fallbackAvailable: false });
+  });
+});
@@ -0,0 +1,192 @@
+import { PROVIDER_DISPLAY_NAMES, getCatalogEntry, type ProviderId } from "@shared/models";
+import type { CircuitState, ModelHealth, ProviderHealth, ProviderStatusResponse } from "@shared/schema";
+import { getServingChain, getServingProvider } from "./mock";
+
+// Provider health tracking and circuit breaker.
+//
+// runWithFallback reports every try here. Each host (catalog ID, as served by its
+// provider or by the mock - they never share a circuit) keeps a rolling window
+// of recent calls for error rate and latency, plus a circuit breaker: after
+// FAILURE_THRESHOLD failures in a row the circuit opens, and calls to that host fail
+// fast - straight on to the next fallback host - instead of each one waiting out a
+// timeout. Once the cooldown passes a single trial call goes through; success closes
+// the circuit, failure reopens it for twice as long.
+// Cancelled calls and rejected requests (the caller's fault, not the provider's) aren't
+// reported; if one was the trial call, it releases the trial so the next call can be.
+
+const WINDOW_SIZE = 20;               // Most recent calls per host...
+const WINDOW_MS = 10 * 60 * 1000;     // ...from the last 10 minutes
+const FAILURE_THRESHOLD = 5;
+const BASE_COOLDOWN_MS = 30000;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+const TRIAL_TIMEOUT_MS = 2 * 60 * 1000; // A trial call that never reports back stops blocking after this
+const DEGRADED_ERROR_RATE = 0.5;
+const MIN_SAMPLES = 3;                // Fewer calls than this say nothing about the error rate
+
+interface CallOutcome {
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+}
+
+interface HostHealth {
+  modelId: string;
+  provider: string;
+  outcomes: CallOutcome[];
+  consecutiveFailures: number;
+  lastError?: string;
+  openUntil?: number;       // Set while the circuit isn't closed; half-open once it's in the past
+  cooldownMs: number;
+  trialStartedAt?: number;
+}
+
+const hosts = new Map<string, HostHealth>();
+
+function getHostKey(modelId: string, provider: string): string {
+  return `${provider}:${modelId}`;
+}
+
+function getHost(modelId: string, provider: string): HostHealth {
+  const key = getHostKey(modelId, provider);
+  let host = hosts.get(key);
+  if (!host) {
+    host = { modelId, provider, outcomes: [], consecutiveFailures: 0, cooldownMs: BASE_COOLDOWN_MS };
+    hosts.set(key, host);
+  }
+  return host;
+}
+
+function getProviderName(provider: string): string {
+  return PROVIDER_DISPLAY_NAMES[provider as ProviderId] ?? provider;
+}
+
+function getRecentOutcomes(host: HostHealth, now = Date.now()): CallOutcome[] {
+  return host.outcomes.filter((outcome) => now - outcome.at <= WINDOW_MS);
+}
+
+function addOutcome(host: HostHealth, outcome: CallOutcome): void {
+  host.outcomes = [...getRecentOutcomes(host, outcome.at), outcome].slice(-WINDOW_SIZE);
+}
+
+function getCircuitState(host: HostHealth, now = Date.now()): CircuitState {
+  if (host.openUntil === undefined) return "closed";
+  return now < host.openUntil ? "open" : "half_open";
+}
+
+function openCircuit(modelId: string, host: HostHealth): void {
+  host.openUntil = Date.now() + host.cooldownMs;
+  host.trialStartedAt = undefined;
+  console.warn(`[Health] Circuit open for ${modelId}: ${host.consecutiveFailures} failures in a row, next try in ${host.cooldownMs / 1000}s`);
+}
+
+// Why calls to `modelId` should fail fast right now, or undefined to go ahead.
+// When the circuit is half-open the first caller through becomes the trial call.
+export function checkCircuit(modelId: string, provider: string): string | undefined {
+  const host = hosts.get(getHostKey(modelId, provider));
+  if (!host) return undefined;
+
+  const now = Date.now();
+  const state = getCircuitState(host, now);
+  if (state === "closed") return undefined;
+  if (state === "half_open" && (host.trialStartedAt === undefined || now - host.trialStartedAt > TRIAL_TIMEOUT_MS)) {
+    host.trialStartedAt = now;
+    return undefined;
+  }
+
+  const name = getCatalogEntry(modelId)?.displayName ?? modelId;
+  const wait = state === "open"
+    ? `next try in ${Math.ceil((host.openUntil! - now) / 1000)}s`
+    : "a trial call is checking whether it has recovered";
+  return `${getProviderName(host.provider)} is failing for ${name} (${host.consecutiveFailures} errors in a row) - skipped, ${wait}`;
+}
+
+// A trial call ended without saying anything about the host (cancelled, or a bad request)
+export function releaseTrial(modelId: string, provider: string): void {
+  const host = hosts.get(getHostKey(modelId, provider));
+  if (host && getCircuitState(host) === "half_open") {
+    host.trialStartedAt = undefined;
+  }
+}
+
+export function recordSuccess(modelId: string, provider: string, latencyMs: number): void {
+  const host = getHost(modelId, provider);
+  addOutcome(host, { at: Date.now(), ok: true, latencyMs });
+  if (host.openUntil !== undefined) {
+    console.log(`[Health] Circuit closed for ${modelId}`);
+  }
+  host.consecutiveFailures = 0;
+  host.lastError = undefined;
+  host.openUntil = undefined;
+  host.trialStartedAt = undefined;
+  host.cooldownMs = BASE_COOLDOWN_MS;
+}
+
+export function recordFailure(modelId: string, provider: string, latencyMs: number, error: string): void {
+  const host = getHost(modelId, provider);
+  addOutcome(host, { at: Date.now(), ok: false, latencyMs });
+  host.consecutiveFailures++;
+  host.lastError = error.slice(0, 200);
+
+  const state = getCircuitState(host);
+  if (state === "half_open") {
+    // The trial call failed: stay away for longer this time
+    host.cooldownMs = Math.min(host.cooldownMs * 2, MAX_COOLDOWN_MS);
+    openCircuit(modelId, host);
+  } else if (state === "closed" && host.consecutiveFailures >= FAILURE_THRESHOLD) {
+    openCircuit(modelId, host);
+  }
+}
+
+function summarize(outcomes: CallOutcome[]): { samples: number; errorRate: number; avgLatencyMs: number | null } {
+  const successes = outcomes.filter((outcome) => outcome.ok);
+  return {
+    samples: outcomes.length,
+    errorRate: outcomes.length > 0 ? (outcomes.length - successes.length) / outcomes.length : 0,
+    avgLatencyMs: successes.length > 0
+      ? Math.round(successes.reduce((sum, outcome) => sum + outcome.latencyMs, 0) / successes.length)
+      : null,
+  };
+}
+
+function isAvailable(modelId: string, now: number): boolean {
+  const host = hosts.get(getHostKey(modelId, getServingProvider(modelId)));
+  return !host || getCircuitState(host, now) !== "open";
+}
+
+export function getProviderStatus(): ProviderStatusResponse {
+  const now = Date.now();
+
+  const models: ModelHealth[] = Array.from(hosts.values()).map((host) => ({
+    modelId: host.modelId,
+    provider: host.provider,
+    circuit: getCircuitState(host, now),
+    ...summarize(getRecentOutcomes(host, now)),
+    consecutiveFailures: host.consecutiveFailures,
+    lastError: host.lastError,
+    retryAt: host.openUntil,
+    fallbackAvailable: getServingChain(host.modelId).some((id) => id !== host.modelId && isAvailable(id, now)),
+  }));
+
+  const providers = (Object.keys(PROVIDER_DISPLAY_NAMES) as ProviderId[]).map((provider): ProviderHealth => {
+    const name = getProviderName(provider);
+    const tracked = Array.from(hosts.values()).filter((host) => host.provider === provider);
+    const summary = summarize(tracked.flatMap((host) => getRecentOutcomes(host, now)));
+    const failing = tracked.filter((host) => getCircuitState(host, now) !== "closed").length;
+
+    if (tracked.length === 0) {
+      return { provider, name, state: "unknown", ...summary };
+    }
+    if (failing === tracked.length) {
+      return { provider, name, state: "down", ...summary, reason: `${name} is down - every recent call failed` };
+    }
+    if (failing > 0) {
+      return { provider, name, state: "degraded", ...summary, reason: `${name} is degraded - ${failing} of ${tracked.length} models failing` };
+    }
+    if (summary.samples >= MIN_SAMPLES && summary.errorRate >= DEGRADED_ERROR_RATE) {
+      return { provider, name, state: "degraded", ...summary, reason: `${name} is degraded - ${Math.round(summary.errorRate * 100)}% of recent calls failed` };
+    }
+    return { provider, name, state: "healthy", ...summary };
+  });
+
+  return { providers, models };
+}
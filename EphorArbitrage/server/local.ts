@@ -0,0 +1,208 @@
+import OpenAI from "openai";
+import { registerCatalogEntry, type ModelCatalogEntry } from "@shared/models";
+import type { ChatMessage, ChatCompletionResult, ReasoningOptions, ResponseFormat } from "./types";
+import { ProviderError, wrapProviderError } from "./errors";
+import { getChunkUsage, resolveUsage, type ReportedUsage } from "./usage";
+import { ReasoningSplitter, getDeltaReasoning, getReasoningParams } from "./reasoning";
+import { getSamplingParams } from "./sampling";
+import { getResponseFormatParams } from "./structured";
+import type { SamplingParams } from "@shared/schema";
+
+// Self-hosted OpenAI-compatible server (Ollama, llama.cpp, vLLM, ...).
+// LOCAL_LLM_BASE_URL is the OpenAI-compatible root, e.g. http://10.0.0.5:11434/v1
+// LOCAL_LLM_API_KEY is optional - most local servers ignore it.
+
+export interface LocalChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;    // Caller abort (client disconnect / Stop)
+  reasoning?: ReasoningOptions;
+  sampling?: SamplingParams;
+  responseFormat?: ResponseFormat;
+}
+
+// A discovered local model plus the wind-tunnel band it best fits
+export interface LocalModelInfo {
+  id: string;
+  upstreamId: string;
+  displayName: string;
+  band: string;
+  contextLength: number;
+}
+
+export const LOCAL_MODEL_PREFIX = "local/";
+
+const DEFAULT_LOCAL_CONTEXT_LENGTH = 8192;
+
+export function getLocalBaseURL(): string | undefined {
+  return process.env.LOCAL_LLM_BASE_URL?.replace(/\/+$/, "") || undefined;
+}
+
+export function createLocalClient(timeoutMs?: number): OpenAI {
+  const baseURL = getLocalBaseURL();
+  if (!baseURL) {
+    throw new Error("LOCAL_LLM_BASE_URL not configured");
+  }
+  return new OpenAI({
+    baseURL,
+    apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+    timeout: timeoutMs,
+  });
+}
+
+export async function createLocalChatCompletion(
+  request: LocalChatCompletionRequest
+): Promise<ChatCompletionResult> {
+  try {
+    const timeoutMs = request.timeoutMs || 90000;
+    const startTime = Date.now();
+
+    const client = createLocalClient(timeoutMs);
+
+    const stream = await client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens || 4096,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...getReasoningParams("local", request.model, request.reasoning),
+      ...getSamplingParams(request.sampling),
+      ...getResponseFormatParams("local", request.model, request.responseFormat),
+    }, { signal: request.signal });
+
+    let ttftMs = 0;
+    const splitter = new ReasoningSplitter();
+    let firstChunkReceived = false;
+    let reportedUsage: ReportedUsage | undefined;
+
+    for await (const chunk of stream) {
+      if (!firstChunkReceived) {
+        ttftMs = Date.now() - startTime;
+        firstChunkReceived = true;
+        console.log(`[Local] ${request.model} TTFT: ${ttftMs}ms`);
+      }
+
+      const delta = chunk.choices[0]?.delta;
+      splitter.pushReasoning(getDeltaReasoning(delta));
+      splitter.pushContent(delta?.content || "");
+      reportedUsage = getChunkUsage(chunk) ?? reportedUsage;
+    }
+
+    splitter.flush();
+    const content = splitter.content;
+    const reasoning = splitter.reasoning;
+
+    const { inputTokens, outputTokens, reasoningTokens, cachedInputTokens, usageSource } = resolveUsage(reportedUsage, request.messages, content, request.model, reasoning);
+
+    const totalTimeMs = Date.now() - startTime;
+    const tokensPerSecond = totalTimeMs > 0 ? Math.round((outputTokens / (totalTimeMs / 1000))) : 0;
+
+    console.log(`[Local] Model: ${request.model}, TTFT: ${ttftMs}ms, Total: ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens} (${usageSource}), throughput: ${tokensPerSecond} tok/s`);
+
+    return {
+      content,
+      reasoning: reasoning || undefined,
+      inputTokens,
+      outputTokens,
+      reasoningTokens,
+      cachedInputTokens,
+      responseTimeMs: ttftMs,
+      totalTimeMs,
+      tokensPerSecond,
+      usageSource,
+    };
+  } catch (error: any) {
+    console.error("Local model API error:", error);
+
+    if (request.signal?.aborted) {
+      throw new ProviderError("Request cancelled", { cancelled: true });
+    }
+
+    if (error.message?.includes("timed out") || error.message?.includes("timeout")) {
+      throw new ProviderError("⏱️ Response timed out (query too complex)", { timedOut: true });
+    }
+
+    throw wrapProviderError(`Failed to get local model response: ${error.message}`, error);
+  }
+}
+
+// Guess the wind-tunnel band from the parameter count in the model name
+// ("llama3.1:8b", "Qwen2.5-14B-Instruct-GGUF", ...). Unknown sizes land in 8B.
+export function inferLocalModelBand(modelName: string): string {
+  const match = modelName.match(/(\d+(?:\.\d+)?)\s*b(?![a-z])/i);
+  const billions = match ? parseFloat(match[1]) : 0;
+  if (billions > 100) return "685B";
+  if (billions > 40) return "72B";
+  if (billions > 20) return "32B";
+  if (billions > 10) return "14B";
+  return "8B";
+}
+
+// Context length as reported by the server: vLLM uses max_model_len,
+// llama.cpp reports meta.n_ctx_train, Ollama reports nothing.
+function getReportedContextLength(model: any): number {
+  const reported = model.max_model_len ?? model.context_length ?? model.meta?.n_ctx_train;
+  if (typeof reported === "number" && reported > 0) return reported;
+  const configured = parseInt(process.env.LOCAL_LLM_CONTEXT_LENGTH || "", 10);
+  return configured > 0 ? configured : DEFAULT_LOCAL_CONTEXT_LENGTH;
+}
+
+// Query the local server's /models endpoint and register every model it serves
+// in the catalog (zero cost). Returns an empty list when no server is configured.
+export async function discoverLocalModels(timeoutMs = 5000): Promise<LocalModelInfo[]> {
+  const baseURL = getLocalBaseURL();
+  if (!baseURL) return [];
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(`${baseURL}/models`, {
+      headers: process.env.LOCAL_LLM_API_KEY
+        ? { "Authorization": `Bearer ${process.env.LOCAL_LLM_API_KEY}` }
+        : undefined,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`${response.status} - ${await response.text()}`);
+    }
+
+    const body = await response.json();
+    const models: any[] = Array.isArray(body?.data) ? body.data : [];
+
+    const discovered = models
+      .filter((model) => typeof model?.id === "string")
+      .map((model): LocalModelInfo => ({
+        id: `${LOCAL_MODEL_PREFIX}${model.id}`,
+        upstreamId: model.id,
+        displayName: `Local: ${model.id}`,
+        band: inferLocalModelBand(model.id),
+        contextLength: getReportedContextLength(model),
+      }));
+
+    for (const model of discovered) {
+      const entry: ModelCatalogEntry = {
+        id: model.id,
+        provider: "local",
+        upstreamId: model.upstreamId,
+        displayName: model.displayName,
+        pricing: { input: 0, output: 0 },
+        capabilities: { inputModalities: ["text"], reasoning: false, webSearch: false },
+        contextLength: model.contextLength,
+      };
+      registerCatalogEntry(entry);
+    }
+
+    console.log(`[Local] Discovered ${discovered.length} model(s) at ${baseURL}`);
+    return discovered;
+  } catch (error: any) {
+    const reason = error.name === "AbortError" ? "timed out" : error.message;
+    console.warn(`[Local] Model discovery failed at ${baseURL}: ${reason}`);
+    return [];
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
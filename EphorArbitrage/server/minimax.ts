@@ -1,10 +1,17 @@
 import type { ChatMessage, ChatCompletionResult } from "./types";
+import { ProviderError, wrapProviderError, parseRetryAfter } from "./errors";
+import { getChunkUsage, resolveUsage, type ReportedUsage } from "./usage";
+import { ReasoningSplitter, getDeltaReasoning } from "./reasoning";
+import { getSamplingParams } from "./sampling";
+import type { SamplingParams } from "@shared/schema";
 
 export interface MiniMaxChatCompletionRequest {
   model: string;
   messages: ChatMessage[];
   maxTokens?: number;
   timeoutMs?: number;
+  signal?: AbortSignal;    // Caller abort (client disconnect / Stop)
+  sampling?: SamplingParams;
 }
 
 export async function createMiniMaxChatCompletion(
@@ -43,15 +50,19 @@ export async function createMiniMaxChatCompletion(
         messages: request.messages,
         max_tokens: request.maxTokens || 4096,
         stream: true,
+        ...getSamplingParams(request.sampling),
       }),
-      signal: controller.signal,
+      signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
     });
 
     clearTimeout(timeoutId);
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`MiniMax API error: ${response.status} - ${errorText}`);
+      throw new ProviderError(`MiniMax API error: ${response.status} - ${errorText}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      });
     }
 
     const reader = response.body?.getReader();
@@ -61,8 +72,9 @@ export async function createMiniMaxChatCompletion(
 
     const decoder = new TextDecoder();
     let ttftMs = 0;
-    let content = "";
+    const splitter = new ReasoningSplitter();
     let firstChunkReceived = false;
+    let reportedUsage: ReportedUsage | undefined;
     let buffer = "";
 
     while (true) {
@@ -92,10 +104,16 @@ export async function createMiniMaxChatCompletion(
               }
             }
             
-            // Collect content from various formats
+            // Collect content from various formats (M2 thinks inline in <think> tags)
+            splitter.pushReasoning(getDeltaReasoning(parsed.choices?.[0]?.delta));
             const deltaContent = parsed.choices?.[0]?.delta?.content || parsed.delta?.content;
             if (deltaContent) {
-              content += deltaContent;
+              splitter.pushContent(deltaContent);
+            }
+            
+            // Usage arrives on the final chunk
+            if (parsed.usage) {
+              reportedUsage = parsed.usage;
             }
           } catch (e) {
             // Skip invalid JSON
@@ -104,32 +122,39 @@ export async function createMiniMaxChatCompletion(
       }
     }
     
-    // Estimate tokens
-    const inputTokens = Math.ceil(request.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
-    const outputTokens = Math.ceil(content.length / 4);
+    splitter.flush();
+    const content = splitter.content;
+    const reasoning = splitter.reasoning;
+    const { inputTokens, outputTokens, reasoningTokens, cachedInputTokens, usageSource } = resolveUsage(reportedUsage, request.messages, content, request.model, reasoning);
     
     const totalTimeMs = Date.now() - startTime;
     const tokensPerSecond = totalTimeMs > 0 ? Math.round((outputTokens / (totalTimeMs / 1000))) : 0;
     
-    console.log(`[MiniMax] TTFT: ${ttftMs}ms, Total: ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens}, throughput: ${tokensPerSecond} tok/s`);
+    console.log(`[MiniMax] TTFT: ${ttftMs}ms, Total: ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens} (${usageSource}), throughput: ${tokensPerSecond} tok/s`);
 
     return {
       content,
+      reasoning: reasoning || undefined,
       inputTokens,
       outputTokens,
+      reasoningTokens,
+      cachedInputTokens,
       responseTimeMs: ttftMs,
       totalTimeMs,
       tokensPerSecond,
+      usageSource,
     };
   } catch (error: any) {
     console.error("MiniMax API error:", error);
     
+    if (request.signal?.aborted) {
+      throw new ProviderError("Request cancelled", { cancelled: true });
+    }
+    
     if (error.name === "AbortError" || error.message?.includes("timed out") || error.message?.includes("timeout")) {
-      throw new Error("⏱️ Response timed out (query too complex)");
+      throw new ProviderError("⏱️ Response timed out (query too complex)", { timedOut: true });
     }
     
-    throw new Error(`Failed to get MiniMax response: ${error.message}`);
+    throw wrapProviderError(`Failed to get MiniMax response: ${error.message}`, error);
   }
 }
-
-export const MINIMAX_MODEL_ID = "MiniMax-Text-01";
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockChatCompletion, getMockConfig, getServingChain, getServingProvider, isMockModel } from "./mock";
+
+const MODEL = "deepseek/deepseek-chat";
+const messages = [{ role: "user" as const, content: "Why is the sky blue?" }];
+
+function configure(config: Record<string, unknown>) {
+  vi.stubEnv("MOCK_PROVIDER_CONFIG", JSON.stringify(config));
+}
+
+beforeEach(() => {
+  vi.stubEnv("MOCK_PROVIDER_MODELS", "*");
+  configure({ default: { ttftMs: 0, tokensPerSecond: 0 } });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("createMockChatCompletion", () => {
+  it("streams the script and reports usage", async () => {
+    configure({ default: { ttftMs: 0, tokensPerSecond: 0, script: "Rayleigh scattering, mostly.", inputTokens: 12 } });
+    const tokens: string[] = [];
+    const result = await createMockChatCompletion({ model: MODEL, messages }, (delta) => tokens.push(delta));
+
+    expect(tokens).toEqual(["Rayleigh ", "scattering, ", "mostly."]);
+    expect(result).toMatchObject({ content: "Rayleigh scattering, mostly.", inputTokens: 12, outputTokens: 3, usageSource: "reported" });
+  });
+
+  it("gives the same run for the same call since server start", async () => {
+    vi.resetModules();
+    const first = await import("./mock");
+    const firstRuns = [await first.createMockChatCompletion({ model: MODEL, messages }), await first.createMockChatCompletion({ model: MODEL, messages })];
+    vi.resetModules();
+    const restarted = await import("./mock");
+    const restartedRuns = [await restarted.createMockChatCompletion({ model: MODEL, messages }), await restarted.createMockChatCompletion({ model: MODEL, messages })];
+
+    expect(restartedRuns.map((run) => run.content)).toEqual(firstRuns.map((run) => run.content));
+    expect(firstRuns[1].content).not.toBe(firstRuns[0].content);
+  });
+
+  it("caps generated text at max tokens", async () => {
+    const result = await createMockChatCompletion({ model: MODEL, messages, maxTokens: 5 });
+    expect(result.outputTokens).toBe(5);
+  });
+
+  it("fails like an overloaded upstream at the configured rate", async () => {
+    configure({ default: { ttftMs: 0, failureRate: 1 } });
+    await expect(createMockChatCompletion({ model: MODEL, messages })).rejects.toMatchObject({ status: 503 });
+  });
+
+  it("reports estimated usage when configured to send none", async () => {
+    configure({ default: { ttftMs: 0, tokensPerSecond: 0, reportsUsage: false } });
+    expect((await createMockChatCompletion({ model: MODEL, messages })).usageSource).toBe("estimated");
+  });
+
+  it("stops waiting for the first token as soon as the call is aborted", async () => {
+    configure({ default: { ttftMs: 10000 } });
+    const controller = new AbortController();
+    const startTime = Date.now();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(createMockChatCompletion({ model: MODEL, messages, signal: controller.signal })).rejects.toMatchObject({ cancelled: true });
+    expect(Date.now() - startTime).toBeLessThan(1000);
+  });
+});
+
+describe("mock selection", () => {
+  it("reads the mocked models and their config from the environment", () => {
+    vi.stubEnv("MOCK_PROVIDER_MODELS", `${MODEL}, together/deepseek-r1`);
+    configure({ default: { ttftMs: 50 }, [MODEL]: { tokensPerSecond: 5 } });
+
+    expect(isMockModel(MODEL)).toBe(true);
+    expect(isMockModel("anthropic/claude-sonnet-4.5")).toBe(false);
+    expect(getMockConfig(MODEL)).toMatchObject({ ttftMs: 50, tokensPerSecond: 5, seed: 42 });
+  });
+
+  it("keeps a mocked model's fallback inside the mock", () => {
+    vi.stubEnv("MOCK_PROVIDER_MODELS", MODEL);
+    expect(getServingProvider(MODEL)).toBe("mock");
+    expect(getServingChain(MODEL)).toEqual([MODEL]);
+    expect(getServingProvider("openrouter/deepseek/deepseek-v3.2")).toBe("openrouter");
+    expect(getServingChain("openrouter/deepseek/deepseek-v3.2")).toEqual(["openrouter/deepseek/deepseek-v3.2"]);
+
+    vi.stubEnv("MOCK_PROVIDER_MODELS", "*");
+    expect(getServingChain(MODEL)).toEqual([MODEL, "openrouter/deepseek/deepseek-v3.2"]);
+  });
+});
@@ -0,0 +1,305 @@
+import type { ChatMessage, ChatCompletionResult, ToolCall, ToolChatRequest, ToolChatResult } from "./types";
+import type { JsonSchema, SamplingParams } from "@shared/schema";
+import { getCatalogEntry, getFallbackChain } from "@shared/models";
+import { countTokens } from "./tokenizer";
+import { ProviderError } from "./errors";
+import { getToolMessageText } from "./tools";
+
+// Local deterministic provider for offline demos and tests.
+//
+// MOCK_PROVIDER_MODELS selects which catalog models are served by the mock:
+//   "*" for every model, or a comma-separated list of catalog IDs.
+// MOCK_PROVIDER_CONFIG tunes the behaviour (JSON). A "default" key applies to
+// every mocked model and per-model keys override it, e.g.
+//   {"default": {"ttftMs": 200}, "anthropic/claude-sonnet-4.5": {"tokensPerSecond": 30}}
+
+export interface MockProviderConfig {
+  ttftMs: number;           // Delay before the first token
+  tokensPerSecond: number;  // Streaming speed after the first token (0 = no delay)
+  failureRate: number;      // 0-1 chance the call fails (seeded, so repeatable)
+  seed: number;
+  script?: string;          // Fixed response text; seeded-random text when omitted
+  outputLength?: number;    // Tokens to generate when no script is given
+  inputTokens?: number;     // Reported usage overrides
+  outputTokens?: number;
+  reportsUsage?: boolean;   // false = act like a provider that sends no usage (counts are estimated)
+}
+
+export interface MockChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  sampling?: SamplingParams;  // Only `seed` applies: it replaces the configured seed
+}
+
+const DEFAULT_MOCK_CONFIG: MockProviderConfig = {
+  ttftMs: 300,
+  tokensPerSecond: 60,
+  failureRate: 0,
+  seed: 42,
+};
+
+const MOCK_WORDS = [
+  "the", "model", "tokens", "answer", "context", "latency", "cost", "reasoning",
+  "because", "first", "then", "result", "simple", "larger", "window", "prompt",
+  "faster", "cheaper", "accuracy", "so", "we", "can", "see", "that", "each",
+  "step", "shows", "a", "trade-off", "between", "speed", "and", "quality",
+];
+
+function parseMockConfigEnv(): Record<string, Partial<MockProviderConfig>> {
+  const raw = process.env.MOCK_PROVIDER_CONFIG;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn("[Mock] MOCK_PROVIDER_CONFIG is not valid JSON - using defaults");
+    return {};
+  }
+}
+
+export function isMockModel(modelId: string): boolean {
+  const selection = process.env.MOCK_PROVIDER_MODELS?.trim();
+  if (!selection) return false;
+  if (selection === "*") return true;
+  return selection.split(",").map((id) => id.trim()).includes(modelId);
+}
+
+// Who serves a catalog host: the mock when it's rerouted, otherwise its own provider
+export function getServingProvider(modelId: string): string {
+  return isMockModel(modelId) ? "mock" : getCatalogEntry(modelId)?.provider ?? "unknown";
+}
+
+// The hosts a call may fall back to, all served the same way as the model: a mocked
+// model never falls back to a real (billed) host, nor a real one to the mock
+export function getServingChain(modelId: string): string[] {
+  const mocked = isMockModel(modelId);
+  return getFallbackChain(modelId).filter((id) => isMockModel(id) === mocked);
+}
+
+export function getMockConfig(modelId: string): MockProviderConfig {
+  const overrides = parseMockConfigEnv();
+  return {
+    ...DEFAULT_MOCK_CONFIG,
+    ...overrides.default,
+    ...overrides[modelId],
+  };
+}
+
+// mulberry32: small seeded PRNG so the same prompt + seed always gives the same run
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function buildMockTokens(config: MockProviderConfig, random: () => number, maxTokens: number): string[] {
+  if (config.script !== undefined) {
+    return config.script.match(/\S+\s*/g) || [];
+  }
+
+  const length = Math.min(config.outputLength ?? 40 + Math.floor(random() * 160), maxTokens);
+  const tokens: string[] = [];
+  for (let i = 0; i < length; i++) {
+    const word = MOCK_WORDS[Math.floor(random() * MOCK_WORDS.length)];
+    const endOfSentence = i === length - 1 || random() < 0.08;
+    const text = tokens.length === 0 || tokens[tokens.length - 1].endsWith(". ")
+      ? word.charAt(0).toUpperCase() + word.slice(1)
+      : word;
+    tokens.push(endOfSentence ? `${text}. ` : `${text} `);
+  }
+  return tokens;
+}
+
+// Ends early when the call is aborted (callers check the signal afterwards), so a
+// stopped mock column gives up its provider slot straight away, like a real stream
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Repeat calls with the same model + prompt (e.g. retries) draw a fresh but still
+// reproducible sequence: the Nth call since server start always behaves the same
+const callCounts = new Map<string, number>();
+
+export async function createMockChatCompletion(
+  request: MockChatCompletionRequest,
+  onToken?: (delta: string) => void
+): Promise<ChatCompletionResult> {
+  const config = getMockConfig(request.model);
+  if (request.sampling?.seed !== undefined) {
+    config.seed = request.sampling.seed;
+  }
+  const promptText = request.messages.map((m) => m.content).join("\n");
+  const callKey = `${request.model}\n${promptText}`;
+  const callIndex = callCounts.get(callKey) ?? 0;
+  callCounts.set(callKey, callIndex + 1);
+  const random = createRandom(config.seed ^ hashString(callKey) ^ Math.imul(callIndex, 0x9E3779B1));
+  const startTime = Date.now();
+
+  console.log(`[Mock] Model: ${request.model}, TTFT: ${config.ttftMs}ms, ${config.tokensPerSecond} tok/s`);
+
+  if (random() < config.failureRate) {
+    await sleep(config.ttftMs, request.signal);
+    if (request.signal?.aborted) {
+      throw new ProviderError("Request cancelled", { cancelled: true });
+    }
+    throw new ProviderError("Mock provider error: 503 - simulated upstream failure", { status: 503 });
+  }
+
+  const tokens = buildMockTokens(config, random, request.maxTokens || 4096);
+  const delayPerToken = config.tokensPerSecond > 0 ? 1000 / config.tokensPerSecond : 0;
+
+  await sleep(config.ttftMs, request.signal);
+  if (request.signal?.aborted) {
+    throw new ProviderError("Request cancelled", { cancelled: true });
+  }
+  const ttftMs = Date.now() - startTime;
+
+  let content = "";
+  for (let i = 0; i < tokens.length; i++) {
+    if (i > 0 && delayPerToken > 0) {
+      await sleep(delayPerToken, request.signal);
+    }
+    if (request.signal?.aborted) {
+      throw new ProviderError("Request cancelled", { cancelled: true });
+    }
+    content += tokens[i];
+    onToken?.(tokens[i]);
+  }
+  content = content.trimEnd();
+
+  const inputTokens = config.inputTokens ?? countTokens(promptText, request.model).tokens;
+  const outputTokens = config.outputTokens ?? tokens.length;
+  const totalTimeMs = Date.now() - startTime;
+  const tokensPerSecond = totalTimeMs > 0 ? Math.round((outputTokens / (totalTimeMs / 1000))) : 0;
+  const usageSource = config.reportsUsage === false ? "estimated" : "reported";
+
+  console.log(`[Mock] Model: ${request.model}, TTFT: ${ttftMs}ms, Total: ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens}`);
+
+  return {
+    content,
+    inputTokens,
+    outputTokens,
+    responseTimeMs: ttftMs,
+    totalTimeMs,
+    tokensPerSecond,
+    usageSource,
+  };
+}
+
+function getWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
+
+// Placeholder arguments that satisfy a tool's parameter schema; strings borrow a word from the prompt
+function buildMockValue(schema: JsonSchema, promptWords: string[], random: () => number): unknown {
+  if (schema.enum?.length) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        (schema.required ?? Object.keys(schema.properties ?? {}))
+          .filter((key) => schema.properties?.[key])
+          .map((key) => [key, buildMockValue(schema.properties![key], promptWords, random)])
+      );
+    case "array":
+      return schema.items && schema.minItems
+        ? Array.from({ length: schema.minItems }, () => buildMockValue(schema.items!, promptWords, random))
+        : [];
+    case "number":
+    case "integer":
+      return schema.minimum ?? 1;
+    case "boolean":
+      return true;
+    case "null":
+      return null;
+    default:
+      return promptWords.length > 0 ? promptWords[Math.floor(random() * promptWords.length)] : "example";
+  }
+}
+
+// Mock tool use: call the tool whose name / description best matches the prompt, then
+// answer with what the tools returned. Deterministic for a given prompt and seed.
+export async function createMockToolCompletion(request: ToolChatRequest): Promise<ToolChatResult> {
+  const config = getMockConfig(request.model);
+  if (request.sampling?.seed !== undefined) {
+    config.seed = request.sampling.seed;
+  }
+  const promptText = request.messages.map(getToolMessageText).join("\n");
+  const random = createRandom(config.seed ^ hashString(`${request.model}\n${promptText}`));
+  const startTime = Date.now();
+
+  await sleep(config.ttftMs, request.signal);
+  if (request.signal?.aborted) {
+    throw new ProviderError("Request cancelled", { cancelled: true });
+  }
+
+  const toolResults = request.messages.filter((m) => m.role === "tool");
+  const userText = request.messages.filter((m) => m.role === "user").map((m) => m.content).join(" ");
+  const promptWords = getWords(userText).filter((word) => word.length > 3);
+
+  let content = "";
+  let toolCalls: ToolCall[] = [];
+  if (toolResults.length > 0) {
+    content = `Based on the tool results: ${toolResults.map((m) => m.content).join("; ")}`;
+  } else {
+    const scored = request.tools.map((tool) => ({
+      tool,
+      overlap: getWords(`${tool.name.replace(/_/g, " ")} ${tool.description}`).filter((word) => promptWords.includes(word)).length,
+    }));
+    const best = scored.sort((a, b) => b.overlap - a.overlap)[0];
+    if (best && best.overlap > 0) {
+      toolCalls = [{
+        id: `mock_call_${Math.floor(random() * 1e9).toString(36)}`,
+        name: best.tool.name,
+        arguments: JSON.stringify(buildMockValue(best.tool.parameters, promptWords, random)),
+      }];
+    } else {
+      content = "None of the available tools fit this request, so here is my best answer without them.";
+    }
+  }
+
+  const output = [content, ...toolCalls.map((call) => call.arguments)].join("\n");
+  const inputTokens = config.inputTokens ?? countTokens(promptText, request.model).tokens;
+  const outputTokens = config.outputTokens ?? countTokens(output, request.model).tokens;
+  const totalTimeMs = Date.now() - startTime;
+
+  console.log(`[Mock] Tool call: ${request.model}, ${toolCalls.length} call(s), ${totalTimeMs}ms`);
+
+  return {
+    content,
+    toolCalls,
+    inputTokens,
+    outputTokens,
+    responseTimeMs: totalTimeMs,
+    totalTimeMs,
+    tokensPerSecond: totalTimeMs > 0 ? Math.round((outputTokens / (totalTimeMs / 1000))) : 0,
+    usageSource: config.reportsUsage === false ? "estimated" : "reported",
+  };
+}
@@ -1,11 +1,35 @@
 import OpenAI from "openai";
-import type { ChatMessage, ChatCompletionResult } from "./types";
+import type { ChatCompletionCreateParamsStreaming } from "openai/resources/chat/completions";
+import type { ChatMessage, ChatCompletionResult, ReasoningOptions, ResponseFormat } from "./types";
+import { ProviderError, wrapProviderError } from "./errors";
+import { getChunkUsage, resolveUsage, type ReportedUsage } from "./usage";
+import { ReasoningSplitter, getDeltaReasoning, getReasoningParams } from "./reasoning";
+import { getSamplingParams } from "./sampling";
+import { getResponseFormatParams } from "./structured";
+import type { SamplingParams } from "@shared/schema";
 
 export interface OpenRouterChatCompletionRequest {
   model: string;
   messages: ChatMessage[];
   maxTokens?: number;
   timeoutMs?: number;
+  signal?: AbortSignal;    // Caller abort (client disconnect / Stop)
+  reasoning?: ReasoningOptions;
+  sampling?: SamplingParams;
+  responseFormat?: ResponseFormat;
+}
+
+// OpenRouter accepts provider routing preferences and a unified reasoning switch
+// alongside the standard params
+export interface OpenRouterStreamingParams extends ChatCompletionCreateParamsStreaming {
+  provider?: {
+    order?: string[];
+    allow_fallbacks?: boolean;
+  };
+  reasoning?: {
+    enabled: boolean;
+    max_tokens?: number;
+  };
 }
 
 export async function createOpenRouterChatCompletion(
@@ -28,38 +52,32 @@ export async function createOpenRouterChatCompletion(
       timeout: timeoutMs,
     });
 
-    // For Qwen3 models, disable thinking mode by appending /no_think to prompt
-    // Qwen3 in thinking mode returns empty content and puts response in reasoning field
-    const isQwen3 = request.model.includes('qwen3');
-    const messages = isQwen3 
-      ? request.messages.map((m, i) => 
-          i === request.messages.length - 1 && m.role === 'user'
-            ? { ...m, content: m.content + ' /no_think' }
-            : m
-        )
-      : request.messages;
-    
     // Check if this is a search-enabled model (:online suffix)
     const isSearchModel = request.model.endsWith(':online');
     
     // Use streaming to measure TTFT (Time to First Token)
     // Add provider preferences to optimize for lowest latency
-    const stream = await client.chat.completions.create({
+    const params: OpenRouterStreamingParams = {
       model: request.model,
-      messages: messages,
+      messages: request.messages,
       max_tokens: request.maxTokens || 4096,
       stream: true,
-      // @ts-ignore - OpenRouter-specific parameter for provider selection
+      stream_options: { include_usage: true },
       provider: {
         order: ["Latency"],      // Prioritize fastest providers
         allow_fallbacks: true    // Fall back if preferred provider unavailable
-      }
-    } as any);
+      },
+      ...getReasoningParams("openrouter", request.model, request.reasoning),
+      ...getSamplingParams(request.sampling),
+      ...getResponseFormatParams("openrouter", request.model, request.responseFormat),
+    };
+    const stream = await client.chat.completions.create(params, { signal: request.signal });
 
     let ttftMs = 0;
-    let content = "";
+    const splitter = new ReasoningSplitter();
     let firstChunkReceived = false;
     let toolCallContent = ""; // Capture tool call outputs for :online models
+    let reportedUsage: ReportedUsage | undefined;
     
     for await (const chunk of stream) {
       if (!firstChunkReceived) {
@@ -68,9 +86,11 @@ export async function createOpenRouterChatCompletion(
         console.log(`[OpenRouter] ${request.model} TTFT: ${ttftMs}ms`);
       }
       
-      // Primary: regular content delta
-      const delta = chunk.choices[0]?.delta?.content || "";
-      content += delta;
+      // Primary: regular content delta (reasoning models also send `reasoning` deltas)
+      const delta = chunk.choices[0]?.delta;
+      splitter.pushReasoning(getDeltaReasoning(delta));
+      splitter.pushContent(delta?.content || "");
+      reportedUsage = getChunkUsage(chunk) ?? reportedUsage;
       
       // For :online search models, also check for tool call outputs
       // Some models return search results via tool_calls instead of content
@@ -101,39 +121,46 @@ export async function createOpenRouterChatCompletion(
       }
     }
     
+    splitter.flush();
+    let content = splitter.content;
+    const reasoning = splitter.reasoning;
+    
     // For :online models, prefer tool call content if main content is empty
     if (isSearchModel && !content.trim() && toolCallContent.trim()) {
       console.log(`[OpenRouter] ${request.model}: Using tool call content (${toolCallContent.length} chars)`);
       content = toolCallContent;
     }
     
-    // Estimate tokens (streaming doesn't provide usage in chunks)
-    const inputTokens = Math.ceil(request.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
-    const outputTokens = Math.ceil(content.length / 4);
+    const { inputTokens, outputTokens, reasoningTokens, cachedInputTokens, usageSource } = resolveUsage(reportedUsage, request.messages, content, request.model, reasoning);
     
     const totalTimeMs = Date.now() - startTime;
     const tokensPerSecond = totalTimeMs > 0 ? Math.round((outputTokens / (totalTimeMs / 1000))) : 0;
     
-    console.log(`[OpenRouter] Model: ${request.model}, TTFT: ${ttftMs}ms, Total: ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens}, throughput: ${tokensPerSecond} tok/s`);
+    console.log(`[OpenRouter] Model: ${request.model}, TTFT: ${ttftMs}ms, Total: ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens} (${usageSource}), throughput: ${tokensPerSecond} tok/s`);
 
     return {
       content,
+      reasoning: reasoning || undefined,
       inputTokens,
       outputTokens,
+      reasoningTokens,
+      cachedInputTokens,
       responseTimeMs: ttftMs,
       totalTimeMs,
       tokensPerSecond,
+      usageSource,
     };
   } catch (error: any) {
     console.error("OpenRouter API error:", error);
     
+    if (request.signal?.aborted) {
+      throw new ProviderError("Request cancelled", { cancelled: true });
+    }
+    
     if (error.message?.includes("timed out") || error.message?.includes("timeout")) {
-      throw new Error("⏱️ Response timed out (query too complex)");
+      throw new ProviderError("⏱️ Response timed out (query too complex)", { timedOut: true });
     }
     
-    throw new Error(`Failed to get OpenRouter response: ${error.message}`);
+    throw wrapProviderError(`Failed to get OpenRouter response: ${error.message}`, error);
   }
 }
-
-export const KIMI_K2_MODEL_ID = "moonshotai/kimi-k2";
-export const QWEN3_14B_MODEL_ID = "qwen/qwen3-14b";
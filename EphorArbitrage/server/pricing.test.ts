@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { insertModelPriceSchema, type ModelPrice } from "@shared/schema";
+
+// Stands in for the model_prices table
+const table = vi.hoisted(() => ({
+  rows: [] as ModelPrice[],
+  failSaves: false,
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getModelPrices: vi.fn(async () => [...table.rows]),
+    createModelPrice: vi.fn(async (price: ModelPrice) => {
+      if (table.failSaves) throw new Error("connection refused");
+      table.rows.push(price);
+      return price;
+    }),
+    deleteModelPrice: vi.fn(async (id: string) => {
+      table.rows = table.rows.filter((price) => price.id !== id);
+      return true;
+    }),
+  },
+}));
+
+const MODEL = "deepseek/deepseek-chat";     // Launch price $0.27 / $1.10 per 1M tokens
+const SEARCH_MODEL = "openrouter/deepseek/deepseek-v3.2:online";
+
+// Fresh cache for every test, as after a restart
+let pricing: typeof import("./pricing");
+let models: typeof import("@shared/models");
+
+beforeEach(async () => {
+  table.rows = [];
+  table.failSaves = false;
+  vi.resetModules();
+  pricing = await import("./pricing");
+  models = await import("@shared/models");
+});
+
+// Let background saves finish
+const settled = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function version(overrides: Partial<ModelPrice>): ModelPrice {
+  return {
+    id: "v1",
+    modelId: MODEL,
+    effectiveFrom: new Date(0),
+    currency: "USD",
+    input: 1,
+    output: 2,
+    cachedInput: null,
+    reasoningOutput: null,
+    perSearch: null,
+    note: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("loadPriceVersions", () => {
+  it("saves a launch price for every catalog model without a stored version", async () => {
+    table.rows = [version({ id: "stored" })];
+    await pricing.loadPriceVersions();
+
+    expect(pricing.getPriceVersion(MODEL).id).toBe("stored");
+    const launch = pricing.getPriceVersion("anthropic/claude-sonnet-4.5");
+    expect(launch).toMatchObject({ input: 3, output: 15, currency: "USD", effectiveFrom: new Date(0), note: "Catalog launch price" });
+    expect(table.rows.map((price) => price.id)).toContain(launch.id);
+    expect(table.rows.filter((price) => price.modelId === MODEL)).toHaveLength(1);
+  });
+
+  it("saves the launch price on first use when it couldn't be saved at startup", async () => {
+    table.failSaves = true;
+    await pricing.loadPriceVersions();
+    const price = pricing.getPriceVersion(MODEL);
+    await settled();
+    expect(table.rows).toEqual([]);
+
+    // Still down on first use: the next use tries again
+    table.failSaves = false;
+    pricing.getPriceVersion(MODEL);
+    await vi.waitFor(() => expect(table.rows.map((row) => row.id)).toEqual([price.id]));
+    expect(pricing.getPriceVersion(MODEL).id).toBe(price.id);
+  });
+
+  it("saves the launch price of a model registered after startup the first time it's priced", async () => {
+    await pricing.loadPriceVersions();
+    models.registerCatalogEntry({
+      id: "local/llama3.2:3b",
+      provider: "local",
+      upstreamId: "llama3.2:3b",
+      displayName: "Local: llama3.2:3b",
+      pricing: { input: 0, output: 0 },
+      capabilities: { inputModalities: ["text"], reasoning: false, webSearch: false },
+      contextLength: 8192,
+    });
+
+    const { priceVersion } = pricing.priceUsage("local/llama3.2:3b", { inputTokens: 100, outputTokens: 100 });
+    await vi.waitFor(() => expect(table.rows.map((row) => row.id)).toContain(priceVersion));
+
+    // After a restart the stored cost still resolves to its version
+    vi.resetModules();
+    const restarted = await import("./pricing");
+    await restarted.loadPriceVersions();
+    expect(restarted.findPriceVersion(priceVersion)).toMatchObject({ modelId: "local/llama3.2:3b", input: 0 });
+  });
+});
+
+describe("priceUsage", () => {
+  it("bills reasoning, cached input and searches at their own rates", async () => {
+    table.rows = [version({ input: 1, output: 2, cachedInput: 0.5, reasoningOutput: 4, perSearch: 0.01 })];
+    await pricing.loadPriceVersions();
+
+    const usage = { inputTokens: 1_000_000, cachedInputTokens: 400_000, outputTokens: 1_000_000, reasoningTokens: 250_000, searches: 2 };
+    expect(pricing.priceUsage(MODEL, usage)).toEqual({
+      cost: 0.6 + 0.2 + 1.5 + 1 + 0.02,
+      reasoningCost: 1,
+      currency: "USD",
+      priceVersion: "v1",
+    });
+  });
+
+  it("charges one search per call to search models", async () => {
+    table.rows = [version({ modelId: SEARCH_MODEL, input: 0, output: 0, perSearch: 0.02 })];
+    await pricing.loadPriceVersions();
+    expect(pricing.priceUsage(SEARCH_MODEL, { inputTokens: 0, outputTokens: 0 }).cost).toBe(0.02);
+    expect(pricing.priceUsage(SEARCH_MODEL, { inputTokens: 0, outputTokens: 0, searches: 0 }).cost).toBe(0);
+  });
+
+  it("prices a call with the version in effect when it ran", async () => {
+    table.rows = [
+      version({ id: "old", input: 1, output: 1 }),
+      version({ id: "new", input: 2, output: 2, effectiveFrom: new Date("2026-06-01") }),
+    ];
+    await pricing.loadPriceVersions();
+
+    expect(pricing.priceUsage(MODEL, { inputTokens: 1_000_000, outputTokens: 0 }, new Date("2026-05-31"))).toMatchObject({ cost: 1, priceVersion: "old" });
+    expect(pricing.priceUsage(MODEL, { inputTokens: 1_000_000, outputTokens: 0 }, new Date("2026-06-01"))).toMatchObject({ cost: 2, priceVersion: "new" });
+  });
+
+  it("refuses to price a model with no price rather than charging $0", async () => {
+    await pricing.loadPriceVersions();
+    expect(() => pricing.priceUsage("nobody/unknown-model", { inputTokens: 1, outputTokens: 1 })).toThrow('No price for model "nobody/unknown-model"');
+  });
+});
+
+describe("admin", () => {
+  it("adds a version that takes over from its effective date", async () => {
+    await pricing.loadPriceVersions();
+    const launch = pricing.getPriceVersion(MODEL);
+    const next = await pricing.addPriceVersion(insertModelPriceSchema.parse({ modelId: MODEL, effectiveFrom: new Date("2030-01-01"), input: 9, output: 9 }));
+
+    expect(table.rows).toContainEqual(next);
+    expect(pricing.getPriceVersion(MODEL).id).toBe(launch.id);
+    expect(pricing.getPriceVersion(MODEL, new Date("2030-01-02")).id).toBe(next.id);
+    expect(pricing.listPriceVersions(MODEL).map((price) => price.id)).toEqual([launch.id, next.id]);
+  });
+
+  it("only takes prices in USD, since costs are summed across models", () => {
+    const result = insertModelPriceSchema.safeParse({ modelId: MODEL, effectiveFrom: new Date(), currency: "EUR", input: 1, output: 1 });
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual(["currency must be USD"]);
+  });
+
+  it("rejects a version for a model that isn't in the catalog", async () => {
+    await expect(pricing.addPriceVersion(insertModelPriceSchema.parse({ modelId: "nobody/unknown-model", effectiveFrom: new Date(), input: 1, output: 1 })))
+      .rejects.toThrow("Unknown model: nobody/unknown-model");
+  });
+
+  it("deletes only versions that haven't taken effect", async () => {
+    await pricing.loadPriceVersions();
+    const future = await pricing.addPriceVersion(insertModelPriceSchema.parse({ modelId: MODEL, effectiveFrom: new Date("2030-01-01"), input: 9, output: 9 }));
+
+    await expect(pricing.deletePriceVersion(pricing.getPriceVersion(MODEL).id)).rejects.toThrow("already in effect");
+    expect(await pricing.deletePriceVersion(future.id)).toBe(true);
+    expect(pricing.findPriceVersion(future.id)).toBeUndefined();
+  });
+});
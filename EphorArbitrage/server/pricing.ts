@@ -0,0 +1,211 @@
+import { randomUUID } from "crypto";
+import { MODEL_CATALOG, getCatalogEntry } from "@shared/models";
+import type { InsertModelPrice, ModelPrice } from "@shared/schema";
+import { storage } from "./storage";
+import { UnknownModelPriceError } from "./errors";
+
+// Versioned model pricing.
+//
+// Prices are data (the model_prices table), not code. A version is never edited: a
+// price change is a new version with a later effectiveFrom, and every stored cost
+// carries the ID of the version it was computed with (`priceVersion`), so old costs
+// can still be explained after prices move. A catalog model with no stored version
+// gets one from its launch price in shared/models.ts, effective from the start.
+// Costs are added up across models, so every version is in USD.
+//
+// Versions are cached in memory - loaded (and the launch prices saved) at startup,
+// updated by the admin API - so costs are computed synchronously on the request path.
+// A launch price first used later (a local model discovered at runtime, or a save that
+// failed at startup) is saved then, so the version a cost points to is always stored.
+
+export interface PricedUsage {
+  inputTokens: number;
+  outputTokens: number;        // Answer + reasoning
+  reasoningTokens?: number;    // Part of outputTokens, billed at the reasoning rate
+  cachedInputTokens?: number;  // Part of inputTokens, billed at the cached-input rate
+  searches?: number;           // Defaults to one per call for search models
+}
+
+export interface CostBreakdown {
+  cost: number;
+  reasoningCost: number;       // Part of cost spent thinking
+  currency: string;
+  priceVersion: string;
+}
+
+// Baseline for the "saved vs Claude" comparisons
+const CLAUDE_BASELINE_ID = "anthropic/claude-sonnet-4.5";
+
+// Per model, oldest effectiveFrom first
+const versions = new Map<string, ModelPrice[]>();
+
+// Launch prices in use that aren't stored yet (by version ID); each use retries the save
+const unsavedLaunchPrices = new Set<string>();
+const savingLaunchPrices = new Set<string>();
+
+function cacheVersion(price: ModelPrice): void {
+  const history = [...(versions.get(price.modelId) ?? []), price];
+  history.sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime());
+  versions.set(price.modelId, history);
+}
+
+export async function loadPriceVersions(): Promise<void> {
+  try {
+    const stored = await storage.getModelPrices();
+    versions.clear();
+    stored.forEach(cacheVersion);
+    console.log(`[Pricing] Loaded ${stored.length} price version(s)`);
+  } catch (error: any) {
+    console.error(`[Pricing] Could not load price versions - starting from catalog prices: ${error.message}`);
+    return;
+  }
+  await seedCatalogPrices();
+}
+
+// Save the launch price of every catalog model that has no version yet, so the table
+// has every version a cost can point to. Only what was saved is cached; the rest are
+// saved when first used.
+async function seedCatalogPrices(): Promise<void> {
+  const missing = MODEL_CATALOG.filter((entry) => !versions.has(entry.id)).map((entry) => getLaunchPrice(entry.id)!);
+  for (const price of missing) {
+    try {
+      cacheVersion(await storage.createModelPrice(price));
+    } catch (error: any) {
+      console.error(`[Pricing] Could not save the launch price for ${price.modelId} - it will be saved when first used: ${error.message}`);
+    }
+  }
+  if (missing.length > 0) {
+    console.log(`[Pricing] Seeded launch prices for ${missing.length} model(s)`);
+  }
+}
+
+// First version for a catalog model: its launch price, covering every earlier call
+function getLaunchPrice(modelId: string): ModelPrice | undefined {
+  // Search variants (":online") without their own entry are priced like the base model
+  const entry = getCatalogEntry(modelId) ?? getCatalogEntry(modelId.replace(/:online$/, ""));
+  if (!entry) return undefined;
+
+  const price: ModelPrice = {
+    id: randomUUID(),
+    modelId,
+    effectiveFrom: new Date(0),
+    currency: "USD",
+    input: entry.pricing.input,
+    output: entry.pricing.output,
+    cachedInput: null,
+    reasoningOutput: null,
+    perSearch: null,
+    note: "Catalog launch price",
+    createdAt: new Date(),
+  };
+  return price;
+}
+
+function saveLaunchPrice(price: ModelPrice): void {
+  if (savingLaunchPrices.has(price.id)) return;
+  savingLaunchPrices.add(price.id);
+  storage.createModelPrice(price)
+    .then(() => {
+      unsavedLaunchPrices.delete(price.id);
+      console.log(`[Pricing] Saved the launch price for ${price.modelId}: $${price.input}/$${price.output} per 1M tokens`);
+    })
+    .catch((error) => {
+      console.error(`[Pricing] Could not save the launch price for ${price.modelId} (${price.id}) - retrying on its next use: ${error.message}`);
+    })
+    .finally(() => savingLaunchPrices.delete(price.id));
+}
+
+// The version in effect for `modelId` at `at`; throws UnknownModelPriceError rather than pricing at $0
+export function getPriceVersion(modelId: string, at = new Date()): ModelPrice {
+  const current = versions.get(modelId)?.filter((price) => price.effectiveFrom <= at).at(-1);
+  if (current) {
+    if (unsavedLaunchPrices.has(current.id)) saveLaunchPrice(current);
+    return current;
+  }
+
+  // Not seeded at startup: the first use saves the launch price
+  const launchPrice = getLaunchPrice(modelId);
+  if (!launchPrice) throw new UnknownModelPriceError(modelId);
+  cacheVersion(launchPrice);
+  unsavedLaunchPrices.add(launchPrice.id);
+  saveLaunchPrice(launchPrice);
+  return launchPrice;
+}
+
+export function priceUsage(modelId: string, usage: PricedUsage, at = new Date()): CostBreakdown {
+  const price = getPriceVersion(modelId, at);
+  const reasoningTokens = Math.min(usage.reasoningTokens ?? 0, usage.outputTokens);
+  const cachedInputTokens = Math.min(usage.cachedInputTokens ?? 0, usage.inputTokens);
+  const searches = usage.searches ?? (getCatalogEntry(modelId)?.capabilities.webSearch ? 1 : 0);
+
+  const reasoningCost = (reasoningTokens * (price.reasoningOutput ?? price.output)) / 1_000_000;
+  const tokenCost = (
+    (usage.inputTokens - cachedInputTokens) * price.input +
+    cachedInputTokens * (price.cachedInput ?? price.input) +
+    (usage.outputTokens - reasoningTokens) * price.output
+  ) / 1_000_000;
+
+  return {
+    cost: tokenCost + reasoningCost + searches * (price.perSearch ?? 0),
+    reasoningCost,
+    currency: price.currency,
+    priceVersion: price.id,
+  };
+}
+
+// What the same tokens would cost on Claude (baseline for the "saved" figures)
+export function calculateClaudeCost(inputTokens: number, outputTokens: number): number {
+  return priceUsage(CLAUDE_BASELINE_ID, { inputTokens, outputTokens, searches: 0 }).cost;
+}
+
+// ============================================
+// ADMIN
+// ============================================
+
+export function listPriceVersions(modelId?: string): ModelPrice[] {
+  const models = modelId ? [modelId] : Array.from(versions.keys()).sort();
+  return models.flatMap((id) => versions.get(id) ?? []);
+}
+
+export function findPriceVersion(id: string): ModelPrice | undefined {
+  return listPriceVersions().find((price) => price.id === id);
+}
+
+// Add a version (throws with a user-facing message). Prices can't be edited in place -
+// a correction is a new version, effective from whenever it should apply.
+export async function addPriceVersion(input: InsertModelPrice): Promise<ModelPrice> {
+  if (!getCatalogEntry(input.modelId)) {
+    throw new Error(`Unknown model: ${input.modelId}`);
+  }
+  const price: ModelPrice = {
+    id: randomUUID(),
+    modelId: input.modelId,
+    effectiveFrom: input.effectiveFrom,
+    currency: "USD",
+    input: input.input,
+    output: input.output,
+    cachedInput: input.cachedInput ?? null,
+    reasoningOutput: input.reasoningOutput ?? null,
+    perSearch: input.perSearch ?? null,
+    note: input.note ?? null,
+    createdAt: new Date(),
+  };
+
+  const saved = await storage.createModelPrice(price);
+  cacheVersion(saved);
+  console.log(`[Pricing] New price for ${saved.modelId} from ${saved.effectiveFrom.toISOString()}: ${saved.currency} ${saved.input}/${saved.output} per 1M tokens`);
+  return saved;
+}
+
+// Only versions that haven't taken effect can go - nothing has been charged at them yet
+export async function deletePriceVersion(id: string): Promise<boolean> {
+  const price = findPriceVersion(id);
+  if (!price) return false;
+  if (price.effectiveFrom <= new Date()) {
+    throw new Error("This price version is already in effect and costs reference it - add a new version instead");
+  }
+
+  await storage.deleteModelPrice(id);
+  versions.set(price.modelId, (versions.get(price.modelId) ?? []).filter((version) => version.id !== id));
+  return true;
+}
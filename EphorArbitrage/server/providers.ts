@@ -0,0 +1,207 @@
+import OpenAI from "openai";
+import { getCatalogEntry, type ModelCatalogEntry, type ProviderId } from "@shared/models";
+import type { ChatMessage, ChatCompletionResult, UnifiedChatRequest, ReasoningOptions, ResponseFormat, ToolChatRequest, ToolChatResult } from "./types";
+import { createAnthropicChatCompletion, createAnthropicToolCompletion } from "./anthropic";
+import { createGroqChatCompletion } from "./groq";
+import { createCerebrasChatCompletion } from "./cerebras";
+import { createTogetherChatCompletion } from "./together";
+import { createOpenRouterChatCompletion } from "./openrouter";
+import { createDeepSeekChatCompletion } from "./deepseek";
+import { createMiniMaxChatCompletion } from "./minimax";
+import { createLocalChatCompletion, createLocalClient } from "./local";
+import { createMockChatCompletion, createMockToolCompletion, isMockModel } from "./mock";
+import { runWithFallback } from "./resilience";
+import { ProviderError } from "./errors";
+import { withSystemPrompt } from "./sampling";
+import { addStructuredOutputInstruction, checkStructuredOutput, getStructuredOutputMode } from "./structured";
+import { createOpenAIToolCompletion, getToolMessageText } from "./tools";
+import { estimateCallTokens } from "./scheduler";
+import { priceUsage, type CostBreakdown } from "./pricing";
+import type { SamplingParams, StructuredOutputMode } from "@shared/schema";
+
+// Request shape every adapter accepts; `model` is the provider's upstream ID
+export interface ProviderChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  reasoning?: ReasoningOptions;
+  sampling?: SamplingParams;
+  responseFormat?: ResponseFormat;
+}
+
+export interface ProviderAdapter {
+  name: string;
+  complete(request: ProviderChatRequest): Promise<ChatCompletionResult>;
+  // OpenAI-compatible client for the wind tunnel streaming path (if the provider has one)
+  createStreamingClient?(): OpenAI;
+  // Tool calling; providers with an OpenAI-compatible client get the shared implementation instead
+  completeWithTools?(request: ToolChatRequest): Promise<ToolChatResult>;
+}
+
+const PROVIDERS: Record<ProviderId, ProviderAdapter> = {
+  anthropic: {
+    name: "Anthropic",
+    complete: createAnthropicChatCompletion,
+    completeWithTools: createAnthropicToolCompletion,
+  },
+  groq: {
+    name: "Groq",
+    complete: createGroqChatCompletion,
+    createStreamingClient: () => new OpenAI({
+      baseURL: "https://api.groq.com/openai/v1",
+      apiKey: process.env.GROQ_API_KEY,
+    }),
+  },
+  cerebras: {
+    name: "Cerebras",
+    complete: createCerebrasChatCompletion,
+    createStreamingClient: () => new OpenAI({
+      baseURL: "https://api.cerebras.ai/v1",
+      apiKey: process.env.CEREBRAS_API_KEY,
+    }),
+  },
+  together: {
+    name: "Together AI",
+    complete: createTogetherChatCompletion,
+    createStreamingClient: () => new OpenAI({
+      baseURL: "https://api.together.xyz/v1",
+      apiKey: process.env.TOGETHER_API_KEY,
+    }),
+  },
+  openrouter: {
+    name: "OpenRouter",
+    complete: createOpenRouterChatCompletion,
+    createStreamingClient: () => new OpenAI({
+      baseURL: process.env.OPENROUTER_BASE_URL || "https://openrouter.ai/api/v1",
+      apiKey: process.env.OPENROUTER_API_KEY,
+    }),
+  },
+  deepseek: {
+    name: "DeepSeek",
+    complete: createDeepSeekChatCompletion,
+    createStreamingClient: () => new OpenAI({
+      baseURL: "https://api.deepseek.com",
+      apiKey: process.env.DEEPSEEK_API_KEY,
+    }),
+  },
+  minimax: {
+    name: "MiniMax",
+    complete: createMiniMaxChatCompletion,
+  },
+  local: {
+    name: "Local",
+    complete: createLocalChatCompletion,
+    createStreamingClient: () => createLocalClient(),
+  },
+  mock: {
+    name: "Mock",
+    complete: (request) => createMockChatCompletion(request),
+    completeWithTools: createMockToolCompletion,
+  },
+};
+
+export interface ResolvedModel {
+  entry: ModelCatalogEntry;
+  provider: ProviderId;   // May differ from entry.provider when the mock is switched on
+  upstreamId: string;
+  adapter: ProviderAdapter;
+}
+
+// Look up a catalog ID; unknown IDs are an error rather than a silent default
+export function resolveModel(modelId: string): ResolvedModel {
+  const entry = getCatalogEntry(modelId);
+  if (!entry) {
+    throw new Error(`Unknown model: ${modelId}`);
+  }
+
+  // MOCK_PROVIDER_MODELS reroutes catalog models to the local mock (keyed by catalog ID)
+  if (isMockModel(entry.id)) {
+    return { entry, provider: "mock", upstreamId: entry.id, adapter: PROVIDERS.mock };
+  }
+
+  return { entry, provider: entry.provider, upstreamId: entry.upstreamId, adapter: PROVIDERS[entry.provider] };
+}
+
+// Structured output is enforced per host, since fallback hosts can differ in what they support
+export function getStructuredOutputModeFor(
+  targetId: string,
+  responseFormat: ResponseFormat | undefined,
+  reasoning?: ReasoningOptions
+): StructuredOutputMode | undefined {
+  if (!responseFormat) return undefined;
+  const { provider, upstreamId } = resolveModel(targetId);
+  return getStructuredOutputMode(provider, upstreamId, responseFormat, reasoning);
+}
+
+// Retries and falls back to equivalent hosts (see resilience.ts); every try is in `attempts`.
+// With a responseFormat, `structured` reports whether the answer matched the schema.
+// The cost is priced against the host that answered, at its current price version.
+export async function getModelCompletion(request: UnifiedChatRequest): Promise<ChatCompletionResult & CostBreakdown> {
+  const { value: result, servedBy, attempts } = await runWithFallback(request.model, (targetId) => {
+    const { entry, upstreamId, adapter } = resolveModel(targetId);
+    console.log(`[API] Using ${adapter.name} for ${entry.displayName}`);
+    const mode = getStructuredOutputModeFor(targetId, request.responseFormat, request.reasoning);
+    const system = addStructuredOutputInstruction(request.system, request.responseFormat, mode);
+    return adapter.complete({
+      model: upstreamId,
+      messages: withSystemPrompt(request.messages, system),
+      maxTokens: request.maxTokens,
+      timeoutMs: request.timeoutMs,
+      signal: request.signal,
+      reasoning: request.reasoning,
+      sampling: request.sampling,
+      responseFormat: request.responseFormat,
+    });
+  }, {
+    signal: request.signal,
+    schedule: request.schedule,
+    estimatedTokens: estimateCallTokens([request.system ?? "", ...request.messages.map((m) => m.content)].join("\n"), request.maxTokens),
+    getUsedTokens: (value) => value.inputTokens + value.outputTokens,
+  });
+
+  const pricing = priceUsage(servedBy, result);
+  Object.assign(attempts[attempts.length - 1], { cost: pricing.cost, priceVersion: pricing.priceVersion });
+  const mode = getStructuredOutputModeFor(servedBy, request.responseFormat, request.reasoning);
+  const structured = mode && checkStructuredOutput(result.content, request.responseFormat!, mode);
+  return { ...result, ...pricing, servedBy, attempts, structured };
+}
+
+// One tool-calling step (a single model call) with the same retry / fallback policy.
+// Running the tool loop is up to the caller (see tool-benchmark.ts).
+export async function getToolCompletion(request: ToolChatRequest): Promise<ToolChatResult & CostBreakdown> {
+  const { value: result, servedBy, attempts } = await runWithFallback(request.model, (targetId) => {
+    const { entry, upstreamId, adapter } = resolveModel(targetId);
+    const targetRequest = { ...request, model: upstreamId };
+    if (adapter.completeWithTools) {
+      return adapter.completeWithTools(targetRequest);
+    }
+    if (adapter.createStreamingClient) {
+      return createOpenAIToolCompletion(adapter.createStreamingClient(), adapter.name, targetRequest);
+    }
+    throw new ProviderError(`${adapter.name} does not support tool calling for ${entry.displayName}`);
+  }, {
+    signal: request.signal,
+    schedule: request.schedule,
+    estimatedTokens: estimateCallTokens(request.messages.map(getToolMessageText).join("\n"), request.maxTokens),
+    getUsedTokens: (value) => value.inputTokens + value.outputTokens,
+  });
+
+  const pricing = priceUsage(servedBy, result);
+  Object.assign(attempts[attempts.length - 1], { cost: pricing.cost, priceVersion: pricing.priceVersion });
+  return { ...result, ...pricing, servedBy, attempts };
+}
+
+// Helper to get streaming client for a model
+export function getStreamingClient(modelId: string): OpenAI {
+  const { entry, adapter } = resolveModel(modelId);
+  if (!adapter.createStreamingClient) {
+    throw new Error(`${adapter.name} does not support streaming for ${entry.displayName}`);
+  }
+  return adapter.createStreamingClient();
+}
+
+export function getModelDisplayName(modelId: string): string {
+  return getCatalogEntry(modelId)?.displayName || modelId;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { ReasoningSplitter, getAnthropicThinkingParams, getDeltaReasoning, getReasoningParams, parseReasoningOptions, splitReasoning } from "./reasoning";
+
+// Stream `chunks` through a splitter, collecting what each delta reports
+function stream(chunks: string[]) {
+  const splitter = new ReasoningSplitter();
+  let content = "";
+  let reasoning = "";
+  for (const chunk of [...chunks.map((delta) => splitter.pushContent(delta)), splitter.flush()]) {
+    content += chunk.content;
+    reasoning += chunk.reasoning;
+  }
+  return { splitter, content, reasoning };
+}
+
+describe("ReasoningSplitter", () => {
+  it("separates a <think> block from the answer", () => {
+    const { splitter } = stream(["<think>Add them.</think>\n\n2 + 2 = 4"]);
+    expect(splitter.reasoning).toBe("Add them.");
+    expect(splitter.content).toBe("2 + 2 = 4");
+  });
+
+  it("handles tags split across deltas without leaking them", () => {
+    const { splitter, content, reasoning } = stream(["<th", "ink>Carry", " the one.</th", "ink>", "Answer: 12"]);
+    expect(reasoning).toBe("Carry the one.");
+    expect(content).toBe("Answer: 12");
+    expect(splitter.content).toBe("Answer: 12");
+  });
+
+  it("treats text before a stray </think> as thinking", () => {
+    // Chat templates that open the block themselves only stream the closing tag
+    const { splitter } = stream(["Let me think", " about it.</think>", "Yes."]);
+    expect(splitter.reasoning).toBe("Let me think about it.");
+    expect(splitter.content).toBe("Yes.");
+  });
+
+  it("releases a held-back partial tag at the end of the stream", () => {
+    const { splitter, content } = stream(["x is less than y: x <"]);
+    expect(content).toBe("x is less than y: x <");
+    expect(splitter.reasoning).toBe("");
+  });
+
+  it("leaves answers without thinking alone", () => {
+    const { splitter, content } = stream(["  Plain ", "answer."]);
+    expect(content).toBe("  Plain answer.");
+    expect(splitter.content).toBe("  Plain answer.");
+  });
+
+  it("keeps reasoning from its own field out of the answer", () => {
+    const splitter = new ReasoningSplitter();
+    splitter.pushReasoning("Check the units. ");
+    splitter.pushReasoning("Then convert.");
+    splitter.pushContent("5 km");
+    splitter.flush();
+    expect(splitter.reasoning).toBe("Check the units. Then convert.");
+    expect(splitter.content).toBe("5 km");
+  });
+});
+
+describe("splitReasoning", () => {
+  it("splits a complete answer", () => {
+    expect(splitReasoning("<think>Hmm.</think>\n\nDone.")).toEqual({ content: "Done.", reasoning: "Hmm." });
+    expect(splitReasoning("Done.", "From the field.")).toEqual({ content: "Done.", reasoning: "From the field." });
+  });
+});
+
+describe("getDeltaReasoning", () => {
+  it("reads either provider field", () => {
+    expect(getDeltaReasoning({ reasoning_content: "DeepSeek style" })).toBe("DeepSeek style");
+    expect(getDeltaReasoning({ reasoning: "OpenRouter style" })).toBe("OpenRouter style");
+    expect(getDeltaReasoning({ content: "answer" })).toBe("");
+    expect(getDeltaReasoning(undefined)).toBe("");
+  });
+});
+
+describe("getReasoningParams", () => {
+  it("leaves the provider's default when the request doesn't say", () => {
+    expect(getReasoningParams("openrouter", "qwen/qwen3-32b", undefined)).toEqual({});
+  });
+
+  it("uses each provider's own switch", () => {
+    expect(getReasoningParams("openrouter", "qwen/qwen3-32b", { enabled: true })).toEqual({ reasoning: { enabled: true, max_tokens: 2048 } });
+    expect(getReasoningParams("openrouter", "qwen/qwen3-32b", { enabled: false })).toEqual({ reasoning: { enabled: false } });
+    expect(getReasoningParams("groq", "qwen/qwen3-32b", { enabled: false })).toEqual({ reasoning_effort: "none" });
+    expect(getReasoningParams("together", "Qwen/Qwen3-4B", { enabled: true, budgetTokens: 500 })).toEqual({ chat_template_kwargs: { enable_thinking: true } });
+  });
+
+  it("sends nothing to models that can't switch", () => {
+    expect(getReasoningParams("together", "Qwen/Qwen3-Next-80B-A3B-Instruct", { enabled: true })).toEqual({});
+    expect(getReasoningParams("together", "deepseek-ai/DeepSeek-R1", { enabled: false })).toEqual({});
+  });
+});
+
+describe("getAnthropicThinkingParams", () => {
+  it("adds the thinking budget on top of the answer allowance", () => {
+    expect(getAnthropicThinkingParams({ enabled: true, budgetTokens: 100 }, 4096)).toEqual({
+      max_tokens: 5120,
+      thinking: { type: "enabled", budget_tokens: 1024 },
+    });
+    expect(getAnthropicThinkingParams({ enabled: false }, 4096)).toEqual({ max_tokens: 4096 });
+  });
+});
+
+describe("parseReasoningOptions", () => {
+  it("reads the toggle and an optional budget", () => {
+    expect(parseReasoningOptions({ enabled: true, budgetTokens: 1500.7 })).toEqual({ enabled: true, budgetTokens: 1500 });
+    expect(parseReasoningOptions({ enabled: false, budgetTokens: -1 })).toEqual({ enabled: false, budgetTokens: undefined });
+    expect(parseReasoningOptions({ enabled: "yes" })).toBeUndefined();
+    expect(parseReasoningOptions(undefined)).toBeUndefined();
+  });
+});
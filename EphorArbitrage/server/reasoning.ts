@@ -0,0 +1,194 @@
+import type { ProviderId } from "@shared/models";
+import type { ReasoningOptions } from "./types";
+
+// Reasoning trace capture.
+//
+// Reasoning models (DeepSeek R1 and its distills, QwQ, Qwen3, MiniMax M2) send their
+// chain-of-thought either in a separate delta field - `reasoning_content` (DeepSeek,
+// Together, vLLM) or `reasoning` (OpenRouter, Groq) - or inline in <think>...</think>
+// tags. ReasoningSplitter keeps the thinking out of the answer in both cases.
+//
+// Whether a model thinks at all is set per request with `reasoning` (see
+// getReasoningParams), never by editing the prompt.
+
+// Thinking budget when a request enables reasoning without one. Anthropic's minimum is 1024.
+export const DEFAULT_THINKING_BUDGET = 2048;
+const MIN_ANTHROPIC_THINKING_BUDGET = 1024;
+
+const OPEN_TAG = "<think>";
+const CLOSE_TAG = "</think>";
+
+// Reasoning text carried by a stream delta or a non-streamed message, if any
+export function getDeltaReasoning(delta: any): string {
+  const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+  return typeof reasoning === "string" ? reasoning : "";
+}
+
+// Length of the longest suffix of `text` that could be the start of `tag`
+function partialTagLength(text: string, tag: string): number {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (tag.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+}
+
+export interface SplitDelta {
+  content: string;
+  reasoning: string;
+}
+
+export class ReasoningSplitter {
+  private answer = "";
+  private thinking = "";
+  private inThink = false;
+  private sawThink = false;
+  private pending = "";  // Held back because it may be the start of a tag
+
+  // Feed a content delta; returns how it split into answer and (tagged) reasoning
+  pushContent(delta: string): SplitDelta {
+    let text = this.pending + delta;
+    this.pending = "";
+    const split: SplitDelta = { content: "", reasoning: "" };
+
+    while (text) {
+      const tag = this.inThink ? CLOSE_TAG : OPEN_TAG;
+      const tagIndex = text.indexOf(tag);
+      // Chat templates that open the <think> block themselves only stream the closing tag
+      const strayCloseIndex = this.inThink || this.sawThink ? -1 : text.indexOf(CLOSE_TAG);
+
+      if (strayCloseIndex !== -1 && (tagIndex === -1 || strayCloseIndex < tagIndex)) {
+        // Already-streamed answer text turns out to have been thinking; the final
+        // `content` getter is authoritative for callers that streamed it
+        this.thinking += this.answer + text.slice(0, strayCloseIndex);
+        split.reasoning += split.content + text.slice(0, strayCloseIndex);
+        split.content = "";
+        this.answer = "";
+        this.sawThink = true;
+        text = text.slice(strayCloseIndex + CLOSE_TAG.length);
+        continue;
+      }
+
+      if (tagIndex !== -1) {
+        this.append(text.slice(0, tagIndex), split);
+        this.inThink = !this.inThink;
+        this.sawThink = true;
+        text = text.slice(tagIndex + tag.length);
+        continue;
+      }
+
+      const held = Math.max(
+        partialTagLength(text, tag),
+        strayCloseIndex === -1 && !this.inThink && !this.sawThink ? partialTagLength(text, CLOSE_TAG) : 0
+      );
+      this.append(text.slice(0, text.length - held), split);
+      this.pending = text.slice(text.length - held);
+      break;
+    }
+
+    return split;
+  }
+
+  // Feed reasoning that arrived in its own field (never mixed into the answer)
+  pushReasoning(delta: string): void {
+    this.thinking += delta;
+  }
+
+  // End of stream: release anything held back as a possible tag prefix
+  flush(): SplitDelta {
+    const split: SplitDelta = { content: "", reasoning: "" };
+    this.append(this.pending, split);
+    this.pending = "";
+    return split;
+  }
+
+  get content(): string {
+    // Models put a blank line or two between </think> and the answer
+    return this.thinking ? this.answer.replace(/^\s+/, "") : this.answer;
+  }
+
+  get reasoning(): string {
+    return this.thinking.trim();
+  }
+
+  private append(text: string, split: SplitDelta): void {
+    if (this.inThink) {
+      this.thinking += text;
+      split.reasoning += text;
+    } else {
+      this.answer += text;
+      split.content += text;
+    }
+  }
+}
+
+// Split a complete (non-streamed) answer
+export function splitReasoning(content: string, reasoningField = ""): { content: string; reasoning: string } {
+  const splitter = new ReasoningSplitter();
+  splitter.pushReasoning(reasoningField);
+  splitter.pushContent(content);
+  splitter.flush();
+  return { content: splitter.content, reasoning: splitter.reasoning };
+}
+
+// Qwen3 hybrid checkpoints switch thinking on and off per request; the 2507
+// Instruct / Thinking releases are fixed one way or the other
+function isHybridQwen3(upstreamId: string): boolean {
+  return /qwen-?3/i.test(upstreamId) && !/instruct|thinking/i.test(upstreamId);
+}
+
+// Extra request-body fields that carry `reasoning` to an OpenAI-compatible provider.
+// No `reasoning` means the provider's default for the model. Models that always
+// think (R1, QwQ, MiniMax M2) or never do get nothing: there is no switch to flip.
+export function getReasoningParams(
+  provider: ProviderId,
+  upstreamId: string,
+  reasoning: ReasoningOptions | undefined
+): Record<string, unknown> {
+  if (!reasoning) return {};
+
+  switch (provider) {
+    case "openrouter":
+      // OpenRouter maps this onto each upstream's native switch (incl. Qwen's enable_thinking)
+      return {
+        reasoning: reasoning.enabled
+          ? { enabled: true, max_tokens: reasoning.budgetTokens ?? DEFAULT_THINKING_BUDGET }
+          : { enabled: false },
+      };
+    case "groq":
+      return isHybridQwen3(upstreamId) ? { reasoning_effort: reasoning.enabled ? "default" : "none" } : {};
+    case "together":
+    case "cerebras":
+    case "local":
+      // vLLM-style servers hand chat_template_kwargs to the Qwen3 chat template
+      return isHybridQwen3(upstreamId)
+        ? { chat_template_kwargs: { enable_thinking: reasoning.enabled } }
+        : {};
+    default:
+      return {};
+  }
+}
+
+// Anthropic extended thinking. The budget comes on top of the answer allowance,
+// since max_tokens has to cover both.
+export function getAnthropicThinkingParams(
+  reasoning: ReasoningOptions | undefined,
+  maxTokens: number
+): { max_tokens: number; thinking?: { type: "enabled"; budget_tokens: number } } {
+  if (!reasoning?.enabled) return { max_tokens: maxTokens };
+  const budget = Math.max(MIN_ANTHROPIC_THINKING_BUDGET, reasoning.budgetTokens ?? DEFAULT_THINKING_BUDGET);
+  return {
+    max_tokens: maxTokens + budget,
+    thinking: { type: "enabled", budget_tokens: budget },
+  };
+}
+
+// Validate a `reasoning` option from a request body
+export function parseReasoningOptions(value: unknown): ReasoningOptions | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const { enabled, budgetTokens } = value as Record<string, unknown>;
+  if (typeof enabled !== "boolean") return undefined;
+  return {
+    enabled,
+    budgetTokens: typeof budgetTokens === "number" && budgetTokens > 0 ? Math.floor(budgetTokens) : undefined,
+  };
+}
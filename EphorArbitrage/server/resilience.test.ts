@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ProviderError } from "./errors";
+import { DEFAULT_RETRY_POLICY, getBackoffDelay } from "./resilience";
+
+const MODEL = "deepseek/deepseek-chat";
+const FALLBACK = "openrouter/deepseek/deepseek-v3.2";
+const policy = { baseDelayMs: 1, maxDelayMs: 2 };
+
+// Fresh circuit breaker and scheduler state for every test
+let resilience: typeof import("./resilience");
+let health: typeof import("./health");
+
+beforeEach(async () => {
+  vi.stubEnv("MOCK_PROVIDER_MODELS", "");
+  vi.resetModules();
+  resilience = await import("./resilience");
+  health = await import("./health");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// A call that fails with `errors` in turn, then answers with the host it was sent to
+function failing(...errors: Error[]) {
+  return vi.fn(async (targetId: string) => {
+    const error = errors.shift();
+    if (error) throw error;
+    return targetId;
+  });
+}
+
+describe("runWithFallback", () => {
+  it("retries a transient failure on the same host", async () => {
+    const call = failing(new ProviderError("overloaded", { status: 503 }));
+    const onRetry = vi.fn();
+    const result = await resilience.runWithFallback(MODEL, call, { policy, onRetry });
+
+    expect(result.servedBy).toBe(MODEL);
+    expect(result.attempts.map(({ modelId, attempt, ok, status }) => ({ modelId, attempt, ok, status }))).toEqual([
+      { modelId: MODEL, attempt: 1, ok: false, status: 503 },
+      { modelId: MODEL, attempt: 2, ok: true, status: undefined },
+    ]);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ status: 503 }), { modelId: MODEL, delayMs: expect.any(Number) });
+  });
+
+  it("moves to the next equivalent host once the retries are used up", async () => {
+    const call = failing(...Array.from({ length: 3 }, () => new ProviderError("rate limited", { status: 429 })));
+    const result = await resilience.runWithFallback(MODEL, call, { policy });
+
+    expect(result.servedBy).toBe(FALLBACK);
+    expect(call.mock.calls.map(([targetId]) => targetId)).toEqual([MODEL, MODEL, MODEL, FALLBACK]);
+  });
+
+  it("skips straight to the next host when Retry-After is too long", async () => {
+    const call = failing(new ProviderError("rate limited", { status: 429, retryAfterMs: 60000 }));
+    const result = await resilience.runWithFallback(MODEL, call, { policy });
+    expect(call.mock.calls.map(([targetId]) => targetId)).toEqual([MODEL, FALLBACK]);
+    expect(result.servedBy).toBe(FALLBACK);
+  });
+
+  it("moves on without retrying failures a retry won't fix", async () => {
+    const call = failing(new ProviderError("DEEPSEEK_API_KEY is not set", { status: 401 }));
+    const result = await resilience.runWithFallback(MODEL, call, { policy });
+    expect(call.mock.calls.map(([targetId]) => targetId)).toEqual([MODEL, FALLBACK]);
+    expect(result.servedBy).toBe(FALLBACK);
+  });
+
+  it.each([
+    ["a bad request", new ProviderError("max_tokens is too large", { status: 400 })],
+    ["a timeout", new ProviderError("timed out", { timedOut: true })],
+  ])("fails straight away on %s", async (_name, error) => {
+    const call = failing(error);
+    await expect(resilience.runWithFallback(MODEL, call, { policy })).rejects.toMatchObject({
+      name: "ModelCallFailedError",
+      message: error.message,
+      attempts: [expect.objectContaining({ modelId: MODEL, ok: false })],
+    });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("never retries a cancelled call", async () => {
+    const call = failing(new ProviderError("Request cancelled", { cancelled: true }));
+    await expect(resilience.runWithFallback(MODEL, call, { policy })).rejects.toMatchObject({ cancelled: true });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails with the last error when every host fails", async () => {
+    const call = vi.fn(async () => {
+      throw new ProviderError("bad gateway", { status: 502 });
+    });
+    await expect(resilience.runWithFallback(MODEL, call, { policy })).rejects.toMatchObject({ message: "bad gateway", status: 502 });
+    expect(call).toHaveBeenCalledTimes(6);
+  });
+
+  it("skips a host whose circuit is open without calling it", async () => {
+    for (let i = 0; i < 5; i++) health.recordFailure(MODEL, "deepseek", 100, "down");
+    const call = failing();
+    const result = await resilience.runWithFallback(MODEL, call, { policy });
+
+    expect(call.mock.calls.map(([targetId]) => targetId)).toEqual([FALLBACK]);
+    expect(result.attempts[0]).toMatchObject({ modelId: MODEL, ok: false, latencyMs: 0 });
+    expect(result.attempts[0].error).toContain("skipped");
+  });
+
+  it("doesn't count bad requests against the host's health", async () => {
+    for (let i = 0; i < 5; i++) {
+      await resilience.runWithFallback(MODEL, failing(new ProviderError("bad input", { status: 422 })), { policy }).catch(() => {});
+    }
+    expect(health.checkCircuit(MODEL, "deepseek")).toBeUndefined();
+  });
+});
+
+describe("getBackoffDelay", () => {
+  it("grows exponentially with jitter, capped at the maximum", () => {
+    for (let retry = 1; retry <= 6; retry++) {
+      const exponential = Math.min(DEFAULT_RETRY_POLICY.maxDelayMs, DEFAULT_RETRY_POLICY.baseDelayMs * 2 ** (retry - 1));
+      const delay = getBackoffDelay(retry, DEFAULT_RETRY_POLICY);
+      expect(delay).toBeGreaterThanOrEqual(exponential / 2);
+      expect(delay).toBeLessThanOrEqual(exponential);
+    }
+  });
+
+  it("never waits less than Retry-After", () => {
+    expect(getBackoffDelay(1, DEFAULT_RETRY_POLICY, 7000)).toBe(7000);
+  });
+});
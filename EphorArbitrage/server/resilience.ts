@@ -0,0 +1,206 @@
+import type { ModelCallAttempt } from "@shared/schema";
+import { ModelCallFailedError, ProviderError } from "./errors";
+import { checkCircuit, recordFailure, recordSuccess, releaseTrial } from "./health";
+import { getServingChain, getServingProvider } from "./mock";
+import { SERVER_USER_KEY, acquireProviderSlot, estimateCallTokens, type ProviderSlot, type ScheduleOptions } from "./scheduler";
+
+// Retry / fallback policy for model calls.
+//
+// Transient failures (429, 5xx, dropped connections) are retried on the same host
+// with jittered exponential backoff, honoring Retry-After. When a host is out of
+// retries - or fails in a way retrying won't fix, like a missing API key - the call
+// moves to the next equivalent host (HOST_FALLBACK_GROUPS in shared/models.ts).
+// Bad requests and timeouts fail straight away: another host won't do better.
+// Cancelled calls (see `signal`) are never retried.
+//
+// Every try first waits for a slot on its provider (server/scheduler.ts). Time spent
+// queued isn't counted in the attempt's latency.
+//
+// Outcomes feed the per-host circuit breaker (server/health.ts). A host whose circuit
+// is open is skipped without a call, so a provider outage costs no time when another
+// host can answer, and fails with the reason straight away when none can.
+// Slots and health belong to whoever serves the host: hosts rerouted to the mock
+// (MOCK_PROVIDER_MODELS) count as "mock", and only fall back to other mocked hosts.
+
+export interface RetryPolicy {
+  maxRetries: number;        // Extra tries on the same host
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number;   // Longer Retry-After hints skip straight to the next host
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+  maxRetryAfterMs: 10000,
+};
+
+export interface FallbackOptions<T = unknown> {
+  policy?: Partial<RetryPolicy>;
+  signal?: AbortSignal;
+  // Called after each failed try that will be followed by another one
+  onRetry?: (failed: ModelCallAttempt, next: { modelId: string; delayMs: number }) => void;
+  schedule?: ScheduleOptions;  // Whose call this is, for fair queueing (defaults to the server itself)
+  estimatedTokens?: number;    // See estimateCallTokens
+  // Actual tokens used by a successful call, to settle the rate limiter's estimate
+  getUsedTokens?: (value: T) => number;
+  // Keep the provider slot after success (e.g. a stream still being read); the caller releases it
+  holdSlot?: boolean;
+}
+
+export interface FallbackResult<T> {
+  value: T;
+  servedBy: string;              // Catalog ID of the host that succeeded
+  attempts: ModelCallAttempt[];  // Successful try last; its cost is filled in by the caller
+  slot?: ProviderSlot;           // Only with holdSlot
+}
+
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+const REQUEST_ERROR_STATUSES = new Set([400, 413, 422]);
+const NETWORK_ERROR = /connection error|fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up/i;
+
+function isRetryable(error: any): boolean {
+  if (error?.timedOut) return false;
+  if (typeof error?.status === "number") return RETRYABLE_STATUSES.has(error.status);
+  return NETWORK_ERROR.test(error?.message || "");
+}
+
+function isFatal(error: any): boolean {
+  return !!error?.timedOut || REQUEST_ERROR_STATUSES.has(error?.status);
+}
+
+// "Equal jitter": half the exponential delay plus a random half, never less than Retry-After
+export function getBackoffDelay(retry: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  const jittered = Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs, jittered) : jittered;
+}
+
+// Backoff wait that ends early (and throws) if the caller aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new ProviderError("Request cancelled", { cancelled: true }));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export async function runWithFallback<T>(
+  modelId: string,
+  call: (targetId: string) => Promise<T>,
+  options: FallbackOptions<T> = {}
+): Promise<FallbackResult<T>> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.policy };
+  const chain = getServingChain(modelId);
+  const attempts: ModelCallAttempt[] = [];
+  let waitedMs = 0;
+
+  for (let hostIndex = 0; hostIndex < chain.length; hostIndex++) {
+    const targetId = chain[hostIndex];
+    const provider = getServingProvider(targetId);
+
+    for (let attempt = 1; ; attempt++) {
+      if (waitedMs > 0) await sleep(waitedMs, options.signal);
+
+      const circuitOpen = checkCircuit(targetId, provider);
+      if (circuitOpen) {
+        const skipped: ModelCallAttempt = { modelId: targetId, provider, attempt, waitedMs, latencyMs: 0, ok: false, error: circuitOpen, cost: 0 };
+        attempts.push(skipped);
+        console.warn(`[Retry] ${circuitOpen}`);
+
+        const nextHost = chain[hostIndex + 1];
+        if (!nextHost) {
+          throw new ModelCallFailedError(circuitOpen, attempts);
+        }
+        waitedMs = 0;
+        options.onRetry?.(skipped, { modelId: nextHost, delayMs: 0 });
+        break;
+      }
+
+      let slot: ProviderSlot;
+      try {
+        slot = await acquireProviderSlot(provider, {
+          userKey: options.schedule?.userKey ?? SERVER_USER_KEY,
+          onQueued: options.schedule?.onQueued,
+          estimatedTokens: options.estimatedTokens ?? estimateCallTokens(""),
+          signal: options.signal,
+        });
+      } catch (error) {
+        // Cancelled while queued
+        releaseTrial(targetId, provider);
+        throw error;
+      }
+      const startTime = Date.now();
+
+      try {
+        const value = await call(targetId);
+        const latencyMs = Date.now() - startTime;
+        recordSuccess(targetId, provider, latencyMs);
+        attempts.push({ modelId: targetId, provider, attempt, waitedMs, latencyMs, ok: true, cost: 0 });
+        if (attempts.length > 1) {
+          console.log(`[Retry] ${modelId} served by ${targetId} after ${attempts.length - 1} failed attempt(s)`);
+        }
+        if (options.holdSlot) {
+          return { value, servedBy: targetId, attempts, slot };
+        }
+        slot.release(options.getUsedTokens?.(value));
+        return { value, servedBy: targetId, attempts };
+      } catch (error: any) {
+        slot.release();
+        if (error.cancelled || options.signal?.aborted) {
+          releaseTrial(targetId, provider);
+          throw error;
+        }
+
+        const failed: ModelCallAttempt = {
+          modelId: targetId,
+          provider,
+          attempt,
+          waitedMs,
+          latencyMs: Date.now() - startTime,
+          ok: false,
+          error: error.message,
+          status: error.status,
+          cost: 0,
+        };
+        attempts.push(failed);
+        if (REQUEST_ERROR_STATUSES.has(error.status)) {
+          releaseTrial(targetId, provider);
+        } else {
+          recordFailure(targetId, provider, failed.latencyMs, error.message);
+        }
+        console.warn(`[Retry] ${targetId} attempt ${attempt} failed${error.status ? ` (${error.status})` : ""}: ${error.message}`);
+
+        if (isFatal(error)) {
+          throw new ModelCallFailedError(error.message, attempts);
+        }
+
+        const retryAfterTooLong = error.retryAfterMs !== undefined && error.retryAfterMs > policy.maxRetryAfterMs;
+        if (isRetryable(error) && !retryAfterTooLong && attempt <= policy.maxRetries) {
+          waitedMs = getBackoffDelay(attempt, policy, error.retryAfterMs);
+          options.onRetry?.(failed, { modelId: targetId, delayMs: waitedMs });
+          continue;
+        }
+
+        const nextHost = chain[hostIndex + 1];
+        if (!nextHost) {
+          throw new ModelCallFailedError(error.message, attempts);
+        }
+        waitedMs = 0;
+        options.onRetry?.(failed, { modelId: nextHost, delayMs: 0 });
+        break;
+      }
+    }
+  }
+
+  // Unreachable: the loop either returns or throws on the last host
+  throw new ModelCallFailedError(`No hosts available for ${modelId}`, attempts);
+}
@@ -1,9 +1,10 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
+import { randomUUID, timingSafeEqual } from "crypto";
 import sharp from "sharp";
 import { storage } from "./storage";
-import type { ChatMessage, ChatCompletionResult } from "./types";
+import type { ChatMessage, ChatCompletionResult, ReasoningOptions, ResponseFormat } from "./types";
 
 // Configure multer for memory storage (files stored in RAM)
 const upload = multer({
@@ -37,339 +38,88 @@ setInterval(() => {
     }
   }
 }, 5 * 60 * 1000);
-import { createGroqChatCompletion, GROQ_MODEL_ID } from "./groq";
-import { createCerebrasChatCompletion, CEREBRAS_MODEL_ID } from "./cerebras";
-import { createDeepSeekChatCompletion, DEEPSEEK_MODEL_ID } from "./deepseek";
-import { createMiniMaxChatCompletion, MINIMAX_MODEL_ID } from "./minimax";
-import { createAnthropicChatCompletion, ANTHROPIC_MODEL_ID } from "./anthropic";
-import { createOpenRouterChatCompletion, KIMI_K2_MODEL_ID } from "./openrouter";
-import { 
-  createTogetherChatCompletion, 
-  TOGETHER_QWEN_MODEL_ID, 
-  TOGETHER_GLM_MODEL_ID,
-  TOGETHER_LLAMA_3B_MODEL_ID,
-  TOGETHER_QWEN_7B_MODEL_ID,
-  TOGETHER_DEEPSEEK_R1_DISTILL_70B_MODEL_ID,
-  TOGETHER_DEEPSEEK_R1_MODEL_ID,
-  TOGETHER_QWQ_32B_MODEL_ID
-} from "./together";
-import { insertChatSchema, insertMessageSchema, calculateCost, calculateClaudeCost } from "@shared/schema";
-import { routeQuery, logRoutingDecision, type RoutingDecision } from "./auto-router";
-import OpenAI from "openai";
-
-const CLAUDE_MODEL_ID = "anthropic/claude-sonnet-4.5";
-const GROQ_MODEL_SELECTOR_ID = "meta-llama/llama-4-maverick:groq";
-const CEREBRAS_MODEL_SELECTOR_ID = "meta-llama/llama-3.3-70b-instruct:cerebras";
-const TOGETHER_LLAMA4_MAVERICK_SELECTOR_ID = "together/llama-4-maverick-17b";
-const DEEPSEEK_MODEL_SELECTOR_ID = "deepseek/deepseek-chat";
-const MINIMAX_MODEL_SELECTOR_ID = "minimax/minimax-m2";
-const KIMI_K2_MODEL_SELECTOR_ID = "moonshotai/kimi-k2";
-const QWEN_72B_MODEL_SELECTOR_ID = "qwen/qwen-2.5-72b-instruct";
-const GLM_4_32B_MODEL_SELECTOR_ID = "z-ai/glm-4-32b";
-const TOGETHER_LLAMA_3B_SELECTOR_ID = "together/llama-3.2-3b-instruct-turbo";
-const TOGETHER_QWEN_7B_SELECTOR_ID = "together/qwen-2.5-7b-instruct-turbo";
-const TOGETHER_DEEPSEEK_R1_DISTILL_70B_SELECTOR_ID = "together/deepseek-r1-distill-llama-70b";
-const TOGETHER_DEEPSEEK_R1_SELECTOR_ID = "together/deepseek-r1";
-const TOGETHER_QWQ_32B_SELECTOR_ID = "together/qwq-32b";
-const TOGETHER_QWEN3_4B_SELECTOR_ID = "together/Qwen/Qwen3-4B";
-const TOGETHER_QWEN3_A3B_SELECTOR_ID = "together/Qwen/Qwen3-Next-80B-A3B-Instruct";
-const OPENROUTER_QWEN25_3B_SELECTOR_ID = "openrouter/qwen/qwen2.5-vl-3b-instruct";
-
-interface UnifiedChatRequest {
-  model: string;
-  messages: ChatMessage[];
-  maxTokens?: number;
-  timeoutMs?: number;
-}
 
-async function getModelCompletion(request: UnifiedChatRequest): Promise<ChatCompletionResult> {
-  if (request.model === CLAUDE_MODEL_ID) {
-    console.log("[API] Using direct Anthropic API for Claude Sonnet 4.5");
-    return createAnthropicChatCompletion({
-      model: ANTHROPIC_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === GROQ_MODEL_SELECTOR_ID) {
-    console.log("[API] Using direct Groq API for Llama 4 Maverick");
-    return createGroqChatCompletion({
-      model: GROQ_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === CEREBRAS_MODEL_SELECTOR_ID) {
-    console.log("[API] Using direct Cerebras API for Llama 3.3 70B");
-    return createCerebrasChatCompletion({
-      model: CEREBRAS_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === TOGETHER_LLAMA4_MAVERICK_SELECTOR_ID) {
-    console.log("[API] Using Together AI for Llama 4 Maverick 17B");
-    return createTogetherChatCompletion({
-      model: "meta-llama/Llama-4-Maverick-17B-128E-Instruct-FP8",
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === DEEPSEEK_MODEL_SELECTOR_ID) {
-    console.log("[API] Using direct DeepSeek API for DeepSeek-V3");
-    return createDeepSeekChatCompletion({
-      model: DEEPSEEK_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === MINIMAX_MODEL_SELECTOR_ID) {
-    console.log("[API] Using direct MiniMax API for MiniMax M2");
-    return createMiniMaxChatCompletion({
-      model: MINIMAX_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === KIMI_K2_MODEL_SELECTOR_ID) {
-    console.log("[API] Using OpenRouter for Kimi K2");
-    return createOpenRouterChatCompletion({
-      model: KIMI_K2_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === QWEN_72B_MODEL_SELECTOR_ID) {
-    console.log("[API] Using Together AI for Qwen 2.5 72B Turbo");
-    return createTogetherChatCompletion({
-      model: TOGETHER_QWEN_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
+// Files for a wind tunnel run: looked up by upload ID, or sent inline (text files)
+function resolveWindTunnelFiles(fileIds: unknown, files: unknown): WindTunnelFile[] {
+  if (!Array.isArray(fileIds) || fileIds.length === 0) {
+    return Array.isArray(files) ? files : [];
   }
-  
-  if (request.model === GLM_4_32B_MODEL_SELECTOR_ID) {
-    console.log("[API] Using Together AI for GLM-4.6");
-    return createTogetherChatCompletion({
-      model: TOGETHER_GLM_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === TOGETHER_LLAMA_3B_SELECTOR_ID) {
-    console.log("[API] Using Together AI for Llama 3.2 3B");
-    return createTogetherChatCompletion({
-      model: TOGETHER_LLAMA_3B_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === TOGETHER_QWEN_7B_SELECTOR_ID) {
-    console.log("[API] Using Together AI for Qwen 2.5 7B Turbo");
-    return createTogetherChatCompletion({
-      model: TOGETHER_QWEN_7B_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  
-  if (request.model === TOGETHER_DEEPSEEK_R1_DISTILL_70B_SELECTOR_ID) {
-    console.log("[API] Using Together AI for DeepSeek R1 Distill 70B");
-    return createTogetherChatCompletion({
-      model: TOGETHER_DEEPSEEK_R1_DISTILL_70B_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === TOGETHER_DEEPSEEK_R1_SELECTOR_ID) {
-    console.log("[API] Using Together AI for DeepSeek R1");
-    return createTogetherChatCompletion({
-      model: TOGETHER_DEEPSEEK_R1_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === TOGETHER_QWQ_32B_SELECTOR_ID) {
-    console.log("[API] Using Together AI for QwQ 32B");
-    return createTogetherChatCompletion({
-      model: TOGETHER_QWQ_32B_MODEL_ID,
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === TOGETHER_QWEN3_4B_SELECTOR_ID) {
-    console.log("[API] Using Together AI for Qwen3-4B");
-    return createTogetherChatCompletion({
-      model: "Qwen/Qwen3-4B",
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === TOGETHER_QWEN3_A3B_SELECTOR_ID) {
-    console.log("[API] Using Together AI for Qwen3-Next-80B-A3B");
-    return createTogetherChatCompletion({
-      model: "Qwen/Qwen3-Next-80B-A3B-Instruct",
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  if (request.model === OPENROUTER_QWEN25_3B_SELECTOR_ID) {
-    console.log("[API] Using OpenRouter for Qwen2.5-3B");
-    return createOpenRouterChatCompletion({
-      model: "qwen/qwen2.5-vl-3b-instruct:free",
-      messages: request.messages,
-      maxTokens: request.maxTokens,
-      timeoutMs: request.timeoutMs,
-    });
-  }
-  
-  throw new Error(`Unknown model: ${request.model}`);
-}
 
-// Model ID to display name mapping
-const MODEL_DISPLAY_NAMES: Record<string, string> = {
-  "anthropic/claude-sonnet-4.5": "Claude Sonnet 4.5",
-  "meta-llama/llama-3.3-70b-instruct:cerebras": "Cerebras: Llama 3.3 70B",
-  "meta-llama/llama-4-maverick:groq": "Groq: Llama 4 Maverick",
-  "deepseek/deepseek-chat": "DeepSeek-V3",
-  "minimax/minimax-m2": "MiniMax M2",
-  "moonshotai/kimi-k2": "Kimi K2 (Moonshot)",
-  "qwen/qwen-2.5-72b-instruct": "Qwen 2.5 72B (Alibaba)",
-  "z-ai/glm-4-32b": "GLM-4.6 (Zhipu)",
-  "together/qwen-2.5-3b-instruct": "Qwen 2.5 3B (3B)",
-  "together/qwen-2.5-7b-instruct-turbo": "Qwen 2.5 7B Turbo (7B)",
-  "together/llama-4-maverick-17b": "Llama 4 Maverick 17B (17B)",
-  "together/deepseek-r1-distill-llama-70b": "DeepSeek R1 Distill 70B (70B, reasoning)",
-  "together/deepseek-r1": "DeepSeek R1 (Frontier, reasoning)",
-  "together/qwq-32b": "QwQ 32B (Frontier, reasoning)",
-  "together/Qwen/Qwen3-4B": "Qwen3-4B (3B, Chinese)",
-  "together/Qwen/Qwen3-Next-80B-A3B-Instruct": "Qwen3-A3B (3B active, Chinese)",
-  "openrouter/qwen/qwen2.5-vl-3b-instruct": "Qwen2.5-3B (3B, Chinese)",
-};
-
-function getModelDisplayName(modelId: string): string {
-  return MODEL_DISPLAY_NAMES[modelId] || modelId;
-}
-
-// Helper to get streaming client for a model
-function getStreamingClient(modelId: string): OpenAI {
-  // :online models go through OpenRouter (except Claude which uses native search via OpenRouter)
-  if (modelId.endsWith(":online")) {
-    return new OpenAI({
-      baseURL: process.env.OPENROUTER_BASE_URL || "https://openrouter.ai/api/v1",
-      apiKey: process.env.OPENROUTER_API_KEY,
-    });
-  }
-  
-  if (modelId === "anthropic/claude-sonnet-4.5") {
-    return new OpenAI({
-      baseURL: "https://api.anthropic.com/v1",
-      apiKey: process.env.ANTHROPIC_API_KEY,
-      defaultHeaders: { "anthropic-version": "2023-06-01" },
-    });
-  }
-  
-  // All Cerebras models (fast inference)
-  if (modelId.startsWith("cerebras/") || modelId === "meta-llama/llama-3.3-70b-instruct:cerebras") {
-    return new OpenAI({
-      baseURL: "https://api.cerebras.ai/v1",
-      apiKey: process.env.CEREBRAS_API_KEY,
-    });
-  }
-  
-  if (modelId.startsWith("openrouter/")) {
-    return new OpenAI({
-      baseURL: process.env.OPENROUTER_BASE_URL || "https://openrouter.ai/api/v1",
-      apiKey: process.env.OPENROUTER_API_KEY,
-    });
+  const resolvedFiles: WindTunnelFile[] = [];
+  for (const fileId of fileIds) {
+    const storedFile = uploadedFilesStore.get(fileId);
+    if (storedFile) {
+      const isImage = storedFile.mimeType.startsWith('image/');
+      const resolvedFile: WindTunnelFile = {
+        type: isImage ? 'image' : 'text',
+        mimeType: storedFile.mimeType,
+        name: storedFile.name,
+        dataUrl: storedFile.dataUrl,
+      };
+      
+      // For text files, extract text content from base64 dataUrl
+      if (!isImage && storedFile.dataUrl) {
+        try {
+          const base64Match = storedFile.dataUrl.match(/^data:[^;]+;base64,(.+)$/);
+          if (base64Match) {
+            resolvedFile.textContent = Buffer.from(base64Match[1], 'base64').toString('utf-8');
+          }
+        } catch (e) {
+          console.warn(`[Wind Tunnel] Could not decode text content for ${storedFile.name}`);
+        }
+      }
+      
+      resolvedFiles.push(resolvedFile);
+      console.log(`[Wind Tunnel] Resolved file from store: ${storedFile.name} (${fileId}), type: ${resolvedFile.type}`);
+    } else {
+      console.warn(`[Wind Tunnel] File not found in store: ${fileId}`);
+    }
   }
-  
-  // Default: Together AI
-  return new OpenAI({
-    baseURL: "https://api.together.xyz/v1",
-    apiKey: process.env.TOGETHER_API_KEY,
-  });
+  return resolvedFiles;
 }
 
-// Get the actual model ID to send to the provider
-function getActualModelId(modelId: string): string {
-  const modelMap: Record<string, string> = {
-    "anthropic/claude-sonnet-4.5": "claude-sonnet-4-20250514",
-    // Cerebras models (super fast)
-    "cerebras/llama-3.1-8b": "llama3.1-8b",
-    "cerebras/qwen-3-32b": "qwen-3-32b",
-    "cerebras/gpt-oss-120b": "gpt-oss-120b",
-    "meta-llama/llama-3.3-70b-instruct:cerebras": "llama-3.3-70b",
-    // Together models
-    "together/llama-3.2-3b-instruct-turbo": "meta-llama/Llama-3.2-3B-Instruct-Turbo",
-    "together/qwen-2.5-7b-instruct-turbo": "Qwen/Qwen2.5-7B-Instruct-Turbo",
-    "together/llama-4-maverick-17b": "meta-llama/Llama-4-Maverick-17B-128E-Instruct-FP8",
-    "together/deepseek-r1-distill-llama-70b": "deepseek-ai/DeepSeek-R1-Distill-Llama-70B",
-    "together/deepseek-r1": "deepseek-ai/DeepSeek-R1",
-    "together/Qwen/Qwen3-4B": "Qwen/Qwen3-4B",
-    "together/Qwen/Qwen3-Next-80B-A3B-Instruct": "Qwen/Qwen3-Next-80B-A3B-Instruct",
-    "together/Qwen/Qwen2.5-72B-Instruct-Turbo": "Qwen/Qwen2.5-72B-Instruct-Turbo",
-    // OpenRouter - Qwen models
-    "openrouter/qwen/qwen3-8b": "qwen/qwen3-8b",
-    "openrouter/qwen/qwen3-14b": "qwen/qwen3-14b",
-    "openrouter/qwen/qwen3-32b": "qwen/qwen3-32b",
-    "openrouter/qwen/qwen2.5-72b-instruct": "qwen/qwen-2.5-72b-instruct",
-    "openrouter/qwen/qwq-32b": "qwen/qwq-32b",
-    "openrouter/qwen/qwen-2-72b-instruct": "qwen/qwen-2-72b-instruct",
-    "openrouter/qwen/qwen3-30b-a3b": "qwen/qwen3-30b-a3b",
-    "openrouter/qwen/qwen3-4b": "qwen/qwen3-4b",
-    "openrouter/qwen/qwen3-4b:free": "qwen/qwen3-4b:free",
-    // OpenRouter - DeepSeek distilled models
-    "openrouter/deepseek/deepseek-r1-distill-qwen-7b": "deepseek/deepseek-r1-distill-qwen-7b",
-    "openrouter/deepseek/deepseek-r1-distill-qwen-14b": "deepseek/deepseek-r1-distill-qwen-14b",
-    // OpenRouter - DeepSeek V3.2 (685B)
-    "openrouter/deepseek/deepseek-v3.2": "deepseek/deepseek-chat",
-    "openrouter/deepseek/deepseek-v3.2:online": "deepseek/deepseek-chat:online",
-    // OpenRouter - Other providers
-    "openrouter/moonshotai/kimi-k2-instruct": "moonshotai/kimi-k2-instruct",
-    // OpenRouter :online models (web search enabled via Exa)
-    "openrouter/qwen/qwen3-8b:online": "qwen/qwen3-8b:online",
-    "openrouter/qwen/qwen3-14b:online": "qwen/qwen3-14b:online",
-    "openrouter/qwen/qwen3-32b:online": "qwen/qwen3-32b:online",
-    "openrouter/qwen/qwen2.5-72b-instruct:online": "qwen/qwen-2.5-72b-instruct:online",
-    "openrouter/qwen/qwen3-30b-a3b:online": "qwen/qwen3-30b-a3b:online",
-    "openrouter/anthropic/claude-sonnet-4:online": "anthropic/claude-sonnet-4:online",
-    // Reasoning + Search combined models
-    "openrouter/deepseek/deepseek-r1:online": "deepseek/deepseek-r1:online",
-  };
-  return modelMap[modelId] || modelId;
-}
+// Races in progress: per-column stop switches, by race ID
+const activeRaces = new Map<string, Map<string, AbortController>>();
+import { insertChatSchema, insertMessageSchema, insertModelPriceSchema, type BenchmarkSuite, type GraderConfig, type ModelResponseData, type SamplingParams } from "@shared/schema";
+import { COUNCIL_MODEL_IDS, findCatalogEntry, getCatalogEntry } from "@shared/models";
+import { routeQuery, logRoutingDecision, type RoutingDecision } from "./auto-router";
+import { getModelCompletion, getModelDisplayName } from "./providers";
+import { discoverLocalModels } from "./local";
+import { getProviderStatus } from "./health";
+import { addPriceVersion, calculateClaudeCost, deletePriceVersion, findPriceVersion, listPriceVersions, loadPriceVersions } from "./pricing";
+import type { ScheduleOptions } from "./scheduler";
+import { parseReasoningOptions } from "./reasoning";
+import { parseMaxTokens, parseSamplingParams, parseSystemPrompt } from "./sampling";
+import { parseToolRunSettings, runToolBenchmark, type ToolRunSettings } from "./tool-benchmark";
+import { getColumnResult, getRaceSettings, parseRaceColumns, parseWindTunnelConfig, prepareModelRun, streamModelRun, type PreparedRun, type RaceColumn, type WindTunnelConfig, type WindTunnelEvent, type WindTunnelFile } from "./wind-tunnel";
+import { parseTrials, summarizeTrials } from "./trials";
+import { gradeAnswer, parseGrader } from "./graders";
+import { parseSuiteCases, summarizeSuite } from "./suites";
+import { exportSuite, parseDataset, parseImportOptions, previewDataset } from "./datasets";
+import { expandTemplate, parseTemplateRows } from "./templates";
+import { parseResponseFormat } from "./structured";
+
+// "All Models" / compete council line-up with human-friendly names
+const COUNCIL_MODELS = COUNCIL_MODEL_IDS.map((id) => ({ id, name: getModelDisplayName(id) }));
+
+// Chat and compete answers keep hybrid models (Qwen3) out of thinking mode unless the
+// request turns `reasoning` on, as the wind tunnel does. Compete judges never think:
+// their verdict is a short structured ranking.
+const CHAT_REASONING: ReasoningOptions = { enabled: false };
+
+// Peer-review verdict: a rank (1 = best) for each of responses A-H, in order
+const JUDGE_RESPONSE_FORMAT: ResponseFormat = {
+  name: "peer_review",
+  schema: {
+    type: "object",
+    properties: {
+      rankings: { type: "array", items: { type: "integer", minimum: 1, maximum: 8 }, minItems: 8, maxItems: 8 },
+      reasoning: { type: "string" },
+    },
+    required: ["rankings", "reasoning"],
+    additionalProperties: false,
+  },
+};
 
 // Token estimation: rough approximation of ~4 characters = 1 token
 function estimateTokens(text: string): number {
@@ -409,7 +159,125 @@ function trimConversationHistory(
   return { trimmedMessages, wasTrimmed };
 }
 
+// Abort upstream model calls when the client goes away (closed tab, Stop button).
+// Listens on the response, not the request: a request "closes" as soon as its body is read.
+function abortOnDisconnect(res: Response): AbortController {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller;
+}
+
+// Set up SSE headers with better connection handling
+function startEventStream(res: Response): void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+}
+
+// Send one SSE event, unless the client has already gone
+function writeEvent(res: Response, event: object): void {
+  if (!res.writableEnded && !res.destroyed) {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  }
+}
+
+// Fair-queueing key for the provider scheduler: the browser's client ID (see
+// client/src/lib/queryClient.ts), or its IP for callers that don't send one
+function getScheduleOptions(req: Request): ScheduleOptions {
+  const clientId = req.get("x-client-id");
+  return { userKey: clientId && clientId.length <= 64 ? `client:${clientId}` : `ip:${req.ip}` };
+}
+
+// Admin endpoints need `Authorization: Bearer <ADMIN_TOKEN>`; with no ADMIN_TOKEN set they're switched off
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(403).json({ error: "Admin API is disabled (ADMIN_TOKEN not set)" });
+  }
+  const provided = Buffer.from(req.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "");
+  const expected = Buffer.from(token);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return res.status(401).json({ error: "Invalid admin token" });
+  }
+  next();
+}
+
+// One case of a suite or template batch, with the settings it runs with
+interface BatchRunCase {
+  prompt: string;
+  grader?: GraderConfig;
+  config: WindTunnelConfig;
+}
+
+// Run cases one after another over an open event stream, each with every column at once,
+// and send each column's graded `result` (no tokens). The batch registers as a race, so
+// columns can be stopped; a stopped column sits out the remaining cases. Returns each
+// case's column results.
+async function runCaseBatch(
+  res: Response,
+  cases: BatchRunCase[],
+  columns: RaceColumn[],
+  options: { signal: AbortSignal; schedule: ScheduleOptions; started?: object }
+): Promise<Record<string, ModelResponseData>[]> {
+  const { signal, schedule } = options;
+  const raceId = randomUUID();
+  const stops = new Map(columns.map(({ col }) => [col, new AbortController()]));
+  activeRaces.set(raceId, stops);
+  writeEvent(res, { type: "started", raceId, columns: columns.map(({ col }) => col), cases: cases.length, ...options.started });
+
+  const caseResults: Record<string, ModelResponseData>[] = [];
+  for (let index = 0; index < cases.length && !signal.aborted; index++) {
+    const item = cases[index];
+    const results: Record<string, ModelResponseData> = {};
+    caseResults.push(results);
+    writeEvent(res, { type: "case", case: index, cases: cases.length });
+
+    await Promise.all(columns.map(async ({ col, modelId }) => {
+      const stop = stops.get(col)!.signal;
+      if (stop.aborted) return;
+      const columnSignal = AbortSignal.any([signal, stop]);
+
+      let ttft: number | undefined;
+      const emit = (event: WindTunnelEvent) => {
+        if (event.type === "ttft") {
+          ttft = event.ttft as number;
+        } else if (event.type === "complete" || event.type === "cancelled" || event.type === "error") {
+          results[col] = getColumnResult(modelId, event, ttft);
+        }
+      };
+      try {
+        await streamModelRun(prepareModelRun(modelId, item.config), item.config, { emit, signal: columnSignal, schedule });
+      } catch (error: any) {
+        emit({ type: "error", error: error.message });
+      }
+
+      if (item.grader && results[col] && !results[col].cancelled && !results[col].error) {
+        try {
+          const grade = await gradeAnswer(results[col].content, item.grader, { prompt: item.prompt, signal: columnSignal, schedule });
+          results[col] = { ...results[col], grade };
+        } catch (error: any) {
+          console.error(`[Wind Tunnel Batch] Could not grade ${col} on case ${index + 1}: ${error.message}`);
+        }
+      }
+      writeEvent(res, { col, type: "result", case: index, result: results[col] });
+    }));
+  }
+
+  activeRaces.delete(raceId);
+  return caseResults;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Register local-server models up front so their catalog IDs resolve after a restart,
+  // and so their launch prices are saved with the rest
+  await discoverLocalModels();
+  // Costs are priced from the stored price versions
+  await loadPriceVersions();
+
   // Get all chats
   app.get("/api/chats", async (_req, res) => {
     try {
@@ -503,6 +371,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { chatId } = req.params;
       const { message } = req.body;
+      const reasoning = parseReasoningOptions(req.body.reasoning) ?? CHAT_REASONING;
+      const { signal } = abortOnDisconnect(res);
+      const schedule = getScheduleOptions(req);
 
       if (!message || typeof message !== "string") {
         return res.status(400).json({ error: "Message is required" });
@@ -545,24 +416,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Check if "All Models" is selected
       if (chat.modelId === "all-models") {
         // Call all 8 models in parallel
-        const modelCalls = [
-          { id: "anthropic/claude-sonnet-4.5", name: "Claude Sonnet 4.5" },
-          { id: "meta-llama/llama-3.3-70b-instruct:cerebras", name: "Cerebras: Llama 3.3 70B" },
-          { id: "meta-llama/llama-4-maverick:groq", name: "Groq: Llama 4 Maverick" },
-          { id: "deepseek/deepseek-chat", name: "DeepSeek-V3" },
-          { id: "minimax/minimax-m2", name: "MiniMax M2" },
-          { id: "moonshotai/kimi-k2", name: "Kimi K2 (Moonshot)" },
-          { id: "qwen/qwen-2.5-72b-instruct", name: "Qwen 2.5 72B (Alibaba)" },
-          { id: "z-ai/glm-4-32b", name: "GLM-4-32B (Zhipu)" },
-        ].map(async (model) => {
+        const modelCalls = COUNCIL_MODELS.map(async (model) => {
           try {
             const result = await getModelCompletion({
               model: model.id,
               messages: conversationHistory,
+              signal,
+              schedule,
+              reasoning,
             });
             
-            // Calculate costs
-            const cost = calculateCost(model.id, result.inputTokens, result.outputTokens);
+            // Calculate costs (priced when the call completed; see pricing.ts)
+            const { cost, reasoningCost, priceVersion } = result;
             const claudeCost = calculateClaudeCost(result.inputTokens, result.outputTokens);
             const saved = claudeCost - cost;
             const savedPercent = claudeCost > 0 ? (saved / claudeCost) * 100 : 0;
@@ -578,10 +443,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 responseTimeMs: result.responseTimeMs,
                 totalTimeMs: result.totalTimeMs,
                 tokensPerSecond: result.tokensPerSecond,
+                reasoningTokens: result.reasoningTokens,
+                reasoningCost,
+                usageSource: result.usageSource,
+                servedBy: result.servedBy,
+                attempts: result.attempts,
                 cost,
                 claudeCost,
                 saved,
                 savedPercent,
+                priceVersion,
               },
             };
           } catch (error: any) {
@@ -623,13 +494,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const result = await getModelCompletion({
           model: routingDecision.modelId,
           messages: conversationHistory,
+          signal,
+          schedule,
+          reasoning,
         });
 
         // Log the routing decision with TTFT
         logRoutingDecision(message, routingDecision, result.responseTimeMs);
 
-        // Calculate costs
-        const cost = calculateCost(routingDecision.modelId, result.inputTokens, result.outputTokens);
+        // Calculate costs (priced when the call completed; see pricing.ts)
+        const { cost, reasoningCost, priceVersion } = result;
         const claudeCost = calculateClaudeCost(result.inputTokens, result.outputTokens);
         const saved = claudeCost - cost;
         const savedPercent = claudeCost > 0 ? (saved / claudeCost) * 100 : 0;
@@ -641,10 +515,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           responseTimeMs: result.responseTimeMs,
           totalTimeMs: result.totalTimeMs,
           tokensPerSecond: result.tokensPerSecond,
+          reasoningTokens: result.reasoningTokens,
+          reasoningCost,
+          usageSource: result.usageSource,
+          servedBy: result.servedBy,
+          attempts: result.attempts,
           cost,
           claudeCost,
           saved,
           savedPercent,
+          priceVersion,
           routingInfo: {
             route: routingDecision.route,
             routeLabel: routingDecision.routeLabel,
@@ -681,10 +561,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const result = await getModelCompletion({
           model: chat.modelId,
           messages: conversationHistory,
+          signal,
+          schedule,
+          reasoning,
         });
 
-        // Calculate costs
-        const cost = calculateCost(chat.modelId, result.inputTokens, result.outputTokens);
+        // Calculate costs (priced when the call completed; see pricing.ts)
+        const { cost, reasoningCost, priceVersion } = result;
         const claudeCost = calculateClaudeCost(result.inputTokens, result.outputTokens);
         const saved = claudeCost - cost;
         const savedPercent = claudeCost > 0 ? (saved / claudeCost) * 100 : 0;
@@ -696,10 +579,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           responseTimeMs: result.responseTimeMs,
           totalTimeMs: result.totalTimeMs,
           tokensPerSecond: result.tokensPerSecond,
+          reasoningTokens: result.reasoningTokens,
+          reasoningCost,
+          usageSource: result.usageSource,
+          servedBy: result.servedBy,
+          attempts: result.attempts,
           cost,
           claudeCost,
           saved,
           savedPercent,
+          priceVersion,
         };
         
         const aiMessage = await storage.createMessage({
@@ -727,6 +616,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { chatId } = req.params;
       const { userMessageId } = req.body;
+      const reasoning = parseReasoningOptions(req.body.reasoning) ?? CHAT_REASONING;
+      const { signal } = abortOnDisconnect(res);
+      const schedule = getScheduleOptions(req);
 
       if (!userMessageId || typeof userMessageId !== "string") {
         return res.status(400).json({ error: "User message ID is required" });
@@ -811,36 +703,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const { trimmedMessages: conversationHistory } = trimConversationHistory(fullHistory);
 
         // All 8 models with both ID and human-friendly name
-        const allModels = [
-          { id: "anthropic/claude-sonnet-4.5", name: "Claude Sonnet 4.5" },
-          { id: "meta-llama/llama-3.3-70b-instruct:cerebras", name: "Cerebras: Llama 3.3 70B" },
-          { id: "meta-llama/llama-4-maverick:groq", name: "Groq: Llama 4 Maverick" },
-          { id: "deepseek/deepseek-chat", name: "DeepSeek-V3" },
-          { id: "minimax/minimax-m2", name: "MiniMax M2" },
-          { id: "moonshotai/kimi-k2", name: "Kimi K2 (Moonshot)" },
-          { id: "qwen/qwen-2.5-72b-instruct", name: "Qwen 2.5 72B (Alibaba)" },
-          { id: "z-ai/glm-4-32b", name: "GLM-4-32B (Zhipu)" },
-        ];
-
-        // Find the original model by matching on name (handles both ID and display name storage)
-        const originalModel = allModels.find((m) => 
-          m.id === storedModelName || m.name === storedModelName
-        );
+        const allModels = COUNCIL_MODELS;
+
+        // Find the original model by ID (the stored name may be an ID or a current or older display name)
+        const storedModelId = findCatalogEntry(storedModelName)?.id;
+        const originalModel = allModels.find((m) => m.id === storedModelId);
         originalModelId = originalModel?.name || storedModelName;
 
         console.log(`[Compete] Single model mode - original model: ${originalModelId}`);
 
         // Query ALL 8 models fresh for complete cost/speed comparison
         const allModelCalls = allModels.map(async (model) => {
-          const isOriginal = model.name === originalModelId || model.id === storedModelName;
+          const isOriginal = model.id === originalModel?.id;
           try {
             const result = await getModelCompletion({
               model: model.id,
               messages: conversationHistory,
+              signal,
+              schedule,
+              reasoning,
             });
             
-            // Calculate costs
-            const cost = calculateCost(model.id, result.inputTokens, result.outputTokens);
+            // Calculate costs (priced when the call completed; see pricing.ts)
+            const { cost, reasoningCost, priceVersion } = result;
             const claudeCost = calculateClaudeCost(result.inputTokens, result.outputTokens);
             const saved = claudeCost - cost;
             const savedPercent = claudeCost > 0 ? (saved / claudeCost) * 100 : 0;
@@ -857,10 +742,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 responseTimeMs: result.responseTimeMs,
                 totalTimeMs: result.totalTimeMs,
                 tokensPerSecond: result.tokensPerSecond,
+                reasoningTokens: result.reasoningTokens,
+                reasoningCost,
+                usageSource: result.usageSource,
+                servedBy: result.servedBy,
+                attempts: result.attempts,
                 cost,
                 claudeCost,
                 saved,
                 savedPercent,
+                priceVersion,
               },
             };
           } catch (error: any) {
@@ -886,8 +777,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Parse costStats from stored message (it's stored as JSONB)
           const storedCostStats = response.costStats as any;
           const modelId = response.modelName || "Unknown";
-          // Convert model ID to display name for consistency
-          const displayName = getModelDisplayName(modelId);
+          // Convert model ID (or a name from before a rename) to the current display name
+          const displayName = findCatalogEntry(modelId)?.displayName || modelId;
           return {
             content: response.content,
             modelId: modelId,
@@ -927,16 +818,7 @@ Respond with ONLY a JSON object: {"rankings": [3,1,5,2,4,6,7,8], "reasoning": "b
 The rankings array should contain 8 numbers representing the rank position for responses A, B, C, D, E, F, G, H in that order.`;
 
       // Send to all 8 models for democratic peer review
-      const judgeModels = [
-        { id: "anthropic/claude-sonnet-4.5", name: "Claude Sonnet 4.5" },
-        { id: "meta-llama/llama-3.3-70b-instruct:cerebras", name: "Cerebras: Llama 3.3 70B" },
-        { id: "meta-llama/llama-4-maverick:groq", name: "Groq: Llama 4 Maverick" },
-        { id: "deepseek/deepseek-chat", name: "DeepSeek-V3" },
-        { id: "minimax/minimax-m2", name: "MiniMax M2" },
-        { id: "moonshotai/kimi-k2", name: "Kimi K2 (Moonshot)" },
-        { id: "qwen/qwen-2.5-72b-instruct", name: "Qwen 2.5 72B (Alibaba)" },
-        { id: "z-ai/glm-4-32b", name: "GLM-4-32B (Zhipu)" },
-      ];
+      const judgeModels = COUNCIL_MODELS;
 
       console.log("[Compete] Starting democratic peer review with all 8 models");
 
@@ -945,18 +827,18 @@ The rankings array should contain 8 numbers representing the rank position for r
           const result = await getModelCompletion({
             model: model.id,
             messages: [{ role: "user", content: judgingPrompt }],
+            signal,
+            schedule,
+            reasoning: CHAT_REASONING,
+            responseFormat: JUDGE_RESPONSE_FORMAT,
           });
 
-          // Parse JSON from response
-          const jsonMatch = result.content.match(/\{[\s\S]*\}/);
-          if (!jsonMatch) {
-            throw new Error("No JSON found in response");
-          }
-
-          const parsed = JSON.parse(jsonMatch[0]);
-          if (!parsed.rankings || !Array.isArray(parsed.rankings) || parsed.rankings.length !== 8) {
-            throw new Error("Invalid rankings format");
+          // Prose-wrapped or fenced JSON is repaired; a verdict that breaks the schema is discarded
+          const structured = result.structured!;
+          if (structured.compliance === "invalid" || structured.compliance === "unparseable") {
+            throw new Error(`Invalid rankings (${structured.mode}): ${structured.errors.join("; ")}`);
           }
+          const parsed = structured.value as { rankings: number[]; reasoning: string };
 
           return {
             modelName: model.name,
@@ -1067,6 +949,8 @@ Format: Natural flowing answer with inline citations like [Cerebras: Llama 3.3 7
           model: "anthropic/claude-sonnet-4.5",
           messages: [{ role: "user", content: synthesisPrompt }],
           timeoutMs: 120000, // 120s for chairman synthesis (longer than default)
+          signal,
+          schedule,
         });
         chairmanSynthesis = synthesisResult.content;
       } catch (error: any) {
@@ -1220,461 +1104,263 @@ Format: Natural flowing answer with inline citations like [Cerebras: Llama 3.3 7
 
   // Wind Tunnel: Run a single model with streaming
   app.post("/api/wind-tunnel/stream", async (req, res) => {
-    const { modelId, prompt, files, fileIds } = req.body;
-
+    const { modelId } = req.body;
     if (!modelId || typeof modelId !== "string") {
       return res.status(400).json({ error: "Model ID is required" });
     }
-    if (!prompt || typeof prompt !== "string") {
-      return res.status(400).json({ error: "Prompt is required" });
-    }
 
-    // Set up SSE headers with better connection handling
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no');
-    res.flushHeaders();
-
-    // Resolve files from fileIds or use directly provided files
-    let resolvedFiles: any[] = files || [];
-    
-    // If fileIds provided, look up files from the upload store
-    if (fileIds && Array.isArray(fileIds) && fileIds.length > 0) {
-      resolvedFiles = [];
-      for (const fileId of fileIds) {
-        const storedFile = uploadedFilesStore.get(fileId);
-        if (storedFile) {
-          const isImage = storedFile.mimeType.startsWith('image/');
-          const resolvedFile: any = {
-            type: isImage ? 'image' : 'text',
-            mimeType: storedFile.mimeType,
-            name: storedFile.name,
-            dataUrl: storedFile.dataUrl,
-          };
-          
-          // For text files, extract text content from base64 dataUrl
-          if (!isImage && storedFile.dataUrl) {
-            try {
-              const base64Match = storedFile.dataUrl.match(/^data:[^;]+;base64,(.+)$/);
-              if (base64Match) {
-                resolvedFile.textContent = Buffer.from(base64Match[1], 'base64').toString('utf-8');
-              }
-            } catch (e) {
-              console.warn(`[Wind Tunnel] Could not decode text content for ${storedFile.name}`);
-            }
-          }
-          
-          resolvedFiles.push(resolvedFile);
-          console.log(`[Wind Tunnel] Resolved file from store: ${storedFile.name} (${fileId}), type: ${resolvedFile.type}`);
-        } else {
-          console.warn(`[Wind Tunnel] File not found in store: ${fileId}`);
-        }
-      }
+    let config: WindTunnelConfig;
+    let run: PreparedRun;
+    try {
+      config = parseWindTunnelConfig(req.body, resolveWindTunnelFiles(req.body.fileIds, req.body.files));
+      run = prepareModelRun(modelId, config);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
     }
 
-    console.log(`[Wind Tunnel Stream] Running model: ${modelId}, files: ${resolvedFiles.length}`);
-
+    startEventStream(res);
+    const { signal } = abortOnDisconnect(res);
     try {
-      const messages: ChatMessage[] = [{ role: "user", content: prompt }];
-      const startTime = Date.now();
-      
-      // Anthropic with streaming for real-time progress
-      if (modelId === "anthropic/claude-sonnet-4.5") {
-        console.log("[Wind Tunnel] Claude path - streaming");
-        const anthropicApiKey = process.env.ANTHROPIC_API_KEY;
-        if (!anthropicApiKey) {
-          throw new Error("ANTHROPIC_API_KEY not configured");
-        }
-        
-        // Build multimodal content for Claude if there are files
-        let messageContent: any = prompt;
-        
-        if (resolvedFiles && Array.isArray(resolvedFiles) && resolvedFiles.length > 0) {
-          const contentParts: any[] = [];
-          
-          // Add images first
-          for (const file of resolvedFiles) {
-            if (file.type === 'image' && file.dataUrl) {
-              // Extract base64 data from data URL (format: data:image/png;base64,XXXXX)
-              const matches = file.dataUrl.match(/^data:([^;]+);base64,(.+)$/);
-              if (matches) {
-                const mediaType = matches[1];
-                const base64Data = matches[2];
-                contentParts.push({
-                  type: "image",
-                  source: {
-                    type: "base64",
-                    media_type: mediaType,
-                    data: base64Data
-                  }
-                });
-                console.log(`[Wind Tunnel] Added image to Claude request: ${file.name} (${mediaType})`);
-              }
-            } else if (file.type === 'text' && file.textContent) {
-              // Add text file content as text block
-              contentParts.push({
-                type: "text",
-                text: `[File: ${file.name}]\n${file.textContent}`
-              });
-            }
-          }
-          
-          // Add the prompt text last
-          contentParts.push({
-            type: "text",
-            text: prompt
-          });
-          
-          messageContent = contentParts;
-        }
-        
-        const anthropicMessages = [{
-          role: "user" as const,
-          content: messageContent,
-        }];
-
-        const response = await fetch("https://api.anthropic.com/v1/messages", {
-          method: "POST",
-          headers: {
-            "x-api-key": anthropicApiKey,
-            "anthropic-version": "2023-06-01",
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "claude-sonnet-4-20250514",
-            max_tokens: 512,
-            messages: anthropicMessages,
-            stream: true,
-          }),
-        });
+      await streamModelRun(run, config, {
+        emit: (event) => writeEvent(res, event),
+        signal,
+        schedule: getScheduleOptions(req),
+      });
+    } catch (error: any) {
+      console.error(`[Wind Tunnel Stream] ${modelId} failed:`, error);
+      writeEvent(res, { type: "error", error: error.message });
+    }
+    res.end();
+  });
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Anthropic API error: ${response.status} - ${errorText}`);
-        }
+  // Wind Tunnel: Run every column at once over one SSE stream. Events carry their column
+  // (`col`); the first one is `started` with the race ID (for stopping a single column),
+  // the last one `done`. A column that can't run (unknown model, input too big) gets an
+  // error event and the rest carry on.
+  app.post("/api/wind-tunnel/race", async (req, res) => {
+    let columns: RaceColumn[];
+    let config: WindTunnelConfig;
+    let toolSettings: ToolRunSettings | undefined;
+    let trials: number;
+    let grader: GraderConfig | undefined;
+    try {
+      columns = parseRaceColumns(req.body.columns);
+      config = parseWindTunnelConfig(req.body, resolveWindTunnelFiles(req.body.fileIds, req.body.files));
+      toolSettings = req.body.tools !== undefined ? parseToolRunSettings(req.body) : undefined;
+      trials = parseTrials(req.body.trials);
+      grader = parseGrader(req.body.grader);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
 
-        const reader = response.body?.getReader();
-        if (!reader) throw new Error("No reader available");
-
-        const decoder = new TextDecoder();
-        let content = "";
-        let tokenCount = 0;
-        let inputTokens = 0;
-        let outputTokens = 0;
-        let buffer = "";
-        let firstTokenTime = 0;
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6);
-              if (data === "[DONE]") continue;
-              
-              try {
-                const parsed = JSON.parse(data);
-                
-                if (parsed.type === "content_block_delta" && parsed.delta?.text) {
-                  if (firstTokenTime === 0) {
-                    firstTokenTime = Date.now() - startTime;
-                  }
-                  content += parsed.delta.text;
-                  tokenCount++;
-                  
-                  res.write(`data: ${JSON.stringify({ 
-                    type: 'token', 
-                    content: parsed.delta.text,
-                    tokenCount,
-                    elapsed: Date.now() - startTime
-                  })}\n\n`);
-                }
-                
-                if (parsed.type === "message_delta" && parsed.usage) {
-                  outputTokens = parsed.usage.output_tokens || 0;
-                }
-                if (parsed.type === "message_start" && parsed.message?.usage) {
-                  inputTokens = parsed.message.usage.input_tokens || 0;
-                }
-              } catch (e) {
-                // Skip invalid JSON
-              }
+    startEventStream(res);
+    const { signal } = abortOnDisconnect(res);
+    const schedule = getScheduleOptions(req);
+    const raceId = randomUUID();
+    const stops = new Map(columns.map(({ col }) => [col, new AbortController()]));
+    activeRaces.set(raceId, stops);
+    writeEvent(res, { type: "started", raceId, columns: columns.map(({ col }) => col) });
+    console.log(`[Wind Tunnel Race] ${raceId}: ${columns.length} column(s)${toolSettings ? ", tool-calling" : ""}${trials > 1 ? `, ${trials} trials` : ""}`);
+
+    // Every race is saved as a benchmark run (for the history panel and benchmark links)
+    const settings = { ...getRaceSettings(req.body.settings, config, columns, toolSettings), trials: trials > 1 ? trials : undefined, grader };
+    const results: Record<string, ModelResponseData> = {};
+
+    await Promise.all(columns.map(async ({ col, modelId }) => {
+      const columnSignal = AbortSignal.any([signal, stops.get(col)!.signal]);
+      const completed: ModelResponseData[] = [];
+
+      // Trials run one after another, so they don't compete with each other for the provider
+      for (let trial = 1; trial <= trials; trial++) {
+        let ttft: number | undefined;
+        let finished: WindTunnelEvent | undefined;
+        const emit = (event: WindTunnelEvent) => {
+          if (event.type === "ttft") {
+            ttft = event.ttft as number;
+          } else if (event.type === "complete" || event.type === "cancelled" || event.type === "error") {
+            finished = event;
+            results[col] = getColumnResult(modelId, event, ttft);
+          }
+          writeEvent(res, { col, ...(trials > 1 && { trial, trials }), ...event });
+        };
+        try {
+          if (toolSettings) {
+            if (!getCatalogEntry(modelId)) {
+              throw new Error(`Unknown model: ${modelId}`);
             }
+            // The server runs the whole tool loop, so there's nothing to stream until it's done
+            const toolRun = await runToolBenchmark({
+              ...toolSettings,
+              modelId,
+              prompt: config.prompt,
+              system: config.system,
+              sampling: config.sampling,
+              signal: columnSignal,
+              schedule,
+            });
+            emit({ type: "complete", toolRun });
+          } else {
+            await streamModelRun(prepareModelRun(modelId, config), config, { emit, signal: columnSignal, schedule });
           }
+        } catch (error: any) {
+          emit(columnSignal.aborted
+            ? { type: "cancelled" }
+            : { type: "error", error: error.message, attempts: error.attempts });
         }
 
-        const latency = Date.now() - startTime;
-        const cost = calculateCost(modelId, inputTokens, outputTokens);
-        
-        res.write(`data: ${JSON.stringify({ 
-          type: 'complete',
-          content,
-          inputTokens,
-          outputTokens,
-          latency,
-          cost
-        })}\n\n`);
-        res.end();
-        console.log(`[Wind Tunnel] Claude complete in ${latency}ms - ${outputTokens} tokens`);
-        return;
+        // A stopped or failed trial ends the column; the spread covers the trials before it
+        if (finished?.type !== "complete") break;
+        completed.push(results[col]);
       }
-      
-      // Stream using OpenAI-compatible clients (Together, Cerebras, OpenRouter)
-      const client = getStreamingClient(modelId);
-      const actualModelId = getActualModelId(modelId);
-      
-      // Build prompt with text files included (non-Claude models mostly don't support vision)
-      let enhancedPrompt = prompt;
-      let hasImages = false;
-      
-      if (resolvedFiles && Array.isArray(resolvedFiles) && resolvedFiles.length > 0) {
-        const textParts: string[] = [];
-        
-        for (const file of resolvedFiles) {
-          if (file.type === 'text' && file.textContent) {
-            textParts.push(`[File: ${file.name}]\n${file.textContent}\n`);
-          } else if (file.type === 'image') {
-            hasImages = true;
-          }
-        }
-        
-        if (textParts.length > 0) {
-          enhancedPrompt = textParts.join('\n') + '\n' + prompt;
-        }
-        
-        if (hasImages) {
-          console.log(`[Wind Tunnel] Warning: ${modelId} does not support vision - images will be ignored`);
-          enhancedPrompt = `[Note: ${resolvedFiles.filter((f: any) => f.type === 'image').length} image(s) were uploaded but this model does not support vision]\n\n` + enhancedPrompt;
-        }
+
+      if (trials > 1 && completed.length > 0) {
+        const stats = summarizeTrials(completed);
+        results[col] = { ...results[col], trials: stats };
+        writeEvent(res, { col, type: "trials", stats });
       }
-      
-      // Update messages with enhanced prompt
-      const enhancedMessages: ChatMessage[] = [{ role: "user", content: enhancedPrompt }];
-      
-      // For Qwen3 models, disable thinking mode by appending /no_think to prompt
-      // Qwen3 in thinking mode returns empty content and puts response in reasoning field
-      const isQwen3 = actualModelId.includes('qwen3');
-      const streamMessages = isQwen3 
-        ? enhancedMessages.map((m, i) => 
-            i === enhancedMessages.length - 1 && m.role === 'user'
-              ? { ...m, content: m.content + ' /no_think' }
-              : m
-          )
-        : enhancedMessages;
-      
-      // Check if this is a search model
-      const isSearchModel = modelId.endsWith(':online');
-      const maxTokens = isSearchModel ? 512 : 1024;
-      
-      let content = "";
-      let latency = 0;
-      let inputTokens = 0;
-      let outputTokens = 0;
-      
-      // For search models, use non-streaming to properly capture the final response
-      // Streaming with :online models can miss content that comes via tool call results
-      if (isSearchModel) {
-        // Send initial progress indicator
-        res.write(`data: ${JSON.stringify({ 
-          type: 'token', 
-          content: '🔍 Searching the web...',
-          tokenCount: 0,
-          elapsed: Date.now() - startTime
-        })}\n\n`);
-        
-        try {
-          // Check if this is an OpenRouter model for provider preferences
-          const isOpenRouterModel = modelId.startsWith("openrouter/") || modelId.endsWith(":online");
-          
-          const completion = await client.chat.completions.create({
-            model: actualModelId,
-            messages: streamMessages,
-            max_tokens: maxTokens,
-            stream: false,
-            // Add OpenRouter provider preferences for latency optimization
-            ...(isOpenRouterModel && {
-              // @ts-ignore - OpenRouter-specific parameter
-              provider: {
-                order: ["Latency"],
-                allow_fallbacks: true
-              }
-            })
-          } as any);
-          
-          latency = Date.now() - startTime;
-          
-          // Validate response structure
-          if (!completion.choices || completion.choices.length === 0) {
-            console.error(`[Search Debug] ${modelId} - No choices in response:`, JSON.stringify(completion, null, 2));
-            throw new Error('No response from search model');
-          }
-          
-          // Get content from the response
-          content = completion.choices[0]?.message?.content || "";
-          
-          // If content is empty, check for tool call results
-          if (!content.trim()) {
-            const message = completion.choices[0]?.message as any;
-            console.log(`[Search Debug] ${modelId} message:`, JSON.stringify(message, null, 2));
-            
-            if (message?.tool_calls) {
-              for (const tc of message.tool_calls) {
-                console.log(`[Search Debug] Tool call:`, JSON.stringify(tc, null, 2));
-                if (tc.function?.arguments) {
-                  // Try to parse as JSON first
-                  try {
-                    const args = JSON.parse(tc.function.arguments);
-                    if (args.response) content += args.response;
-                    if (args.content) content += args.content;
-                    if (args.answer) content += args.answer;
-                    if (args.text) content += args.text;
-                    if (args.result) content += args.result;
-                    if (args.output) content += args.output;
-                  } catch (e) {
-                    // If not valid JSON, use the raw string as the response
-                    console.log(`[Search Debug] Not JSON, using raw arguments`);
-                    content += tc.function.arguments;
-                  }
-                }
-              }
-            }
-            
-            // Also check for reasoning field (some models put response there)
-            if (!content.trim() && message?.reasoning) {
-              content = message.reasoning;
-            }
-          }
-          
-          console.log(`[Search Debug] Final content length: ${content.length}`);
-          
-          // Use usage data if available
-          inputTokens = completion.usage?.prompt_tokens || Math.ceil(prompt.length / 4);
-          outputTokens = completion.usage?.completion_tokens || Math.ceil(content.length / 4);
-          
-          // Send the content
-          if (content.trim()) {
-            res.write(`data: ${JSON.stringify({ 
-              type: 'token', 
-              content: content,
-              tokenCount: outputTokens,
-              elapsed: latency
-            })}\n\n`);
-          }
-          
-          console.log(`[Wind Tunnel Stream] ${modelId} search completed in ${latency}ms, ${content.length} chars`);
-          
-        } catch (searchError: any) {
-          console.error(`[Wind Tunnel Stream] Search error for ${modelId}:`, searchError.message);
-          
-          // Check for context length errors - provide accurate, educational message
-          if (searchError.message?.includes('tokens') || searchError.message?.includes('context')) {
-            // Extract the model's actual limit from the error if available
-            const limitMatch = searchError.message.match(/maximum context length is (\d+)/);
-            const requestedMatch = searchError.message.match(/requested about (\d+)/);
-            const modelLimit = limitMatch ? parseInt(limitMatch[1]).toLocaleString() : "40K";
-            const requestedTokens = requestedMatch ? parseInt(requestedMatch[1]).toLocaleString() : "unknown";
-            
-            throw new Error(`Search context overflow: This search model's limit is ${modelLimit} tokens, but search results needed ${requestedTokens}. Search results can be very large (70K-140K tokens). Try a more specific prompt, or use 72B+ tiers which have larger search limits.`);
-          }
-          throw searchError;
-        }
-      } else {
-        // Regular streaming for non-search models
-        // Check if this is an OpenRouter model for provider preferences
-        const isOpenRouterModel = modelId.startsWith("openrouter/");
-        
-        const stream = await client.chat.completions.create({
-          model: actualModelId,
-          messages: streamMessages,
-          max_tokens: maxTokens,
-          stream: true,
-          // Add OpenRouter provider preferences for latency optimization
-          ...(isOpenRouterModel && {
-            // @ts-ignore - OpenRouter-specific parameter
-            provider: {
-              order: ["Latency"],
-              allow_fallbacks: true
-            }
-          })
-        } as any);
 
-        let tokenCount = 0;
-        let firstTokenTime = 0;
-        
-        for await (const chunk of stream) {
-          if (firstTokenTime === 0) {
-            firstTokenTime = Date.now() - startTime;
-          }
-          
-          const delta = chunk.choices[0]?.delta?.content || "";
-          if (delta) {
-            content += delta;
-            tokenCount += 1;
-            
-            // Send progress update
-            res.write(`data: ${JSON.stringify({ 
-              type: 'token', 
-              content: delta,
-              tokenCount,
-              elapsed: Date.now() - startTime
-            })}\n\n`);
-          }
+      // With a reference answer, the (last) answer is graded so the recommendation can require a correct one
+      if (grader && results[col] && !results[col].cancelled && !results[col].error) {
+        try {
+          const grade = await gradeAnswer(results[col].content, grader, { prompt: config.prompt, signal: columnSignal, schedule });
+          results[col] = { ...results[col], grade };
+          writeEvent(res, { col, type: "graded", grade });
+        } catch (error: any) {
+          console.error(`[Wind Tunnel Race] Could not grade ${col}: ${error.message}`);
+          writeEvent(res, { col, type: "graded", error: error.message });
         }
-        
-        latency = Date.now() - startTime;
-        inputTokens = Math.ceil(prompt.length / 4);
-        outputTokens = Math.ceil(content.length / 4);
       }
-      
-      const cost = calculateCost(modelId, inputTokens, outputTokens);
-
-      // Send final complete message
-      res.write(`data: ${JSON.stringify({ 
-        type: 'complete',
-        content,
-        inputTokens,
-        outputTokens,
-        latency,
-        cost
-      })}\n\n`);
-      
-      res.end();
-      console.log(`[Wind Tunnel Stream] ${modelId} completed in ${latency}ms`);
-      
+    }));
+
+    activeRaces.delete(raceId);
+
+    try {
+      const run = await storage.createBenchmarkRun({
+        prompt: config.prompt,
+        settings,
+        responses: results,
+        clientKey: schedule.userKey,
+      });
+      writeEvent(res, { type: "saved", runId: run.id });
+      console.log(`[Wind Tunnel Race] ${raceId} saved as run ${run.id}`);
     } catch (error: any) {
-      console.error(`[Wind Tunnel Stream] Error:`, error);
-      
-      // Provide friendly error messages for common issues
-      let userMessage = error.message;
-      
-      // Context length exceeded (common with search mode)
-      if (error.message?.includes('context length') || error.message?.includes('tokens')) {
-        userMessage = "Search results too large for this model's context window. Try a shorter prompt or use a larger model like Frontier.";
+      console.error(`[Wind Tunnel Race] Could not save ${raceId}: ${error.message}`);
+    }
+    writeEvent(res, { type: "done" });
+    res.end();
+  });
+
+  // Wind Tunnel: Stop one column of a running race (or all of them without `col`); the
+  // stopped column still reports what it streamed and cost
+  app.post("/api/wind-tunnel/race/:raceId/stop", (req, res) => {
+    const stops = activeRaces.get(req.params.raceId);
+    if (!stops) {
+      return res.status(404).json({ error: "Race not found - it may have finished" });
+    }
+    const { col } = req.body;
+    if (col !== undefined && (typeof col !== "string" || !stops.has(col))) {
+      return res.status(400).json({ error: `Unknown column: ${col}` });
+    }
+    stops.forEach((controller, key) => {
+      if (col === undefined || key === col) controller.abort();
+    });
+    res.json({ stopped: col ?? Array.from(stops.keys()) });
+  });
+
+  // Wind Tunnel: Run a saved suite across the columns over one SSE stream (see
+  // runCaseBatch): `started`, then `case` as each case starts and a graded `result` per
+  // column, and after the last case `scorecard` with every column's totals
+  app.post("/api/wind-tunnel/suite", async (req, res) => {
+    let columns: RaceColumn[];
+    let suite: BenchmarkSuite | undefined;
+    let cases: BatchRunCase[];
+    try {
+      columns = parseRaceColumns(req.body.columns);
+      if (!req.body.suiteId || typeof req.body.suiteId !== "string") {
+        throw new Error("Suite ID is required");
+      }
+      suite = await storage.getBenchmarkSuite(req.body.suiteId);
+      if (!suite) {
+        return res.status(404).json({ error: "Suite not found" });
       }
-      // Provider errors (model temporarily unavailable)
-      else if (error.message?.includes('Provider returned error') || error.status === 400) {
-        userMessage = "This model is temporarily unavailable. Please try again in a moment.";
+      // Run settings come from the request; prompt, files and grader from each case
+      cases = suite.cases.map((item) => ({
+        prompt: item.prompt,
+        grader: item.grader,
+        config: parseWindTunnelConfig({ ...req.body, prompt: item.prompt, responseFormat: undefined }, item.files ?? []),
+      }));
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    startEventStream(res);
+    const { signal } = abortOnDisconnect(res);
+    const schedule = getScheduleOptions(req);
+    console.log(`[Wind Tunnel Suite] "${suite.name}": ${cases.length} case(s) x ${columns.length} column(s)`);
+    const caseResults = await runCaseBatch(res, cases, columns, { signal, schedule });
+    const scorecards = summarizeSuite(cases, caseResults, columns);
+    writeEvent(res, { type: "scorecard", scorecards });
+
+    try {
+      const run = await storage.createSuiteRun({
+        suiteId: suite.id,
+        settings: getRaceSettings(req.body.settings, cases[0].config, columns),
+        caseResults,
+        scorecards,
+        clientKey: schedule.userKey,
+      });
+      writeEvent(res, { type: "saved", runId: run.id });
+      console.log(`[Wind Tunnel Suite] "${suite.name}" saved as run ${run.id}`);
+    } catch (error: any) {
+      console.error(`[Wind Tunnel Suite] Could not save "${suite.name}": ${error.message}`);
+    }
+    writeEvent(res, { type: "done" });
+    res.end();
+  });
+
+  // Wind Tunnel: Expand a prompt template (and its grader's expected answer) over a
+  // variables table and run the rows as a batch, with a suite run's events. `started`
+  // also carries each row's variables, for grouping results by row. Batches aren't saved -
+  // a benchmark keeps the template and its table for running again.
+  app.post("/api/wind-tunnel/batch", async (req, res) => {
+    let columns: RaceColumn[];
+    let cases: BatchRunCase[];
+    let rows: Record<string, string>[];
+    try {
+      columns = parseRaceColumns(req.body.columns);
+      if (!req.body.prompt || typeof req.body.prompt !== "string") {
+        throw new Error("Prompt is required");
       }
-      // Rate limiting
-      else if (error.status === 429) {
-        userMessage = "Too many requests. Please wait a moment and try again.";
+      const variables = parseTemplateRows(req.body.variables);
+      if (!variables) {
+        throw new Error("A variables table is required");
       }
-      
-      res.write(`data: ${JSON.stringify({ type: 'error', error: userMessage })}\n\n`);
-      res.end();
+      rows = variables;
+      const files = resolveWindTunnelFiles(req.body.fileIds, req.body.files);
+      cases = expandTemplate(req.body.prompt, req.body.grader, rows).map((item) => ({
+        prompt: item.prompt,
+        grader: item.grader,
+        config: parseWindTunnelConfig({ ...req.body, prompt: item.prompt, responseFormat: undefined }, files),
+      }));
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
     }
+
+    startEventStream(res);
+    const { signal } = abortOnDisconnect(res);
+    const schedule = getScheduleOptions(req);
+    console.log(`[Wind Tunnel Batch] ${cases.length} row(s) x ${columns.length} column(s)`);
+    const caseResults = await runCaseBatch(res, cases, columns, { signal, schedule, started: { rows } });
+    writeEvent(res, { type: "scorecard", scorecards: summarizeSuite(cases, caseResults, columns) });
+    writeEvent(res, { type: "done" });
+    res.end();
   });
 
   // Wind Tunnel: Run a single model (non-streaming fallback)
   app.post("/api/wind-tunnel/run", async (req, res) => {
     try {
-      const { modelId, prompt } = req.body;
+      const { modelId, prompt, includeReasoning } = req.body;
+      const reasoning = parseReasoningOptions(req.body.reasoning);
 
       if (!modelId || typeof modelId !== "string") {
         return res.status(400).json({ error: "Model ID is required" });
@@ -1683,6 +1369,19 @@ Format: Natural flowing answer with inline citations like [Cerebras: Llama 3.3 7
         return res.status(400).json({ error: "Prompt is required" });
       }
 
+      let system: string | undefined;
+      let sampling: SamplingParams | undefined;
+      let maxTokens: number | undefined;
+      let responseFormat: ResponseFormat | undefined;
+      try {
+        system = parseSystemPrompt(req.body.system);
+        sampling = parseSamplingParams(req.body.sampling);
+        maxTokens = parseMaxTokens(req.body.maxTokens);
+        responseFormat = parseResponseFormat(req.body.responseFormat);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
       console.log(`[Wind Tunnel] Running model: ${modelId}`);
 
       const messages: ChatMessage[] = [
@@ -1693,23 +1392,36 @@ Format: Natural flowing answer with inline citations like [Cerebras: Llama 3.3 7
       const result = await getModelCompletion({
         model: modelId,
         messages,
-        maxTokens: 1024,
+        system,
+        maxTokens: maxTokens ?? 1024,
         timeoutMs: 60000,
+        signal: abortOnDisconnect(res).signal,
+        schedule: getScheduleOptions(req),
+        reasoning,
+        sampling,
+        responseFormat,
       });
       const latency = Date.now() - startTime;
 
-      // Calculate cost
-      const cost = calculateCost(modelId, result.inputTokens, result.outputTokens);
+      const { cost, reasoningCost, priceVersion } = result;
 
       console.log(`[Wind Tunnel] Model ${modelId} responded in ${latency}ms, cost: $${cost.toFixed(6)}`);
 
       res.json({
         content: result.content,
+        reasoning: includeReasoning === true ? result.reasoning : undefined,
         modelId,
         inputTokens: result.inputTokens,
         outputTokens: result.outputTokens,
+        reasoningTokens: result.reasoningTokens ?? 0,
+        reasoningCost,
+        usageSource: result.usageSource,
+        structured: result.structured,
+        servedBy: result.servedBy,
+        attempts: result.attempts,
         latency,
         cost,
+        priceVersion,
       });
     } catch (error: any) {
       console.error(`[Wind Tunnel] Error:`, error);
@@ -1717,6 +1429,66 @@ Format: Natural flowing answer with inline citations like [Cerebras: Llama 3.3 7
     }
   });
 
+  // Wind Tunnel: Tool-calling benchmark - runs the tool loop against mock tools and scores it
+  app.post("/api/wind-tunnel/tools", async (req, res) => {
+    try {
+      const { modelId, prompt } = req.body;
+
+      if (!modelId || typeof modelId !== "string") {
+        return res.status(400).json({ error: "Model ID is required" });
+      }
+      if (!prompt || typeof prompt !== "string") {
+        return res.status(400).json({ error: "Prompt is required" });
+      }
+      if (!getCatalogEntry(modelId)) {
+        return res.status(400).json({ error: `Unknown model: ${modelId}` });
+      }
+
+      let settings: ToolRunSettings;
+      let system: string | undefined;
+      let sampling: SamplingParams | undefined;
+      try {
+        settings = parseToolRunSettings(req.body);
+        system = parseSystemPrompt(req.body.system);
+        sampling = parseSamplingParams(req.body.sampling);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      console.log(`[Wind Tunnel] Tool benchmark: ${modelId}, ${settings.tools.length} tool(s)`);
+
+      const result = await runToolBenchmark({
+        ...settings,
+        modelId,
+        prompt,
+        system,
+        sampling,
+        signal: abortOnDisconnect(res).signal,
+        schedule: getScheduleOptions(req),
+      });
+
+      res.json({ modelId, ...result });
+    } catch (error: any) {
+      console.error(`[Wind Tunnel] Tool benchmark error:`, error);
+      res.status(500).json({ error: error.message, attempts: error.attempts });
+    }
+  });
+
+  // Wind Tunnel: Rolling provider / model health and circuit-breaker state, so the grid can grey out failing bands
+  app.get("/api/providers/status", (_req, res) => {
+    res.json(getProviderStatus());
+  });
+
+  // Wind Tunnel: Models served by the self-hosted OpenAI-compatible server (re-discovered on each call)
+  app.get("/api/local-models", async (_req, res) => {
+    try {
+      const models = await discoverLocalModels();
+      res.json(models);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // ============================================
   // BENCHMARK LIBRARY API
   // ============================================
@@ -1742,11 +1514,23 @@ Format: Natural flowing answer with inline citations like [Cerebras: Llama 3.3 7
       if (!prompt || typeof prompt !== "string") {
         return res.status(400).json({ error: "Prompt is required" });
       }
+      // A templated prompt keeps its variables table; its grader is checked on every filled-in
+      // row and saved with the expected answer still templated
+      const variables = parseTemplateRows(req.body.variables);
+      let grader: GraderConfig | undefined;
+      if (variables) {
+        const [first] = expandTemplate(prompt, req.body.grader, variables);
+        grader = first.grader && { ...first.grader, expected: req.body.grader.expected };
+      } else {
+        grader = parseGrader(req.body.grader);
+      }
 
       const benchmark = await storage.createBenchmark({
         name,
         description: description || null,
         prompt,
+        grader: grader ?? null,
+        variables: variables ?? null,
       });
 
       console.log(`[Benchmark] Created: ${benchmark.name}`);
@@ -1791,6 +1575,17 @@ Format: Natural flowing answer with inline citations like [Cerebras: Llama 3.3 7
     }
   });
 
+  // Recent wind tunnel runs from this browser (newest first), for the run history
+  app.get("/api/benchmark-runs", async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+      const runs = await storage.getRecentBenchmarkRuns(getScheduleOptions(req).userKey, limit);
+      res.json(runs);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Get a single benchmark run
   app.get("/api/benchmark-runs/:id", async (req, res) => {
     try {
@@ -1830,6 +1625,139 @@ Format: Natural flowing answer with inline citations like [Cerebras: Llama 3.3 7
     }
   });
 
+  // ============================================
+  // BENCHMARK SUITES API
+  // ============================================
+
+  // Get all suites
+  app.get("/api/suites", async (_req, res) => {
+    try {
+      const suites = await storage.getBenchmarkSuites();
+      res.json(suites);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Create a suite; case files are stored with it
+  app.post("/api/suites", async (req, res) => {
+    try {
+      const { name, description } = req.body;
+
+      if (!name || typeof name !== "string") {
+        return res.status(400).json({ error: "Name is required" });
+      }
+      const cases = parseSuiteCases(req.body.cases, resolveWindTunnelFiles);
+
+      const suite = await storage.createBenchmarkSuite({
+        name,
+        description: description || null,
+        cases,
+      });
+
+      console.log(`[Suite] Created: ${suite.name} (${cases.length} cases)`);
+      res.json(suite);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Check a JSONL or CSV dataset against a column mapping without saving anything
+  app.post("/api/suites/import/preview", async (req, res) => {
+    try {
+      if (typeof req.body.text !== "string") {
+        return res.status(400).json({ error: "The dataset text is required" });
+      }
+      const dataset = parseDataset(req.body.text, parseImportOptions(req.body));
+      res.json(previewDataset(dataset));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Create a suite from a JSONL or CSV dataset. Every row must be valid, unless
+  // `skipInvalid` is set (then bad rows are left out).
+  app.post("/api/suites/import", async (req, res) => {
+    try {
+      const { name, description, text } = req.body;
+
+      if (!name || typeof name !== "string") {
+        return res.status(400).json({ error: "Name is required" });
+      }
+      if (typeof text !== "string") {
+        return res.status(400).json({ error: "The dataset text is required" });
+      }
+      const dataset = parseDataset(text, parseImportOptions(req.body));
+      const invalid = dataset.rows.filter((row) => row.error);
+      if (invalid.length > 0 && req.body.skipInvalid !== true) {
+        const first = invalid[0];
+        return res.status(400).json({ error: `${invalid.length} row(s) are invalid - line ${first.line}: ${first.error}` });
+      }
+      const cases = dataset.rows.flatMap((row) => row.case ? [row.case] : []);
+      if (cases.length === 0) {
+        return res.status(400).json({ error: "No valid rows to import" });
+      }
+
+      const suite = await storage.createBenchmarkSuite({
+        name,
+        description: description || null,
+        cases,
+      });
+
+      console.log(`[Suite] Imported: ${suite.name} (${cases.length} cases, ${invalid.length} skipped)`);
+      res.json(suite);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Download a suite as JSONL or CSV (imports back with the default mapping)
+  app.get("/api/suites/:id/export", async (req, res) => {
+    try {
+      const format = req.query.format === "csv" ? "csv" : "jsonl";
+      const suite = await storage.getBenchmarkSuite(req.params.id);
+
+      if (!suite) {
+        return res.status(404).json({ error: "Suite not found" });
+      }
+
+      const fileName = suite.name.replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "") || "suite";
+      res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}.${format}"`);
+      res.send(exportSuite(suite.cases, format));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Delete a suite (and its runs)
+  app.delete("/api/suites/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deleteBenchmarkSuite(id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Suite not found" });
+      }
+
+      console.log(`[Suite] Deleted: ${id}`);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Recent runs of a suite (newest first), with their scorecards
+  app.get("/api/suites/:id/runs", async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 10, 1), 50);
+      const runs = await storage.getSuiteRuns(req.params.id, limit);
+      res.json(runs);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // ============================================
   // PUBLIC LEADERBOARD API
   // ============================================
@@ -1868,6 +1796,48 @@ Format: Natural flowing answer with inline citations like [Cerebras: Llama 3.3 7
     }
   });
 
+  // ============================================
+  // PRICING API
+  // ============================================
+
+  // Price versions, oldest first (optionally for one model)
+  app.get("/api/pricing", (req, res) => {
+    const modelId = typeof req.query.modelId === "string" ? req.query.modelId : undefined;
+    res.json(listPriceVersions(modelId));
+  });
+
+  // The version a stored cost was computed with (its `priceVersion`)
+  app.get("/api/pricing/versions/:id", (req, res) => {
+    const price = findPriceVersion(req.params.id);
+    if (!price) {
+      return res.status(404).json({ error: "Price version not found" });
+    }
+    res.json(price);
+  });
+
+  // Admin: add a price version. There's no editing - a change is a new version with its own effectiveFrom.
+  app.post("/api/admin/pricing", requireAdmin, async (req, res) => {
+    try {
+      const input = insertModelPriceSchema.parse(req.body);
+      res.json(await addPriceVersion(input));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Admin: withdraw a version that hasn't taken effect yet
+  app.delete("/api/admin/pricing/:id", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await deletePriceVersion(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Price version not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
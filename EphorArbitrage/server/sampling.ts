@@ -0,0 +1,121 @@
+import type { SamplingParams } from "@shared/schema";
+import type { ChatMessage } from "./types";
+
+// System prompt and sampling parameters.
+//
+// Callers pass the system prompt separately (`system`) and it is added as a leading
+// "system" message; the Anthropic adapter lifts system messages back out into its
+// top-level `system` field. Sampling uses our camelCase names and is mapped to each
+// provider's fields here.
+
+const MAX_STOP_SEQUENCES = 4;
+const MAX_OUTPUT_TOKENS = 32768;
+
+function checkRange(name: string, value: unknown, min: number, max: number): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+// Validate a `sampling` block from a request body (throws with a user-facing message)
+export function parseSamplingParams(value: unknown): SamplingParams | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "object") {
+    throw new Error("sampling must be an object");
+  }
+  const body = value as Record<string, unknown>;
+
+  const seed = checkRange("seed", body.seed, 0, Number.MAX_SAFE_INTEGER);
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    throw new Error("seed must be an integer");
+  }
+
+  let stop: string[] | undefined;
+  if (body.stop !== undefined && body.stop !== null) {
+    const list = typeof body.stop === "string" ? [body.stop] : body.stop;
+    if (!Array.isArray(list) || !list.every((item) => typeof item === "string" && item.length > 0)) {
+      throw new Error("stop must be a string or an array of non-empty strings");
+    }
+    if (list.length > MAX_STOP_SEQUENCES) {
+      throw new Error(`stop accepts at most ${MAX_STOP_SEQUENCES} sequences`);
+    }
+    stop = list.length > 0 ? list : undefined;
+  }
+
+  const sampling: SamplingParams = {
+    temperature: checkRange("temperature", body.temperature, 0, 2),
+    topP: checkRange("topP", body.topP, 0, 1),
+    seed,
+    stop,
+  };
+  return Object.values(sampling).some((field) => field !== undefined) ? sampling : undefined;
+}
+
+// Validate an answer-length cap from a request body
+export function parseMaxTokens(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > MAX_OUTPUT_TOKENS) {
+    throw new Error(`maxTokens must be an integer between 1 and ${MAX_OUTPUT_TOKENS}`);
+  }
+  return value;
+}
+
+// Validate a system prompt from a request body; blank means none
+export function parseSystemPrompt(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new Error("system must be a string");
+  }
+  return value.trim() ? value : undefined;
+}
+
+// Prepend the system prompt (if any) as a "system" message
+export function withSystemPrompt<T extends { role: string }>(
+  messages: T[],
+  system: string | undefined
+): Array<T | ChatMessage> {
+  return system ? [{ role: "system", content: system }, ...messages] : messages;
+}
+
+// OpenAI-compatible request fields
+export function getSamplingParams(sampling: SamplingParams | undefined): Record<string, unknown> {
+  if (!sampling) return {};
+  return {
+    ...(sampling.temperature !== undefined && { temperature: sampling.temperature }),
+    ...(sampling.topP !== undefined && { top_p: sampling.topP }),
+    ...(sampling.seed !== undefined && { seed: sampling.seed }),
+    ...(sampling.stop && { stop: sampling.stop }),
+  };
+}
+
+// Anthropic request fields. There is no seed, and extended thinking only runs
+// with the default temperature / top_p, so those are dropped when it's on.
+export function getAnthropicSamplingParams(
+  sampling: SamplingParams | undefined,
+  thinkingEnabled: boolean
+): Record<string, unknown> {
+  if (!sampling) return {};
+  if (thinkingEnabled && (sampling.temperature !== undefined || sampling.topP !== undefined)) {
+    console.warn("[Anthropic] Ignoring temperature / top_p: extended thinking requires the defaults");
+  }
+  return {
+    // Anthropic temperatures run 0-1 rather than 0-2
+    ...(!thinkingEnabled && sampling.temperature !== undefined && { temperature: Math.min(sampling.temperature, 1) }),
+    ...(!thinkingEnabled && sampling.topP !== undefined && { top_p: sampling.topP }),
+    ...(sampling.stop && { stop_sequences: sampling.stop }),
+  };
+}
+
+// Anthropic takes the system prompt as a top-level field, not as a message
+export function splitSystemMessages(messages: ChatMessage[]): {
+  system: string | undefined;
+  messages: ChatMessage[];
+} {
+  const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+  return {
+    system: system || undefined,
+    messages: messages.filter((m) => m.role !== "system"),
+  };
+}
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { acquireProviderSlot, estimateCallTokens, getProviderLimits, type ProviderSlot } from "./scheduler";
+
+// Queues live as long as the server, so each test uses its own provider
+let provider: string;
+let providerCount = 0;
+
+function limit(limits: Record<string, number>) {
+  vi.stubEnv("PROVIDER_LIMITS", JSON.stringify({ [provider]: limits }));
+}
+
+function acquire(userKey: string, options: { estimatedTokens?: number; signal?: AbortSignal; onQueued?: (position: number) => void } = {}) {
+  return acquireProviderSlot(provider, { userKey, estimatedTokens: options.estimatedTokens ?? 1, ...options });
+}
+
+// Which of `slots` have started
+async function started(slots: Promise<ProviderSlot>[]): Promise<boolean[]> {
+  const done = slots.map(() => false);
+  slots.forEach((slot, index) => slot.then(() => (done[index] = true), () => {}));
+  await vi.advanceTimersByTimeAsync(0);
+  return done;
+}
+
+beforeEach(() => {
+  provider = `test-provider-${++providerCount}`;
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("acquireProviderSlot", () => {
+  it("runs up to the concurrency cap and starts the next call when one finishes", async () => {
+    limit({ maxConcurrency: 2 });
+    const slots = [acquire("a"), acquire("a"), acquire("a")];
+    expect(await started(slots)).toEqual([true, true, false]);
+
+    (await slots[0]).release();
+    expect(await started(slots)).toEqual([true, true, true]);
+  });
+
+  it("takes turns between users instead of first come, first served", async () => {
+    limit({ maxConcurrency: 1 });
+    const running = await acquire("a");
+    const order: string[] = [];
+    // Each call finishes as soon as it starts, letting the next one in
+    const run = (userKey: string, name: string) => acquire(userKey).then((slot) => {
+      order.push(name);
+      slot.release();
+    });
+    const queued = [run("a", "a2"), run("a", "a3"), run("b", "b1")];
+
+    running.release();
+    await Promise.all(queued);
+    expect(order).toEqual(["a2", "b1", "a3"]);
+  });
+
+  it("reports each waiting call's place in line, then 0 when it starts", async () => {
+    limit({ maxConcurrency: 1 });
+    const running = await acquire("a");
+    const positions: number[] = [];
+    const waiting = acquire("b", { onQueued: (position) => positions.push(position) });
+    acquire("c");
+    await started([waiting]);
+    expect(positions).toEqual([1]);
+
+    running.release();
+    await waiting;
+    expect(positions).toEqual([1, 0]);
+  });
+
+  it("drops a call from the queue when it's cancelled while waiting", async () => {
+    limit({ maxConcurrency: 1 });
+    const running = await acquire("a");
+    const controller = new AbortController();
+    const cancelled = acquire("b", { signal: controller.signal });
+    const next = acquire("c");
+
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ cancelled: true });
+    running.release();
+    expect(await started([next])).toEqual([true]);
+  });
+
+  it("holds calls back once the requests-per-minute bucket is empty", async () => {
+    limit({ maxConcurrency: 8, requestsPerMinute: 2 });
+    const slots = [acquire("a"), acquire("a"), acquire("a")];
+    expect(await started(slots)).toEqual([true, true, false]);
+
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(await started(slots)).toEqual([true, true, false]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await started(slots)).toEqual([true, true, true]);
+  });
+
+  it("charges the token estimate up front and settles it with the real count", async () => {
+    limit({ maxConcurrency: 8, tokensPerMinute: 1000 });
+    const first = await acquire("a", { estimatedTokens: 900 });
+    const second = acquire("a", { estimatedTokens: 500 });
+    expect(await started([second])).toEqual([false]);
+
+    // The call used far less than estimated: the difference goes back in the bucket
+    first.release(100);
+    expect(await started([second])).toEqual([true]);
+  });
+});
+
+describe("limits", () => {
+  it("layers PROVIDER_LIMITS over the provider defaults", () => {
+    expect(getProviderLimits("minimax")).toEqual({ maxConcurrency: 4 });
+    vi.stubEnv("PROVIDER_LIMITS", JSON.stringify({ minimax: { tokensPerMinute: 6000 } }));
+    expect(getProviderLimits("minimax")).toEqual({ maxConcurrency: 4, tokensPerMinute: 6000 });
+  });
+
+  it("estimates a call from its input and output allowance", () => {
+    expect(estimateCallTokens("x".repeat(400), 100)).toBe(200);
+    expect(estimateCallTokens("")).toBe(1024);
+  });
+});
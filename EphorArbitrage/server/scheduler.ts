@@ -0,0 +1,232 @@
+import type { ProviderId } from "@shared/models";
+import { ProviderError } from "./errors";
+
+// Per-provider request scheduler.
+//
+// Every upstream call takes a slot from its provider's queue first (runWithFallback
+// does this for each try). A provider has a concurrency cap and, optionally, token
+// buckets for requests and tokens per minute. When it's saturated, calls wait in a
+// queue that is fair across users: one call per user in turn, so one class member
+// running six columns doesn't push everyone else's calls behind all six.
+//
+// PROVIDER_LIMITS overrides the defaults (JSON, keyed by provider ID), e.g.
+//   {"groq": {"maxConcurrency": 4, "requestsPerMinute": 30, "tokensPerMinute": 6000}}
+
+export interface ProviderLimits {
+  maxConcurrency: number;
+  requestsPerMinute?: number;  // Unlimited when omitted
+  tokensPerMinute?: number;    // Input + output; unlimited when omitted
+}
+
+export interface ScheduleOptions {
+  userKey: string;                        // Fair-share key (one browser / client)
+  onQueued?: (position: number) => void;  // 1-based place in line while waiting, then 0 when the call starts
+}
+
+export interface SlotRequest extends ScheduleOptions {
+  estimatedTokens: number;  // Charged to the tokens-per-minute bucket up front
+  signal?: AbortSignal;
+}
+
+export interface ProviderSlot {
+  // Give the slot back; pass the real token count to settle the up-front estimate
+  release(actualTokens?: number): void;
+}
+
+const DEFAULT_LIMITS: ProviderLimits = { maxConcurrency: 8 };
+
+const DEFAULT_PROVIDER_LIMITS: Partial<Record<ProviderId, Partial<ProviderLimits>>> = {
+  minimax: { maxConcurrency: 4 },
+  local: { maxConcurrency: 2 },   // Usually a single GPU box
+  mock: { maxConcurrency: 64 },
+};
+
+// Output allowance assumed when a request doesn't set max tokens
+const DEFAULT_OUTPUT_ESTIMATE = 1024;
+const MS_PER_MINUTE = 60000;
+
+export const SERVER_USER_KEY = "server";
+
+function parseLimitsEnv(): Record<string, Partial<ProviderLimits>> {
+  const raw = process.env.PROVIDER_LIMITS;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn("[Scheduler] PROVIDER_LIMITS is not valid JSON - using defaults");
+    return {};
+  }
+}
+
+export function getProviderLimits(provider: string): ProviderLimits {
+  return {
+    ...DEFAULT_LIMITS,
+    ...DEFAULT_PROVIDER_LIMITS[provider as ProviderId],
+    ...parseLimitsEnv()[provider],
+  };
+}
+
+// Rough size of a call for the token bucket: ~4 characters per token plus the output allowance
+export function estimateCallTokens(inputText: string, maxTokens?: number): number {
+  return Math.ceil(inputText.length / 4) + (maxTokens ?? DEFAULT_OUTPUT_ESTIMATE);
+}
+
+// Refills continuously at `perMinute`. Taking more than is left drives it negative,
+// so one oversized call delays the ones after it instead of never running.
+class TokenBucket {
+  private level: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly perMinute: number) {
+    this.level = perMinute;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.level = Math.min(this.perMinute, this.level + ((now - this.updatedAt) * this.perMinute) / MS_PER_MINUTE);
+    this.updatedAt = now;
+  }
+
+  // Milliseconds until `amount` can be taken (0 = now)
+  waitFor(amount: number): number {
+    this.refill();
+    const missing = Math.min(amount, this.perMinute) - this.level;
+    return missing <= 0 ? 0 : Math.ceil((missing * MS_PER_MINUTE) / this.perMinute);
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.level -= amount;
+  }
+}
+
+interface QueuedCall {
+  estimatedTokens: number;
+  onQueued?: (position: number) => void;
+  lastPosition?: number;
+  start: () => void;
+}
+
+class ProviderQueue {
+  private active = 0;
+  // Waiting calls per user; Map order is the round-robin order (a served user moves to the back)
+  private waiting = new Map<string, QueuedCall[]>();
+  private timer?: NodeJS.Timeout;
+  private readonly requests?: TokenBucket;
+  private readonly tokens?: TokenBucket;
+
+  constructor(private readonly provider: string, private readonly limits: ProviderLimits) {
+    if (limits.requestsPerMinute) this.requests = new TokenBucket(limits.requestsPerMinute);
+    if (limits.tokensPerMinute) this.tokens = new TokenBucket(limits.tokensPerMinute);
+  }
+
+  acquire(request: SlotRequest): Promise<ProviderSlot> {
+    return new Promise((resolve, reject) => {
+      if (request.signal?.aborted) {
+        return reject(new ProviderError("Request cancelled", { cancelled: true }));
+      }
+
+      const call: QueuedCall = {
+        estimatedTokens: request.estimatedTokens,
+        onQueued: request.onQueued,
+        start: () => {
+          request.signal?.removeEventListener("abort", onAbort);
+          if (call.lastPosition !== undefined) call.onQueued?.(0);
+          resolve(this.startCall(request.estimatedTokens));
+        },
+      };
+      const onAbort = () => {
+        this.remove(request.userKey, call);
+        reject(new ProviderError("Request cancelled", { cancelled: true }));
+      };
+      request.signal?.addEventListener("abort", onAbort, { once: true });
+
+      const queue = this.waiting.get(request.userKey) ?? [];
+      queue.push(call);
+      this.waiting.set(request.userKey, queue);
+      this.pump();
+    });
+  }
+
+  private startCall(estimatedTokens: number): ProviderSlot {
+    this.active++;
+    this.requests?.take(1);
+    this.tokens?.take(estimatedTokens);
+
+    let released = false;
+    return {
+      release: (actualTokens?: number) => {
+        if (released) return;
+        released = true;
+        this.active--;
+        if (actualTokens !== undefined) {
+          this.tokens?.take(actualTokens - estimatedTokens);
+        }
+        this.pump();
+      },
+    };
+  }
+
+  private remove(userKey: string, call: QueuedCall): void {
+    const queue = this.waiting.get(userKey);
+    if (!queue) return;
+    const index = queue.indexOf(call);
+    if (index !== -1) queue.splice(index, 1);
+    if (queue.length === 0) this.waiting.delete(userKey);
+    this.reportPositions();
+  }
+
+  // Start as many calls as the limits allow, in round-robin order across users
+  private pump(): void {
+    while (this.waiting.size > 0 && this.active < this.limits.maxConcurrency) {
+      const [userKey, queue] = this.waiting.entries().next().value!;
+      const next = queue[0];
+      const waitMs = Math.max(this.requests?.waitFor(1) ?? 0, this.tokens?.waitFor(next.estimatedTokens) ?? 0);
+      if (waitMs > 0) {
+        this.timer ??= setTimeout(() => {
+          this.timer = undefined;
+          this.pump();
+        }, waitMs);
+        break;
+      }
+
+      queue.shift();
+      this.waiting.delete(userKey);
+      if (queue.length > 0) this.waiting.set(userKey, queue);
+      next.start();
+    }
+    this.reportPositions();
+  }
+
+  // A call's place in line: everything the round-robin will start before it, plus one
+  private reportPositions(): void {
+    const users = Array.from(this.waiting.values());
+    users.forEach((queue, userIndex) => {
+      queue.forEach((call, index) => {
+        const aheadInEarlierRounds = users.reduce((sum, other) => sum + Math.min(other.length, index), 0);
+        const aheadThisRound = users.slice(0, userIndex).filter((other) => other.length > index).length;
+        const position = aheadInEarlierRounds + aheadThisRound + 1;
+        if (position !== call.lastPosition) {
+          call.lastPosition = position;
+          call.onQueued?.(position);
+        }
+      });
+    });
+    if (users.length > 0) {
+      const queued = users.reduce((sum, queue) => sum + queue.length, 0);
+      console.log(`[Scheduler] ${this.provider}: ${this.active} running, ${queued} queued`);
+    }
+  }
+}
+
+const queues = new Map<string, ProviderQueue>();
+
+// Wait for a slot on `provider`; rejects with a cancelled ProviderError if the signal fires first
+export function acquireProviderSlot(provider: string, request: SlotRequest): Promise<ProviderSlot> {
+  let queue = queues.get(provider);
+  if (!queue) {
+    queue = new ProviderQueue(provider, getProviderLimits(provider));
+    queues.set(provider, queue);
+  }
+  return queue.acquire(request);
+}
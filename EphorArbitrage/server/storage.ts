@@ -8,13 +8,21 @@ import {
   type InsertBenchmark,
   type BenchmarkRun,
   type InsertBenchmarkRun,
+  type BenchmarkSuite,
+  type InsertBenchmarkSuite,
+  type SuiteRun,
+  type InsertSuiteRun,
   type LeaderboardEntry,
   type InsertLeaderboardEntry,
+  type ModelPrice,
   chats,
   messages,
   benchmarks,
   benchmarkRuns,
-  leaderboardEntries
+  benchmarkSuites,
+  suiteRuns,
+  leaderboardEntries,
+  modelPrices
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { db } from "./db";
@@ -44,11 +52,24 @@ export interface IStorage {
   
   getBenchmarkRuns(benchmarkId: string): Promise<BenchmarkRun[]>;
   getBenchmarkRun(id: string): Promise<BenchmarkRun | undefined>;
+  getRecentBenchmarkRuns(clientKey: string, limit: number): Promise<BenchmarkRun[]>;
   createBenchmarkRun(run: InsertBenchmarkRun): Promise<BenchmarkRun>;
   updateBenchmarkRun(id: string, data: Partial<BenchmarkRun>): Promise<BenchmarkRun | undefined>;
   
+  getBenchmarkSuites(): Promise<BenchmarkSuite[]>;
+  getBenchmarkSuite(id: string): Promise<BenchmarkSuite | undefined>;
+  createBenchmarkSuite(suite: InsertBenchmarkSuite): Promise<BenchmarkSuite>;
+  deleteBenchmarkSuite(id: string): Promise<boolean>;
+  getSuiteRuns(suiteId: string, limit: number): Promise<SuiteRun[]>;
+  createSuiteRun(run: InsertSuiteRun): Promise<SuiteRun>;
+  
   getLeaderboardEntries(): Promise<LeaderboardEntry[]>;
   createLeaderboardEntry(entry: InsertLeaderboardEntry): Promise<LeaderboardEntry>;
+  
+  // Price versions are built (ID included) by server/pricing.ts, which caches them
+  getModelPrices(): Promise<ModelPrice[]>;
+  createModelPrice(price: ModelPrice): Promise<ModelPrice>;
+  deleteModelPrice(id: string): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -147,6 +168,13 @@ export class DatabaseStorage implements IStorage {
     return result || undefined;
   }
 
+  async getRecentBenchmarkRuns(clientKey: string, limit: number): Promise<BenchmarkRun[]> {
+    return await db.select().from(benchmarkRuns)
+      .where(eq(benchmarkRuns.clientKey, clientKey))
+      .orderBy(desc(benchmarkRuns.runAt))
+      .limit(limit);
+  }
+
   async createBenchmarkRun(insertRun: InsertBenchmarkRun): Promise<BenchmarkRun> {
     const id = randomUUID();
     const [run] = await db.insert(benchmarkRuns).values({
@@ -165,6 +193,47 @@ export class DatabaseStorage implements IStorage {
     return result || undefined;
   }
 
+  async getBenchmarkSuites(): Promise<BenchmarkSuite[]> {
+    return await db.select().from(benchmarkSuites).orderBy(desc(benchmarkSuites.createdAt));
+  }
+
+  async getBenchmarkSuite(id: string): Promise<BenchmarkSuite | undefined> {
+    const [result] = await db.select().from(benchmarkSuites).where(eq(benchmarkSuites.id, id));
+    return result || undefined;
+  }
+
+  async createBenchmarkSuite(insertSuite: InsertBenchmarkSuite): Promise<BenchmarkSuite> {
+    const id = randomUUID();
+    const [suite] = await db.insert(benchmarkSuites).values({
+      ...insertSuite,
+      id,
+      createdAt: new Date(),
+    }).returning();
+    return suite;
+  }
+
+  async deleteBenchmarkSuite(id: string): Promise<boolean> {
+    const result = await db.delete(benchmarkSuites).where(eq(benchmarkSuites.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getSuiteRuns(suiteId: string, limit: number): Promise<SuiteRun[]> {
+    return await db.select().from(suiteRuns)
+      .where(eq(suiteRuns.suiteId, suiteId))
+      .orderBy(desc(suiteRuns.runAt))
+      .limit(limit);
+  }
+
+  async createSuiteRun(insertRun: InsertSuiteRun): Promise<SuiteRun> {
+    const id = randomUUID();
+    const [run] = await db.insert(suiteRuns).values({
+      ...insertRun,
+      id,
+      runAt: new Date(),
+    }).returning();
+    return run;
+  }
+
   async getLeaderboardEntries(): Promise<LeaderboardEntry[]> {
     return await db.select().from(leaderboardEntries).orderBy(desc(leaderboardEntries.createdAt));
   }
@@ -178,6 +247,20 @@ export class DatabaseStorage implements IStorage {
     }).returning();
     return entry;
   }
+
+  async getModelPrices(): Promise<ModelPrice[]> {
+    return await db.select().from(modelPrices).orderBy(asc(modelPrices.effectiveFrom));
+  }
+
+  async createModelPrice(price: ModelPrice): Promise<ModelPrice> {
+    const [result] = await db.insert(modelPrices).values(price).returning();
+    return result;
+  }
+
+  async deleteModelPrice(id: string): Promise<boolean> {
+    const result = await db.delete(modelPrices).where(eq(modelPrices.id, id)).returning();
+    return result.length > 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
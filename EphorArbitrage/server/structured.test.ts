@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { JsonSchema } from "@shared/schema";
+import { extractJson, validateJsonSchema } from "./structured";
+
+describe("extractJson", () => {
+  it("parses plain JSON as is", () => {
+    expect(extractJson(' {"city": "Paris"} ')).toEqual({ value: { city: "Paris" }, repaired: false });
+  });
+
+  it("digs JSON out of prose and code fences", () => {
+    expect(extractJson('Here you go:\n```json\n{"city": "Paris", "tags": ["a", "b"]}\n```\nAnything else?')).toEqual({
+      value: { city: "Paris", tags: ["a", "b"] },
+      repaired: true,
+    });
+  });
+
+  it("repairs trailing commas, typographic quotes and truncated output", () => {
+    expect(extractJson('Result: {"items": [1, 2,], }')?.value).toEqual({ items: [1, 2] });
+    expect(extractJson("{“city”: “Paris”}")?.value).toEqual({ city: "Paris" });
+    expect(extractJson('{"city": "Par')?.value).toEqual({ city: "Par" });
+  });
+
+  it("skips brackets that don't start JSON", () => {
+    expect(extractJson('See [the docs] for details. {"ok": true}')?.value).toEqual({ ok: true });
+  });
+
+  it("gives up when there is no JSON", () => {
+    expect(extractJson("No structured answer, sorry.")).toBeUndefined();
+  });
+});
+
+describe("validateJsonSchema", () => {
+  const schema: JsonSchema = {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 },
+      age: { type: "integer", minimum: 0, maximum: 150 },
+      role: { enum: ["admin", "user"] },
+      tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+    },
+    required: ["name", "age"],
+    additionalProperties: false,
+  };
+
+  it("accepts a matching value", () => {
+    expect(validateJsonSchema({ name: "Ada", age: 36, role: "admin", tags: ["math"] }, schema)).toEqual([]);
+  });
+
+  it("reports every violation with its path", () => {
+    expect(validateJsonSchema({ name: "", age: 200, role: "root", tags: ["a", 2, "c"], extra: true }, schema)).toEqual([
+      "$.name: shorter than 1 characters",
+      "$.age: 200 is above the maximum of 150",
+      '$.role: must be one of "admin", "user"',
+      "$.tags: has 3 items, allows at most 2",
+      "$.tags[1]: expected string, got integer",
+      '$: unexpected property "extra"',
+    ]);
+  });
+
+  it("reports missing required properties", () => {
+    expect(validateJsonSchema({ name: "Ada" }, schema)).toEqual(['$: missing required property "age"']);
+  });
+
+  it("stops at a type mismatch", () => {
+    expect(validateJsonSchema([1, 2], schema)).toEqual(["$: expected object, got array"]);
+    expect(validateJsonSchema(1.5, { type: "integer" })).toEqual(["$: expected integer, got number"]);
+    expect(validateJsonSchema(3, { type: "number" })).toEqual([]);
+  });
+
+  it("checks additional properties against a schema", () => {
+    expect(validateJsonSchema({ a: 1, b: "2" }, { type: "object", additionalProperties: { type: "number" } }))
+      .toEqual(["$.b: expected number, got string"]);
+  });
+});
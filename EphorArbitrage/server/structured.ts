@@ -0,0 +1,288 @@
+import type { ProviderId } from "@shared/models";
+import type { JsonSchema, SchemaCompliance, StructuredOutputCheck, StructuredOutputMode } from "@shared/schema";
+import type { ReasoningOptions, ResponseFormat } from "./types";
+
+// Structured (JSON Schema) output.
+//
+// Each provider gets the strongest enforcement it offers: constrained decoding via
+// `response_format: json_schema`, plain JSON mode, or a forced Anthropic tool call.
+// Whatever comes back is then parsed, repaired if needed (prose around the JSON,
+// code fences, trailing commas, output cut off by max_tokens) and validated here,
+// so every model gets the same compliance verdict whatever the provider promised.
+
+const MAX_REPORTED_ERRORS = 10;
+const MAX_JSON_CANDIDATES = 20;
+const SCHEMA_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+const SCHEMA_TYPES = new Set(["object", "array", "string", "number", "integer", "boolean", "null"]);
+
+// Groq only constrains decoding for some models; the rest get JSON mode
+const GROQ_JSON_SCHEMA_MODELS = /gpt-oss|kimi-k2|llama-4/i;
+
+// Validate a `responseFormat` block from a request body (throws with a user-facing message)
+export function parseResponseFormat(value: unknown): ResponseFormat | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "object") {
+    throw new Error("responseFormat must be an object");
+  }
+  const { name = "response", schema } = value as Record<string, unknown>;
+  if (typeof name !== "string" || !SCHEMA_NAME.test(name)) {
+    throw new Error("responseFormat.name may only use letters, digits, _ and - (max 64)");
+  }
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error("responseFormat.schema must be a JSON Schema object");
+  }
+  const type = (schema as JsonSchema).type;
+  const types = Array.isArray(type) ? type : type === undefined ? [] : [type];
+  if (!types.every((item) => SCHEMA_TYPES.has(item))) {
+    throw new Error(`responseFormat.schema has an unsupported type: ${JSON.stringify(type)}`);
+  }
+  return { name, schema: schema as JsonSchema };
+}
+
+// Anthropic tool inputs must be objects, and forced tool use can't be combined with extended thinking
+function canUseAnthropicTool(format: ResponseFormat, reasoning: ReasoningOptions | undefined): boolean {
+  return format.schema.type === "object" && !reasoning?.enabled;
+}
+
+export function getStructuredOutputMode(
+  provider: ProviderId,
+  upstreamId: string,
+  format: ResponseFormat,
+  reasoning?: ReasoningOptions
+): StructuredOutputMode {
+  switch (provider) {
+    case "openrouter":
+    case "cerebras":
+    case "together":
+    case "local":
+      return "json_schema";
+    case "groq":
+      return GROQ_JSON_SCHEMA_MODELS.test(upstreamId) ? "json_schema" : "json_object";
+    case "deepseek":
+      return "json_object";
+    case "anthropic":
+      return canUseAnthropicTool(format, reasoning) ? "tool" : "prompt";
+    default:
+      return "prompt";
+  }
+}
+
+// Strict decoding needs every object closed (additionalProperties: false) with all properties required
+function isStrictCompatible(schema: JsonSchema): boolean {
+  if (schema.properties) {
+    const keys = Object.keys(schema.properties);
+    if (schema.additionalProperties !== false) return false;
+    if (!keys.every((key) => schema.required?.includes(key))) return false;
+    if (!Object.values(schema.properties).every(isStrictCompatible)) return false;
+  }
+  return !schema.items || isStrictCompatible(schema.items);
+}
+
+// Extra request-body fields for an OpenAI-compatible provider
+export function getResponseFormatParams(
+  provider: ProviderId,
+  upstreamId: string,
+  format: ResponseFormat | undefined
+): Record<string, unknown> {
+  if (!format) return {};
+
+  switch (getStructuredOutputMode(provider, upstreamId, format)) {
+    case "json_schema":
+      return {
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: format.name, schema: format.schema, strict: isStrictCompatible(format.schema) },
+        },
+      };
+    case "json_object":
+      return { response_format: { type: "json_object" } };
+    default:
+      return {};
+  }
+}
+
+// Anthropic: a single tool whose input schema is the response schema, and a tool_choice that forces it
+export function getAnthropicToolParams(
+  format: ResponseFormat | undefined,
+  reasoning: ReasoningOptions | undefined
+): Record<string, unknown> {
+  if (!format || !canUseAnthropicTool(format, reasoning)) return {};
+  return {
+    tools: [{
+      name: format.name,
+      description: "Record the response. Its input is the complete answer.",
+      input_schema: format.schema,
+    }],
+    tool_choice: { type: "tool", name: format.name },
+  };
+}
+
+// Schema instructions appended to the system prompt. JSON mode needs them too: DeepSeek
+// rejects json_object requests whose prompt never mentions JSON.
+export function addStructuredOutputInstruction(
+  system: string | undefined,
+  format: ResponseFormat | undefined,
+  mode: StructuredOutputMode | undefined
+): string | undefined {
+  if (!format || !mode || mode === "tool") return system;
+  const instruction = `Respond with only a JSON value that matches this JSON Schema - no prose before or after it, no markdown code fences:\n${JSON.stringify(format.schema)}`;
+  return system ? `${system}\n\n${instruction}` : instruction;
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+// The JSON value starting at `start`, with any brackets / string left open by truncation closed
+function readJsonSpan(text: string, start: number): string | undefined {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      closers.push(char === "{" ? "}" : "]");
+    } else if (char === "}" || char === "]") {
+      if (closers.pop() !== char) return undefined;
+      if (closers.length === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  return text.slice(start) + (inString ? '"' : "") + closers.reverse().join("");
+}
+
+// Common near-misses: trailing commas and typographic quotes
+function cleanJson(text: string): string {
+  return text.replace(/[“”]/g, '"').replace(/,(\s*[}\]])/g, "$1");
+}
+
+// Parse model output as JSON, digging it out of surrounding prose / fences when needed
+export function extractJson(content: string): { value: unknown; repaired: boolean } | undefined {
+  const text = content.trim();
+  const direct = tryParse(text);
+  if (direct.ok) return { value: direct.value, repaired: false };
+
+  let candidates = 0;
+  for (let start = text.search(/[{[]/); start !== -1 && candidates < MAX_JSON_CANDIDATES; candidates++) {
+    const span = readJsonSpan(text, start);
+    if (span) {
+      for (const candidate of [span, cleanJson(span)]) {
+        const parsed = tryParse(candidate);
+        if (parsed.ok) return { value: parsed.value, repaired: true };
+      }
+    }
+    const next = text.slice(start + 1).search(/[{[]/);
+    start = next === -1 ? -1 : start + 1 + next;
+  }
+  return undefined;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = describeType(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Check a value against the JsonSchema subset; returns one message per violation
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${describeType(value)}`];
+    }
+  }
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: ${value} is below the minimum of ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: ${value} is above the maximum of ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: has ${value.length} items, needs at least ${schema.minItems}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: has ${value.length} items, allows at most ${schema.maxItems}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  } else if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) errors.push(`${path}: missing required property "${key}"`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(item, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(item, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Parse, repair and validate a model's answer
+export function checkStructuredOutput(
+  content: string,
+  format: ResponseFormat,
+  mode: StructuredOutputMode
+): StructuredOutputCheck {
+  const extracted = extractJson(content);
+  if (!extracted) {
+    return { mode, compliance: "unparseable", errors: ["No JSON value found in the response"] };
+  }
+
+  const errors = validateJsonSchema(extracted.value, format.schema);
+  const compliance: SchemaCompliance = errors.length > 0 ? "invalid" : extracted.repaired ? "repaired" : "valid";
+  return { mode, compliance, value: extracted.value, errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+}
@@ -0,0 +1,89 @@
+import type { ModelResponseData, SuiteCase, SuiteFile, SuiteScorecard } from "@shared/schema";
+import { getModelDisplayName } from "./providers";
+import { parseGrader } from "./graders";
+import type { RaceColumn } from "./wind-tunnel";
+
+// Benchmark suites.
+//
+// One prompt says little about which model to pick. A suite is a named list of test
+// cases - a prompt, optional files, and a reference answer with its grader - run as a
+// whole across the current columns: one case at a time, every column at once, each
+// answer graded as in a race. The run ends with a scorecard per column: accuracy over
+// the graded cases, total cost, mean latency and cost per correct answer.
+
+export const MAX_SUITE_CASES = 500;
+const MAX_SUITE_FILE_BYTES = 8 * 1024 * 1024;  // Files are kept inline with the suite
+
+// Validate a suite's `cases` from a request body (throws with a user-facing message).
+// Files are given like a race's (`fileIds` of uploads, or inline text `files`) and are
+// resolved now, since uploads expire.
+export function parseSuiteCases(value: unknown, resolveFiles: (fileIds: unknown, files: unknown) => SuiteFile[]): SuiteCase[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error("cases must be a non-empty array");
+  }
+  if (value.length > MAX_SUITE_CASES) {
+    throw new Error(`A suite can have at most ${MAX_SUITE_CASES} cases`);
+  }
+
+  let fileBytes = 0;
+  return value.map((item: any, index) => {
+    if (!item || typeof item.prompt !== "string" || !item.prompt.trim()) {
+      throw new Error(`cases[${index}] needs a prompt`);
+    }
+    let grader;
+    try {
+      grader = parseGrader(item.grader);
+    } catch (error: any) {
+      throw new Error(`cases[${index}]: ${error.message}`);
+    }
+    const files = resolveFiles(item.fileIds, item.files);
+    fileBytes += files.reduce((sum, file) => sum + (file.dataUrl?.length ?? 0) + (file.textContent?.length ?? 0), 0);
+    if (fileBytes > MAX_SUITE_FILE_BYTES) {
+      throw new Error(`A suite's files can add up to at most ${MAX_SUITE_FILE_BYTES / 1024 / 1024} MB`);
+    }
+    const tags = Array.isArray(item.tags) ? item.tags.filter((tag: unknown) => typeof tag === "string" && tag.trim()) : [];
+    return { prompt: item.prompt, files: files.length > 0 ? files : undefined, grader, tags: tags.length > 0 ? tags : undefined };
+  });
+}
+
+// Each column's scorecard over the suite's case results (one record of column results per case)
+export function summarizeSuite(
+  cases: SuiteCase[],
+  caseResults: Record<string, ModelResponseData>[],
+  columns: RaceColumn[]
+): Record<string, SuiteScorecard> {
+  return Object.fromEntries(columns.map(({ col, modelId }) => {
+    const scorecard: SuiteScorecard = {
+      modelId,
+      modelName: getModelDisplayName(modelId),
+      cases: 0,
+      errors: 0,
+      graded: 0,
+      correct: 0,
+      totalCost: 0,
+    };
+    const latencies: number[] = [];
+
+    caseResults.forEach((results, index) => {
+      const result = results[col];
+      if (!result || result.cancelled) return;
+      scorecard.cases++;
+      scorecard.totalCost += result.cost;
+      if (result.error) {
+        scorecard.errors++;
+      } else {
+        latencies.push(result.latency);
+      }
+      // A judge that couldn't grade leaves the case out of the accuracy
+      if (cases[index].grader && (result.grade || result.error)) {
+        scorecard.graded++;
+        if (result.grade?.correct) scorecard.correct++;
+      }
+    });
+
+    if (scorecard.graded > 0) scorecard.accuracy = scorecard.correct / scorecard.graded;
+    if (latencies.length > 0) scorecard.meanLatency = latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length;
+    if (scorecard.correct > 0) scorecard.costPerCorrect = scorecard.totalCost / scorecard.correct;
+    return [col, scorecard];
+  }));
+}
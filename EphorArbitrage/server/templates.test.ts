@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { expandTemplate, parseTemplateRows } from "./templates";
+
+describe("expandTemplate", () => {
+  const rows = [
+    { sentence: "Good morning", language: "French", answer: "Bonjour" },
+    { sentence: "Thank you", language: "German", answer: "Danke" },
+  ];
+
+  it("fills the prompt and the grader's expected answer for every row", () => {
+    const cases = expandTemplate("Translate {{sentence}} into {{ language }}", { type: "exact", expected: "{{answer}}" }, rows);
+    expect(cases).toEqual([
+      { prompt: "Translate Good morning into French", grader: { type: "exact", expected: "Bonjour" }, variables: rows[0] },
+      { prompt: "Translate Thank you into German", grader: { type: "exact", expected: "Danke" }, variables: rows[1] },
+    ]);
+  });
+
+  it("expands without a grader", () => {
+    expect(expandTemplate("Say {{sentence}}", undefined, rows).map((item) => item.grader)).toEqual([undefined, undefined]);
+  });
+
+  it("rejects a prompt without variables", () => {
+    expect(() => expandTemplate("Translate this", undefined, rows)).toThrow("The prompt has no {{variables}} to fill in");
+  });
+
+  it("rejects variables the table has no column for", () => {
+    expect(() => expandTemplate("{{sentence}} in {{dialect}}", { type: "exact", expected: "{{reply}}" }, rows))
+      .toThrow("The variables table has no column for {{dialect}}, {{reply}}");
+  });
+
+  it("checks the grader after filling it in, naming the row", () => {
+    const numbers = [{ question: "2+2", answer: "4" }, { question: "pi", answer: "about three" }];
+    expect(() => expandTemplate("What is {{question}}?", { type: "numeric", expected: "{{answer}}" }, numbers))
+      .toThrow("Row 2: A numeric grader needs a number as the expected answer");
+  });
+
+  it("rejects a row that fills the prompt with nothing", () => {
+    expect(() => expandTemplate("{{sentence}}", undefined, [{ sentence: "Hi" }, { sentence: " " }]))
+      .toThrow("Row 2 fills the prompt with nothing");
+  });
+
+  it("takes its rows from CSV or tab-separated text", () => {
+    expect(parseTemplateRows("sentence,language\nGood morning,French\n")).toEqual([{ sentence: "Good morning", language: "French" }]);
+    expect(parseTemplateRows("sentence\tlanguage\nGood morning\tFrench\n")).toEqual([{ sentence: "Good morning", language: "French" }]);
+  });
+});
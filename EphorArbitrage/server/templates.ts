@@ -0,0 +1,89 @@
+import type { GraderConfig } from "@shared/schema";
+import { parseGrader } from "./graders";
+import { parseCsv } from "./datasets";
+
+// Prompt templates.
+//
+// "Translate {{sentence}} into {{language}}" for 20 pairs shouldn't take 20 benchmarks.
+// A prompt - and its reference answer - can hold {{variables}}, and a table of values
+// (one row per prompt to ask, given as objects or as CSV) expands it into a batch. The
+// batch runs like a suite: row by row, every column at once, with per-model totals.
+
+const MAX_TEMPLATE_ROWS = 100;
+const VARIABLE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export type TemplateRow = Record<string, string>;
+
+// One expanded row of a batch
+export interface BatchCase {
+  prompt: string;
+  grader?: GraderConfig;
+  variables: TemplateRow;
+}
+
+// The variables a template uses, in order of first use
+export function getTemplateVariables(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(VARIABLE), (match) => match[1])));
+}
+
+export function fillTemplate(text: string, row: TemplateRow): string {
+  return text.replace(VARIABLE, (_match, name: string) => row[name] ?? "");
+}
+
+// Validate a variables table from a request body: an array of objects, or CSV text with
+// a header row (throws with a user-facing message)
+export function parseTemplateRows(value: unknown): TemplateRow[] | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  let rows: unknown[];
+  if (typeof value === "string") {
+    const header = value.trimStart().split(/\r?\n/, 1)[0];
+    const delimiter = header.includes("\t") && !header.includes(",") ? "\t" : ",";
+    rows = parseCsv(value.replace(/^\uFEFF/, ""), delimiter).map(({ record }) => record);
+  } else if (Array.isArray(value)) {
+    rows = value;
+  } else {
+    throw new Error("variables must be an array of rows or CSV text");
+  }
+
+  if (rows.length === 0) {
+    throw new Error("The variables table has no rows");
+  }
+  if (rows.length > MAX_TEMPLATE_ROWS) {
+    throw new Error(`The variables table can have at most ${MAX_TEMPLATE_ROWS} rows`);
+  }
+  return rows.map((row, index) => {
+    if (!row || typeof row !== "object" || Array.isArray(row)) {
+      throw new Error(`variables[${index}] must be an object`);
+    }
+    return Object.fromEntries(Object.entries(row).map(([name, cell]) => [name.trim(), cell === null || cell === undefined ? "" : String(cell)]));
+  });
+}
+
+// Expand a template and its (optional) grader into one case per row. The grader is
+// checked after filling in, so "{{answer}}" can stand for a number or a pattern.
+export function expandTemplate(prompt: string, grader: unknown, rows: TemplateRow[]): BatchCase[] {
+  const variables = getTemplateVariables(prompt);
+  if (variables.length === 0) {
+    throw new Error("The prompt has no {{variables}} to fill in");
+  }
+  const graderBody = grader && typeof grader === "object" ? grader as Record<string, unknown> : undefined;
+  const used = [...variables, ...(typeof graderBody?.expected === "string" ? getTemplateVariables(graderBody.expected) : [])];
+  const missing = used.filter((name) => !(name in rows[0]));
+  if (missing.length > 0) {
+    throw new Error(`The variables table has no column for ${missing.map((name) => `{{${name}}}`).join(", ")}`);
+  }
+
+  return rows.map((row, index) => {
+    const filled = fillTemplate(prompt, row);
+    if (!filled.trim()) {
+      throw new Error(`Row ${index + 1} fills the prompt with nothing`);
+    }
+    try {
+      const expected = typeof graderBody?.expected === "string" ? fillTemplate(graderBody.expected, row) : graderBody?.expected;
+      return { prompt: filled, grader: parseGrader(graderBody && { ...graderBody, expected }), variables: row };
+    } catch (error: any) {
+      throw new Error(`Row ${index + 1}: ${error.message}`);
+    }
+  });
+}
@@ -1,11 +1,21 @@
 import OpenAI from "openai";
-import type { ChatMessage, ChatCompletionResult } from "./types";
+import type { ChatMessage, ChatCompletionResult, ReasoningOptions, ResponseFormat } from "./types";
+import { ProviderError, wrapProviderError } from "./errors";
+import { getChunkUsage, resolveUsage, type ReportedUsage } from "./usage";
+import { ReasoningSplitter, getDeltaReasoning, getReasoningParams } from "./reasoning";
+import { getSamplingParams } from "./sampling";
+import { getResponseFormatParams } from "./structured";
+import type { SamplingParams } from "@shared/schema";
 
 export interface TogetherChatCompletionRequest {
   model: string;
   messages: ChatMessage[];
   maxTokens?: number;
   timeoutMs?: number;
+  signal?: AbortSignal;    // Caller abort (client disconnect / Stop)
+  reasoning?: ReasoningOptions;
+  sampling?: SamplingParams;
+  responseFormat?: ResponseFormat;
 }
 
 export async function createTogetherChatCompletion(
@@ -32,11 +42,16 @@ export async function createTogetherChatCompletion(
       messages: request.messages,
       max_tokens: request.maxTokens || 4096,
       stream: true,
-    });
+      stream_options: { include_usage: true },
+      ...getReasoningParams("together", request.model, request.reasoning),
+      ...getSamplingParams(request.sampling),
+      ...getResponseFormatParams("together", request.model, request.responseFormat),
+    }, { signal: request.signal });
 
     let ttftMs = 0;
-    let content = "";
+    const splitter = new ReasoningSplitter();
     let firstChunkReceived = false;
+    let reportedUsage: ReportedUsage | undefined;
     
     for await (const chunk of stream) {
       if (!firstChunkReceived) {
@@ -45,44 +60,48 @@ export async function createTogetherChatCompletion(
         console.log(`[Together] ${request.model} TTFT: ${ttftMs}ms`);
       }
       
-      const delta = chunk.choices[0]?.delta?.content || "";
-      content += delta;
+      const delta = chunk.choices[0]?.delta;
+      splitter.pushReasoning(getDeltaReasoning(delta));
+      splitter.pushContent(delta?.content || "");
+      reportedUsage = getChunkUsage(chunk) ?? reportedUsage;
     }
+
+    splitter.flush();
+    const content = splitter.content;
+    const reasoning = splitter.reasoning;
     
     console.log(`[Together] ${request.model} content length: ${content.length} chars`);
     
-    const inputTokens = Math.ceil(request.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
-    const outputTokens = Math.ceil(content.length / 4);
+    const { inputTokens, outputTokens, reasoningTokens, cachedInputTokens, usageSource } = resolveUsage(reportedUsage, request.messages, content, request.model, reasoning);
     
     const totalTimeMs = Date.now() - startTime;
     const tokensPerSecond = totalTimeMs > 0 ? Math.round((outputTokens / (totalTimeMs / 1000))) : 0;
     
-    console.log(`[Together] Model: ${request.model}, TTFT: ${ttftMs}ms, Total: ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens}, throughput: ${tokensPerSecond} tok/s`);
+    console.log(`[Together] Model: ${request.model}, TTFT: ${ttftMs}ms, Total: ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens} (${usageSource}), throughput: ${tokensPerSecond} tok/s`);
 
     return {
       content,
+      reasoning: reasoning || undefined,
       inputTokens,
       outputTokens,
+      reasoningTokens,
+      cachedInputTokens,
       responseTimeMs: ttftMs,
       totalTimeMs,
       tokensPerSecond,
+      usageSource,
     };
   } catch (error: any) {
     console.error("Together API error:", error);
     
+    if (request.signal?.aborted) {
+      throw new ProviderError("Request cancelled", { cancelled: true });
+    }
+    
     if (error.message?.includes("timed out") || error.message?.includes("timeout")) {
-      throw new Error("⏱️ Response timed out (query too complex)");
+      throw new ProviderError("⏱️ Response timed out (query too complex)", { timedOut: true });
     }
     
-    throw new Error(`Failed to get Together response: ${error.message}`);
+    throw wrapProviderError(`Failed to get Together response: ${error.message}`, error);
   }
 }
-
-export const TOGETHER_QWEN_MODEL_ID = "Qwen/Qwen2.5-72B-Instruct-Turbo";
-export const TOGETHER_GLM_MODEL_ID = "zai-org/GLM-4.6";
-export const TOGETHER_LLAMA_3B_MODEL_ID = "meta-llama/Llama-3.2-3B-Instruct-Turbo";
-export const TOGETHER_QWEN_7B_MODEL_ID = "Qwen/Qwen2.5-7B-Instruct-Turbo";
-export const TOGETHER_DEEPSEEK_R1_DISTILL_QWEN_14B_MODEL_ID = "deepseek-ai/DeepSeek-R1-Distill-Qwen-14B";
-export const TOGETHER_DEEPSEEK_R1_DISTILL_70B_MODEL_ID = "deepseek-ai/DeepSeek-R1-Distill-Llama-70B";
-export const TOGETHER_DEEPSEEK_R1_MODEL_ID = "deepseek-ai/DeepSeek-R1";
-export const TOGETHER_QWQ_32B_MODEL_ID = "Qwen/QwQ-32B";
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { countGaugeTokens, getTokenizerFamily } from "@shared/tokenizer";
+import { countMessageTokens, countTokens, decodeGaugeTokens, encodeGaugeTokens } from "./tokenizer";
+
+const TEXT = "數學 supercalifragilisticexpialidocious 1234567 ελληνικά";
+
+describe("getTokenizerFamily", () => {
+  it.each([
+    ["cerebras/gpt-oss-120b", "o200k"],
+    ["gpt-4-turbo", "cl100k"],
+    ["together/llama-3.2-3b-instruct-turbo", "llama3"],
+    ["together/deepseek-r1-distill-llama-70b", "llama3"],
+    ["openrouter/deepseek/deepseek-r1-distill-qwen-7b", "qwen"],
+    ["qwen/qwen-2.5-72b-instruct", "qwen"],
+    ["together/qwq-32b", "qwen"],
+    ["deepseek/deepseek-chat", "deepseek"],
+    ["together/deepseek-r1", "deepseek"],
+    ["anthropic/claude-sonnet-4.5", "estimate"],
+    ["z-ai/glm-4-32b", "estimate"],
+  ])("maps %s to %s", (modelId, family) => {
+    expect(getTokenizerFamily(modelId)).toBe(family);
+  });
+});
+
+describe("countTokens", () => {
+  it("counts with each model's own vocabulary", () => {
+    expect(countTokens(TEXT, "cerebras/gpt-oss-120b")).toEqual({ tokens: 18, family: "o200k", estimated: false });
+    expect(countTokens(TEXT, "gpt-4-turbo")).toEqual({ tokens: 26, family: "cl100k", estimated: false });
+    expect(countTokens(TEXT, "together/llama-3.2-3b-instruct-turbo")).toEqual({ tokens: 18, family: "llama3", estimated: false });
+    expect(countTokens(TEXT, "qwen/qwen-2.5-72b-instruct")).toEqual({ tokens: 28, family: "qwen", estimated: false });
+    expect(countTokens(TEXT, "deepseek/deepseek-chat")).toEqual({ tokens: 17, family: "deepseek", estimated: false });
+  });
+
+  it("flags the ~4 chars/token estimate for models without a tokenizer", () => {
+    expect(countTokens("x".repeat(41), "anthropic/claude-sonnet-4.5")).toEqual({ tokens: 11, family: "estimate", estimated: true });
+  });
+
+  it("counts like the gauge when no model is given", () => {
+    expect(countTokens(TEXT)).toEqual({ tokens: countGaugeTokens(TEXT), family: "cl100k", estimated: false });
+  });
+
+  it("counts messages as their joined text", () => {
+    const messages = [{ content: "Hello" }, { content: "world" }];
+    expect(countMessageTokens(messages, "deepseek/deepseek-chat")).toEqual(countTokens("Hello\nworld", "deepseek/deepseek-chat"));
+  });
+});
+
+describe("gauge tokens", () => {
+  it("encodes to the gauge's count and decodes back", () => {
+    const tokens = encodeGaugeTokens(TEXT);
+    expect(tokens).toHaveLength(countGaugeTokens(TEXT));
+    expect(decodeGaugeTokens(tokens)).toBe(TEXT);
+  });
+
+  it("drops a character cut in half", () => {
+    const tokens = encodeGaugeTokens("數學");
+    const cut = decodeGaugeTokens(tokens.slice(0, tokens.length - 1));
+    expect(cut).not.toContain("�");
+    expect("數學".startsWith(cut)).toBe(true);
+  });
+});
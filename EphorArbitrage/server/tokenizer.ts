@@ -0,0 +1,60 @@
+import { decode as decodeCl100k, encode as encodeCl100k } from "gpt-tokenizer/encoding/cl100k_base";
+import { countTokens as countO200kTokens } from "gpt-tokenizer/encoding/o200k_base";
+import llama3Tokenizer from "llama3-tokenizer-js";
+import { fromPreTrained as loadQwenTokenizer } from "@lenml/tokenizer-qwen2_5";
+import { fromPreTrained as loadDeepSeekTokenizer } from "@lenml/tokenizer-deepseek_v3";
+import { countGaugeTokens, estimateTokens, getTokenizerFamily, DEFAULT_TOKENIZER_FAMILY, type TokenCount, type TokenizerFamily } from "@shared/tokenizer";
+
+// Per-family token counting for the server's cost math (families: shared/tokenizer.ts).
+// The Qwen and DeepSeek vocabularies are large, so each is built the first time it's needed.
+
+type HuggingFaceTokenizer = ReturnType<typeof loadQwenTokenizer>;
+
+const loaded: Partial<Record<"qwen" | "deepseek", HuggingFaceTokenizer>> = {};
+
+function countWith(family: "qwen" | "deepseek", text: string): number {
+  const tokenizer = loaded[family] ??= family === "qwen" ? loadQwenTokenizer() : loadDeepSeekTokenizer();
+  return tokenizer.encode(text, { add_special_tokens: false }).length;
+}
+
+const ENCODERS: Record<Exclude<TokenizerFamily, "estimate">, (text: string) => number> = {
+  o200k: (text) => countO200kTokens(text),
+  cl100k: (text) => countGaugeTokens(text),
+  llama3: (text) => llama3Tokenizer.encode(text, { bos: false, eos: false }).length,
+  qwen: (text) => countWith("qwen", text),
+  deepseek: (text) => countWith("deepseek", text),
+};
+
+export function countTokens(text: string, modelId?: string): TokenCount {
+  const family = modelId ? getTokenizerFamily(modelId) : DEFAULT_TOKENIZER_FAMILY;
+  if (family === "estimate") {
+    return { tokens: estimateTokens(text), family, estimated: true };
+  }
+  return { tokens: ENCODERS[family](text), family, estimated: false };
+}
+
+export function countMessageTokens(messages: Array<{ content: string }>, modelId?: string): TokenCount {
+  return countTokens(messages.map((m) => m.content).join("\n"), modelId);
+}
+
+// The gauge's tokens for `text` (DEFAULT_TOKENIZER_FAMILY), for cutting input where the gauge shows.
+// Every column of a run encodes the same text, so the last few encodings are kept.
+const recentEncodings = new Map<string, number[]>();
+const MAX_RECENT_ENCODINGS = 4;
+
+export function encodeGaugeTokens(text: string): number[] {
+  let tokens = recentEncodings.get(text);
+  if (!tokens) {
+    tokens = encodeCl100k(text);
+    if (recentEncodings.size >= MAX_RECENT_ENCODINGS) {
+      recentEncodings.delete(recentEncodings.keys().next().value!);
+    }
+    recentEncodings.set(text, tokens);
+  }
+  return tokens;
+}
+
+// A cut can land inside a multi-byte character; its partial bytes are dropped
+export function decodeGaugeTokens(tokens: number[]): string {
+  return decodeCl100k(tokens).replace(/\uFFFD+$/, "");
+}
@@ -0,0 +1,202 @@
+import type { MockTool, ModelCallAttempt, SamplingParams, ToolCallStep, ToolRunResult, ToolRunScore } from "@shared/schema";
+import type { ToolChatMessage } from "./types";
+import type { ScheduleOptions } from "./scheduler";
+import { getToolCompletion } from "./providers";
+import { validateJsonSchema } from "./structured";
+import { withSystemPrompt } from "./sampling";
+
+// Tool-calling benchmark.
+//
+// The student defines mock tools with canned return values. The model gets the prompt
+// and the tools, and we run the usual loop - call the model, execute any tool calls
+// against the mocks, send the results back - until it answers or runs out of turns.
+// A call with malformed or schema-breaking arguments gets an error result instead of
+// the canned value, so models get a chance to correct themselves (and are scored on it).
+
+const MAX_TOOLS = 8;
+const DEFAULT_MAX_TURNS = 5;
+const MAX_TURNS = 10;
+const TOOL_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export interface ToolRunOptions {
+  modelId: string;
+  prompt: string;
+  tools: MockTool[];
+  expectedTools?: string[];   // Tools a correct run must call
+  expectedAnswer?: string;    // Text the final answer must contain (case-insensitive)
+  system?: string;
+  sampling?: SamplingParams;
+  maxTurns?: number;
+  signal?: AbortSignal;
+  schedule?: ScheduleOptions;
+}
+
+// Validate the tool list from a request body (throws with a user-facing message)
+export function parseMockTools(value: unknown): MockTool[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error("tools must be a non-empty array");
+  }
+  if (value.length > MAX_TOOLS) {
+    throw new Error(`At most ${MAX_TOOLS} tools are supported`);
+  }
+
+  const names = new Set<string>();
+  return value.map((tool: any, index) => {
+    if (!tool || typeof tool !== "object") {
+      throw new Error(`tools[${index}] must be an object`);
+    }
+    if (typeof tool.name !== "string" || !TOOL_NAME.test(tool.name)) {
+      throw new Error(`tools[${index}].name may only use letters, digits, _ and - (max 64)`);
+    }
+    if (names.has(tool.name)) {
+      throw new Error(`Duplicate tool name: ${tool.name}`);
+    }
+    names.add(tool.name);
+    if (!tool.parameters || typeof tool.parameters !== "object" || tool.parameters.type !== "object") {
+      throw new Error(`${tool.name}: parameters must be a JSON Schema with type "object"`);
+    }
+    return {
+      name: tool.name,
+      description: typeof tool.description === "string" ? tool.description : "",
+      parameters: tool.parameters,
+      returns: tool.returns ?? null,
+    };
+  });
+}
+
+export function parseMaxTurns(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > MAX_TURNS) {
+    throw new Error(`maxTurns must be an integer between 1 and ${MAX_TURNS}`);
+  }
+  return value;
+}
+
+export type ToolRunSettings = Pick<ToolRunOptions, "tools" | "expectedTools" | "expectedAnswer" | "maxTurns">;
+
+// Validate the tools, expectations and turn limit from a request body (throws with a user-facing message)
+export function parseToolRunSettings(body: any): ToolRunSettings {
+  const tools = parseMockTools(body.tools);
+  const maxTurns = parseMaxTurns(body.maxTurns);
+  const expectedTools: string[] = Array.isArray(body.expectedTools)
+    ? body.expectedTools.filter((name: unknown) => typeof name === "string" && name.trim())
+    : [];
+  const unknownTool = expectedTools.find((name) => !tools.some((tool) => tool.name === name));
+  if (unknownTool) {
+    throw new Error(`Expected tool "${unknownTool}" is not defined`);
+  }
+  return {
+    tools,
+    expectedTools,
+    expectedAnswer: typeof body.expectedAnswer === "string" ? body.expectedAnswer : undefined,
+    maxTurns,
+  };
+}
+
+// Run one tool call against the mocks: the canned value, or an error the model can read
+function executeToolCall(tools: MockTool[], name: string, rawArguments: string): Omit<ToolCallStep, "turn" | "tool" | "arguments"> {
+  const tool = tools.find((t) => t.name === name);
+  if (!tool) {
+    const errors = [`No tool named "${name}"`];
+    return { argumentsValid: false, errors, result: { error: errors[0] } };
+  }
+
+  let args: unknown;
+  try {
+    args = JSON.parse(rawArguments || "{}");
+  } catch {
+    const errors = ["Arguments are not valid JSON"];
+    return { argumentsValid: false, errors, result: { error: errors[0] } };
+  }
+
+  const errors = validateJsonSchema(args, tool.parameters);
+  if (errors.length > 0) {
+    return { argumentsValid: false, errors, result: { error: `Invalid arguments: ${errors.join("; ")}` } };
+  }
+  return { argumentsValid: true, errors: [], result: tool.returns };
+}
+
+export function scoreToolRun(
+  steps: ToolCallStep[],
+  finalAnswer: string,
+  tools: MockTool[],
+  expectedTools: string[] = [],
+  expectedAnswer?: string
+): ToolRunScore {
+  const called = new Set(steps.map((step) => step.tool));
+  const onlyKnownTools = steps.every((step) => tools.some((tool) => tool.name === step.tool));
+  // With no expectations, a correct run is one that used at least one tool
+  const rightTools = onlyKnownTools && (expectedTools.length > 0
+    ? expectedTools.every((name) => called.has(name))
+    : steps.length > 0);
+  const validArguments = steps.length > 0 && steps.every((step) => step.argumentsValid);
+  const answered = finalAnswer.trim().length > 0 && (!expectedAnswer?.trim()
+    || finalAnswer.toLowerCase().includes(expectedAnswer.trim().toLowerCase()));
+
+  const passed = [rightTools, validArguments, answered].filter(Boolean).length;
+  return { rightTools, validArguments, finalAnswer: answered, score: Math.round((passed / 3) * 100) };
+}
+
+export async function runToolBenchmark(options: ToolRunOptions): Promise<ToolRunResult> {
+  const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+  const toolSpecs = options.tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+  const messages: ToolChatMessage[] = withSystemPrompt([{ role: "user", content: options.prompt }], options.system);
+  const steps: ToolCallStep[] = [];
+  const attempts: ModelCallAttempt[] = [];
+  const startTime = Date.now();
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let servedBy: string | undefined;
+  let priceVersion: string | undefined;
+  let finalAnswer = "";
+  let stoppedEarly: string | undefined = `No final answer after ${maxTurns} turns`;
+  let turn = 0;
+
+  while (turn < maxTurns) {
+    turn++;
+    const result = await getToolCompletion({
+      model: options.modelId,
+      messages,
+      tools: toolSpecs,
+      sampling: options.sampling,
+      signal: options.signal,
+      schedule: options.schedule,
+    });
+    inputTokens += result.inputTokens;
+    outputTokens += result.outputTokens;
+    servedBy = result.servedBy;
+    priceVersion = result.priceVersion;
+    attempts.push(...(result.attempts ?? []));
+
+    if (result.toolCalls.length === 0) {
+      finalAnswer = result.content;
+      stoppedEarly = undefined;
+      break;
+    }
+
+    messages.push({ role: "assistant", content: result.content, toolCalls: result.toolCalls });
+    for (const call of result.toolCalls) {
+      const outcome = executeToolCall(options.tools, call.name, call.arguments);
+      steps.push({ turn, tool: call.name, arguments: call.arguments, ...outcome });
+      messages.push({ role: "tool", toolCallId: call.id, content: JSON.stringify(outcome.result) });
+    }
+  }
+
+  const cost = attempts.reduce((sum, attempt) => sum + attempt.cost, 0);
+  console.log(`[Tools] ${options.modelId}: ${steps.length} tool call(s) in ${turn} turn(s)${stoppedEarly ? ` - ${stoppedEarly}` : ""}`);
+
+  return {
+    steps,
+    finalAnswer,
+    turns: turn,
+    stoppedEarly,
+    score: scoreToolRun(steps, finalAnswer, options.tools, options.expectedTools, options.expectedAnswer),
+    inputTokens,
+    outputTokens,
+    cost,
+    latency: Date.now() - startTime,
+    servedBy,
+    attempts,
+    priceVersion,
+  };
+}
@@ -0,0 +1,118 @@
+import type OpenAI from "openai";
+import type { ChatCompletionMessageParam, ChatCompletionTool } from "openai/resources/chat/completions";
+import type { ToolCall, ToolChatMessage, ToolChatRequest, ToolChatResult } from "./types";
+import { ProviderError, wrapProviderError } from "./errors";
+import { resolveUsage } from "./usage";
+import { getDeltaReasoning, splitReasoning } from "./reasoning";
+import { getSamplingParams } from "./sampling";
+
+// Tool calling.
+//
+// Conversations with tools use ToolChatMessage: assistant turns can carry tool calls
+// and "tool" messages carry results. Every OpenAI-compatible provider shares the
+// implementation below; Anthropic and the mock provider have their own
+// (createAnthropicToolCompletion, createMockToolCompletion). Calls aren't streamed.
+
+const DEFAULT_TOOL_TIMEOUT_MS = 60000;
+
+// Text of a message as the tokenizer should see it (tool calls count as their arguments)
+export function getToolMessageText(message: ToolChatMessage): string {
+  if ("toolCalls" in message) {
+    return [message.content, ...message.toolCalls.map((call) => `${call.name}(${call.arguments})`)].join("\n");
+  }
+  return message.content;
+}
+
+function toOpenAIMessages(messages: ToolChatMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((message): ChatCompletionMessageParam => {
+    if (message.role === "tool") {
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    }
+    if ("toolCalls" in message) {
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+export async function createOpenAIToolCompletion(
+  client: OpenAI,
+  providerName: string,
+  request: ToolChatRequest
+): Promise<ToolChatResult> {
+  try {
+    const startTime = Date.now();
+    const tools: ChatCompletionTool[] = request.tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters as Record<string, unknown>,
+      },
+    }));
+
+    const completion = await client.chat.completions.create({
+      model: request.model,
+      messages: toOpenAIMessages(request.messages),
+      tools,
+      tool_choice: "auto",
+      max_tokens: request.maxTokens || 1024,
+      stream: false,
+      ...getSamplingParams(request.sampling),
+    }, { signal: request.signal, timeout: request.timeoutMs || DEFAULT_TOOL_TIMEOUT_MS });
+
+    const message = completion.choices[0]?.message;
+    const { content, reasoning } = splitReasoning(message?.content || "", getDeltaReasoning(message));
+    const toolCalls: ToolCall[] = (message?.tool_calls || []).flatMap((call) =>
+      call.type === "function"
+        ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments || "" }]
+        : []
+    );
+
+    const output = [content, ...toolCalls.map((call) => call.arguments)].join("\n");
+    const { inputTokens, outputTokens, reasoningTokens, cachedInputTokens, usageSource } = resolveUsage(
+      completion.usage,
+      request.messages.map((m) => ({ content: getToolMessageText(m) })),
+      output,
+      request.model,
+      reasoning
+    );
+    const totalTimeMs = Date.now() - startTime;
+
+    console.log(`[${providerName}] Tool call: ${request.model}, ${toolCalls.length} call(s), ${totalTimeMs}ms, tokens: ${inputTokens}/${outputTokens} (${usageSource})`);
+
+    return {
+      content,
+      reasoning: reasoning || undefined,
+      toolCalls,
+      inputTokens,
+      outputTokens,
+      reasoningTokens,
+      cachedInputTokens,
+      responseTimeMs: totalTimeMs,
+      totalTimeMs,
+      tokensPerSecond: totalTimeMs > 0 ? Math.round(outputTokens / (totalTimeMs / 1000)) : 0,
+      usageSource,
+    };
+  } catch (error: any) {
+    console.error(`[${providerName}] Tool call error:`, error.message);
+
+    if (request.signal?.aborted) {
+      throw new ProviderError("Request cancelled", { cancelled: true });
+    }
+
+    if (error.message?.includes("timed out") || error.message?.includes("timeout")) {
+      throw new ProviderError("⏱️ Response timed out (query too complex)", { timedOut: true });
+    }
+
+    throw wrapProviderError(`${providerName} tool call failed: ${error.message}`, error);
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { ModelResponseData } from "@shared/schema";
+import { parseTrials, summarizeTrials } from "./trials";
+
+function run(data: Partial<ModelResponseData>): ModelResponseData {
+  return { content: "", latency: 1000, cost: 0, modelId: "groq/llama-3.3-70b", modelName: "Llama 3.3 70B", ...data };
+}
+
+describe("summarizeTrials", () => {
+  it("gives min, p50, p95 and max over the trials", () => {
+    const stats = summarizeTrials([
+      run({ latency: 1300, ttft: 300, cost: 0.003, outputTokens: 200 }),
+      run({ latency: 1100, ttft: 100, cost: 0.001, outputTokens: 50 }),
+      run({ latency: 1200, ttft: 200, cost: 0.002, outputTokens: 100 }),
+    ]);
+    expect(stats.trials).toBe(3);
+    expect(stats.latency).toMatchObject({ min: 1100, p50: 1200, max: 1300 });
+    expect(stats.latency.p95).toBeCloseTo(1290);
+    expect(stats.ttft).toMatchObject({ min: 100, p50: 200, max: 300 });
+    expect(stats.ttft?.p95).toBeCloseTo(290);
+    expect(stats.tokensPerSecond).toMatchObject({ min: 50, p50: 100, max: 200 });
+    expect(stats.tokensPerSecond?.p95).toBeCloseTo(190);
+    expect(stats.cost.p50).toBeCloseTo(0.002);
+    expect(stats.totalCost).toBeCloseTo(0.006);
+  });
+
+  it("leaves out TTFT and speed when no trial has them", () => {
+    const stats = summarizeTrials([run({ latency: 800, cost: 0.01 })]);
+    expect(stats.ttft).toBeUndefined();
+    expect(stats.tokensPerSecond).toBeUndefined();
+    expect(stats.latency).toEqual({ min: 800, p50: 800, p95: 800, max: 800 });
+  });
+
+  it("measures speed only over the trials with output after the first token", () => {
+    const stats = summarizeTrials([
+      run({ latency: 500, ttft: 500, outputTokens: 10 }),
+      run({ latency: 2000, ttft: 1000, outputTokens: 50 }),
+    ]);
+    expect(stats.tokensPerSecond).toEqual({ min: 50, p50: 50, p95: 50, max: 50 });
+  });
+});
+
+describe("parseTrials", () => {
+  it("defaults to one trial and accepts up to ten", () => {
+    expect(parseTrials(undefined)).toBe(1);
+    expect(parseTrials(10)).toBe(10);
+  });
+
+  it.each([0, 11, 2.5, "3"])("rejects %j", (value) => {
+    expect(() => parseTrials(value)).toThrow("trials must be an integer between 1 and 10");
+  });
+});
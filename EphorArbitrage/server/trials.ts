@@ -0,0 +1,58 @@
+import type { ModelResponseData, TrialDistribution, TrialStats } from "@shared/schema";
+
+// Repeated trials.
+//
+// Provider latency is noisy, so one run per column says little about which model is
+// faster. A race can run every column N times in a row; each trial streams as usual,
+// and the column ends with the spread of TTFT, total time, tokens/sec and cost over the
+// trials that completed (p50 for the typical run, p95 for the slow tail).
+
+const MAX_TRIALS = 10;
+
+// Validate `trials` from a request body (throws with a user-facing message)
+export function parseTrials(value: unknown): number {
+  if (value === undefined || value === null) return 1;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > MAX_TRIALS) {
+    throw new Error(`trials must be an integer between 1 and ${MAX_TRIALS}`);
+  }
+  return value;
+}
+
+// Linear interpolation between the nearest ranks (`sorted` ascending, non-empty)
+function percentile(sorted: number[], p: number): number {
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function distribution(values: number[]): TrialDistribution | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+// Generation speed: output tokens over the time after the first token
+function tokensPerSecond(run: ModelResponseData): number | undefined {
+  const generationMs = run.latency - (run.ttft ?? 0);
+  if (!run.outputTokens || generationMs <= 0) return undefined;
+  return run.outputTokens / (generationMs / 1000);
+}
+
+// Spread over the completed trials of one column (at least one)
+export function summarizeTrials(runs: ModelResponseData[]): TrialStats {
+  const defined = (values: (number | undefined)[]) => values.filter((value): value is number => value !== undefined);
+  return {
+    trials: runs.length,
+    ttft: distribution(defined(runs.map((run) => run.ttft))),
+    latency: distribution(runs.map((run) => run.latency))!,
+    tokensPerSecond: distribution(defined(runs.map(tokensPerSecond))),
+    cost: distribution(runs.map((run) => run.cost))!,
+    totalCost: runs.reduce((sum, run) => sum + run.cost, 0),
+  };
+}
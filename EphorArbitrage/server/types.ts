@@ -1,13 +1,83 @@
+import type { UsageSource } from "@shared/tokenizer";
+import type { JsonSchema, ModelCallAttempt, SamplingParams, StructuredOutputCheck } from "@shared/schema";
+import type { ScheduleOptions } from "./scheduler";
+
 export interface ChatMessage {
   role: "user" | "assistant" | "system";
   content: string;
 }
 
 export interface ChatCompletionResult {
-  content: string;
+  content: string;         // Final answer only - chain-of-thought goes in `reasoning`
+  reasoning?: string;      // Reasoning trace, when the model produced one
   inputTokens: number;
-  outputTokens: number;
+  outputTokens: number;    // Includes reasoningTokens (both bill at the output rate)
+  reasoningTokens?: number;
+  cachedInputTokens?: number; // Part of inputTokens that hit the provider's prompt cache
   responseTimeMs: number;  // TTFT (Time to First Token)
   totalTimeMs: number;     // Total generation time
   tokensPerSecond: number; // Throughput: outputTokens / (totalTimeMs / 1000)
+  usageSource: UsageSource; // "reported" by the provider, or "estimated" with the tokenizer
+  servedBy?: string;        // Catalog ID that answered (differs from the request after a fallback)
+  attempts?: ModelCallAttempt[];
+  structured?: StructuredOutputCheck;  // Set when the request had a responseFormat
+}
+
+// Thinking-mode control; each adapter translates it to the provider's own switch
+export interface ReasoningOptions {
+  enabled: boolean;
+  budgetTokens?: number;  // Cap on thinking tokens, where the provider supports one
+}
+
+// Ask for JSON matching `schema` (see structured.ts for how each provider enforces it)
+export interface ResponseFormat {
+  name: string;        // Identifier for the schema / Anthropic tool; letters, digits, _ and -
+  schema: JsonSchema;
+}
+
+// Provider-agnostic request; `model` is a catalog ID (see shared/models.ts)
+export interface UnifiedChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;  // Aborts the upstream call (client disconnected or hit Stop)
+  reasoning?: ReasoningOptions;  // Omitted = the provider's default for the model
+  system?: string;               // System prompt, sent ahead of `messages`
+  sampling?: SamplingParams;
+  responseFormat?: ResponseFormat;
+  schedule?: ScheduleOptions;    // Fair-queueing key and queue-position callback (scheduler.ts)
+}
+
+// Tool calling (see tools.ts). Arguments stay raw text so a malformed call can be scored.
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export type ToolChatMessage =
+  | ChatMessage
+  | { role: "assistant"; content: string; toolCalls: ToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string };
+
+export interface ToolChatRequest {
+  model: string;          // Catalog ID in getToolCompletion; the provider's upstream ID in adapters
+  messages: ToolChatMessage[];
+  tools: ToolSpec[];
+  maxTokens?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  sampling?: SamplingParams;
+  schedule?: ScheduleOptions;
+}
+
+export interface ToolChatResult extends ChatCompletionResult {
+  toolCalls: ToolCall[];  // Empty when the model answered instead
 }
@@ -0,0 +1,58 @@
+import type { UsageSource } from "@shared/tokenizer";
+import { countTokens, countMessageTokens } from "./tokenizer";
+import type { ChatMessage } from "./types";
+
+// OpenAI-style usage block. With stream_options.include_usage it arrives on the
+// final stream chunk (which has an empty `choices` array).
+export interface ReportedUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;  // Includes reasoning tokens
+  completion_tokens_details?: { reasoning_tokens?: number } | null;
+  prompt_tokens_details?: { cached_tokens?: number } | null;
+  prompt_cache_hit_tokens?: number;  // DeepSeek's name for cached_tokens
+}
+
+export interface ResolvedUsage {
+  inputTokens: number;
+  outputTokens: number;      // Answer + reasoning, i.e. everything billed at the output rate
+  reasoningTokens: number;   // Part of outputTokens spent thinking
+  cachedInputTokens: number; // Part of inputTokens served from the provider's prompt cache
+  usageSource: UsageSource;
+}
+
+// Usage carried by a stream chunk, if any (Groq also nests it under x_groq)
+export function getChunkUsage(chunk: any): ReportedUsage | undefined {
+  return chunk?.usage ?? chunk?.x_groq?.usage ?? undefined;
+}
+
+// Prefer the provider's numbers; count with the tokenizer only when none were reported.
+// Providers that report totals but no reasoning breakdown get the trace counted locally.
+export function resolveUsage(
+  reported: ReportedUsage | null | undefined,
+  messages: Array<Pick<ChatMessage, "content">>,
+  content: string,
+  modelId: string,
+  reasoning = ""
+): ResolvedUsage {
+  const countedReasoning = reasoning ? countTokens(reasoning, modelId).tokens : 0;
+
+  if (typeof reported?.prompt_tokens === "number" && typeof reported?.completion_tokens === "number") {
+    const reportedReasoning = reported.completion_tokens_details?.reasoning_tokens;
+    return {
+      inputTokens: reported.prompt_tokens,
+      outputTokens: reported.completion_tokens,
+      reasoningTokens: typeof reportedReasoning === "number"
+        ? reportedReasoning
+        : Math.min(countedReasoning, reported.completion_tokens),
+      cachedInputTokens: reported.prompt_tokens_details?.cached_tokens ?? reported.prompt_cache_hit_tokens ?? 0,
+      usageSource: "reported",
+    };
+  }
+  return {
+    inputTokens: countMessageTokens(messages, modelId).tokens,
+    outputTokens: countTokens(content, modelId).tokens + countedReasoning,
+    reasoningTokens: countedReasoning,
+    cachedInputTokens: 0,
+    usageSource: "estimated",
+  };
+}
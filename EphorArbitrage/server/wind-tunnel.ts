@@ -0,0 +1,828 @@
+import type { BenchmarkSettings, ContextTruncation, ModelCallAttempt, ModelResponseData, SamplingParams, StructuredOutputCheck, ToolRunResult } from "@shared/schema";
+import { getCatalogEntry, supportsImageInput, type ModelCatalogEntry } from "@shared/models";
+import type { UsageSource } from "@shared/tokenizer";
+import type { ChatCompletionContentPart, ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { ChatMessage, ReasoningOptions, ResponseFormat } from "./types";
+import { getModelDisplayName, getStreamingClient, getStructuredOutputModeFor, resolveModel } from "./providers";
+import { createMockChatCompletion } from "./mock";
+import { getChunkUsage, resolveUsage, type ReportedUsage } from "./usage";
+import { runWithFallback } from "./resilience";
+import { priceUsage, type CostBreakdown } from "./pricing";
+import { estimateCallTokens, type ProviderSlot, type ScheduleOptions } from "./scheduler";
+import { ReasoningSplitter, getDeltaReasoning, splitReasoning, getReasoningParams, getAnthropicThinkingParams, parseReasoningOptions } from "./reasoning";
+import { ProviderError, ModelCallFailedError, parseRetryAfter } from "./errors";
+import type { ToolRunSettings } from "./tool-benchmark";
+import { getAnthropicSamplingParams, getSamplingParams, parseMaxTokens, parseSamplingParams, parseSystemPrompt, withSystemPrompt } from "./sampling";
+import { fitContextWindow, parseContextWindow, type ContextWindowOptions } from "./context";
+import { addStructuredOutputInstruction, checkStructuredOutput, getAnthropicToolParams, getResponseFormatParams, parseResponseFormat } from "./structured";
+import type { OpenRouterStreamingParams } from "./openrouter";
+
+// Wind tunnel model runs.
+//
+// A run streams as events: first-token time, token and reasoning progress, queue
+// position, retries / host fallbacks, then complete - or cancelled (with what it cost
+// so far) or error. /api/wind-tunnel/stream sends one run's events as SSE;
+// /api/wind-tunnel/race runs every column at once and tags each event with its column.
+
+// An uploaded file: images go to vision models, text files are inlined ahead of the prompt
+export interface WindTunnelFile {
+  type: "image" | "text";
+  mimeType?: string;
+  name: string;
+  dataUrl?: string;
+  textContent?: string;
+}
+
+// Everything about a run except the model - shared by all columns of a race
+export interface WindTunnelConfig {
+  prompt: string;
+  files: WindTunnelFile[];
+  includeReasoning: boolean;   // Raw chain-of-thought is only sent when asked for; token counts always are
+  reasoning?: ReasoningOptions;
+  system?: string;
+  sampling?: SamplingParams;
+  maxTokens?: number;          // As requested; each run falls back to its model's default
+  responseFormat?: ResponseFormat;
+  context?: ContextWindowOptions;
+}
+
+// A run checked against its model: input fitted to the context window, output budget set
+export interface PreparedRun {
+  modelId: string;
+  catalogEntry: ModelCatalogEntry;
+  prompt: string;
+  files: WindTunnelFile[];
+  maxTokens: number;
+  truncation?: ContextTruncation;
+}
+
+export interface WindTunnelEvent {
+  type: string;
+  [field: string]: unknown;
+}
+
+export interface WindTunnelRunOptions {
+  emit: (event: WindTunnelEvent) => void;
+  signal: AbortSignal;
+  schedule: ScheduleOptions;
+}
+
+// One column of a race and the model it runs
+export interface RaceColumn {
+  col: string;
+  modelId: string;
+}
+
+const MAX_RACE_COLUMNS = 16;
+
+// Validate a race's `columns` from a request body (throws with a user-facing message)
+export function parseRaceColumns(value: unknown): RaceColumn[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error("columns must be a non-empty array");
+  }
+  if (value.length > MAX_RACE_COLUMNS) {
+    throw new Error(`At most ${MAX_RACE_COLUMNS} columns can race at once`);
+  }
+
+  const seen = new Set<string>();
+  return value.map((column: any, index) => {
+    if (!column || typeof column.col !== "string" || !column.col || typeof column.modelId !== "string" || !column.modelId) {
+      throw new Error(`columns[${index}] needs a col and a modelId`);
+    }
+    if (seen.has(column.col)) {
+      throw new Error(`Duplicate column: ${column.col}`);
+    }
+    seen.add(column.col);
+    return { col: column.col, modelId: column.modelId };
+  });
+}
+
+// Validate the run settings from a request body (throws with a user-facing message)
+export function parseWindTunnelConfig(body: any, files: WindTunnelFile[]): WindTunnelConfig {
+  if (!body.prompt || typeof body.prompt !== "string") {
+    throw new Error("Prompt is required");
+  }
+  return {
+    prompt: body.prompt,
+    files,
+    includeReasoning: body.includeReasoning === true,
+    reasoning: parseReasoningOptions(body.reasoning),
+    system: parseSystemPrompt(body.system),
+    sampling: parseSamplingParams(body.sampling),
+    maxTokens: parseMaxTokens(body.maxTokens),
+    responseFormat: parseResponseFormat(body.responseFormat),
+    context: parseContextWindow(body.context),
+  };
+}
+
+// Check the model and fit the input to the selected window and the model's real limit
+// (throws with a user-facing message)
+export function prepareModelRun(modelId: string, config: WindTunnelConfig): PreparedRun {
+  const catalogEntry = getCatalogEntry(modelId);
+  if (!catalogEntry) {
+    throw new Error(`Unknown model: ${modelId}`);
+  }
+  const { provider } = resolveModel(modelId);
+  const maxTokens = config.maxTokens ?? (catalogEntry.capabilities.webSearch || provider === "anthropic" ? 512 : 1024);
+
+  // The selected context window is enforced for real: the input is cut the way the
+  // gauge showed, and anything over the model's actual limit is refused up front
+  const fitted = fitContextWindow(modelId, config.prompt, config.files, {
+    context: config.context,
+    system: config.system,
+    outputTokens: maxTokens,
+  });
+  return { modelId, catalogEntry, maxTokens, ...fitted };
+}
+
+// Settings saved with a race: what the server ran, plus the client's display settings
+// (context tier, cost cap, search mode) from the request's `settings`
+export function getRaceSettings(
+  clientSettings: any,
+  config: WindTunnelConfig,
+  columns: RaceColumn[],
+  toolSettings?: ToolRunSettings
+): BenchmarkSettings {
+  const client = clientSettings && typeof clientSettings === "object" ? clientSettings : {};
+  const windowTokens = config.context?.windowTokens;
+  return {
+    contextSize: typeof client.contextSize === "string"
+      ? client.contextSize
+      : windowTokens ? (windowTokens >= 1_000_000 ? "1m" : `${Math.round(windowTokens / 1000)}k`) : "",
+    costCap: typeof client.costCap === "number" ? client.costCap : 0,
+    reasoningEnabled: config.reasoning?.enabled ?? false,
+    searchMode: client.searchMode === true,
+    systemPrompt: config.system,
+    sampling: config.sampling,
+    maxTokens: config.maxTokens,
+    responseSchema: config.responseFormat?.schema,
+    columns: Object.fromEntries(columns.map(({ col, modelId }) => [col, modelId])),
+    tools: toolSettings?.tools,
+    expectedTools: toolSettings?.expectedTools,
+    expectedAnswer: toolSettings?.expectedAnswer,
+  };
+}
+
+// A column's result from its last event (complete, cancelled or error), as saved with the run
+export function getColumnResult(modelId: string, event: WindTunnelEvent, ttft?: number): ModelResponseData {
+  const result: ModelResponseData = { modelId, modelName: getModelDisplayName(modelId), content: "", latency: 0, cost: 0, ttft };
+  if (event.type === "error") {
+    return { ...result, error: String(event.error) };
+  }
+
+  const toolRun = event.toolRun as ToolRunResult | undefined;
+  const data: Record<string, any> = toolRun ?? event;
+  return {
+    ...result,
+    content: toolRun ? toolRun.finalAnswer || toolRun.stoppedEarly || "" : data.content ?? "",
+    latency: data.latency ?? 0,
+    cost: data.cost ?? 0,
+    priceVersion: data.priceVersion,
+    inputTokens: data.inputTokens,
+    outputTokens: data.outputTokens,
+    reasoningTokens: data.reasoningTokens,
+    usageSource: data.usageSource,
+    servedBy: data.servedBy,
+    cancelled: event.type === "cancelled" || undefined,
+    structured: event.structured as StructuredOutputCheck | undefined,
+    toolRun,
+  };
+}
+
+// Run one model, reporting progress through `emit`. Never throws - failures end in an
+// error event, and an aborted signal in a cancelled one.
+export async function streamModelRun(run: PreparedRun, config: WindTunnelConfig, options: WindTunnelRunOptions): Promise<void> {
+  const { modelId, catalogEntry, prompt, files: resolvedFiles, maxTokens, truncation } = run;
+  const { includeReasoning, reasoning: reasoningOptions, system, sampling, maxTokens: requestedMaxTokens, responseFormat } = config;
+  const { emit, signal, schedule } = options;
+  const { provider, upstreamId } = resolveModel(modelId);
+  const isSearchModel = catalogEntry.capabilities.webSearch;
+
+  if (truncation) {
+    emit({ type: 'truncated', truncation });
+  }
+  console.log(`[Wind Tunnel Stream] Running model: ${modelId}, files: ${resolvedFiles.length}`);
+
+  // Kept outside the try so a cancelled run can still report what it streamed and cost
+  const startTime = Date.now();
+
+  // Structured-output test: the schema is enforced per host (see structured.ts) and every
+  // answer is checked against it, whatever the host promised
+  const getStructuredMode = (targetId: string) =>
+    getStructuredOutputModeFor(targetId, responseFormat, reasoningOptions);
+  const getSystemPrompt = (targetId: string) =>
+    addStructuredOutputInstruction(system, responseFormat, getStructuredMode(targetId));
+  const checkStructured = (targetId: string, content: string) => {
+    const mode = getStructuredMode(targetId);
+    return responseFormat && mode ? checkStructuredOutput(content, responseFormat, mode) : undefined;
+  };
+
+  let requestMessages: ChatMessage[] = withSystemPrompt([{ role: "user", content: prompt }], getSystemPrompt(modelId));
+  let streamedContent = "";
+  let streamedReasoning = "";
+  let servedBy = modelId;
+  let attempts: ModelCallAttempt[] = [];
+
+  const sendToken = (delta: string, tokenCount: number) => {
+    if (!streamedContent && delta) {
+      emit({ type: 'ttft', ttft: Date.now() - startTime });
+    }
+    streamedContent += delta;
+    emit({ 
+      type: 'token', 
+      content: delta,
+      tokenCount,
+      elapsed: Date.now() - startTime
+    });
+  };
+
+  // Reasoning progress: a running count, plus the text itself if includeReasoning is set
+  let reasoningCount = 0;
+  const sendReasoning = (delta: string) => {
+    streamedReasoning += delta;
+    emit({ 
+      type: 'reasoning', 
+      content: includeReasoning ? delta : undefined,
+      reasoningCount: ++reasoningCount,
+      elapsed: Date.now() - startTime
+    });
+  };
+
+  // A saturated provider queues the call instead of failing it; the column shows its place in line.
+  // Streaming calls keep their slot until the stream is read (released in `finally`).
+  let slot: ProviderSlot | undefined;
+  const scheduling = {
+    schedule: {
+      ...schedule,
+      onQueued: (position: number) => {
+        emit({ type: 'queued', position });
+      },
+    },
+    estimatedTokens: estimateCallTokens(
+      [getSystemPrompt(modelId) ?? "", prompt, ...resolvedFiles.map((file) => file.textContent ?? "")].join("\n"),
+      requestedMaxTokens
+    ),
+  };
+
+  try {
+    
+    // Let the column show that a retry / host fallback is happening
+    const onRetry = (failed: ModelCallAttempt, next: { modelId: string; delayMs: number }) => {
+      emit({ 
+        type: 'retry',
+        failed,
+        nextModelId: next.modelId,
+        nextModelName: getModelDisplayName(next.modelId),
+        delayMs: next.delayMs
+      });
+    };
+    
+    // Anthropic with streaming for real-time progress
+    if (provider === "anthropic") {
+      console.log("[Wind Tunnel] Claude path - streaming");
+      const anthropicApiKey = process.env.ANTHROPIC_API_KEY;
+      if (!anthropicApiKey) {
+        throw new Error("ANTHROPIC_API_KEY not configured");
+      }
+      
+      // Build multimodal content for Claude if there are files
+      let messageContent: any = prompt;
+      
+      if (resolvedFiles && Array.isArray(resolvedFiles) && resolvedFiles.length > 0) {
+        const contentParts: any[] = [];
+        
+        // Add images first
+        for (const file of resolvedFiles) {
+          if (file.type === 'image' && file.dataUrl) {
+            // Extract base64 data from data URL (format: data:image/png;base64,XXXXX)
+            const matches = file.dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+            if (matches) {
+              const mediaType = matches[1];
+              const base64Data = matches[2];
+              contentParts.push({
+                type: "image",
+                source: {
+                  type: "base64",
+                  media_type: mediaType,
+                  data: base64Data
+                }
+              });
+              console.log(`[Wind Tunnel] Added image to Claude request: ${file.name} (${mediaType})`);
+            }
+          } else if (file.type === 'text' && file.textContent) {
+            // Add text file content as text block
+            contentParts.push({
+              type: "text",
+              text: `[File: ${file.name}]\n${file.textContent}`
+            });
+          }
+        }
+        
+        // Add the prompt text last (unless truncation cut all of it)
+        if (prompt) {
+          contentParts.push({
+            type: "text",
+            text: prompt
+          });
+        }
+        
+        messageContent = contentParts;
+      }
+      
+      const anthropicMessages = [{
+        role: "user" as const,
+        content: messageContent,
+      }];
+      const anthropicSystem = getSystemPrompt(modelId);
+
+      const fallback = await runWithFallback(modelId, async () => {
+        const response = await fetch("https://api.anthropic.com/v1/messages", {
+          method: "POST",
+          headers: {
+            "x-api-key": anthropicApiKey,
+            "anthropic-version": "2023-06-01",
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            model: upstreamId,
+            ...getAnthropicThinkingParams(reasoningOptions, maxTokens),
+            ...getAnthropicSamplingParams(sampling, !!reasoningOptions?.enabled),
+            ...(anthropicSystem && { system: anthropicSystem }),
+            ...getAnthropicToolParams(responseFormat, reasoningOptions),
+            messages: anthropicMessages,
+            stream: true,
+          }),
+          signal,
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new ProviderError(`Anthropic API error: ${response.status} - ${errorText}`, {
+            status: response.status,
+            retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+          });
+        }
+        return response;
+      }, { onRetry, signal, ...scheduling, holdSlot: true });
+      const response = fallback.value;
+      ({ servedBy, attempts, slot } = fallback);
+
+      const reader = response.body?.getReader();
+      if (!reader) throw new Error("No reader available");
+
+      const decoder = new TextDecoder();
+      let content = "";
+      let thinking = "";
+      let tokenCount = 0;
+      let inputTokens = 0;
+      let outputTokens = 0;
+      let buffer = "";
+      let firstTokenTime = 0;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (line.startsWith("data: ")) {
+            const data = line.slice(6);
+            if (data === "[DONE]") continue;
+            
+            try {
+              const parsed = JSON.parse(data);
+              
+              if (parsed.type === "content_block_delta" && parsed.delta?.text) {
+                if (firstTokenTime === 0) {
+                  firstTokenTime = Date.now() - startTime;
+                }
+                content += parsed.delta.text;
+                tokenCount++;
+                
+                sendToken(parsed.delta.text, tokenCount);
+              }
+              
+              if (parsed.type === "content_block_delta" && parsed.delta?.type === "thinking_delta") {
+                thinking += parsed.delta.thinking || "";
+                sendReasoning(parsed.delta.thinking || "");
+              }
+              
+              // Structured output arrives as the forced tool call's input
+              if (parsed.type === "content_block_delta" && parsed.delta?.type === "input_json_delta" && parsed.delta.partial_json) {
+                if (firstTokenTime === 0) {
+                  firstTokenTime = Date.now() - startTime;
+                }
+                content += parsed.delta.partial_json;
+                tokenCount++;
+                
+                sendToken(parsed.delta.partial_json, tokenCount);
+              }
+              
+              if (parsed.type === "message_delta" && parsed.usage) {
+                outputTokens = parsed.usage.output_tokens || 0;
+              }
+              if (parsed.type === "message_start" && parsed.message?.usage) {
+                inputTokens = parsed.message.usage.input_tokens || 0;
+              }
+            } catch (e) {
+              // Skip invalid JSON
+            }
+          }
+        }
+      }
+
+      slot?.release(inputTokens + outputTokens);
+      const latency = Date.now() - startTime;
+      // Thinking is billed inside output_tokens without a breakdown - count the trace locally
+      const { reasoningTokens } = resolveUsage(
+        { prompt_tokens: inputTokens, completion_tokens: outputTokens },
+        requestMessages, content, modelId, thinking
+      );
+      const { cost, reasoningCost, priceVersion } = priceUsage(modelId, { inputTokens, outputTokens, reasoningTokens });
+      Object.assign(attempts[attempts.length - 1], { cost, priceVersion });
+      
+      emit({ 
+        type: 'complete',
+        content,
+        reasoning: includeReasoning && thinking ? thinking : undefined,
+        inputTokens,
+        outputTokens,
+        usageSource: "reported",
+        reasoningTokens,
+        reasoningCost,
+        structured: checkStructured(modelId, content),
+        servedBy: modelId,
+        attempts,
+        latency,
+        cost,
+        truncation,
+        priceVersion
+      });
+      console.log(`[Wind Tunnel] Claude complete in ${latency}ms - ${outputTokens} tokens`);
+      return;
+    }
+    
+    // Build prompt with text files included; images go to vision models as image_url parts
+    let enhancedPrompt = prompt;
+    const imageFiles = (resolvedFiles || []).filter((file: any) => file.type === 'image' && file.dataUrl);
+    
+    if (resolvedFiles && Array.isArray(resolvedFiles) && resolvedFiles.length > 0) {
+      const textParts: string[] = [];
+      
+      for (const file of resolvedFiles) {
+        if (file.type === 'text' && file.textContent) {
+          textParts.push(`[File: ${file.name}]\n${file.textContent}\n`);
+        }
+      }
+      
+      if (textParts.length > 0) {
+        enhancedPrompt = textParts.join('\n') + '\n' + prompt;
+      }
+    }
+    
+    // Models without vision are told the images were left out
+    const imageNote = imageFiles.length > 0
+      ? `[Note: ${imageFiles.length} image(s) were uploaded but this model does not support vision]\n\n`
+      : "";
+    if (imageNote && !supportsImageInput(modelId)) {
+      console.log(`[Wind Tunnel] Warning: ${modelId} does not support vision - images will be ignored`);
+    }
+    // Text view of the request (mock provider, token counting)
+    const enhancedMessages: ChatMessage[] = withSystemPrompt([{
+      role: "user",
+      content: supportsImageInput(modelId) ? enhancedPrompt : imageNote + enhancedPrompt,
+    }], getSystemPrompt(modelId));
+    
+    // Built per host, since a fallback host may differ from the requested one in vision support
+    const getUserMessage = (targetId: string): ChatCompletionMessageParam => {
+      if (!supportsImageInput(targetId)) {
+        return { role: "user", content: imageNote + enhancedPrompt };
+      }
+      if (imageFiles.length === 0) {
+        return { role: "user", content: enhancedPrompt };
+      }
+      const content: ChatCompletionContentPart[] = [
+        { type: "text", text: enhancedPrompt },
+        ...imageFiles.map((file: any): ChatCompletionContentPart => ({
+          type: "image_url",
+          image_url: { url: file.dataUrl },
+        })),
+      ];
+      console.log(`[Wind Tunnel] Sending ${imageFiles.length} image(s) to ${targetId}`);
+      return { role: "user", content };
+    };
+    const getTargetMessages = (targetId: string): ChatCompletionMessageParam[] =>
+      withSystemPrompt([getUserMessage(targetId)], getSystemPrompt(targetId));
+    
+    requestMessages = enhancedMessages;
+    
+    // Local mock provider (offline demos / tests) - streams scripted or seeded-random tokens
+    if (provider === "mock") {
+      // Fallback hosts are simulated too, so a flaky mock demonstrates the retry policy
+      let tokenCount = 0;
+      const fallback = await runWithFallback(modelId, (targetId) =>
+        createMockChatCompletion(
+          { model: targetId, messages: enhancedMessages, maxTokens, signal, sampling },
+          (delta) => sendToken(delta, ++tokenCount)
+        ), { onRetry, signal, ...scheduling, getUsedTokens: (result) => result.inputTokens + result.outputTokens });
+      const result = fallback.value;
+      ({ servedBy, attempts } = fallback);
+      
+      const latency = Date.now() - startTime;
+      const { cost, reasoningCost, priceVersion } = priceUsage(servedBy, result);
+      Object.assign(attempts[attempts.length - 1], { cost, priceVersion });
+      
+      emit({ 
+        type: 'complete',
+        content: result.content,
+        inputTokens: result.inputTokens,
+        outputTokens: result.outputTokens,
+        usageSource: result.usageSource,
+        reasoningTokens: result.reasoningTokens ?? 0,
+        reasoningCost,
+        structured: checkStructured(servedBy, result.content),
+        servedBy,
+        attempts,
+        latency,
+        cost,
+        truncation,
+        priceVersion
+      });
+      console.log(`[Wind Tunnel Stream] ${modelId} (mock) completed in ${latency}ms`);
+      return;
+    }
+    
+    // Stream using the provider's OpenAI-compatible client (per host, for fallbacks)
+    let content = "";
+    let reasoning = "";
+    let latency = 0;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let reasoningTokens = 0;
+    let cachedInputTokens = 0;
+    let usageSource: UsageSource = "estimated";
+    
+    // For search models, use non-streaming to properly capture the final response
+    // Streaming with :online models can miss content that comes via tool call results
+    if (isSearchModel) {
+      // Send initial progress indicator
+      emit({ 
+        type: 'token', 
+        content: '🔍 Searching the web...',
+        tokenCount: 0,
+        elapsed: Date.now() - startTime
+      });
+      
+      try {
+        const fallback = await runWithFallback(modelId, (targetId) => {
+          const target = resolveModel(targetId);
+          // Check if this is an OpenRouter model for provider preferences
+          const isOpenRouterModel = target.provider === "openrouter";
+          
+          return getStreamingClient(targetId).chat.completions.create({
+            model: target.upstreamId,
+            messages: getTargetMessages(targetId),
+            max_tokens: maxTokens,
+            stream: false,
+            ...getReasoningParams(target.provider, target.upstreamId, reasoningOptions),
+            ...getSamplingParams(sampling),
+            ...getResponseFormatParams(target.provider, target.upstreamId, responseFormat),
+            // Add OpenRouter provider preferences for latency optimization
+            ...(isOpenRouterModel && {
+              // @ts-ignore - OpenRouter-specific parameter
+              provider: {
+                order: ["Latency"],
+                allow_fallbacks: true
+              }
+            })
+          } as any, { signal });
+        }, { onRetry, signal, ...scheduling });
+        const completion = fallback.value;
+        ({ servedBy, attempts } = fallback);
+        
+        latency = Date.now() - startTime;
+        
+        // Validate response structure
+        if (!completion.choices || completion.choices.length === 0) {
+          console.error(`[Search Debug] ${modelId} - No choices in response:`, JSON.stringify(completion, null, 2));
+          throw new Error('No response from search model');
+        }
+        
+        // Get content from the response, with any chain-of-thought split out
+        ({ content, reasoning } = splitReasoning(
+          completion.choices[0]?.message?.content || "",
+          getDeltaReasoning(completion.choices[0]?.message)
+        ));
+        
+        // If content is empty, check for tool call results
+        if (!content.trim()) {
+          const message = completion.choices[0]?.message as any;
+          console.log(`[Search Debug] ${modelId} message:`, JSON.stringify(message, null, 2));
+          
+          if (message?.tool_calls) {
+            for (const tc of message.tool_calls) {
+              console.log(`[Search Debug] Tool call:`, JSON.stringify(tc, null, 2));
+              if (tc.function?.arguments) {
+                // Try to parse as JSON first
+                try {
+                  const args = JSON.parse(tc.function.arguments);
+                  if (args.response) content += args.response;
+                  if (args.content) content += args.content;
+                  if (args.answer) content += args.answer;
+                  if (args.text) content += args.text;
+                  if (args.result) content += args.result;
+                  if (args.output) content += args.output;
+                } catch (e) {
+                  // If not valid JSON, use the raw string as the response
+                  console.log(`[Search Debug] Not JSON, using raw arguments`);
+                  content += tc.function.arguments;
+                }
+              }
+            }
+          }
+        }
+        
+        console.log(`[Search Debug] Final content length: ${content.length}`);
+        
+        // Use usage data if available
+        ({ inputTokens, outputTokens, reasoningTokens, cachedInputTokens, usageSource } = resolveUsage(completion.usage, enhancedMessages, content, servedBy, reasoning));
+        streamedReasoning = reasoning;
+        
+        // Send the content
+        if (content.trim()) {
+          sendToken(content, outputTokens);
+        }
+        
+        console.log(`[Wind Tunnel Stream] ${modelId} search completed in ${latency}ms, ${content.length} chars`);
+        
+      } catch (searchError: any) {
+        console.error(`[Wind Tunnel Stream] Search error for ${modelId}:`, searchError.message);
+        
+        // Check for context length errors - provide accurate, educational message
+        if (searchError.message?.includes('tokens') || searchError.message?.includes('context')) {
+          // Extract the model's actual limit from the error if available
+          const limitMatch = searchError.message.match(/maximum context length is (\d+)/);
+          const requestedMatch = searchError.message.match(/requested about (\d+)/);
+          const modelLimit = limitMatch ? parseInt(limitMatch[1]).toLocaleString() : "40K";
+          const requestedTokens = requestedMatch ? parseInt(requestedMatch[1]).toLocaleString() : "unknown";
+          
+          throw new Error(`Search context overflow: This search model's limit is ${modelLimit} tokens, but search results needed ${requestedTokens}. Search results can be very large (70K-140K tokens). Try a more specific prompt, or use 72B+ tiers which have larger search limits.`);
+        }
+        throw searchError;
+      }
+    } else {
+      // Regular streaming for non-search models
+      // Retries / fallbacks only cover opening the stream - once tokens flow we're committed
+      const fallback = await runWithFallback(modelId, (targetId) => {
+        const target = resolveModel(targetId);
+        // Check if this is an OpenRouter model for provider preferences
+        const isOpenRouterModel = target.provider === "openrouter";
+        
+        const params: OpenRouterStreamingParams = {
+          model: target.upstreamId,
+          messages: getTargetMessages(targetId),
+          max_tokens: maxTokens,
+          stream: true,
+          stream_options: { include_usage: true },
+          ...getReasoningParams(target.provider, target.upstreamId, reasoningOptions),
+          ...getSamplingParams(sampling),
+          ...getResponseFormatParams(target.provider, target.upstreamId, responseFormat),
+          // Add OpenRouter provider preferences for latency optimization
+          ...(isOpenRouterModel && {
+            provider: {
+              order: ["Latency"],
+              allow_fallbacks: true
+            }
+          })
+        };
+        return getStreamingClient(targetId).chat.completions.create(params, { signal });
+      }, { onRetry, signal, ...scheduling, holdSlot: true });
+      const stream = fallback.value;
+      ({ servedBy, attempts, slot } = fallback);
+
+      let tokenCount = 0;
+      let firstTokenTime = 0;
+      let reportedUsage: ReportedUsage | undefined;
+      const splitter = new ReasoningSplitter();
+      
+      for await (const chunk of stream) {
+        if (firstTokenTime === 0) {
+          firstTokenTime = Date.now() - startTime;
+        }
+        
+        reportedUsage = getChunkUsage(chunk) ?? reportedUsage;
+        
+        // Thinking arrives in its own field or inside <think> tags - keep it out of the answer
+        const reasoningDelta = getDeltaReasoning(chunk.choices[0]?.delta);
+        if (reasoningDelta) {
+          splitter.pushReasoning(reasoningDelta);
+          sendReasoning(reasoningDelta);
+        }
+        const split = splitter.pushContent(chunk.choices[0]?.delta?.content || "");
+        if (split.reasoning) {
+          sendReasoning(split.reasoning);
+        }
+        const delta = split.content;
+        if (delta) {
+          tokenCount += 1;
+          
+          // Send progress update
+          sendToken(delta, tokenCount);
+        }
+      }
+      
+      splitter.flush();
+      content = splitter.content;
+      reasoning = splitter.reasoning;
+      latency = Date.now() - startTime;
+      ({ inputTokens, outputTokens, reasoningTokens, cachedInputTokens, usageSource } = resolveUsage(reportedUsage, enhancedMessages, content, servedBy, reasoning));
+      slot?.release(inputTokens + outputTokens);
+    }
+    
+    const { cost, reasoningCost, priceVersion } = priceUsage(servedBy, { inputTokens, outputTokens, reasoningTokens, cachedInputTokens });
+    Object.assign(attempts[attempts.length - 1], { cost, priceVersion });
+
+    // Send final complete message
+    emit({ 
+      type: 'complete',
+      content,
+      reasoning: includeReasoning && reasoning ? reasoning : undefined,
+      inputTokens,
+      outputTokens,
+      reasoningTokens,
+      reasoningCost,
+      usageSource,
+      structured: checkStructured(servedBy, content),
+      servedBy,
+      attempts,
+      latency,
+      cost,
+      truncation,
+      priceVersion
+    });
+    
+    console.log(`[Wind Tunnel Stream] ${modelId} completed in ${latency}ms`);
+    
+  } catch (error: any) {
+    if (signal.aborted) {
+      // Client disconnected or hit Stop - upstream generation is already aborted.
+      // Providers bill the prompt plus whatever was generated, so count both.
+      const latency = Date.now() - startTime;
+      const { inputTokens, outputTokens, reasoningTokens, usageSource } = resolveUsage(undefined, requestMessages, streamedContent, servedBy, streamedReasoning);
+      // A model with no price version still reports the stop, just without a cost
+      let pricing: Partial<CostBreakdown> = {};
+      try {
+        pricing = priceUsage(servedBy, { inputTokens, outputTokens, reasoningTokens });
+      } catch (pricingError: any) {
+        console.error(`[Wind Tunnel Stream] Could not price ${modelId}'s partial run: ${pricingError.message}`);
+      }
+      const { cost = 0, reasoningCost, priceVersion } = pricing;
+      console.log(`[Wind Tunnel Stream] ${modelId} cancelled after ${latency}ms - partial: ${outputTokens} tokens, $${cost.toFixed(6)} (${usageSource})`);
+      emit({ 
+        type: 'cancelled',
+        content: streamedContent,
+        inputTokens,
+        outputTokens,
+        reasoningTokens,
+        reasoningCost,
+        usageSource,
+        servedBy,
+        attempts,
+        latency,
+        cost,
+        truncation,
+        priceVersion
+      });
+      return;
+    }
+
+    console.error(`[Wind Tunnel Stream] Error:`, error);
+    
+    // Provide friendly error messages for common issues
+    let userMessage = error.message;
+    
+    // Context length exceeded. In search mode the search results overflowed it; otherwise
+    // the provider's own message, with the input size and the limit, says it best.
+    if (error.status === 400 && /context length/i.test(error.message ?? '')) {
+      if (isSearchModel) {
+        userMessage = "Search results too large for this model's context window. Try a shorter prompt or use a larger model like Frontier.";
+      }
+    }
+    // Provider errors (model temporarily unavailable)
+    else if (error.message?.includes('Provider returned error') || error.status === 400) {
+      userMessage = "This model is temporarily unavailable. Please try again in a moment.";
+    }
+    // Rate limiting
+    else if (error.status === 429) {
+      userMessage = "Too many requests. Please wait a moment and try again.";
+    }
+    
+    const failedAttempts = error instanceof ModelCallFailedError ? error.attempts : undefined;
+    emit({ type: 'error', error: userMessage, attempts: failedAttempts });
+  } finally {
+    slot?.release();
+  }
+}
@@ -0,0 +1,568 @@
+// ============================================
+// MODEL CATALOG
+// ============================================
+// Single source of truth for every model the app can route to.
+// The server resolves provider + upstream ID from here, and pricing,
+// display names and the chat model lists are all derived from it.
+
+export type ProviderId =
+  | "anthropic"
+  | "groq"
+  | "cerebras"
+  | "together"
+  | "openrouter"
+  | "deepseek"
+  | "minimax"
+  | "local"
+  | "mock";
+
+// Names shown to students ("Together is degraded")
+export const PROVIDER_DISPLAY_NAMES: Record<ProviderId, string> = {
+  anthropic: "Anthropic",
+  groq: "Groq",
+  cerebras: "Cerebras",
+  together: "Together",
+  openrouter: "OpenRouter",
+  deepseek: "DeepSeek",
+  minimax: "MiniMax",
+  local: "Local server",
+  mock: "Mock",
+};
+
+export interface ModelCapabilities {
+  inputModalities: Array<"text" | "image">;
+  reasoning: boolean;
+  webSearch: boolean;
+}
+
+// Launch pricing per 1M tokens (USD). Costs use the versioned prices in the
+// model_prices table (server/pricing.ts); this only seeds a model's first version.
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelCatalogEntry {
+  id: string;              // ID used by the client and stored with messages
+  provider: ProviderId;
+  upstreamId: string;      // ID sent to the provider's API
+  displayName: string;
+  pricing: ModelPricing;
+  capabilities: ModelCapabilities;
+  contextLength: number;
+  listed?: boolean;        // Selectable in the chat model dropdown
+  previousNames?: string[]; // Display names saved with older messages, before a rename
+}
+
+const TEXT: ModelCapabilities = { inputModalities: ["text"], reasoning: false, webSearch: false };
+const TEXT_IMAGE: ModelCapabilities = { inputModalities: ["text", "image"], reasoning: false, webSearch: false };
+const REASONING: ModelCapabilities = { inputModalities: ["text"], reasoning: true, webSearch: false };
+const SEARCH: ModelCapabilities = { inputModalities: ["text"], reasoning: false, webSearch: true };
+
+export const MODEL_CATALOG: ModelCatalogEntry[] = [
+  // Direct provider APIs (chat, compete, auto-router)
+  {
+    id: "anthropic/claude-sonnet-4.5",
+    provider: "anthropic",
+    upstreamId: "claude-sonnet-4-20250514",
+    displayName: "Claude Sonnet 4.5",
+    pricing: { input: 3.00, output: 15.00 },
+    capabilities: TEXT_IMAGE,
+    contextLength: 200000,
+    listed: true,
+  },
+  {
+    id: "meta-llama/llama-3.3-70b-instruct:cerebras",
+    provider: "cerebras",
+    upstreamId: "llama-3.3-70b",
+    displayName: "Cerebras: Llama 3.3 70B",
+    pricing: { input: 0.60, output: 0.60 },
+    capabilities: TEXT,
+    contextLength: 128000,
+    listed: true,
+  },
+  {
+    id: "meta-llama/llama-4-maverick:groq",
+    provider: "groq",
+    upstreamId: "llama-3.3-70b-versatile",
+    displayName: "Groq: Llama 4 Maverick",
+    pricing: { input: 0.11, output: 0.34 },
+    capabilities: TEXT,
+    contextLength: 131072,
+    listed: true,
+  },
+  {
+    id: "deepseek/deepseek-chat",
+    provider: "deepseek",
+    upstreamId: "deepseek-chat",
+    displayName: "DeepSeek-V3",
+    pricing: { input: 0.14, output: 0.56 },
+    capabilities: TEXT,
+    contextLength: 64000,
+    listed: true,
+  },
+  {
+    id: "minimax/minimax-m2",
+    provider: "minimax",
+    upstreamId: "MiniMax-Text-01",
+    displayName: "MiniMax M2",
+    pricing: { input: 0.30, output: 1.20 },
+    capabilities: TEXT,
+    contextLength: 1000000,
+    listed: true,
+  },
+  {
+    id: "moonshotai/kimi-k2",
+    provider: "openrouter",
+    upstreamId: "moonshotai/kimi-k2",
+    displayName: "Kimi K2 (Moonshot)",
+    pricing: { input: 0.14, output: 2.49 },
+    capabilities: TEXT,
+    contextLength: 131072,
+    listed: true,
+  },
+  {
+    id: "qwen/qwen-2.5-72b-instruct",
+    provider: "together",
+    upstreamId: "Qwen/Qwen2.5-72B-Instruct-Turbo",
+    displayName: "Qwen 2.5 72B (Alibaba)",
+    pricing: { input: 0.27, output: 0.27 },
+    capabilities: TEXT,
+    contextLength: 32768,
+    listed: true,
+  },
+  {
+    id: "z-ai/glm-4-32b",
+    provider: "together",
+    upstreamId: "zai-org/GLM-4.6",
+    displayName: "GLM-4.6 (Zhipu)",
+    previousNames: ["GLM-4-32B (Zhipu)"],
+    pricing: { input: 0.10, output: 0.10 },
+    capabilities: TEXT,
+    contextLength: 202752,
+    listed: true,
+  },
+
+  // Together AI
+  {
+    id: "together/llama-3.2-3b-instruct-turbo",
+    provider: "together",
+    upstreamId: "meta-llama/Llama-3.2-3B-Instruct-Turbo",
+    displayName: "Llama 3.2 3B Turbo (3B)",
+    pricing: { input: 0.06, output: 0.06 },
+    capabilities: TEXT,
+    contextLength: 131072,
+  },
+  {
+    id: "together/qwen-2.5-7b-instruct-turbo",
+    provider: "together",
+    upstreamId: "Qwen/Qwen2.5-7B-Instruct-Turbo",
+    displayName: "Qwen 2.5 7B Turbo (7B)",
+    pricing: { input: 0.10, output: 0.10 },
+    capabilities: TEXT,
+    contextLength: 32768,
+    listed: true,
+  },
+  {
+    id: "together/llama-4-maverick-17b",
+    provider: "together",
+    upstreamId: "meta-llama/Llama-4-Maverick-17B-128E-Instruct-FP8",
+    displayName: "Llama 4 Maverick 17B (17B)",
+    pricing: { input: 0.10, output: 0.10 },
+    capabilities: TEXT_IMAGE,
+    contextLength: 1048576,
+  },
+  {
+    id: "together/deepseek-r1-distill-llama-70b",
+    provider: "together",
+    upstreamId: "deepseek-ai/DeepSeek-R1-Distill-Llama-70B",
+    displayName: "DeepSeek R1 Distill 70B (70B, reasoning)",
+    pricing: { input: 2.00, output: 2.00 },
+    capabilities: REASONING,
+    contextLength: 131072,
+    listed: true,
+  },
+  {
+    id: "together/deepseek-r1",
+    provider: "together",
+    upstreamId: "deepseek-ai/DeepSeek-R1",
+    displayName: "DeepSeek R1 (Frontier, reasoning)",
+    pricing: { input: 3.00, output: 7.00 },
+    capabilities: REASONING,
+    contextLength: 163840,
+    listed: true,
+  },
+  {
+    id: "together/qwq-32b",
+    provider: "together",
+    upstreamId: "Qwen/QwQ-32B",
+    displayName: "QwQ 32B (Frontier, reasoning)",
+    pricing: { input: 1.20, output: 1.20 },
+    capabilities: REASONING,
+    contextLength: 131072,
+    listed: true,
+  },
+  {
+    id: "together/Qwen/Qwen3-4B",
+    provider: "together",
+    upstreamId: "Qwen/Qwen3-4B",
+    displayName: "Qwen3-4B (3B, Chinese)",
+    pricing: { input: 0.06, output: 0.06 },
+    capabilities: TEXT,
+    contextLength: 40960,
+  },
+  {
+    id: "together/Qwen/Qwen3-Next-80B-A3B-Instruct",
+    provider: "together",
+    upstreamId: "Qwen/Qwen3-Next-80B-A3B-Instruct",
+    displayName: "Qwen3-A3B (3B active, Chinese)",
+    pricing: { input: 0.15, output: 0.15 },
+    capabilities: TEXT,
+    contextLength: 262144,
+  },
+  {
+    id: "together/Qwen/Qwen2.5-72B-Instruct-Turbo",
+    provider: "together",
+    upstreamId: "Qwen/Qwen2.5-72B-Instruct-Turbo",
+    displayName: "Qwen 2.5 72B Turbo",
+    pricing: { input: 0.30, output: 0.30 },
+    capabilities: TEXT,
+    contextLength: 32768,
+  },
+  {
+    id: "together/llama-3.3-70b-instruct-turbo",
+    provider: "together",
+    upstreamId: "meta-llama/Llama-3.3-70B-Instruct-Turbo",
+    displayName: "Together: Llama 3.3 70B",
+    pricing: { input: 0.88, output: 0.88 },
+    capabilities: TEXT,
+    contextLength: 131072,
+  },
+
+  // Cerebras (fast inference)
+  {
+    id: "cerebras/llama-3.1-8b",
+    provider: "cerebras",
+    upstreamId: "llama3.1-8b",
+    displayName: "Cerebras: Llama 3.1 8B",
+    pricing: { input: 0.10, output: 0.10 },
+    capabilities: TEXT,
+    contextLength: 32768,
+  },
+  {
+    id: "cerebras/qwen-3-32b",
+    provider: "cerebras",
+    upstreamId: "qwen-3-32b",
+    displayName: "Cerebras: Qwen3 32B",
+    pricing: { input: 0.40, output: 0.80 },
+    capabilities: TEXT,
+    contextLength: 65536,
+  },
+  {
+    id: "cerebras/gpt-oss-120b",
+    provider: "cerebras",
+    upstreamId: "gpt-oss-120b",
+    displayName: "Cerebras: GPT-OSS 120B",
+    pricing: { input: 0.25, output: 0.69 },
+    capabilities: REASONING,
+    contextLength: 131072,
+  },
+
+  // OpenRouter - Qwen models
+  {
+    id: "openrouter/qwen/qwen3-4b",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen3-4b",
+    displayName: "Qwen3-4B",
+    pricing: { input: 0.02, output: 0.06 },
+    capabilities: TEXT,
+    contextLength: 40960,
+  },
+  {
+    id: "openrouter/qwen/qwen3-4b:free",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen3-4b:free",
+    displayName: "Qwen3-4B (free)",
+    pricing: { input: 0.00, output: 0.00 },
+    capabilities: TEXT,
+    contextLength: 40960,
+  },
+  {
+    id: "openrouter/qwen/qwen3-8b",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen3-8b",
+    displayName: "Qwen3-8B",
+    pricing: { input: 0.04, output: 0.12 },
+    capabilities: TEXT,
+    contextLength: 40960,
+  },
+  {
+    id: "openrouter/qwen/qwen3-14b",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen3-14b",
+    displayName: "Qwen3-14B",
+    pricing: { input: 0.10, output: 0.20 },
+    capabilities: TEXT,
+    contextLength: 40960,
+  },
+  {
+    id: "openrouter/qwen/qwen3-32b",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen3-32b",
+    displayName: "Qwen3-32B",
+    pricing: { input: 0.20, output: 0.40 },
+    capabilities: TEXT,
+    contextLength: 40960,
+  },
+  {
+    id: "openrouter/qwen/qwen3-30b-a3b",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen3-30b-a3b",
+    displayName: "Qwen3-30B-A3B",
+    pricing: { input: 0.06, output: 0.22 },
+    capabilities: TEXT,
+    contextLength: 40960,
+  },
+  {
+    id: "openrouter/qwen/qwen2.5-72b-instruct",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen-2.5-72b-instruct",
+    displayName: "Qwen2.5-72B",
+    pricing: { input: 0.27, output: 0.27 },
+    capabilities: TEXT,
+    contextLength: 32768,
+  },
+  {
+    id: "openrouter/qwen/qwen-2-72b-instruct",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen-2-72b-instruct",
+    displayName: "Qwen2-72B",
+    pricing: { input: 0.90, output: 0.90 },
+    capabilities: TEXT,
+    contextLength: 32768,
+  },
+  {
+    id: "openrouter/qwen/qwq-32b",
+    provider: "openrouter",
+    upstreamId: "qwen/qwq-32b",
+    displayName: "QwQ-32B",
+    pricing: { input: 0.15, output: 0.40 },
+    capabilities: REASONING,
+    contextLength: 131072,
+  },
+  {
+    id: "openrouter/qwen/qwen2.5-vl-3b-instruct",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen2.5-vl-3b-instruct:free",
+    displayName: "Qwen2.5-3B (3B, Chinese)",
+    pricing: { input: 0.00, output: 0.00 },
+    capabilities: TEXT_IMAGE,
+    contextLength: 64000,
+  },
+
+  // OpenRouter - DeepSeek models
+  {
+    id: "openrouter/deepseek/deepseek-r1-distill-qwen-7b",
+    provider: "openrouter",
+    upstreamId: "deepseek/deepseek-r1-distill-qwen-7b",
+    displayName: "DeepSeek-R1-7B",
+    pricing: { input: 0.10, output: 0.20 },
+    capabilities: REASONING,
+    contextLength: 131072,
+  },
+  {
+    id: "openrouter/deepseek/deepseek-r1-distill-qwen-14b",
+    provider: "openrouter",
+    upstreamId: "deepseek/deepseek-r1-distill-qwen-14b",
+    displayName: "DeepSeek-R1-14B",
+    pricing: { input: 0.15, output: 0.15 },
+    capabilities: REASONING,
+    contextLength: 64000,
+  },
+  {
+    id: "openrouter/deepseek/deepseek-v3.2",
+    provider: "openrouter",
+    upstreamId: "deepseek/deepseek-chat",
+    displayName: "DeepSeek V3.2",
+    pricing: { input: 0.27, output: 0.40 },
+    capabilities: TEXT,
+    contextLength: 163840,
+  },
+  {
+    id: "openrouter/deepseek/deepseek-r1",
+    provider: "openrouter",
+    upstreamId: "deepseek/deepseek-r1",
+    displayName: "DeepSeek R1",
+    pricing: { input: 0.55, output: 2.19 },
+    capabilities: REASONING,
+    contextLength: 163840,
+  },
+
+  // OpenRouter - Other providers
+  {
+    id: "openrouter/meta-llama/llama-3.3-70b-instruct",
+    provider: "openrouter",
+    upstreamId: "meta-llama/llama-3.3-70b-instruct",
+    displayName: "OpenRouter: Llama 3.3 70B",
+    pricing: { input: 0.13, output: 0.40 },
+    capabilities: TEXT,
+    contextLength: 131072,
+  },
+  {
+    id: "openrouter/moonshotai/kimi-k2-instruct",
+    provider: "openrouter",
+    upstreamId: "moonshotai/kimi-k2-instruct",
+    displayName: "Kimi K2",
+    pricing: { input: 0.14, output: 2.49 },
+    capabilities: TEXT,
+    contextLength: 131072,
+  },
+  {
+    id: "openrouter/anthropic/claude-sonnet-4",
+    provider: "openrouter",
+    upstreamId: "anthropic/claude-sonnet-4",
+    displayName: "Claude Sonnet 4",
+    pricing: { input: 3.00, output: 15.00 },
+    capabilities: TEXT_IMAGE,
+    contextLength: 200000,
+  },
+
+  // OpenRouter :online models (web search enabled via Exa)
+  {
+    id: "openrouter/qwen/qwen3-8b:online",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen3-8b:online",
+    displayName: "Qwen3-8B + Search",
+    pricing: { input: 0.04, output: 0.12 },
+    capabilities: SEARCH,
+    contextLength: 40960,
+  },
+  {
+    id: "openrouter/qwen/qwen3-14b:online",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen3-14b:online",
+    displayName: "Qwen3-14B + Search",
+    pricing: { input: 0.10, output: 0.20 },
+    capabilities: SEARCH,
+    contextLength: 40960,
+  },
+  {
+    id: "openrouter/qwen/qwen3-32b:online",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen3-32b:online",
+    displayName: "Qwen3-32B + Search",
+    pricing: { input: 0.20, output: 0.40 },
+    capabilities: SEARCH,
+    contextLength: 40960,
+  },
+  {
+    id: "openrouter/qwen/qwen3-30b-a3b:online",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen3-30b-a3b:online",
+    displayName: "Qwen3-30B-A3B + Search",
+    pricing: { input: 0.06, output: 0.22 },
+    capabilities: SEARCH,
+    contextLength: 40960,
+  },
+  {
+    id: "openrouter/qwen/qwen2.5-72b-instruct:online",
+    provider: "openrouter",
+    upstreamId: "qwen/qwen-2.5-72b-instruct:online",
+    displayName: "Qwen2.5-72B + Search",
+    pricing: { input: 0.27, output: 0.27 },
+    capabilities: SEARCH,
+    contextLength: 131072,
+  },
+  {
+    id: "openrouter/deepseek/deepseek-v3.2:online",
+    provider: "openrouter",
+    upstreamId: "deepseek/deepseek-chat:online",
+    displayName: "DeepSeek V3.2 + Search",
+    pricing: { input: 0.27, output: 0.40 },
+    capabilities: SEARCH,
+    contextLength: 163840,
+  },
+  {
+    id: "openrouter/anthropic/claude-sonnet-4:online",
+    provider: "openrouter",
+    upstreamId: "anthropic/claude-sonnet-4:online",
+    displayName: "Claude Sonnet 4 + Search",
+    pricing: { input: 3.00, output: 15.00 },
+    capabilities: { inputModalities: ["text", "image"], reasoning: false, webSearch: true },
+    contextLength: 200000,
+  },
+
+  // Reasoning + Search combined models
+  {
+    id: "openrouter/deepseek/deepseek-r1:online",
+    provider: "openrouter",
+    upstreamId: "deepseek/deepseek-r1:online",
+    displayName: "DeepSeek R1 + Reasoning + Search",
+    pricing: { input: 0.55, output: 2.19 },
+    capabilities: { inputModalities: ["text"], reasoning: true, webSearch: true },
+    contextLength: 163840,
+  },
+];
+
+const catalogById = new Map(MODEL_CATALOG.map((entry) => [entry.id, entry]));
+
+export function getCatalogEntry(modelId: string): ModelCatalogEntry | undefined {
+  return catalogById.get(modelId);
+}
+
+// For model names saved with messages: a catalog ID, a display name, or a display name from before a rename
+export function findCatalogEntry(idOrName: string): ModelCatalogEntry | undefined {
+  return getCatalogEntry(idOrName) ?? MODEL_CATALOG.find((entry) =>
+    entry.displayName === idOrName || entry.previousNames?.includes(idOrName)
+  );
+}
+
+// Whether the model accepts images (as Anthropic image blocks or OpenAI image_url parts)
+export function supportsImageInput(modelId: string): boolean {
+  return !!getCatalogEntry(modelId)?.capabilities.inputModalities.includes("image");
+}
+
+// Add (or replace) an entry at runtime - used for models discovered on a local server
+export function registerCatalogEntry(entry: ModelCatalogEntry): void {
+  const index = MODEL_CATALOG.findIndex((existing) => existing.id === entry.id);
+  if (index >= 0) {
+    MODEL_CATALOG[index] = entry;
+  } else {
+    MODEL_CATALOG.push(entry);
+  }
+  catalogById.set(entry.id, entry);
+}
+
+// Equivalent hosts for the same open-weight model, in preference order.
+// When a host keeps failing, calls fall back to the next one in its group.
+export const HOST_FALLBACK_GROUPS: string[][] = [
+  [
+    "meta-llama/llama-3.3-70b-instruct:cerebras",
+    "together/llama-3.3-70b-instruct-turbo",
+    "openrouter/meta-llama/llama-3.3-70b-instruct",
+  ],
+  ["qwen/qwen-2.5-72b-instruct", "openrouter/qwen/qwen2.5-72b-instruct"],
+  ["cerebras/qwen-3-32b", "openrouter/qwen/qwen3-32b"],
+  ["together/qwq-32b", "openrouter/qwen/qwq-32b"],
+  ["together/Qwen/Qwen3-4B", "openrouter/qwen/qwen3-4b"],
+  ["deepseek/deepseek-chat", "openrouter/deepseek/deepseek-v3.2"],
+  ["together/deepseek-r1", "openrouter/deepseek/deepseek-r1"],
+];
+
+// The model itself followed by its equivalent hosts (just the model when it has none)
+export function getFallbackChain(modelId: string): string[] {
+  const group = HOST_FALLBACK_GROUPS.find((ids) => ids.includes(modelId));
+  return group ? [modelId, ...group.filter((id) => id !== modelId)] : [modelId];
+}
+
+// The fixed line-up used by "All Models" chat mode and the compete council
+export const COUNCIL_MODEL_IDS = [
+  "anthropic/claude-sonnet-4.5",
+  "meta-llama/llama-3.3-70b-instruct:cerebras",
+  "meta-llama/llama-4-maverick:groq",
+  "deepseek/deepseek-chat",
+  "minimax/minimax-m2",
+  "moonshotai/kimi-k2",
+  "qwen/qwen-2.5-72b-instruct",
+  "z-ai/glm-4-32b",
+] as const;
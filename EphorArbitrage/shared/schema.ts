@@ -1,7 +1,9 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, jsonb, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { MODEL_CATALOG } from "./models";
+import type { UsageSource } from "./tokenizer";
 
 export const chats = pgTable("chats", {
   id: text("id").primaryKey(),
@@ -20,6 +22,54 @@ export interface RoutingInfo {
   modelName: string;
 }
 
+// One try at a model call - retries and host fallbacks each add an entry
+export interface ModelCallAttempt {
+  modelId: string;         // Catalog ID of the host that was tried
+  provider: string;
+  attempt: number;         // 1-based try count on this host
+  waitedMs: number;        // Backoff before this try
+  latencyMs: number;
+  ok: boolean;
+  error?: string;
+  status?: number;         // HTTP status of the failure, when known
+  cost: number;            // Failed calls aren't billed, so only the successful try costs anything
+  priceVersion?: string;   // Price version `cost` was computed with (successful try only)
+}
+
+// Provider health (GET /api/providers/status), from a rolling window of recent calls.
+// degraded: failing often or some models' circuits are open; down: every tracked model's circuit is open
+export type ProviderHealthState = "healthy" | "degraded" | "down" | "unknown";
+// closed: calls go through; open: calls fail fast until retryAt; half_open: one trial call decides
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface ModelHealth {
+  modelId: string;              // Catalog ID of the host
+  provider: string;
+  circuit: CircuitState;
+  samples: number;              // Calls in the window
+  errorRate: number;            // 0-1
+  avgLatencyMs: number | null;  // Successful calls only (time to response / stream start)
+  consecutiveFailures: number;
+  lastError?: string;
+  retryAt?: number;             // Epoch ms when an open circuit lets a trial call through
+  fallbackAvailable: boolean;   // Another host in the fallback chain can still take calls
+}
+
+export interface ProviderHealth {
+  provider: string;
+  name: string;
+  state: ProviderHealthState;
+  samples: number;
+  errorRate: number;
+  avgLatencyMs: number | null;
+  reason?: string;              // Why it isn't healthy
+}
+
+export interface ProviderStatusResponse {
+  providers: ProviderHealth[];
+  models: ModelHealth[];
+}
+
 // Cost stats interface for type safety
 export interface CostStats {
   inputTokens: number;
@@ -27,10 +77,16 @@ export interface CostStats {
   responseTimeMs: number;
   totalTimeMs?: number;
   tokensPerSecond?: number;
+  reasoningTokens?: number;   // Part of outputTokens spent thinking (reasoning models)
+  reasoningCost?: number;     // Part of cost spent on those tokens
+  usageSource?: UsageSource;  // Missing on messages stored before usage was tracked
+  servedBy?: string;          // Catalog ID that answered (differs from the message's model after a fallback)
+  attempts?: ModelCallAttempt[];
   cost: number;
   claudeCost: number;
   saved: number;
   savedPercent: number;
+  priceVersion?: string;      // Price version the costs were computed with (GET /api/pricing/versions/:id)
   routingInfo?: RoutingInfo;
 }
 
@@ -76,28 +132,194 @@ export type Message = typeof messages.$inferSelect;
 // BENCHMARK TABLES (Model Council Feature)
 // ============================================
 
+// How answers are checked against a reference answer:
+// exact    - the whole answer equals `expected` (ignoring case, spacing and a final period)
+// regex    - the answer matches the pattern in `expected`
+// numeric  - a number in the answer's last line is within `tolerance` of `expected`
+// keywords - the answer mentions every comma-separated keyword in `expected`
+// rubric   - an LLM judge scores the answer against the rubric in `expected`
+// code     - the answer's code blocks pass the unit tests in `expected` (run locally)
+export type GraderType = "exact" | "regex" | "numeric" | "keywords" | "rubric" | "code";
+
+export type CodeLanguage = "javascript" | "python";
+
+export interface GraderConfig {
+  type: GraderType;
+  expected: string;
+  tolerance?: number;       // numeric: allowed absolute difference (default 0)
+  caseSensitive?: boolean;  // exact, regex, keywords
+  judgeModelId?: string;    // rubric: catalog ID of the judge
+  language?: CodeLanguage;  // code: language of the answer and the tests
+}
+
+export interface GradeResult {
+  grader: GraderType;
+  correct: boolean;
+  score: number;            // 0-1: partial credit for keywords and rubric, otherwise 0 or 1
+  reason: string;
+  judgeCost?: number;       // rubric: what the judge call cost (not part of the column's cost)
+  output?: string;          // code: what the code and tests printed
+  durationMs?: number;      // code: how long the tests ran
+}
+
 // Saved benchmark prompts that can be rerun
 export const benchmarks = pgTable("benchmarks", {
   id: text("id").primaryKey(),
   name: text("name").notNull(),
   description: text("description"),
   prompt: text("prompt").notNull(),
+  grader: jsonb("grader").$type<GraderConfig>(),  // Reference answer and how to check it
+  variables: jsonb("variables").$type<Record<string, string>[]>(),  // Rows to fill a templated prompt with
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Sampling settings sent with a request; anything omitted uses the provider's default
+export interface SamplingParams {
+  temperature?: number;  // 0-2
+  topP?: number;         // 0-1
+  seed?: number;         // Best-effort determinism (not every provider honors it)
+  stop?: string[];       // Up to 4 stop sequences
+}
+
+// The JSON Schema subset structured-output requests are checked against
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean" | "null"
+    | Array<"object" | "array" | "string" | "number" | "integer" | "boolean" | "null">;
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+// How a structured-output request was enforced:
+// json_schema - the provider constrains decoding to the schema
+// json_object - the provider only guarantees valid JSON
+// tool        - Anthropic forced tool call whose input is the schema
+// prompt      - instructions only; the model is on its own
+export type StructuredOutputMode = "json_schema" | "json_object" | "tool" | "prompt";
+
+// valid: parsed as-is and matches; repaired: matches after stripping prose / fences / trailing commas;
+// invalid: JSON but breaks the schema; unparseable: no JSON found
+export type SchemaCompliance = "valid" | "repaired" | "invalid" | "unparseable";
+
+export interface StructuredOutputCheck {
+  mode: StructuredOutputMode;
+  compliance: SchemaCompliance;
+  value?: unknown;    // Parsed (and possibly repaired) JSON
+  errors: string[];   // Schema violations, or why nothing could be parsed
+}
+
+// Input cut to fit the selected context window: the start is kept, the end dropped
+export interface ContextTruncation {
+  windowTokens: number;   // Selected window
+  inputTokens: number;    // Text input before the cut
+  keptTokens: number;
+  droppedTokens: number;
+}
+
+// Tool-calling benchmark: a tool the student defines, answered with a canned value
+export interface MockTool {
+  name: string;
+  description: string;
+  parameters: JsonSchema;  // Must be an object schema
+  returns: unknown;        // Sent back as the tool result whenever the arguments are valid
+}
+
+// One tool call made during a tool-calling run
+export interface ToolCallStep {
+  turn: number;             // Model call (1-based) that made the tool call
+  tool: string;
+  arguments: string;        // Raw arguments text, as the model wrote it
+  argumentsValid: boolean;  // Parsed as JSON and matched the tool's parameters
+  errors: string[];
+  result: unknown;          // What the model was sent back
+}
+
+export interface ToolRunScore {
+  rightTools: boolean;      // Called every expected tool, and no tool that doesn't exist
+  validArguments: boolean;  // Every call's arguments matched the tool's schema
+  finalAnswer: boolean;     // Finished with an answer (containing the expected text, if any)
+  score: number;            // 0-100: share of the three checks passed
+}
+
+export interface ToolRunResult {
+  steps: ToolCallStep[];
+  finalAnswer: string;
+  turns: number;
+  stoppedEarly?: string;    // Why the loop ended without a final answer
+  score: ToolRunScore;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  latency: number;
+  servedBy?: string;
+  attempts: ModelCallAttempt[];
+  priceVersion?: string;    // Of the last call; each attempt records its own
+}
+
 // Types for JSONB columns
 export interface BenchmarkSettings {
   contextSize: string;
   costCap: number;
   reasoningEnabled: boolean;
+  searchMode?: boolean;
+  systemPrompt?: string;
+  sampling?: SamplingParams;
+  maxTokens?: number;
+  responseSchema?: JsonSchema;  // Set for structured-output runs
+  columns?: Record<string, string>;  // Band (column) -> catalog ID it ran, for saved runs
+  tools?: MockTool[];               // Set for tool-calling runs
+  expectedTools?: string[];
+  expectedAnswer?: string;
+  trials?: number;                  // Runs per column, for repeated-trial runs
+  grader?: GraderConfig;            // Reference answer the columns were graded against
+}
+
+// Spread of one metric over repeated trials
+export interface TrialDistribution {
+  min: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export interface TrialStats {
+  trials: number;                   // Trials that completed
+  ttft?: TrialDistribution;         // Milliseconds (streamed runs only)
+  latency: TrialDistribution;       // Milliseconds
+  tokensPerSecond?: TrialDistribution;
+  cost: TrialDistribution;
+  totalCost: number;                // Spent on the completed trials
 }
 
 export interface ModelResponseData {
   content: string;
   latency: number;
+  ttft?: number;            // Milliseconds to the first answer token
   cost: number;
+  priceVersion?: string;
   modelId: string;
   modelName: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  reasoningTokens?: number;
+  usageSource?: UsageSource;
+  servedBy?: string;
+  cancelled?: boolean;      // Stopped mid-run - content, latency and cost are partial
+  error?: string;
+  structured?: StructuredOutputCheck;
+  toolRun?: ToolRunResult;
+  trials?: TrialStats;      // Set for repeated-trial runs; the other fields are the last trial's
+  grade?: GradeResult;      // Set when the run had a reference answer
 }
 
 export interface CouncilEvaluation {
@@ -117,6 +339,7 @@ export const benchmarkRuns = pgTable("benchmark_runs", {
   councilEvaluations: jsonb("council_evaluations").$type<CouncilEvaluation[]>(),
   consensusRankings: jsonb("consensus_rankings").$type<string[]>(),
   chairmanSynthesis: text("chairman_synthesis"),
+  clientKey: text("client_key"),  // Who ran it (browser client ID or IP), for the run history
 });
 
 // Relations
@@ -148,6 +371,87 @@ export type Benchmark = typeof benchmarks.$inferSelect;
 export type InsertBenchmarkRun = z.infer<typeof insertBenchmarkRunSchema>;
 export type BenchmarkRun = typeof benchmarkRuns.$inferSelect;
 
+// ============================================
+// BENCHMARK SUITES
+// ============================================
+
+// A file kept with a suite case (the shape wind tunnel runs take, data included)
+export interface SuiteFile {
+  type: "image" | "text";
+  mimeType?: string;
+  name: string;
+  dataUrl?: string;
+  textContent?: string;
+}
+
+// One test case of a suite
+export interface SuiteCase {
+  prompt: string;
+  files?: SuiteFile[];
+  grader?: GraderConfig;    // Without one, the case counts toward cost and latency but not accuracy
+  tags?: string[];
+}
+
+// How one column did over a whole suite
+export interface SuiteScorecard {
+  modelId: string;
+  modelName: string;
+  cases: number;            // Cases the column ran (stopped ones aren't counted)
+  errors: number;
+  graded: number;           // Cases with a reference answer; a failed run counts as wrong
+  correct: number;
+  accuracy?: number;        // correct / graded (0-1), when any case was graded
+  totalCost: number;
+  meanLatency?: number;     // Milliseconds, over the cases that completed
+  costPerCorrect?: number;  // totalCost / correct, when any answer was correct
+}
+
+// Named collections of test cases, run together across the current columns
+export const benchmarkSuites = pgTable("benchmark_suites", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  cases: jsonb("cases").$type<SuiteCase[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Each run of a suite: every case's column results and the scorecards they add up to
+export const suiteRuns = pgTable("suite_runs", {
+  id: text("id").primaryKey(),
+  suiteId: text("suite_id").references(() => benchmarkSuites.id, { onDelete: "cascade" }),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  settings: jsonb("settings").$type<BenchmarkSettings>(),
+  caseResults: jsonb("case_results").$type<Record<string, ModelResponseData>[]>(),
+  scorecards: jsonb("scorecards").$type<Record<string, SuiteScorecard>>(),
+  clientKey: text("client_key"),
+});
+
+export const benchmarkSuitesRelations = relations(benchmarkSuites, ({ many }) => ({
+  runs: many(suiteRuns),
+}));
+
+export const suiteRunsRelations = relations(suiteRuns, ({ one }) => ({
+  suite: one(benchmarkSuites, {
+    fields: [suiteRuns.suiteId],
+    references: [benchmarkSuites.id],
+  }),
+}));
+
+export const insertBenchmarkSuiteSchema = createInsertSchema(benchmarkSuites).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSuiteRunSchema = createInsertSchema(suiteRuns).omit({
+  id: true,
+  runAt: true,
+});
+
+export type InsertBenchmarkSuite = z.infer<typeof insertBenchmarkSuiteSchema>;
+export type BenchmarkSuite = typeof benchmarkSuites.$inferSelect;
+export type InsertSuiteRun = z.infer<typeof insertSuiteRunSchema>;
+export type SuiteRun = typeof suiteRuns.$inferSelect;
+
 // ============================================
 // PUBLIC LEADERBOARD
 // ============================================
@@ -156,6 +460,7 @@ export type BenchmarkRun = typeof benchmarkRuns.$inferSelect;
 export interface LeaderboardResult {
   latency: number;
   cost: number;
+  priceVersion?: string;
   modelName: string;
   modelId: string;
 }
@@ -182,83 +487,53 @@ export type InsertLeaderboardEntry = z.infer<typeof insertLeaderboardEntrySchema
 export type LeaderboardEntry = typeof leaderboardEntries.$inferSelect;
 
 // ============================================
+// PRICING
+// ============================================
+
+// One version of a model's price (rates per 1M tokens). Versions are never edited: a
+// price change is a new version with a later effectiveFrom, so a stored cost can always
+// be explained by the priceVersion saved with it. See server/pricing.ts.
+export const modelPrices = pgTable("model_prices", {
+  id: text("id").primaryKey(),
+  modelId: text("model_id").notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  currency: text("currency").notNull().default("USD"),
+  input: doublePrecision("input").notNull(),
+  output: doublePrecision("output").notNull(),
+  cachedInput: doublePrecision("cached_input"),          // Cache-hit input; defaults to the input rate
+  reasoningOutput: doublePrecision("reasoning_output"),  // Thinking tokens; defaults to the output rate
+  perSearch: doublePrecision("per_search"),              // Flat fee per web search (search models)
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertModelPriceSchema = createInsertSchema(modelPrices, {
+  modelId: (schema) => schema.min(1),
+  // Costs are added up across models and runs without conversion, so prices are in USD
+  currency: (schema) => schema.refine((currency) => currency === "USD", "currency must be USD"),
+  input: (schema) => schema.min(0),
+  output: (schema) => schema.min(0),
+  cachedInput: (schema) => schema.min(0),
+  reasoningOutput: (schema) => schema.min(0),
+  perSearch: (schema) => schema.min(0),
+}).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  effectiveFrom: z.coerce.date(),
+});
+
+export type InsertModelPrice = z.infer<typeof insertModelPriceSchema>;
+export type ModelPrice = typeof modelPrices.$inferSelect;
+
+// ============================================
+
+export const INDIVIDUAL_MODELS = MODEL_CATALOG
+  .filter((entry) => entry.listed)
+  .map((entry) => ({ id: entry.id, name: entry.displayName }));
 
 export const AVAILABLE_MODELS = [
   { id: "auto-router", name: "Auto Router" },
   { id: "all-models", name: "All Models" },
-  { id: "anthropic/claude-sonnet-4.5", name: "Claude Sonnet 4.5" },
-  { id: "meta-llama/llama-3.3-70b-instruct:cerebras", name: "Cerebras: Llama 3.3 70B" },
-  { id: "meta-llama/llama-4-maverick:groq", name: "Groq: Llama 4 Maverick" },
-  { id: "deepseek/deepseek-chat", name: "DeepSeek-V3" },
-  { id: "minimax/minimax-m2", name: "MiniMax M2" },
-  { id: "moonshotai/kimi-k2", name: "Kimi K2 (Moonshot)" },
-  { id: "qwen/qwen-2.5-72b-instruct", name: "Qwen 2.5 72B (Alibaba)" },
-  { id: "z-ai/glm-4-32b", name: "GLM-4.6 (Zhipu)" },
-  { id: "together/qwen-2.5-3b-instruct", name: "Qwen 2.5 3B (3B)" },
-  { id: "together/qwen-2.5-7b-instruct-turbo", name: "Qwen 2.5 7B Turbo (7B)" },
-  { id: "together/qwen-2.5-14b-instruct", name: "Qwen 2.5 14B (14B)" },
-  { id: "together/deepseek-r1-distill-llama-70b", name: "DeepSeek R1 Distill 70B (70B, reasoning)" },
-  { id: "together/deepseek-r1", name: "DeepSeek R1 (Frontier, reasoning)" },
-  { id: "together/qwq-32b", name: "QwQ 32B (Frontier, reasoning)" },
-] as const;
-
-export const INDIVIDUAL_MODELS = [
-  { id: "anthropic/claude-sonnet-4.5", name: "Claude Sonnet 4.5" },
-  { id: "meta-llama/llama-3.3-70b-instruct:cerebras", name: "Cerebras: Llama 3.3 70B" },
-  { id: "meta-llama/llama-4-maverick:groq", name: "Groq: Llama 4 Maverick" },
-  { id: "deepseek/deepseek-chat", name: "DeepSeek-V3" },
-  { id: "minimax/minimax-m2", name: "MiniMax M2" },
-  { id: "moonshotai/kimi-k2", name: "Kimi K2 (Moonshot)" },
-  { id: "qwen/qwen-2.5-72b-instruct", name: "Qwen 2.5 72B (Alibaba)" },
-  { id: "z-ai/glm-4-32b", name: "GLM-4.6 (Zhipu)" },
-  { id: "together/qwen-2.5-3b-instruct", name: "Qwen 2.5 3B (3B)" },
-  { id: "together/qwen-2.5-7b-instruct-turbo", name: "Qwen 2.5 7B Turbo (7B)" },
-  { id: "together/qwen-2.5-14b-instruct", name: "Qwen 2.5 14B (14B)" },
-  { id: "together/deepseek-r1-distill-llama-70b", name: "DeepSeek R1 Distill 70B (70B, reasoning)" },
-  { id: "together/deepseek-r1", name: "DeepSeek R1 (Frontier, reasoning)" },
-  { id: "together/qwq-32b", name: "QwQ 32B (Frontier, reasoning)" },
-] as const;
-
-// Model pricing per 1M tokens (USD)
-export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  "anthropic/claude-sonnet-4.5": { input: 3.00, output: 15.00 },
-  "meta-llama/llama-3.3-70b-instruct:cerebras": { input: 0.60, output: 0.60 },
-  "meta-llama/llama-4-maverick:groq": { input: 0.11, output: 0.34 },
-  "deepseek/deepseek-chat": { input: 0.14, output: 0.56 },
-  "minimax/minimax-m2": { input: 0.30, output: 1.20 },
-  "moonshotai/kimi-k2": { input: 0.14, output: 2.49 },
-  "qwen/qwen-2.5-72b-instruct": { input: 0.27, output: 0.27 },
-  "z-ai/glm-4-32b": { input: 0.10, output: 0.10 },
-  "together/qwen-2.5-3b-instruct": { input: 0.06, output: 0.06 },
-  "together/llama-3.2-3b-instruct-turbo": { input: 0.06, output: 0.06 },
-  "together/qwen-2.5-7b-instruct-turbo": { input: 0.10, output: 0.10 },
-  "together/qwen-2.5-14b-instruct": { input: 0.18, output: 0.18 },
-  "together/llama-4-maverick-17b": { input: 0.10, output: 0.10 },
-  "together/deepseek-r1-distill-llama-70b": { input: 2.00, output: 2.00 },
-  "together/deepseek-r1": { input: 3.00, output: 7.00 },
-  "together/qwq-32b": { input: 1.20, output: 1.20 },
-  "together/Qwen/Qwen3-Next-80B-A3B-Instruct": { input: 0.15, output: 0.15 },
-  "together/Qwen/Qwen2.5-72B-Instruct-Turbo": { input: 0.30, output: 0.30 },
-  "openrouter/qwen/qwen3-14b": { input: 0.10, output: 0.20 },
-  "openrouter/qwen/qwen3-4b:free": { input: 0.00, output: 0.00 },
-  "openrouter/qwen/qwen3-30b-a3b": { input: 0.06, output: 0.22 },
-  "openrouter/qwen/qwen3-8b": { input: 0.04, output: 0.12 },
-  "openrouter/qwen/qwen3-32b": { input: 0.20, output: 0.40 },
-  "openrouter/qwen/qwen2.5-72b-instruct": { input: 0.27, output: 0.27 },
-  "openrouter/anthropic/claude-sonnet-4": { input: 3.00, output: 15.00 },
-};
-
-// Helper to calculate cost from token counts
-export function calculateCost(modelId: string, inputTokens: number, outputTokens: number): number {
-  // Strip :online suffix for search models to use base model pricing
-  const baseModelId = modelId.replace(/:online$/, '');
-  const pricing = MODEL_PRICING[modelId] || MODEL_PRICING[baseModelId];
-  if (!pricing) return 0;
-  return (inputTokens * pricing.input / 1_000_000) + (outputTokens * pricing.output / 1_000_000);
-}
-
-// Calculate what the same tokens would cost using Claude (baseline)
-export function calculateClaudeCost(inputTokens: number, outputTokens: number): number {
-  const claudePricing = MODEL_PRICING["anthropic/claude-sonnet-4.5"];
-  return (inputTokens * claudePricing.input / 1_000_000) + (outputTokens * claudePricing.output / 1_000_000);
-}
+  ...INDIVIDUAL_MODELS,
+];
@@ -0,0 +1,67 @@
+// ============================================
+// TOKENIZER
+// ============================================
+// Tokenizer families shared by the server cost math and the client token gauge.
+// Each model maps to a tokenizer family; only models whose family we can't
+// identify fall back to the ~4 chars/token estimate, and that result is flagged.
+// This module only carries the cl100k vocabulary, which the gauge uses, so the client
+// bundle stays small; the server counts with every family (server/tokenizer.ts).
+
+import { countTokens as countCl100kTokens } from "gpt-tokenizer/encoding/cl100k_base";
+import { getCatalogEntry } from "./models";
+
+export type TokenizerFamily =
+  | "o200k"     // GPT-4o / gpt-oss style BPE
+  | "cl100k"    // GPT-4 / GPT-3.5 style BPE
+  | "llama3"    // Llama 3.x (128K vocab)
+  | "qwen"      // Qwen 2.5 / Qwen3 / QwQ and the R1 Qwen distills (151K vocab)
+  | "deepseek"  // DeepSeek V3 / R1 (128K vocab)
+  | "estimate"; // Unknown family - ~4 chars per token
+
+export interface TokenCount {
+  tokens: number;
+  family: TokenizerFamily;
+  estimated: boolean;  // true when the ~4 chars/token fallback was used
+}
+
+// Whether token counts came from the provider's usage report or from counting them ourselves
+export type UsageSource = "reported" | "estimated";
+
+// Family used when no model is given: the wind tunnel gauge, which is shared by every
+// column, and the server's context-window check, so both cut at the same count
+export const DEFAULT_TOKENIZER_FAMILY: TokenizerFamily = "cl100k";
+
+export const TOKENIZER_LABELS: Record<TokenizerFamily, string> = {
+  o200k: "o200k BPE",
+  cl100k: "cl100k BPE",
+  llama3: "Llama 3",
+  qwen: "Qwen",
+  deepseek: "DeepSeek V3",
+  estimate: "estimate (~4 chars/token)",
+};
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Accepts a catalog ID or a provider's upstream ID (adapters only see the latter).
+// Claude, GLM, Kimi, MiniMax and Llama 4 don't publish a tokenizer we can run, so they're estimates.
+export function getTokenizerFamily(modelId: string): TokenizerFamily {
+  const entry = getCatalogEntry(modelId);
+  const name = `${entry?.id ?? ""} ${entry?.upstreamId ?? modelId}`.toLowerCase();
+
+  if (name.includes("gpt-oss") || name.includes("gpt-4o")) return "o200k";
+  if (name.includes("gpt-4") || name.includes("gpt-3.5")) return "cl100k";
+  // R1 distills use their base model's tokenizer
+  if (name.includes("distill-qwen")) return "qwen";
+  if (name.includes("distill-llama")) return "llama3";
+  if (name.includes("qwen") || name.includes("qwq")) return "qwen";
+  if (name.includes("deepseek")) return "deepseek";
+  if (/llama[-_ ]?3/.test(name)) return "llama3";
+  return "estimate";
+}
+
+// The gauge's count (DEFAULT_TOKENIZER_FAMILY)
+export function countGaugeTokens(text: string): number {
+  return countCl100kTokens(text);
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests sit next to the modules they cover (server/*.test.ts)
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    // Storage is loaded (through the providers) but never queried
+    env: { DATABASE_URL: "postgres://test@localhost/test" },
+  },
+});